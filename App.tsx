@@ -1,18 +1,50 @@
 
 import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
-import { INITIAL_DATA, INITIAL_CHARGING, INITIAL_BATTERY } from './constants';
-import { PowerItem, ChargingSource, BatteryConfig, LoadCategory, ChatMode, AppStateExport } from './types';
-import { calculateSystemTotals, calculateItemEnergy, getEffectiveSolarHours } from './services/powerLogic';
-import { geocodeLocation, fetchNowSolarPSH, fetchMonthAvgSolarPSH, searchLocations, LatLon } from './services/weatherService';
+import { INITIAL_DATA, INITIAL_CHARGING, INITIAL_BATTERY, DEFAULT_SOLAR_ARRAY, DEFAULT_UPGRADE_CATALOGUE, SEED_PARTS, DEFAULT_FINANCE, DEFAULT_CONTROLLER, DEFAULT_LIVE_SETTINGS, DEFAULT_HISTORY_DEPTH, HISTORY_DEPTH_OPTIONS } from './constants';
+import { PowerItem, ChargingSource, BatteryConfig, BatteryBank, Inverter, ChargeController, LoadCategory, ChatMode, AppStateExport, Scenario, UpgradeCandidate, UpgradePick, PartEntry, FinanceSettings, TelemetryImport, CalibrationSuggestion, LiveSettings, LiveStatus, LiveReading, JournalEntry, JournalActual, SheddingAction, HistorySlice, HistorySnapshot, EditHistory } from './types';
+import { calculateSystemTotals, calculateItemEnergy, getEffectiveSolarHours, getBatteryBanks, syncHouseBank, getSiteLatitude, normalizeDailySolarHours, getLoadConditions } from './services/powerLogic';
+import { simulateDay, simulateMultiDay } from './services/simulation';
+import { analysePeakDemand } from './services/peakAnalysis';
+import { createScenario, getCloneName, getUniqueName } from './services/scenarios';
+import { applyUpgrade } from './services/optimiser';
+import { checkControllers } from './services/controllers';
+import { connectLive } from './services/liveData';
+import { applyShedding, restoreShedding } from './services/shedding';
+import { EMPTY_HISTORY, takeSnapshot, pushEdit, undoEdit, redoEdit, trimHistory } from './services/history';
+import { snapshotPlan, upsertJournalPlan, upsertJournalActual, fillFromTelemetry, learnFactors, applyLearnedFactors, getRigScenarioId } from './services/journal';
+import { toDateKey } from './services/telemetry';
+import { itemFromPart, sourceFromPart, pushPartToRows, countPartUsage, getPartLabel } from './services/partsLibrary';
+import { geocodeLocation, fetchNowSolarPSH, fetchMonthAvgSolarPSH, fetchRecordLowC, searchLocations, getDailyHourlySeries, LatLon } from './services/weatherService';
 import EnergyTable from './components/EnergyTable';
 import ChargingTable from './components/ChargingTable';
 import SummaryPanel from './components/SummaryPanel';
 import ChatBot from './components/ChatBot';
 import HeaderGraph from './components/HeaderGraph';
+import BatteryBankTable from './components/BatteryBankTable';
+import InverterTable from './components/InverterTable';
+import ControllerTable from './components/ControllerTable';
+import ForecastStrip from './components/ForecastStrip';
+import YearPlanner from './components/YearPlanner';
+import ScenarioBar from './components/ScenarioBar';
+import ScenarioCompare from './components/ScenarioCompare';
+import UpgradeOptimiser from './components/UpgradeOptimiser';
+import LoadShedding from './components/LoadShedding';
+import PartsLibrary from './components/PartsLibrary';
+import FinanceView from './components/FinanceView';
+import DegradationView from './components/DegradationView';
+import TelemetryView from './components/TelemetryView';
+import LiveConnection from './components/LiveConnection';
+import JournalView from './components/JournalView';
 
 const STORAGE_KEY = "solsum_state_v2_9";
 const STORAGE_SCHEMA_VERSION = "2.9";
 const FORECAST_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const HISTORY_STORAGE_KEY = "solsum_history_v1";
+
+// Free text keeps the browser's own undo; everywhere else Ctrl+Z is the app's
+const isTextEntry = (target: EventTarget | null) =>
+  target instanceof HTMLTextAreaElement || (target instanceof HTMLElement && target.isContentEditable)
+  || (target instanceof HTMLInputElement && ['text', 'search', 'password', 'email', 'url'].includes(target.type));
 
 const App: React.FC = () => {
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -63,6 +95,8 @@ const App: React.FC = () => {
       ...INITIAL_BATTERY,
       forecastMode: 'now' as const,
       forecastMonth: defaultMonth,
+      // Older saves model inverter standby as System Mgmt rows; don't double count it.
+      inverters: [],
       ...savedBat
     };
 
@@ -76,9 +110,42 @@ const App: React.FC = () => {
       const isFresh = (Date.now() - updatedAt) < FORECAST_TTL_MS;
       merged.forecast.fetched = isFresh ? (merged.forecast.fetched || false) : false;
     }
-    return merged;
+    return syncHouseBank(merged);
   });
   
+  // Only inactive scenarios hold live data; the active one is mirrored from items/charging/battery
+  const [scenarios, setScenarios] = useState<Scenario[]>(() =>
+    savedData?.scenarios?.length ? savedData.scenarios : [createScenario('Current rig', items, charging, battery)]
+  );
+  const [activeScenarioId, setActiveScenarioId] = useState<string>(() =>
+    scenarios.some(s => s.id === savedData?.activeScenarioId) ? savedData.activeScenarioId : scenarios[0].id
+  );
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [upgradeCatalogue, setUpgradeCatalogue] = useState<UpgradeCandidate[]>(() => savedData?.upgradeCatalogue || DEFAULT_UPGRADE_CATALOGUE);
+  const [parts, setParts] = useState<PartEntry[]>(() => savedData?.parts || SEED_PARTS);
+  const [finance, setFinance] = useState<FinanceSettings>(() => savedData?.finance || DEFAULT_FINANCE);
+  const [telemetry, setTelemetry] = useState<TelemetryImport | undefined>(() => savedData?.telemetry);
+  const [journal, setJournal] = useState<JournalEntry[]>(() => savedData?.journal || []);
+  const [rigScenarioId, setRigScenarioId] = useState<string | undefined>(() => savedData?.rigScenarioId);
+  const journalScenarioId = getRigScenarioId(scenarios, rigScenarioId);
+  const isRigActive = activeScenarioId === journalScenarioId;
+  const [live, setLive] = useState<LiveSettings>(() => ({ ...DEFAULT_LIVE_SETTINGS, ...savedData?.live }));
+  const [liveStatus, setLiveStatus] = useState<{ status: LiveStatus; message?: string }>({ status: 'off' });
+  const [liveReading, setLiveReading] = useState<LiveReading | null>(null);
+  const [historyDepth, setHistoryDepth] = useState<number>(() => savedData?.historyDepth || DEFAULT_HISTORY_DEPTH);
+  const [history, setHistory] = useState<Record<string, EditHistory>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) || '{}');
+    } catch (e) {
+      return {};
+    }
+  });
+  const [libraryFor, setLibraryFor] = useState<{ kind: 'load', category: LoadCategory } | { kind: 'source' } | null>(null);
+  const liveScenarios = useMemo(
+    () => scenarios.map(s => s.id === activeScenarioId ? { ...s, items, charging, battery } : s),
+    [scenarios, activeScenarioId, items, charging, battery]
+  );
+
   const [chatOpen, setChatOpen] = useState(false);
   const [chatMode, setChatMode] = useState<ChatMode>('general');
   const [highlightedRow, setHighlightedRow] = useState<{ id: string, kind: 'load' | 'source' } | null>(null);
@@ -93,16 +160,91 @@ const App: React.FC = () => {
     const state = {
       version: STORAGE_SCHEMA_VERSION,
       savedAt: Date.now(),
-      data: { items, charging, battery }
+      data: { items, charging, battery, scenarios: liveScenarios, activeScenarioId, upgradeCatalogue, parts, finance, telemetry, live, journal, rigScenarioId, historyDepth }
     };
     if (items.length === 0 && charging.length === 0) return;
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
-  }, [items, charging, battery, hasHydrated]);
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch (e) {
+      console.warn("Failed to save state", e);
+    }
+  }, [items, charging, battery, liveScenarios, activeScenarioId, upgradeCatalogue, parts, finance, telemetry, live, journal, rigScenarioId, historyDepth, hasHydrated]);
+
+  // Undo stacks live under their own key, so they never bloat the saved config or its export
+  useEffect(() => {
+    if (!hasHydrated) return;
+    const kept = Object.fromEntries(Object.entries(history).filter(([id]) => scenarios.some(s => s.id === id)));
+    try {
+      localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(kept));
+    } catch (e) {
+      console.warn("Failed to save edit history", e);
+    }
+  }, [history, scenarios, hasHydrated]);
+
+  // Handlers record against the state of the last render; edits never outpace a render
+  const editStateRef = useRef({ items, charging, battery, activeScenarioId, historyDepth, scenarios });
+  editStateRef.current = { items, charging, battery, activeScenarioId, historyDepth, scenarios };
+
+  const recordEdit = useCallback((label: string, slices: HistorySlice[], key?: string, scenarioId?: string) => {
+    const { activeScenarioId, historyDepth, scenarios, ...state } = editStateRef.current;
+    const id = scenarioId ?? activeScenarioId;
+    const entry = { label, key, at: Date.now(), snapshot: takeSnapshot(state, slices) };
+    // The previous step shrinks to a patch against the state its own scenario is in now
+    const current = id === activeScenarioId ? state : scenarios.find(s => s.id === id) || state;
+    setHistory(prev => ({ ...prev, [id]: pushEdit(prev[id] || EMPTY_HISTORY, entry, historyDepth, current) }));
+  }, []);
 
   const totals = useMemo(() => calculateSystemTotals(items, charging, battery), [items, charging, battery]);
+  const simulation = useMemo(() => simulateDay(items, charging, battery), [items, charging, battery]);
+  const multiDay = useMemo(() => {
+    const daily = normalizeDailySolarHours(battery);
+    if (daily.length === 0) return undefined;
+    const forecastDays = battery.forecast?.days;
+    return simulateMultiDay(items, charging, battery, daily.map(d => d.fallbackValue), {
+      dailyAmbientC: battery.forecast?.dailyTempMaxC,
+      dailyHourly: getDailyHourlySeries(battery.forecast),
+      startDate: forecastDays?.length ? new Date(`${forecastDays[0].date}T12:00`) : undefined
+    });
+  }, [items, charging, battery]);
+  const peak = useMemo(() => analysePeakDemand(items, battery), [items, battery]);
+  const overVoltageIds = useMemo(() => checkControllers(charging, battery).flatMap(c => c.overVoltage), [charging, battery]);
+  const loadConditions = useMemo(() => getLoadConditions(battery), [battery]);
+
+  // 'Now' mode plans today, so today's journal entry follows the real rig's plan as it changes
+  useEffect(() => {
+    if (!isRigActive || battery.forecastMode !== 'now' || !battery.forecast?.fetched || battery.forecast.loading) return;
+    const today = toDateKey(Date.now());
+    setJournal(prev => upsertJournalPlan(prev, today, snapshotPlan(items, charging, battery, today)));
+  }, [items, charging, battery, isRigActive]);
+
+  // New factors are an edit like any other, so they can be undone
+  useEffect(() => {
+    const current = editStateRef.current.charging;
+    const next = applyLearnedFactors(current, learnFactors(journal, current));
+    if (next === current) return;
+    recordEdit('Learn solar factors', ['charging'], 'journal:factors');
+    setCharging(next);
+  }, [journal, activeScenarioId, recordEdit]);
+
+  const simulationRef = useRef(simulation);
+  simulationRef.current = simulation;
+
+  // Live connection. Only connection fields reconnect; the mock replays the plan as it stood at connect.
+  useEffect(() => {
+    setLiveReading(null);
+    if (!live.enabled) {
+      setLiveStatus({ status: 'off' });
+      return;
+    }
+    return connectLive(live, {
+      onReading: setLiveReading,
+      onStatus: (status, message) => setLiveStatus({ status, message })
+    }, simulationRef.current);
+  }, [live.enabled, live.protocol, live.url, live.token, live.username, live.password, live.entities]);
 
   // Handle Location Typing & Search
   const handleLocationChange = (val: string) => {
+    recordEdit('Edit location', ['battery'], 'battery:location');
     setBattery(prev => ({ ...prev, location: val, geo: undefined }));
     setShowSuggestions(true);
 
@@ -120,6 +262,7 @@ const App: React.FC = () => {
 
   const handleSelectLocation = (loc: LatLon) => {
     const fullName = [loc.name, loc.admin1, loc.country].filter(Boolean).join(', ');
+    recordEdit(`Set location ${fullName}`, ['battery']);
     setBattery(prev => ({
       ...prev,
       location: fullName,
@@ -158,11 +301,19 @@ const App: React.FC = () => {
         let forecastData: any = {};
         if (battery.forecastMode === 'now') {
           const nowPSH = await fetchNowSolarPSH(lat, lon);
-          forecastData = { nowHours: nowPSH, sunnyHours: undefined, cloudyHours: undefined };
+          forecastData = {
+            nowHours: nowPSH.now, dailyHours: nowPSH.daily, tempMaxC: nowPSH.tempMax, dailyTempMaxC: nowPSH.dailyTempMax,
+            hourly: nowPSH.hourly, days: nowPSH.days, solarTimeOffsetH: nowPSH.solarTimeOffsetH,
+            sunnyHours: undefined, cloudyHours: undefined, p10Hours: undefined, p50Hours: undefined, p90Hours: undefined, longestLowRun: undefined
+          };
         } else {
           const apiMonth = (battery.forecastMonth || '').split('-').slice(0, 2).join('-');
-          const monthPSH = await fetchMonthAvgSolarPSH(lat, lon, apiMonth);
-          forecastData = { sunnyHours: monthPSH.sunny, cloudyHours: monthPSH.cloudy, nowHours: undefined };
+          const monthPSH = await fetchMonthAvgSolarPSH(lat, lon, apiMonth, battery.climatologyYears || 1);
+          forecastData = {
+            sunnyHours: monthPSH.sunny, cloudyHours: monthPSH.cloudy, dailyHours: monthPSH.daily, tempMaxC: monthPSH.tempMax, dailyTempMaxC: monthPSH.dailyTempMax,
+            p10Hours: monthPSH.p10, p50Hours: monthPSH.p50, p90Hours: monthPSH.p90, longestLowRun: monthPSH.longestLowRun, climatologyYears: monthPSH.years,
+            nowHours: undefined, hourly: undefined, days: undefined
+          };
         }
 
         setBattery(prev => ({ 
@@ -188,17 +339,50 @@ const App: React.FC = () => {
     
     const timer = setTimeout(updateForecast, 800);
     return () => clearTimeout(timer);
-  }, [battery.location, battery.geo, battery.forecastMode, battery.forecastMonth]);
+  }, [battery.location, battery.geo, battery.forecastMode, battery.forecastMonth, battery.climatologyYears]);
+
+  // Site record low for panel Voc checks. Independent of the forecast mode, so fetched once per site.
+  useEffect(() => {
+    const lat = battery.forecast?.lat;
+    const lon = battery.forecast?.lon;
+    if (lat === undefined || lon === undefined) return;
+    let cancelled = false;
+    fetchRecordLowC(lat, lon)
+      .then(recordLowC => {
+        if (cancelled || recordLowC === null) return;
+        setBattery(prev => prev.forecast ? { ...prev, forecast: { ...prev.forecast, recordLowC } } : prev);
+      })
+      .catch(e => console.error("Record low fetch failed", e));
+    return () => { cancelled = true; };
+  }, [battery.forecast?.lat, battery.forecast?.lon]);
 
   const handleUpdateItem = useCallback((id: string, field: keyof PowerItem, value: any) => {
+    const name = editStateRef.current.items.find(i => i.id === id)?.name;
+    recordEdit(`Edit ${name || 'load'} ${field}`, ['items'], `item:${id}:${field}`);
     setItems(prev => prev.map(item => item.id === id ? { ...item, [field]: value } : item));
+  }, [recordEdit]);
+
+  const handleApplyCalibration = useCallback((suggestion: CalibrationSuggestion) => {
+    handleUpdateItem(suggestion.itemId, suggestion.field, suggestion.suggested);
+  }, [handleUpdateItem]);
+
+  const handleRecordToday = () => {
+    if (!isRigActive) return;
+    const today = toDateKey(Date.now());
+    setJournal(prev => upsertJournalPlan(prev, today, snapshotPlan(items, charging, battery, today)));
+  };
+
+  const handleUpdateJournalActual = useCallback((date: string, actual: JournalActual | undefined) => {
+    setJournal(prev => upsertJournalActual(prev, date, actual));
   }, []);
 
   const handleDeleteItem = useCallback((id: string) => {
+    recordEdit(`Delete ${editStateRef.current.items.find(i => i.id === id)?.name || 'load'}`, ['items']);
     setItems(prev => prev.filter(item => item.id !== id));
-  }, []);
+  }, [recordEdit]);
 
   const handleAddItem = useCallback((category: LoadCategory) => {
+    recordEdit('Add load', ['items']);
     setItems(prev => [...prev, {
       id: Math.random().toString(36).substr(2, 9),
       category,
@@ -210,9 +394,10 @@ const App: React.FC = () => {
       notes: '',
       enabled: true
     }]);
-  }, []);
+  }, [recordEdit]);
 
   const handleReorderItems = useCallback((fromId: string, toId: string) => {
+    recordEdit('Reorder loads', ['items']);
     setItems(prev => {
       const fromIndex = prev.findIndex(i => i.id === fromId);
       const toIndex = prev.findIndex(i => i.id === toId);
@@ -222,10 +407,11 @@ const App: React.FC = () => {
       newItems.splice(toIndex, 0, movedItem);
       return newItems;
     });
-  }, []);
+  }, [recordEdit]);
 
   const handleAIAddLoad = useCallback((itemProps: Omit<PowerItem, 'id'>) => {
     const id = Math.random().toString(36).substr(2, 9);
+    recordEdit(`AI add ${itemProps.name || 'load'}`, ['items']);
     setItems(prev => [...prev, { 
       id, quantity: 1, watts: 0, dutyCycle: 100, notes: '', ...itemProps,
       hours: itemProps.hours === 0 ? 0 : (Number(itemProps.hours) || 1),
@@ -233,24 +419,49 @@ const App: React.FC = () => {
     }]);
     setHighlightedRow({ id, kind: 'load' });
     setTimeout(() => setHighlightedRow(null), 2500);
-  }, []);
+  }, [recordEdit]);
 
-  const handleAIAddSource = useCallback((sourceProps: Omit<ChargingSource, 'id'>) => {
+  const handleAIAddSource = useCallback((sourceProps: Omit<ChargingSource, 'id'> & { tempCoeffPct?: number, noctC?: number }) => {
     const id = Math.random().toString(36).substr(2, 9);
+    const { tempCoeffPct, noctC, ...props } = sourceProps;
+    // Datasheet thermal specs switch the row to the physical array model
+    const array = props.type === 'solar' && (tempCoeffPct !== undefined || noctC !== undefined)
+      ? {
+          ...DEFAULT_SOLAR_ARRAY,
+          azimuthDeg: getSiteLatitude(battery) < 0 ? 0 : 180,
+          tempCoeffPct: Number(tempCoeffPct) || DEFAULT_SOLAR_ARRAY.tempCoeffPct,
+          noctC: Number(noctC) || DEFAULT_SOLAR_ARRAY.noctC
+        }
+      : undefined;
+    recordEdit(`AI add ${props.name || 'source'}`, ['charging']);
     setCharging(prev => [...prev, { 
-      id, quantity: 1, input: 0, efficiency: 0.85, ...sourceProps, 
-      hours: sourceProps.hours === 0 ? 0 : (Number(sourceProps.hours) || 5),
+      id, quantity: 1, input: 0, efficiency: 0.85, ...props, 
+      hours: props.hours === 0 ? 0 : (Number(props.hours) || 5),
+      ...(array ? { array } : {}),
       enabled: true 
     }]);
     setHighlightedRow({ id, kind: 'source' });
     setTimeout(() => setHighlightedRow(null), 2500);
-  }, []);
+  }, [battery, recordEdit]);
 
   const handleUpdateSource = useCallback((id: string, field: keyof ChargingSource, value: any) => {
+    const name = editStateRef.current.charging.find(s => s.id === id)?.name;
+    recordEdit(`Edit ${name || 'source'} ${field}`, ['charging'], `source:${id}:${field}`);
     setCharging(prev => prev.map(s => s.id === id ? { ...s, [field]: value } : s));
-  }, []);
+  }, [recordEdit]);
+
+  const handleAddSource = useCallback(() => {
+    recordEdit('Add source', ['charging']);
+    setCharging(prev => [...prev, { id: Math.random().toString(36).substr(2, 9), name: 'New Source', quantity: 1, input: 0, unit: 'W', efficiency: 0.9, type: 'solar', hours: 5, autoSolar: false, enabled: true }]);
+  }, [recordEdit]);
+
+  const handleDeleteSource = useCallback((id: string) => {
+    recordEdit(`Delete ${editStateRef.current.charging.find(s => s.id === id)?.name || 'source'}`, ['charging']);
+    setCharging(prev => prev.filter(s => s.id !== id));
+  }, [recordEdit]);
 
   const handleReorderSources = useCallback((fromId: string, toId: string) => {
+    recordEdit('Reorder sources', ['charging']);
     setCharging(prev => {
       const fromIndex = prev.findIndex(i => i.id === fromId);
       const toIndex = prev.findIndex(i => i.id === toId);
@@ -260,14 +471,254 @@ const App: React.FC = () => {
       newSources.splice(toIndex, 0, movedSource);
       return newSources;
     });
-  }, []);
+  }, [recordEdit]);
+
+  // Live SoC sync passes record: false; a reading is not an edit
+  const handleUpdateBattery = useCallback((field: keyof BatteryConfig, value: any, record = true) => {
+    if (record) recordEdit(`Edit ${field}`, ['battery'], `battery:${field}`);
+    setBattery(prev => {
+      const next = { ...prev, [field]: value };
+      // Top-bar SoC edits the house bank
+      if (field === 'initialSoC' && prev.banks?.length) {
+        next.banks = prev.banks.map((b, i) => i === 0 ? { ...b, initialSoC: value } : b);
+      }
+      return next;
+    });
+  }, [recordEdit]);
 
-  const handleUpdateBattery = useCallback((field: keyof BatteryConfig, value: any) => {
-    setBattery(prev => ({ ...prev, [field]: value }));
-  }, []);
+  useEffect(() => {
+    if (!live.syncSoC || liveReading?.socPct === undefined) return;
+    const soc = Math.round(liveReading.socPct);
+    if (soc !== Math.round(Number(battery.initialSoC))) handleUpdateBattery('initialSoC', soc, false);
+  }, [liveReading?.socPct, live.syncSoC, battery.initialSoC, handleUpdateBattery]);
+
+  const handleUpdateBank = useCallback((id: string, field: keyof BatteryBank, value: any) => {
+    recordEdit(`Edit bank ${field}`, ['battery'], `bank:${id}:${field}`);
+    setBattery(prev => syncHouseBank({
+      ...prev,
+      banks: getBatteryBanks(prev).map(b => b.id === id ? { ...b, [field]: value } : b)
+    }));
+  }, [recordEdit]);
+
+  const handleAddBank = useCallback(() => {
+    recordEdit('Add bank', ['battery']);
+    setBattery(prev => syncHouseBank({
+      ...prev,
+      banks: [...getBatteryBanks(prev), {
+        id: Math.random().toString(36).substr(2, 9),
+        name: 'Aux Bank',
+        chemistry: 'agm',
+        moduleVoltage: 12,
+        moduleAh: 100,
+        seriesCount: 1,
+        parallelCount: 1,
+        initialSoC: 100
+      }]
+    }));
+  }, [recordEdit]);
+
+  const handleDeleteBank = useCallback((id: string) => {
+    recordEdit('Delete bank', ['battery']);
+    setBattery(prev => {
+      const banks = getBatteryBanks(prev);
+      if (banks.length <= 1) return prev;
+      return syncHouseBank({ ...prev, banks: banks.filter(b => b.id !== id) });
+    });
+  }, [recordEdit]);
+
+  const handleUpdateInverter = useCallback((id: string, field: keyof Inverter, value: any) => {
+    recordEdit(`Edit inverter ${field}`, ['battery'], `inverter:${id}:${field}`);
+    setBattery(prev => ({
+      ...prev,
+      inverters: (prev.inverters || []).map(inv => inv.id === id ? { ...inv, [field]: value } : inv)
+    }));
+  }, [recordEdit]);
+
+  const handleAddInverter = useCallback(() => {
+    recordEdit('Add inverter', ['battery']);
+    setBattery(prev => ({
+      ...prev,
+      inverters: [...(prev.inverters || []), {
+        id: Math.random().toString(36).substr(2, 9),
+        name: 'New Inverter',
+        ratedW: 2000,
+        surgeW: 4000,
+        idleW: 20,
+        hoursOn: 4,
+        preset: 'hf'
+      }]
+    }));
+  }, [recordEdit]);
+
+  const handleDeleteInverter = useCallback((id: string) => {
+    recordEdit('Delete inverter', ['battery']);
+    setBattery(prev => ({ ...prev, inverters: (prev.inverters || []).filter(inv => inv.id !== id) }));
+  }, [recordEdit]);
+
+  const handleUpdateController = useCallback((id: string, field: keyof ChargeController, value: any) => {
+    recordEdit(`Edit controller ${field}`, ['battery'], `controller:${id}:${field}`);
+    setBattery(prev => ({
+      ...prev,
+      controllers: (prev.controllers || []).map(c => c.id === id ? { ...c, [field]: value } : c)
+    }));
+  }, [recordEdit]);
+
+  const handleAddController = useCallback(() => {
+    recordEdit('Add controller', ['battery']);
+    setBattery(prev => ({
+      ...prev,
+      controllers: [...(prev.controllers || []), { id: Math.random().toString(36).substr(2, 9), ...DEFAULT_CONTROLLER }]
+    }));
+  }, [recordEdit]);
+
+  const handleDeleteController = useCallback((id: string) => {
+    recordEdit('Delete controller', ['battery', 'charging']);
+    setBattery(prev => ({ ...prev, controllers: (prev.controllers || []).filter(c => c.id !== id) }));
+    setCharging(prev => prev.map(c => c.controllerId === id ? { ...c, controllerId: undefined } : c));
+  }, [recordEdit]);
+
+  const loadScenario = (target: Scenario) => {
+    setItems(target.items.map(i => ({ ...i, enabled: i.enabled ?? true })));
+    setCharging(target.charging.map(c => ({ ...c, enabled: c.enabled ?? true })));
+    setBattery(prev => {
+      // Same site and period: keep the fresher live forecast instead of the snapshot's
+      const sameSite = prev.location === target.battery.location && prev.forecastMode === target.battery.forecastMode
+        && prev.forecastMonth === target.battery.forecastMonth && prev.climatologyYears === target.battery.climatologyYears;
+      return syncHouseBank({ ...target.battery, forecast: sameSite ? prev.forecast : target.battery.forecast });
+    });
+    setActiveScenarioId(target.id);
+  };
+
+  const handleSwitchScenario = (id: string) => {
+    if (id === activeScenarioId) return;
+    const target = scenarios.find(s => s.id === id);
+    if (!target) return;
+    setScenarios(liveScenarios.map(s => s.id === activeScenarioId ? { ...s, updatedAt: Date.now() } : s));
+    loadScenario(target);
+  };
+
+  const handleCloneScenario = () => {
+    const active = liveScenarios.find(s => s.id === activeScenarioId);
+    const clone = createScenario(getCloneName(active?.name || 'Scenario', scenarios), items, charging, battery);
+    setScenarios([...liveScenarios, clone]);
+    setActiveScenarioId(clone.id);
+  };
+
+  const handleRenameScenario = (id: string, name: string) => {
+    setScenarios(prev => prev.map(s => s.id === id ? { ...s, name } : s));
+  };
+
+  const handleDeleteScenario = (id: string) => {
+    if (scenarios.length <= 1) return;
+    const target = scenarios.find(s => s.id === id);
+    if (!target || !confirm(`Delete scenario "${target.name}"?`)) return;
+    const remaining = liveScenarios.filter(s => s.id !== id);
+    setScenarios(remaining);
+    setCompareIds(prev => prev.filter(c => c !== id));
+    if (id === activeScenarioId) loadScenario(remaining[0]);
+  };
+
+  const handleToggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(c => c !== id) : [...prev, id]);
+  };
+
+  const handleApplyUpgrade = (picks: UpgradePick[]) => {
+    const upgraded = applyUpgrade(charging, battery, picks, upgradeCatalogue);
+    recordEdit('Apply upgrade', ['charging', 'battery']);
+    setCharging(upgraded.charging);
+    setBattery(upgraded.battery);
+  };
+
+  const handleApplyShedding = (actions: SheddingAction[]) => {
+    recordEdit('Apply load shedding', ['items']);
+    setItems(prev => applyShedding(prev, actions));
+  };
+
+  const handleRestoreShedding = (ids?: string[]) => {
+    recordEdit('Restore shed loads', ['items']);
+    setItems(prev => restoreShedding(prev, ids));
+  };
+
+  const applySnapshot = (snapshot: HistorySnapshot) => {
+    if (snapshot.items) setItems(snapshot.items);
+    if (snapshot.charging) setCharging(snapshot.charging);
+    if (snapshot.battery) setBattery(prev => syncHouseBank({ ...snapshot.battery!, forecast: prev.forecast }));
+  };
+
+  const activeHistory = history[activeScenarioId] || EMPTY_HISTORY;
+
+  const handleUndo = () => {
+    const step = undoEdit(activeHistory, { items, charging, battery });
+    if (!step) return;
+    applySnapshot(step.snapshot);
+    setHistory(prev => ({ ...prev, [activeScenarioId]: step.history }));
+  };
+
+  const handleRedo = () => {
+    const step = redoEdit(activeHistory, { items, charging, battery });
+    if (!step) return;
+    applySnapshot(step.snapshot);
+    setHistory(prev => ({ ...prev, [activeScenarioId]: step.history }));
+  };
+
+  const handleHistoryDepth = (depth: number) => {
+    setHistoryDepth(depth);
+    setHistory(prev => Object.fromEntries(Object.entries(prev).map(([id, h]) => [id, trimHistory(h, depth)])));
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextEntry(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key !== 'z' && key !== 'y') return;
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [activeHistory, items, charging, battery]);
+
+  const handleApplyUpgradeAsScenario = (picks: UpgradePick[], name: string) => {
+    const upgraded = applyUpgrade(charging, battery, picks, upgradeCatalogue);
+    const scenario = createScenario(getUniqueName(name, scenarios), items, upgraded.charging, upgraded.battery);
+    setScenarios([...liveScenarios, scenario]);
+    loadScenario(scenario);
+  };
+
+  const handlePickPart = (part: PartEntry) => {
+    if (libraryFor?.kind === 'load') {
+      const item = itemFromPart(part, libraryFor.category);
+      recordEdit(`Add ${item.name}`, ['items']);
+      setItems(prev => [...prev, item]);
+      setHighlightedRow({ id: item.id, kind: 'load' });
+    } else {
+      const source = sourceFromPart(part, getSiteLatitude(battery));
+      recordEdit(`Add ${source.name}`, ['charging']);
+      setCharging(prev => [...prev, source]);
+      setHighlightedRow({ id: source.id, kind: 'source' });
+    }
+    setTimeout(() => setHighlightedRow(null), 2500);
+    setLibraryFor(null);
+  };
+
+  const handleSavePart = (part: PartEntry) => {
+    const saved = { ...part, updatedAt: Date.now() };
+    setParts(prev => prev.some(p => p.id === part.id) ? prev.map(p => p.id === part.id ? saved : p) : [...prev, saved]);
+  };
+
+  // Re-apply the library spec to every linked row, inactive scenarios included
+  const handlePushPart = (part: PartEntry) => {
+    const pushed = pushPartToRows(part, items, charging);
+    recordEdit(`Push ${getPartLabel(part)} to rows`, ['items', 'charging']);
+    setItems(pushed.items);
+    setCharging(pushed.charging);
+    setScenarios(prev => prev.map(sc => sc.id === activeScenarioId ? sc : { ...sc, ...pushPartToRows(part, sc.items, sc.charging) }));
+  };
 
   const handleExport = () => {
-    const data: AppStateExport = { version: STORAGE_SCHEMA_VERSION, items, charging, battery };
+    const data: AppStateExport = { version: STORAGE_SCHEMA_VERSION, items, charging, battery, scenarios: liveScenarios, activeScenarioId, parts, finance, telemetry,
+      live: { ...live, enabled: false, token: undefined, password: undefined }, journal, rigScenarioId: journalScenarioId };
     const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -287,9 +738,27 @@ const App: React.FC = () => {
     reader.onload = (event) => {
       try {
         const data = JSON.parse(event.target?.result as string);
+        const importedScenarios = Array.isArray(data.scenarios) && data.scenarios.length ? data.scenarios as Scenario[] : null;
+        const nextActiveId = importedScenarios
+          ? (importedScenarios.some(sc => sc.id === data.activeScenarioId) ? data.activeScenarioId : importedScenarios[0].id)
+          : activeScenarioId;
+        // Undo lands the previous config in whichever scenario the file makes active
+        recordEdit('Import config', ['items', 'charging', 'battery'], undefined, nextActiveId);
         if (data.items) setItems(data.items.map((i: any) => ({ ...i, enabled: i.enabled ?? true })));
         if (data.charging) setCharging(data.charging.map((c: any) => ({ ...c, enabled: c.enabled ?? true })));
-        if (data.battery) setBattery(data.battery);
+        if (data.battery) setBattery(syncHouseBank(data.battery));
+        if (importedScenarios) {
+          setScenarios(importedScenarios);
+          setActiveScenarioId(nextActiveId);
+          setCompareIds([]);
+        }
+        if (Array.isArray(data.parts)) setParts(data.parts);
+        if (data.finance) setFinance(data.finance);
+        if (data.telemetry) setTelemetry(data.telemetry);
+        if (Array.isArray(data.journal)) setJournal(data.journal);
+        if (importedScenarios) setRigScenarioId(data.rigScenarioId);
+        // Exports carry no credentials, so keep this device's
+        if (data.live) setLive(prev => ({ ...DEFAULT_LIVE_SETTINGS, ...data.live, enabled: false, token: prev.token, password: prev.password }));
         alert(`Config v${data.version || '?' } imported.`);
       } catch (err) { alert("Import failed."); }
     };
@@ -311,7 +780,7 @@ const App: React.FC = () => {
              </div>
           </div>
           <div className="hidden md:block flex-1 max-w-xl px-8">
-            <HeaderGraph items={items} systemVoltage={battery.voltage} />
+            <HeaderGraph items={items} systemVoltage={battery.voltage} inverters={battery.inverters} conditions={loadConditions} />
           </div>
           <div className="text-right">
              <div className={`app-header-font text-4xl flex items-baseline justify-end gap-1.5 ${netKwh >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>
@@ -386,22 +855,22 @@ const App: React.FC = () => {
                         }
                      }}
                      className="bg-transparent text-slate-200 font-mono config-input-small font-bold w-[24px] text-center focus:outline-none focus:text-blue-400 placeholder-slate-800 p-0" />
+                   <select value={battery.climatologyYears || 1} onChange={(e) => handleUpdateBattery('climatologyYears', Number(e.target.value))} title="Years of history pooled for the month"
+                     className="bg-transparent border-none text-slate-500 font-mono text-[9px] font-bold focus:ring-0 outline-none p-0 cursor-pointer">
+                     {[1, 5, 6, 7, 8, 9, 10].map(n => <option key={n} value={n} className="bg-slate-900 text-slate-200">{n}Y</option>)}
+                   </select>
                     {battery.forecast?.loading && <div className="ml-auto w-1.5 h-1.5 rounded-full bg-blue-400 animate-bounce"></div>}
                 </div>
               </div>
 
-              <div className="flex-1 min-w-[70px] bg-slate-900 p-[7px] rounded-lg border border-slate-800 ring-1 ring-white/5 shadow-inner flex flex-col justify-center">
+              <div className="flex-1 min-w-[70px] bg-slate-900 p-[7px] rounded-lg border border-slate-800 ring-1 ring-white/5 shadow-inner flex flex-col justify-center" title="Derived from the house bank's series count">
                 <label className="config-label-small uppercase text-slate-600 font-black block mb-0.5 tracking-widest">VOLTAGE</label>
-                <select value={battery.voltage} onChange={(e) => handleUpdateBattery('voltage', Number(e.target.value))} className="bg-transparent border-none w-full text-slate-200 font-mono config-input-small focus:ring-0 font-bold outline-none p-0 cursor-pointer">
-                  <option value={12} className="bg-slate-900 text-slate-200">12V</option>
-                  <option value={24} className="bg-slate-900 text-slate-200">24V</option>
-                  <option value={48} className="bg-slate-900 text-slate-200">48V</option>
-                </select>
+                <div className="text-slate-200 font-mono config-input-small font-bold">{Number(battery.voltage).toFixed(1).replace(/\.0$/, '')}V</div>
               </div>
 
-              <div className="flex-1 min-w-[70px] bg-slate-900 p-[7px] rounded-lg border border-slate-800 ring-1 ring-white/5 shadow-inner flex flex-col justify-center">
+              <div className="flex-1 min-w-[70px] bg-slate-900 p-[7px] rounded-lg border border-slate-800 ring-1 ring-white/5 shadow-inner flex flex-col justify-center" title="House bank capacity (edit in Battery Banks)">
                 <label className="config-label-small uppercase text-slate-600 font-black block mb-0.5 tracking-widest">BATTERY AH</label>
-                <input type="number" value={battery.capacityAh} onChange={(e) => handleUpdateBattery('capacityAh', Number(e.target.value))} className="bg-transparent border-none w-full text-slate-200 font-mono config-input-small focus:ring-0 font-bold outline-none p-0" />
+                <div className="text-slate-200 font-mono config-input-small font-bold">{Number(battery.capacityAh).toFixed(0)}</div>
               </div>
 
               <div className="flex-1 min-w-[70px] bg-slate-900 p-[7px] rounded-lg border border-slate-800 ring-1 ring-white/5 shadow-inner flex flex-col justify-center">
@@ -409,36 +878,123 @@ const App: React.FC = () => {
                 <input type="number" value={battery.initialSoC} onChange={(e) => handleUpdateBattery('initialSoC', Math.min(100, Number(e.target.value)))} className="bg-transparent border-none w-full text-slate-200 font-mono config-input-small focus:ring-0 font-bold outline-none p-0" />
               </div>
 
+              <div className="w-[40px] flex flex-col gap-1 self-stretch">
+                <button onClick={handleUndo} disabled={activeHistory.past.length === 0} className="flex-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 rounded-lg border border-slate-700 transition-colors flex items-center justify-center group" title={activeHistory.past.length ? `Undo ${activeHistory.past[activeHistory.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3 h-3 text-slate-400 group-hover:text-amber-400 transition-colors"><path strokeLinecap="round" strokeLinejoin="round" d="M9 15 3 9m0 0 6-6M3 9h12a6 6 0 0 1 0 12h-3" /></svg></button>
+                <button onClick={handleRedo} disabled={activeHistory.future.length === 0} className="flex-1 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 rounded-lg border border-slate-700 transition-colors flex items-center justify-center group" title={activeHistory.future.length ? `Redo ${activeHistory.future[activeHistory.future.length - 1].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3 h-3 text-slate-400 group-hover:text-amber-400 transition-colors"><path strokeLinecap="round" strokeLinejoin="round" d="m15 15 6-6m0 0-6-6m6 6H9a6 6 0 0 0 0 12h3" /></svg></button>
+                <select value={historyDepth} onChange={(e) => handleHistoryDepth(Number(e.target.value))} title="Undo steps kept per scenario"
+                  className="bg-transparent border-none text-slate-500 font-mono text-[9px] font-bold focus:ring-0 outline-none p-0 cursor-pointer text-center">
+                  {HISTORY_DEPTH_OPTIONS.map(n => <option key={n} value={n} className="bg-slate-900 text-slate-200">{n}</option>)}
+                </select>
+              </div>
+
               <div className="w-[40px] flex flex-col gap-1 self-stretch">
                 <button onClick={handleExport} className="flex-1 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 transition-colors flex items-center justify-center group" title="Export JSON"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3 h-3 text-slate-400 group-hover:text-blue-400 transition-colors"><path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5m-13.5-9L12 3m0 0 4.5 4.5M12 3v13.5" /></svg></button>
                 <button onClick={handleTriggerImport} className="flex-1 bg-slate-800 hover:bg-slate-700 rounded-lg border border-slate-700 transition-colors flex items-center justify-center group" title="Import JSON"><svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3 h-3 text-slate-400 group-hover:text-emerald-400 transition-colors"><path strokeLinecap="round" strokeLinejoin="round" d="M3 16.5v2.25A2.25 2.25 0 0 0 5.25 21h13.5A2.25 2.25 0 0 0 21 18.75V16.5M16.5 12 12 16.5m0 0L7.5 12m4.5 4.5V3" /></svg><input type="file" ref={fileInputRef} accept=".json" onChange={handleImport} className="hidden" /></button>
               </div>
             </div>
+            {battery.forecastMode === 'now' && battery.forecast?.fetched && (battery.forecast.days?.length || 0) > 0 && (
+              <div className="mt-2.5">
+                <ForecastStrip days={battery.forecast.days!} statuses={normalizeDailySolarHours(battery).map(d => d.status)} multiDay={multiDay} />
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Scenarios</h2>
+            <ScenarioBar scenarios={scenarios} activeId={activeScenarioId} rigId={journalScenarioId} compareIds={compareIds} onSwitch={handleSwitchScenario} onClone={handleCloneScenario} onRename={handleRenameScenario} onDelete={handleDeleteScenario} onToggleCompare={handleToggleCompare} />
+            {compareIds.length > 0 && (
+              <div className="mt-3">
+                <ScenarioCompare scenarios={compareIds.map(id => liveScenarios.find(s => s.id === id)).filter((s): s is Scenario => !!s)} />
+              </div>
+            )}
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Battery Banks</h2>
+            <BatteryBankTable banks={getBatteryBanks(battery)} bankTotals={totals.banks} onUpdateBank={handleUpdateBank} onDeleteBank={handleDeleteBank} onAddBank={handleAddBank} />
           </section>
 
           <section>
             <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Generation (Power In)</h2>
-            <ChargingTable sources={charging} battery={battery} highlightedId={highlightedRow?.kind === 'source' ? highlightedRow.id : null} onUpdateSource={handleUpdateSource} onDeleteSource={(id) => setCharging(p => p.filter(s => s.id !== id))} onAddSource={() => setCharging(p => [...p, { id: Math.random().toString(36).substr(2, 9), name: 'New Source', quantity: 1, input: 0, unit: 'W', efficiency: 0.9, type: 'solar', hours: 5, autoSolar: false, enabled: true }])} onAIAddSource={() => { setChatMode('source'); setChatOpen(true); }} onUpdateBattery={handleUpdateBattery} onReorder={handleReorderSources} onSort={() => {}} />
+            <ChargingTable sources={charging} battery={battery} autoStartHours={totals.autoStartHours} overVoltageIds={overVoltageIds} highlightedId={highlightedRow?.kind === 'source' ? highlightedRow.id : null} onUpdateSource={handleUpdateSource} onDeleteSource={handleDeleteSource} onAddSource={handleAddSource} onAIAddSource={() => { setChatMode('source'); setChatOpen(true); }} onOpenLibrary={() => setLibraryFor({ kind: 'source' })} onUpdateBattery={handleUpdateBattery} onReorder={handleReorderSources} onSort={() => {}} />
           </section>
 
           <section>
             <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">System Mgmt</h2>
-            <EnergyTable items={items} systemVoltage={battery.voltage} highlightedId={highlightedRow?.kind === 'load' ? highlightedRow.id : null} onUpdateItem={handleUpdateItem} onDeleteItem={handleDeleteItem} onAddItem={handleAddItem} onAIAddItem={() => { setChatMode('load'); setChatOpen(true); }} visibleCategories={[LoadCategory.SYSTEM_MGMT]} onReorder={handleReorderItems} onSort={() => {}} />
+            <EnergyTable items={items} systemVoltage={battery.voltage} banks={getBatteryBanks(battery)} inverters={battery.inverters} peakViolations={peak.violations} conditions={loadConditions} highlightedId={highlightedRow?.kind === 'load' ? highlightedRow.id : null} onUpdateItem={handleUpdateItem} onDeleteItem={handleDeleteItem} onAddItem={handleAddItem} onAIAddItem={() => { setChatMode('load'); setChatOpen(true); }} onOpenLibrary={(category) => setLibraryFor({ kind: 'load', category })} visibleCategories={[LoadCategory.SYSTEM_MGMT]} onReorder={handleReorderItems} onSort={() => {}} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Inverters</h2>
+            <InverterTable inverters={battery.inverters || []} items={items} onUpdateInverter={handleUpdateInverter} onDeleteInverter={handleDeleteInverter} onAddInverter={handleAddInverter} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Charge Controllers</h2>
+            <ControllerTable controllers={battery.controllers || []} charging={charging} battery={battery} onUpdateController={handleUpdateController} onDeleteController={handleDeleteController} onAddController={handleAddController} onUpdateSource={handleUpdateSource} />
           </section>
 
           <section>
             <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">AC (VIA INVERTER)</h2>
-            <EnergyTable items={items} systemVoltage={battery.voltage} highlightedId={highlightedRow?.kind === 'load' ? highlightedRow.id : null} onUpdateItem={handleUpdateItem} onDeleteItem={handleDeleteItem} onAddItem={handleAddItem} onAIAddItem={() => { setChatMode('load'); setChatOpen(true); }} visibleCategories={[LoadCategory.AC_LOADS]} onReorder={handleReorderItems} onSort={() => {}} />
+            <EnergyTable items={items} systemVoltage={battery.voltage} banks={getBatteryBanks(battery)} inverters={battery.inverters} peakViolations={peak.violations} conditions={loadConditions} highlightedId={highlightedRow?.kind === 'load' ? highlightedRow.id : null} onUpdateItem={handleUpdateItem} onDeleteItem={handleDeleteItem} onAddItem={handleAddItem} onAIAddItem={() => { setChatMode('load'); setChatOpen(true); }} onOpenLibrary={(category) => setLibraryFor({ kind: 'load', category })} visibleCategories={[LoadCategory.AC_LOADS]} onReorder={handleReorderItems} onSort={() => {}} />
           </section>
 
           <section>
             <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">DC (NATIVE &/OR VIA CONVERTER)</h2>
-            <EnergyTable items={items} systemVoltage={battery.voltage} highlightedId={highlightedRow?.kind === 'load' ? highlightedRow.id : null} onUpdateItem={handleUpdateItem} onDeleteItem={handleDeleteItem} onAddItem={handleAddItem} onAIAddItem={() => { setChatMode('load'); setChatOpen(true); }} visibleCategories={[LoadCategory.DC_LOADS]} onReorder={handleReorderItems} onSort={() => {}} />
+            <EnergyTable items={items} systemVoltage={battery.voltage} banks={getBatteryBanks(battery)} inverters={battery.inverters} peakViolations={peak.violations} conditions={loadConditions} highlightedId={highlightedRow?.kind === 'load' ? highlightedRow.id : null} onUpdateItem={handleUpdateItem} onDeleteItem={handleDeleteItem} onAddItem={handleAddItem} onAIAddItem={() => { setChatMode('load'); setChatOpen(true); }} onOpenLibrary={(category) => setLibraryFor({ kind: 'load', category })} visibleCategories={[LoadCategory.DC_LOADS]} onReorder={handleReorderItems} onSort={() => {}} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Year Planner</h2>
+            <YearPlanner items={items} charging={charging} battery={battery} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Upgrade Optimiser</h2>
+            <UpgradeOptimiser items={items} charging={charging} battery={battery} catalogue={upgradeCatalogue} onCatalogueChange={setUpgradeCatalogue} onApply={handleApplyUpgrade} onApplyAsScenario={handleApplyUpgradeAsScenario} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Load Shedding</h2>
+            <LoadShedding items={items} charging={charging} battery={battery} onUpdateItem={handleUpdateItem} onApply={handleApplyShedding} onRestore={handleRestoreShedding} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Finance</h2>
+            <FinanceView items={items} charging={charging} battery={battery} settings={finance} onSettingsChange={setFinance} onUpdateSource={handleUpdateSource} onUpdateBank={handleUpdateBank} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Battery Life</h2>
+            <DegradationView items={items} charging={charging} battery={battery} onUpdateBank={handleUpdateBank} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Measured (Shunt / BMS Log)</h2>
+            <TelemetryView items={items} battery={battery} totals={totals} simulation={simulation} telemetry={telemetry} onImport={setTelemetry} onApplySuggestion={handleApplyCalibration} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Journal (Plan vs Actual)</h2>
+            <JournalView journal={journal} charging={charging} battery={battery} canFillFromLog={!!telemetry}
+              rigName={scenarios.find(s => s.id === journalScenarioId)?.name || ''} isRigActive={isRigActive} onMarkRig={() => setRigScenarioId(activeScenarioId)}
+              onRecordToday={handleRecordToday} onFillFromLog={() => telemetry && setJournal(prev => fillFromTelemetry(prev, telemetry))}
+              onUpdateActual={handleUpdateJournalActual} onDeleteEntry={(date) => setJournal(prev => prev.filter(e => e.date !== date))} onUpdateBattery={handleUpdateBattery} />
+          </section>
+
+          <section>
+            <h2 className="app-header-font text-[11px] text-slate-400 mb-4 uppercase">Live (Home Assistant / MQTT)</h2>
+            <LiveConnection settings={live} status={liveStatus.status} message={liveStatus.message} onChange={setLive} />
           </section>
         </div>
-        <div className="w-full"><div className="lg:sticky lg:top-32"><SummaryPanel items={items} totals={totals} systemVoltage={battery.voltage} battery={battery} charging={charging} /></div></div>
+        <div className="w-full"><div className="lg:sticky lg:top-32"><SummaryPanel items={items} totals={totals} systemVoltage={battery.voltage} battery={battery} charging={charging} simulation={simulation} multiDay={multiDay} peak={peak} live={{ ...liveStatus, reading: liveReading, syncSoC: live.syncSoC }} /></div></div>
       </main>
 
+      {libraryFor && (
+        <PartsLibrary parts={parts} kinds={libraryFor.kind === 'load' ? ['load'] : ['panel', 'source']} getUsage={(id) => countPartUsage(id, liveScenarios)}
+          onPick={handlePickPart} onSave={handleSavePart} onDelete={(id) => setParts(prev => prev.filter(p => p.id !== id))} onPush={handlePushPart} onClose={() => setLibraryFor(null)} />
+      )}
+
       <ChatBot items={items} totals={totals} battery={battery} charging={charging} isOpen={chatOpen} modeProp={chatMode} onOpen={() => { setChatMode('general'); setChatOpen(true); }} onClose={() => setChatOpen(false)} onAddLoadItem={handleAIAddLoad} onAddChargingSource={handleAIAddSource} />
     </div>
   );
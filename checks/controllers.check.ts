@@ -0,0 +1,32 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkControllers } from '../services/controllers';
+import { makeBattery, makeSource } from './fixtures';
+
+// DOMAIN_SPEC §13: the wired array comes from its stringing, checked against both input limits
+
+const controller = { id: 'mppt', name: 'MPPT', maxPvVoltage: 150, maxChargeA: 50, maxPvA: 30 };
+const battery = makeBattery({ controllers: [controller] });
+const panel = { vocV: 37.4, tempCoeffVocPct: -0.26, iscA: 13.9, impA: 13.15 };
+
+test('array watts and current follow series × parallel', () => {
+  const roof = makeSource('roof', { input: 400, quantity: 4, controllerId: 'mppt', stringing: { series: 2, parallel: 2, ...panel } });
+  const [check] = checkControllers([roof], battery);
+  assert.equal(check.arrayW, 1600);
+  assert.ok(Math.abs(check.iscA! - 27.8) < 1e-9);
+  assert.ok(Math.abs(check.impA! - 26.3) < 1e-9);
+  assert.equal(check.overCurrent, false);
+  assert.deepEqual(check.countMismatch, []);
+});
+
+test('a third parallel string trips the input current limit and the quantity mismatch', () => {
+  const roof = makeSource('roof', { input: 400, quantity: 4, controllerId: 'mppt', stringing: { series: 2, parallel: 3, ...panel } });
+  const [check] = checkControllers([roof], battery);
+  assert.equal(check.arrayW, 2400);
+  assert.equal(check.overCurrent, true);
+  assert.deepEqual(check.countMismatch, ['roof']);
+  // Without a panel Isc there is nothing to check
+  const unknown = { ...roof, stringing: { series: 2, parallel: 3 } };
+  assert.equal(checkControllers([unknown], battery)[0].iscA, null);
+  assert.equal(checkControllers([unknown], battery)[0].overCurrent, false);
+});
@@ -0,0 +1,33 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHEMISTRY_PRESETS } from '../constants';
+import { getAnnualFadePct, projectDegradation } from '../services/degradation';
+import { makeBattery, makeLoad } from './fixtures';
+
+// DOMAIN_SPEC §14: deeper cycles and heat wear faster; cold never slows cycle fade
+test('annual fade grows with depth and temperature', () => {
+  const preset = CHEMISTRY_PRESETS.lifepo4;
+  assert.ok(getAnnualFadePct(preset, 0.8, 25) > getAnnualFadePct(preset, 0.3, 25));
+  assert.ok(getAnnualFadePct(preset, 0.5, 35) > getAnnualFadePct(preset, 0.5, 25));
+  assert.equal(getAnnualFadePct(preset, 0, 25), preset.calendarFadePctPerYear);
+  const cold = getAnnualFadePct(preset, 0.5, 5) - getAnnualFadePct(preset, 0, 5);
+  const mild = getAnnualFadePct(preset, 0.5, 25) - getAnnualFadePct(preset, 0, 25);
+  assert.ok(Math.abs(cold - mild) < 1e-9);
+});
+
+test('the projection ages the bank faster as it shrinks', () => {
+  const items = [makeLoad('fridge', { watts: 100, hours: 24 })];
+  const projection = projectDegradation(items, [], makeBattery({ chemistry: 'lifepo4' }), 25);
+  const { years } = projection;
+  assert.equal(years[0].sohPct, 100);
+  // Until the floor at 1%
+  const losses = years.slice(1).filter(y => y.sohPct > 1).map((y, i) => years[i].sohPct - y.sohPct);
+  losses.slice(1).forEach((loss, i) => assert.ok(loss >= losses[i] - 1e-9, `year ${i + 2} fades slower than year ${i + 1}`));
+  years.slice(1).forEach((y, i) => assert.ok(y.autonomyDays <= years[i].autonomyDays));
+
+  // The crossing below 80% falls inside the year that crosses it
+  const eol = projection.endOfLifeYear;
+  assert.ok(eol !== null);
+  const year = Math.floor(eol);
+  assert.ok(years[year].sohPct >= 80 && years[year + 1].sohPct < 80);
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { BatteryBank } from '../types';
+import { calculateFinance, getGeneratorEconomics } from '../services/finance';
+import { makeBattery, makeLoad, makeSource } from './fixtures';
+
+// DOMAIN_SPEC §10: generators cover the house bank's deficit, shared by rated output
+
+const makeBank = (id: string, fields: Partial<BatteryBank> = {}): BatteryBank => ({
+  id, name: id, chemistry: 'lifepo4', moduleVoltage: 12, moduleAh: 100, seriesCount: 2, parallelCount: 1, initialSoC: 100,
+  ...fields
+});
+
+const fuel = { litresPerHour: 1, pricePerLitre: 2 };
+const big = makeSource('big', { type: 'generator', input: 2000, hours: 0, efficiency: 1, fuel });
+const small = makeSource('small', { type: 'generator', input: 1000, hours: 0, efficiency: 1, fuel: { litresPerHour: 0.5, pricePerLitre: 2 } });
+const heater = makeLoad('heater', { watts: 300, hours: 10 });
+
+test('a load on another bank adds nothing to the generator deficit', () => {
+  const house = getGeneratorEconomics([heater], [big], makeBattery())!;
+  const battery = makeBattery({ banks: [makeBank('house'), makeBank('starter')] });
+  const starterLoad = makeLoad('winch', { watts: 500, hours: 2, bankId: 'starter' });
+  const withStarter = getGeneratorEconomics([heater, starterLoad], [big], battery)!;
+  assert.ok(house.deficitWh > 0);
+  assert.equal(withStarter.deficitWh, house.deficitWh);
+  // A generator wired to the other bank doesn't cover the house
+  assert.equal(getGeneratorEconomics([heater], [{ ...big, bankId: 'starter' }], battery), null);
+});
+
+test('generators share the deficit by rated output', () => {
+  const economics = getGeneratorEconomics([heater], [big, small], makeBattery())!;
+  const [bigRun, smallRun] = economics.runs;
+  assert.ok(Math.abs(bigRun.shareWh - 2 * smallRun.shareWh) < 1e-9);
+  assert.ok(Math.abs(bigRun.shareWh + smallRun.shareWh - economics.deficitWh) < 1e-9);
+  assert.equal(economics.hoursPerDay, Math.max(bigRun.hoursPerDay, smallRun.hoursPerDay));
+  const dailyFuelCost = bigRun.hoursPerDay * 1 * 2 + smallRun.hoursPerDay * 0.5 * 2;
+  assert.ok(Math.abs(economics.annualFuelCost - dailyFuelCost * 365) < 1e-6);
+
+  const settings = { proposedSolarW: 0, proposedSolarCost: 0 };
+  const { sources } = calculateFinance([heater], [big, small], makeBattery(), settings);
+  const kWh = (id: string) => sources.find(s => s.sourceId === id)!.annualKWh;
+  assert.ok(Math.abs(kWh('big') - 2 * kWh('small')) < 1e-9);
+});
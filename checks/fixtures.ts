@@ -0,0 +1,46 @@
+import { PowerItem, ChargingSource, BatteryConfig, Inverter, LoadCategory, UpgradeCandidate } from '../types';
+import { MonthClimatology } from '../services/weatherService';
+
+/**
+ * Shared rows for the service checks. Built from scratch rather than from the seed data,
+ * so editing the seeds never moves a check.
+ */
+
+export const makeLoad = (id: string, fields: Partial<PowerItem> = {}): PowerItem => ({
+  id, name: id, category: LoadCategory.DC_LOADS, quantity: 1, watts: 100, hours: 1, dutyCycle: 100, notes: '', enabled: true,
+  ...fields
+});
+
+// AC load running in one clock window
+export const makeScheduledLoad = (id: string, watts: number, start: number, end: number, surgeMultiplier?: number): PowerItem =>
+  makeLoad(id, { category: LoadCategory.AC_LOADS, watts, hours: end - start, surgeMultiplier, schedule: { windows: [{ start, end }] } });
+
+export const makeSource = (id: string, fields: Partial<ChargingSource> = {}): ChargingSource => ({
+  id, name: id, quantity: 1, input: 400, unit: 'W', hours: 5, efficiency: 0.85, type: 'solar', enabled: true,
+  ...fields
+});
+
+// Single 24 V, 200 Ah bank with no forecast
+export const makeBattery = (fields: Partial<BatteryConfig> = {}): BatteryConfig => ({
+  capacityAh: 200, voltage: 24, initialSoC: 100, location: '', forecastMode: 'now', geo: { lat: 45, lon: 0, name: 'Check' },
+  ...fields
+});
+
+// Always on, no idle draw
+export const makeInverter = (fields: Partial<Inverter> = {}): Inverter => ({
+  id: 'inv', name: 'Inv', ratedW: 1800, surgeW: 4000, idleW: 0, hoursOn: 24, preset: 'hf',
+  ...fields
+});
+
+export const makeClimate = (fields: Partial<MonthClimatology> = {}): MonthClimatology => ({
+  sunny: 4.5, cloudy: 1.5, daily: [], dailyTempMax: [], p10: 1.5, p50: 4.5, p90: 6, longestLowRun: 0, years: 1,
+  ...fields
+});
+
+// Alternating battery strings and 200 W panels, each dearer than the last
+export const makeCatalogue = (count: number, maxQty: number): UpgradeCandidate[] =>
+  Array.from({ length: count }, (_, i) => ({
+    id: `c${i}`, name: `C${i}`, kind: i % 2 ? 'solar' as const : 'battery' as const, cost: 100 + i * 37, watts: 200, maxQty
+  }));
+
+export const MIDSUMMER = new Date(2026, 5, 21);
@@ -0,0 +1,94 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { HISTORY_MERGE_MS } from '../constants';
+import { EMPTY_HISTORY, EditableState, pushEdit, redoEdit, takeSnapshot, undoEdit } from '../services/history';
+import { makeBattery, makeLoad } from './fixtures';
+
+// DOMAIN_SPEC §19: steps hold what they changed; undo keeps the fetched forecast
+
+const start: EditableState = {
+  items: [makeLoad('fridge'), makeLoad('lights'), makeLoad('pump')],
+  charging: [],
+  battery: makeBattery({ initialSoC: 100 })
+};
+
+const setWatts = (state: EditableState, id: string, watts: number): EditableState =>
+  ({ ...state, items: state.items.map(i => i.id === id ? { ...i, watts } : i) });
+
+const entry = (label: string, state: EditableState, slices: ('items' | 'battery')[] = ['items'], at = 0, key?: string) =>
+  ({ label, key, at, snapshot: takeSnapshot(state, slices) });
+
+test('undo and redo walk back and forth through the steps', () => {
+  const states = [start];
+  let history = EMPTY_HISTORY;
+  [['fridge', 150], ['pump', 400], ['fridge', 90]].forEach(([id, watts], i) => {
+    history = pushEdit(history, entry(`e${i}`, states[i], ['items'], i * HISTORY_MERGE_MS * 2), 50, states[i]);
+    states.push(setWatts(states[i], id as string, watts as number));
+  });
+
+  let current = states[3];
+  for (let i = 2; i >= 0; i--) {
+    const undone = undoEdit(history, current)!;
+    assert.deepEqual(undone.snapshot, { items: states[i].items });
+    history = undone.history;
+    current = { ...current, ...undone.snapshot };
+  }
+  assert.equal(undoEdit(history, current), null);
+
+  for (let i = 1; i <= 3; i++) {
+    const redone = redoEdit(history, current)!;
+    assert.deepEqual(redone.snapshot, { items: states[i].items });
+    history = redone.history;
+    current = { ...current, ...redone.snapshot };
+  }
+  assert.equal(redoEdit(history, current), null);
+});
+
+test('older steps keep only the rows they changed', () => {
+  const edited = setWatts(start, 'pump', 400);
+  let history = pushEdit(EMPTY_HISTORY, entry('Pump', start), 50, start);
+  // The newest step is whole until the next edit shows where it led
+  assert.equal(history.past[0].snapshot!.items!.length, 3);
+  history = pushEdit(history, entry('Lights', edited), 50, edited);
+  const { patch, snapshot } = history.past[0];
+  assert.equal(snapshot, undefined);
+  assert.deepEqual(patch!.items!.order, ['fridge', 'lights', 'pump']);
+  assert.deepEqual(patch!.items!.changed, [start.items[2]]);
+
+  // A deleted row comes back in place; an added row goes
+  const reshaped: EditableState = { ...start, items: [start.items[0], start.items[2], makeLoad('heater')] };
+  history = pushEdit(pushEdit(EMPTY_HISTORY, entry('Reshape', start), 50, start), entry('Next', reshaped), 50, reshaped);
+  assert.deepEqual(history.past[0].patch!.items!.changed, [start.items[1]]);
+  assert.deepEqual(undoEdit({ past: history.past.slice(0, 1), future: [] }, reshaped)!.snapshot.items, start.items);
+});
+
+test('battery steps store changed fields and leave the forecast alone', () => {
+  const forecast = { loading: false, fetched: true, nowHours: 5 };
+  const before = { ...start, battery: { ...start.battery, forecast } };
+  const after = { ...before, battery: { ...before.battery, initialSoC: 60, stateOfHealthPct: 90, forecast: { ...forecast, nowHours: 2 } } };
+  let history = pushEdit(EMPTY_HISTORY, entry('SoC', before, ['battery']), 50, before);
+  assert.equal('forecast' in history.past[0].snapshot!.battery!, false);
+  history = pushEdit(history, entry('Next', after, ['battery']), 50, after);
+  assert.deepEqual(history.past[0].patch!.battery, { set: { initialSoC: 100 }, unset: ['stateOfHealthPct'] });
+
+  const undone = undoEdit({ past: history.past.slice(0, 1), future: [] }, after)!;
+  assert.equal(undone.snapshot.battery!.initialSoC, 100);
+  assert.equal('stateOfHealthPct' in undone.snapshot.battery!, false);
+  assert.equal('forecast' in undone.snapshot.battery!, false);
+});
+
+test('quick edits to the same field merge; a new edit clears redo; depth drops the oldest', () => {
+  const typed = (at: number, key = 'item:fridge:watts') => entry('Watts', start, ['items'], at, key);
+  let history = pushEdit(EMPTY_HISTORY, typed(0), 50, start);
+  history = pushEdit(history, typed(HISTORY_MERGE_MS - 1), 50, start);
+  assert.equal(history.past.length, 1);
+  history = pushEdit(history, typed(HISTORY_MERGE_MS * 3), 50, start);
+  assert.equal(history.past.length, 2);
+
+  history = undoEdit(history, start)!.history;
+  history = pushEdit(history, typed(HISTORY_MERGE_MS * 4, 'battery:initialSoC'), 50, start);
+  assert.equal(history.future.length, 0);
+
+  for (let i = 0; i < 5; i++) history = pushEdit(history, entry(`e${i}`, start, ['items'], HISTORY_MERGE_MS * (10 + i)), 3, start);
+  assert.deepEqual(history.past.map(e => e.label), ['e2', 'e3', 'e4']);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JournalEntry } from '../types';
+import { JOURNAL_MIN_DAYS } from '../constants';
+import { applyLearnedFactors, fillFromTelemetry, getRigScenarioId, learnFactors, snapshotPlan, upsertJournalActual, upsertJournalPlan } from '../services/journal';
+import { makeBattery, makeLoad, makeSource } from './fixtures';
+
+// DOMAIN_SPEC §17: plans per date, actuals by hand or from a log, and a yield factor per solar row
+
+const items = [makeLoad('fridge', { watts: 60, hours: 24, dutyCycle: 50 })];
+const roof = makeSource('roof', { input: 800 });
+const portable = makeSource('portable', { input: 200 });
+const battery = makeBattery();
+
+// Roof yields 78% of its model and the portable panel 100%; the portable is out every other day
+const makeJournal = (days: number): JournalEntry[] => {
+  let journal: JournalEntry[] = [];
+  for (let d = 1; d <= days; d++) {
+    const date = `2026-10-${String(d).padStart(2, '0')}`;
+    const plan = snapshotPlan(items, d % 2 ? [roof, portable] : [roof], battery, date);
+    journal = upsertJournalPlan(journal, date, plan);
+    const solarWh = plan.sourceSolarWh.roof * 0.78 + (plan.sourceSolarWh.portable || 0);
+    journal = upsertJournalActual(journal, date, { solarWh, origin: 'manual' });
+  }
+  return journal;
+};
+
+test('learned factors recover the yield of each row, held towards 1', () => {
+  const factors = learnFactors(makeJournal(8), [roof, portable]);
+  const roofFactor = factors.find(f => f.sourceId === 'roof')!;
+  const portableFactor = factors.find(f => f.sourceId === 'portable')!;
+  assert.equal(roofFactor.days, 8);
+  assert.equal(portableFactor.days, 4);
+  assert.ok(roofFactor.factor > 0.78 && roofFactor.factor < 0.85, `roof ${roofFactor.factor}`);
+  assert.ok(Math.abs(portableFactor.factor - 1) < 0.1, `portable ${portableFactor.factor}`);
+
+  assert.deepEqual(learnFactors(makeJournal(JOURNAL_MIN_DAYS - 1), [roof]), []);
+});
+
+test('factors apply to the rows but never to the recorded plan', () => {
+  const factors = learnFactors(makeJournal(8), [roof, portable]);
+  const learned = applyLearnedFactors([roof, portable], factors);
+  assert.equal(learned[0].learnedFactor, Math.round(factors[0].factor * 100) / 100);
+  assert.equal(applyLearnedFactors(learned, factors), learned);
+
+  const raw = snapshotPlan(items, learned, battery, '2026-10-20');
+  const scaled = snapshotPlan(items, learned, { ...battery, applyLearnedFactors: true }, '2026-10-20');
+  assert.deepEqual(scaled.sourceSolarWh, raw.sourceSolarWh);
+  assert.ok(scaled.generatedWh < raw.generatedWh);
+});
+
+test('an unchanged plan leaves the journal alone; typed actuals beat the log', () => {
+  const journal = makeJournal(2);
+  const plan = snapshotPlan(items, [roof], battery, '2026-10-02');
+  assert.equal(upsertJournalPlan(journal, '2026-10-02', { ...plan, recordedAt: plan.recordedAt + 1000 }), journal);
+
+  const log = { fileName: 'log.csv', format: 'generic' as const, importedAt: 0, days: [{ date: '2026-10-02', inWh: 0, outWh: 0, pvWh: 1 }, { date: '2026-10-03', inWh: 0, outWh: 0, pvWh: 900 }] };
+  const filled = fillFromTelemetry(journal, log);
+  assert.equal(filled.find(e => e.date === '2026-10-02')!.actual!.origin, 'manual');
+  assert.deepEqual(filled.find(e => e.date === '2026-10-03')!.actual, { solarWh: 900, endSoC: undefined, origin: 'telemetry' });
+});
+
+test('the rig scenario falls back to the first one', () => {
+  const scenarios = [{ id: 'rig' }, { id: 'what-if' }];
+  assert.equal(getRigScenarioId(scenarios, 'what-if'), 'what-if');
+  assert.equal(getRigScenarioId(scenarios, undefined), 'rig');
+  // A deleted rig hands over to the first scenario left
+  assert.equal(getRigScenarioId(scenarios, 'deleted'), 'rig');
+});
@@ -0,0 +1,174 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { LiveReading, LiveSettings, LiveStatus } from '../types';
+import { DEFAULT_LIVE_SETTINGS } from '../constants';
+import { connectLive, getHomeAssistantSocketUrl } from '../services/liveData';
+
+// DOMAIN_SPEC §16: recorded Home Assistant and MQTT frames through the real transports
+
+// Stands in for the server end of the browser's WebSocket
+class FixtureSocket {
+  static OPEN = 1;
+  static opened: FixtureSocket[] = [];
+  readyState = FixtureSocket.OPEN;
+  binaryType = '';
+  sent: (string | Uint8Array)[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onclose: (() => void) | null = null;
+  constructor(public url: string, public protocol?: string) { FixtureSocket.opened.push(this); }
+  send(data: string | Uint8Array) { this.sent.push(data); }
+  close() { this.readyState = 3; this.onclose?.(); }
+  receiveJson(message: object) { this.onmessage?.({ data: JSON.stringify(message) }); }
+  receiveHex(hex: string) { this.onmessage?.({ data: new Uint8Array(Buffer.from(hex, 'hex')).buffer }); }
+}
+
+const realWebSocket = globalThis.WebSocket;
+const stops: (() => void)[] = [];
+afterEach(() => {
+  stops.splice(0).forEach(stop => stop());
+  FixtureSocket.opened = [];
+  (globalThis as any).WebSocket = realWebSocket;
+});
+
+const connect = (settings: Partial<LiveSettings>) => {
+  (globalThis as any).WebSocket = FixtureSocket;
+  const readings: LiveReading[] = [];
+  const statuses: [LiveStatus, string?][] = [];
+  stops.push(connectLive({ ...DEFAULT_LIVE_SETTINGS, enabled: true, ...settings }, {
+    onReading: reading => readings.push(reading),
+    onStatus: (status, message) => statuses.push([status, message])
+  }));
+  return { socket: FixtureSocket.opened[0], readings, statuses, last: () => readings[readings.length - 1] };
+};
+
+test('Home Assistant socket URLs', () => {
+  assert.equal(getHomeAssistantSocketUrl('http://homeassistant.local:8123/'), 'ws://homeassistant.local:8123/api/websocket');
+  assert.equal(getHomeAssistantSocketUrl('https://ha.example.net/api/websocket'), 'wss://ha.example.net/api/websocket');
+  assert.equal(getHomeAssistantSocketUrl('192.168.1.20:8123'), 'ws://192.168.1.20:8123/api/websocket');
+});
+
+test('Home Assistant: auth, subscribe_entities, then full states and compressed changes', () => {
+  const { socket, statuses, last } = connect({ token: 'secret' });
+  socket.receiveJson({ type: 'auth_required', ha_version: '2026.9.3' });
+  assert.deepEqual(JSON.parse(socket.sent[0] as string), { type: 'auth', access_token: 'secret' });
+
+  socket.receiveJson({ type: 'auth_ok', ha_version: '2026.9.3' });
+  assert.deepEqual(JSON.parse(socket.sent[1] as string), {
+    id: 1, type: 'subscribe_entities', entity_ids: ['sensor.battery_soc', 'sensor.pv_power', 'sensor.dc_load_power', 'sensor.outside_temperature']
+  });
+  assert.deepEqual(statuses.at(-1), ['live', undefined]);
+
+  socket.receiveJson({ id: 1, type: 'result', success: true, result: null });
+  socket.receiveJson({
+    id: 1, type: 'event', event: {
+      a: {
+        'sensor.battery_soc': { s: '87.5', a: { unit_of_measurement: '%', friendly_name: 'Battery SoC' }, c: '01J8', lc: 1760000000.1 },
+        'sensor.pv_power': { s: '0.42', a: { unit_of_measurement: 'kW' }, c: '01J9', lc: 1760000000.2 },
+        'sensor.outside_temperature': { s: '68', a: { unit_of_measurement: '°F' }, c: '01JA', lc: 1760000000.3 },
+        'sensor.dc_load_power': { s: 'unavailable', a: {}, c: '01JB', lc: 1760000000.4 }
+      }
+    }
+  });
+  assert.equal(last().socPct, 87.5);
+  assert.equal(last().pvW, 420);
+  assert.ok(Math.abs(last().tempC! - 20) < 1e-9);
+  assert.equal(last().loadW, undefined);
+
+  // Changes carry only the new state; the unit learned from the full state still applies
+  socket.receiveJson({ id: 1, type: 'event', event: { c: { 'sensor.pv_power': { '+': { s: '0.5', c: '01JC', lc: 1760000060.1 } } } } });
+  assert.equal(last().pvW, 500);
+  socket.receiveJson({ id: 1, type: 'event', event: { c: { 'sensor.dc_load_power': { '+': { s: '96', a: { unit_of_measurement: 'W' } } } } } });
+  assert.equal(last().loadW, 96);
+  assert.equal(last().loadAvgW, 96);
+});
+
+test('Home Assistant: a rejected token stops without retrying', () => {
+  const { socket, statuses } = connect({ token: 'stale' });
+  socket.receiveJson({ type: 'auth_required', ha_version: '2026.9.3' });
+  socket.receiveJson({ type: 'auth_invalid', message: 'Invalid access token or password' });
+  assert.deepEqual(statuses.at(-1), ['error', 'Invalid access token or password']);
+  assert.equal(FixtureSocket.opened.length, 1);
+});
+
+// Captured from a Venus OS broker: CONNACK, SUBACK, then a QoS 0 battery SoC publish
+const VENUS_CONNACK = '20020000';
+const VENUS_SUBACK = '90050001000000';
+const VENUS_SOC = '303600264e2f6330363139616231636166652f73797374656d2f302f44632f426174746572792f536f637b2276616c7565223a36342e327d';
+// QoS 1 publish (packet id 7) on load/dc with a plain payload
+const QOS1_LOAD = '320e00076c6f61642f64630007313230';
+
+// PUBLISH at QoS 0, encoded here independently of the service
+const publishHex = (topic: string, payload: string) => {
+  const body = [...[topic.length >> 8, topic.length & 0xff], ...Buffer.from(topic), ...Buffer.from(payload)];
+  const length: number[] = [];
+  for (let n = body.length; ; ) {
+    const byte = n % 128;
+    n = Math.floor(n / 128);
+    length.push(n > 0 ? byte | 0x80 : byte);
+    if (n === 0) break;
+  }
+  return Buffer.from([0x30, ...length, ...body]).toString('hex');
+};
+
+const mqttSettings: Partial<LiveSettings> = {
+  protocol: 'mqtt', url: 'ws://venus.local:9001', username: 'user', password: 'pass',
+  entities: { soc: 'N/+/system/0/Dc/Battery/Soc', pv: 'N/+/solarcharger/#', load: 'load/dc', temp: '' }
+};
+
+test('MQTT: CONNECT and SUBSCRIBE bytes', () => {
+  const { socket, statuses } = connect(mqttSettings);
+  assert.equal(socket.protocol, 'mqtt');
+  assert.equal(socket.binaryType, 'arraybuffer');
+  socket.onopen!();
+
+  const connectPacket = Buffer.from(socket.sent[0] as Uint8Array);
+  assert.equal(connectPacket[0], 0x10);
+  assert.equal(connectPacket[1], connectPacket.length - 2);
+  assert.equal(connectPacket.subarray(2, 10).toString('hex'), '00044d51545404c2'); // "MQTT", level 4, user + password + clean session
+  const clientIdLength = connectPacket.readUInt16BE(12);
+  assert.match(connectPacket.subarray(14, 14 + clientIdLength).toString(), /^solsum-/);
+  assert.equal(connectPacket.subarray(14 + clientIdLength).toString('hex'), '000475736572' + '000470617373');
+
+  socket.receiveHex(VENUS_CONNACK);
+  assert.deepEqual(statuses.at(-1), ['live', undefined]);
+  const subscribe = Buffer.from(socket.sent[1] as Uint8Array);
+  assert.equal(subscribe.toString('hex'), Buffer.from([
+    0x82, 63, 0, 1,
+    0, 27, ...Buffer.from('N/+/system/0/Dc/Battery/Soc'), 0,
+    0, 18, ...Buffer.from('N/+/solarcharger/#'), 0,
+    0, 7, ...Buffer.from('load/dc'), 0
+  ]).toString('hex'));
+});
+
+test('MQTT: publishes split across frames, wildcards, QoS 1 and long payloads', () => {
+  const { socket, last } = connect(mqttSettings);
+  socket.onopen!();
+  const stream = VENUS_CONNACK + VENUS_SUBACK + VENUS_SOC + QOS1_LOAD;
+  // Cut inside the SoC topic, and again between a header byte and its length
+  const cuts = [0, 30, VENUS_CONNACK.length + VENUS_SUBACK.length + VENUS_SOC.length + 2, stream.length];
+  cuts.slice(1).forEach((end, i) => socket.receiveHex(stream.slice(cuts[i], end)));
+  assert.equal(last().socPct, 64.2);
+  assert.equal(last().loadW, 120);
+
+  // Remaining length over 127 takes two bytes
+  const long = publishHex('N/c0619ab1cafe/solarcharger/279/Yield/Power', JSON.stringify({ value: 350, text: 'x'.repeat(150) }));
+  assert.ok(parseInt(long.slice(2, 4), 16) & 0x80);
+  socket.receiveHex(long);
+  assert.equal(last().pvW, 350);
+
+  // Topics outside the filters, and non-numeric payloads, leave the reading alone
+  socket.receiveHex(publishHex('N/c0619ab1cafe/system/0/Dc/Battery/Voltage', '{"value":26.4}'));
+  socket.receiveHex(publishHex('load/dc/extra', '999'));
+  socket.receiveHex(publishHex('load/dc', '{"value":null}'));
+  assert.equal(last().socPct, 64.2);
+  assert.equal(last().loadW, 120);
+});
+
+test('MQTT: a refused CONNACK is fatal', () => {
+  const { socket, statuses } = connect(mqttSettings);
+  socket.onopen!();
+  socket.receiveHex('20020004');
+  assert.deepEqual(statuses.at(-1), ['error', 'Bad username or password.']);
+  assert.equal(socket.sent.length, 1);
+});
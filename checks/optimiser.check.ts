@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { AutonomyTarget } from '../types';
+import { applyUpgrade, expandCombo, findUpgrades } from '../services/optimiser';
+import { DEFAULT_DRIVING } from '../constants';
+import { makeBattery, makeCatalogue, makeClimate, makeLoad, makeSource } from './fixtures';
+
+// DOMAIN_SPEC §8: cheapest-first search, bounded by evaluations rather than catalogue size
+
+const items = [makeLoad('fridge', { watts: 60, hours: 24, dutyCycle: 50 }), makeLoad('lights', { watts: 80, hours: 5 })];
+const charging = [makeSource('roof')];
+const battery = makeBattery({ capacityAh: 100 });
+const cloudDays = (value: number): AutonomyTarget => ({ kind: 'cloudDays', value, month: 5 });
+
+test('expansion reaches every quantity vector exactly once', () => {
+  const max = [2, 3, 1];
+  const seen = new Set<string>();
+  const stack = [{ qtys: [0, 0, 0], last: 0 }];
+  while (stack.length) {
+    const combo = stack.pop()!;
+    const key = combo.qtys.join();
+    assert.equal(seen.has(key), false, `${key} reached twice`);
+    seen.add(key);
+    stack.push(...expandCombo(combo.qtys, combo.last, max));
+  }
+  assert.equal(seen.size, 3 * 4 * 2);
+});
+
+test('an unreachable target stops at the evaluation cap without listing every combo', () => {
+  // 9^7 ≈ 4.8M combos: building them all up front would not fit the time or memory here
+  const heater = makeLoad('heater', { watts: 3000, hours: 24 });
+  const started = Date.now();
+  const result = findUpgrades([heater], charging, battery, makeCatalogue(7, 8), cloudDays(999), makeClimate());
+  assert.equal(result.evaluated, 800);
+  assert.equal(result.exhausted, true);
+  assert.equal(result.options.length, 0);
+  assert.ok(Date.now() - started < 30000);
+});
+
+test('options come out cheapest first, none a superset of another', () => {
+  const { options } = findUpgrades(items, charging, battery, makeCatalogue(4, 4), cloudDays(4), makeClimate());
+  assert.ok(options.length > 1);
+  options.forEach((option, i) => {
+    if (i > 0) assert.ok(option.cost >= options[i - 1].cost);
+    assert.ok(option.cloudDays >= 4);
+  });
+  const qty = (picks: typeof options[number]['picks'], id: string) => picks.find(p => p.candidateId === id)?.qty || 0;
+  options.forEach((a, i) => options.forEach((b, j) => {
+    if (i === j) return;
+    const superset = a.picks.every(p => qty(b.picks, p.candidateId) >= p.qty);
+    assert.equal(superset, false, `option ${j} contains option ${i}`);
+  }));
+});
+
+test('a config that already meets the target needs nothing', () => {
+  const { options } = findUpgrades(items, charging, battery, makeCatalogue(3, 2), cloudDays(0), makeClimate());
+  assert.equal(options.length, 1);
+  assert.deepEqual(options[0].picks, []);
+});
+
+test('a DC-DC pick charges on the existing drive pattern', () => {
+  const dcdc = [{ id: 'd', name: 'DC-DC', kind: 'dcdc' as const, cost: 400, watts: 500, maxQty: 1 }];
+  const picks = [{ candidateId: 'd', qty: 1 }];
+  const van = makeSource('van', { type: 'alternator', input: 300, driving: { daysPerWeek: 5, hoursPerDrive: 1, startHour: 7, ratedA: 20 } });
+  const added = applyUpgrade([...charging, van], battery, picks, dcdc).charging.at(-1)!;
+  assert.deepEqual(added.driving, { daysPerWeek: 5, hoursPerDrive: 1, startHour: 7 });
+  assert.equal(added.input, 500);
+  assert.deepEqual(applyUpgrade(charging, battery, picks, dcdc).charging.at(-1)!.driving, DEFAULT_DRIVING);
+});
+
+test('a negative catalogue cost is reported, not clamped', () => {
+  const catalogue = makeCatalogue(3, 2);
+  catalogue[1].cost = -50;
+  assert.throws(() => findUpgrades(items, charging, battery, catalogue, cloudDays(4), makeClimate()), /C1/);
+});
@@ -0,0 +1,52 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { analysePeakDemand, formatPeakWindow } from '../services/peakAnalysis';
+import { makeBattery, makeInverter, makeLoad, makeScheduledLoad } from './fixtures';
+
+// Peak demand: the worst simultaneous set for each limit, continuous and surge checked separately
+
+const pump = makeScheduledLoad('pump', 800, 8, 9, 3);
+const kettle = makeScheduledLoad('kettle', 1000, 12, 13);
+const oven = makeScheduledLoad('oven', 1000, 12, 13);
+const battery = makeBattery({ inverters: [makeInverter()] });
+
+test('continuous and surge peaks come from their own worst sets and windows', () => {
+  const report = analysePeakDemand([pump, kettle, oven], battery);
+  const inverter = report.inverters[0];
+
+  assert.equal(inverter.continuousW, 2000);
+  assert.deepEqual([...inverter.itemIds].sort(), ['kettle', 'oven']);
+  assert.equal(formatPeakWindow(inverter.continuousWindow), '12:00–13:00');
+
+  assert.equal(inverter.surgeW, 2400);
+  assert.deepEqual(inverter.surgeItemIds, ['pump']);
+  assert.equal(formatPeakWindow(inverter.surgeWindow), '08:00–09:00');
+});
+
+test('each limit is checked against its own peak', () => {
+  const { violations } = analysePeakDemand([pump, kettle, oven], battery);
+  const continuous = violations.find(v => v.kind === 'inverter-continuous');
+  assert.ok(continuous);
+  assert.equal(continuous.value, 2000);
+  assert.deepEqual([...continuous.itemIds].sort(), ['kettle', 'oven']);
+  assert.equal(violations.some(v => v.kind === 'inverter-surge'), false);
+
+  const surging = analysePeakDemand([makeScheduledLoad('pump', 800, 8, 9, 6), kettle, oven], battery);
+  const surge = surging.violations.find(v => v.kind === 'inverter-surge');
+  assert.ok(surge);
+  assert.equal(surge.value, 4800);
+  assert.deepEqual(surge.itemIds, ['pump']);
+});
+
+test('loads that never overlap are not summed', () => {
+  const report = analysePeakDemand([makeScheduledLoad('a', 1000, 6, 7), makeScheduledLoad('b', 1000, 20, 21)], battery);
+  assert.equal(report.inverters[0].continuousW, 1000);
+  assert.equal(report.violations.length, 0);
+});
+
+test('unscheduled loads can peak at any time', () => {
+  const report = analysePeakDemand([makeLoad('fridge', { watts: 60 }), makeLoad('lights', { watts: 40 })], battery);
+  const bank = report.banks[0];
+  assert.equal(bank.continuousW, 100);
+  assert.equal(formatPeakWindow(bank.continuousWindow), 'any time');
+});
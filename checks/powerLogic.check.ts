@@ -0,0 +1,61 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CHEMISTRY_PRESETS } from '../constants';
+import { calculateAutonomy, getFuseRating, getSoCFloor, resolveLoadProfile, sizeCable } from '../services/powerLogic';
+import { makeBattery, makeLoad, makeSource } from './fixtures';
+
+// DOMAIN_SPEC §1: a net-positive system never shows finite days
+test('autonomy is infinite when generation covers the load', () => {
+  const load = makeLoad('fridge', { watts: 50, hours: 24 });
+  assert.equal(calculateAutonomy([load], [makeSource('roof', { input: 1000 })], makeBattery(), 'peak').days, Infinity);
+});
+
+// §1: usable Wh above the chemistry's floor ÷ the deficit drawn through discharge losses
+test('deficit autonomy counts only usable capacity', () => {
+  const load = makeLoad('fridge', { watts: 50, hours: 24 });
+  const lifepo4 = CHEMISTRY_PRESETS.lifepo4;
+  const days = calculateAutonomy([load], [], makeBattery({ chemistry: 'lifepo4' }), 'zero').days;
+  const usableWh = 200 * 24 * (100 - getSoCFloor(makeBattery({ chemistry: 'lifepo4' }))) / 100;
+  assert.ok(Math.abs(days - usableWh / (1200 / lifepo4.dischargeEfficiency)) < 1e-9);
+
+  const agm = calculateAutonomy([load], [], makeBattery({ chemistry: 'agm' }), 'zero').days;
+  assert.equal(getSoCFloor(makeBattery({ chemistry: 'agm' })), 50);
+  assert.ok(agm < days);
+});
+
+// §3: fuse at 1.25× current; cable derated at its own ambient, 0 °C included
+test('fuse and cable sizing', () => {
+  [5, 37, 80, 150].forEach(amps => assert.ok(getFuseRating(amps) >= amps * 1.25));
+
+  const cold = sizeCable(100, 24, { ambientC: 0, lengthM: 1 });
+  const standard = sizeCable(100, 24, { ambientC: 30, lengthM: 1 });
+  assert.ok(cold.ampacityA > standard.ampacityA);
+  // Unset or unreadable temperatures fall back to the 30 °C reference
+  [undefined, NaN].forEach(ambientC => assert.equal(sizeCable(100, 24, { ambientC, lengthM: 1 }).ampacityA, standard.ampacityA));
+  [cold, standard].forEach(sizing => assert.ok(sizing.ampacityA >= sizing.fuseA));
+
+  const long = sizeCable(100, 24, { ambientC: 30, lengthM: 10, maxDropPct: 3 });
+  assert.equal(long.limitedBy, 'drop');
+  assert.ok(long.dropPct <= 3);
+});
+
+// §7: month override, then temperature rule (clamped), then weekend hours
+test('load profile resolution order', () => {
+  const item = makeLoad('fridge', {
+    hours: 24, dutyCycle: 30,
+    profile: {
+      months: { 6: { hours: 12, dutyCycle: 80 } },
+      tempRule: { baseTempC: 20, baseDuty: 30, dutyPerDegC: 5, minDuty: 20, maxDuty: 60 },
+      weekendHours: 4
+    }
+  });
+  const wednesday = new Date(2026, 6, 15);
+  assert.deepEqual(resolveLoadProfile(item), { hours: 24, dutyCycle: 30 });
+  assert.deepEqual(resolveLoadProfile(item, { date: wednesday, ambientC: 24 }), { hours: 12, dutyCycle: 50 });
+  assert.equal(resolveLoadProfile(item, { date: wednesday, ambientC: 45 }).dutyCycle, 60);
+  assert.equal(resolveLoadProfile(item, { date: wednesday, ambientC: 0 }).dutyCycle, 20);
+  // No temperature: the month's duty stands
+  assert.equal(resolveLoadProfile(item, { date: wednesday }).dutyCycle, 80);
+  assert.equal(resolveLoadProfile(item, { date: new Date(2026, 6, 18) }).hours, 4);
+  assert.equal(resolveLoadProfile(item, { date: wednesday, weekBlend: true }).hours, (12 * 5 + 4 * 2) / 7);
+});
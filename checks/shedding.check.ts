@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { SheddingTarget } from '../types';
+import { planShedding, applyShedding, restoreShedding, getEventMinSoC } from '../services/shedding';
+import { resolveLoadProfile } from '../services/powerLogic';
+import { makeBattery, makeLoad } from './fixtures';
+
+// DOMAIN_SPEC §7 / §18: cuts scale the resolved profile; critical loads are never touched
+
+const allYear = Object.fromEntries(Array.from({ length: 12 }, (_, m) => [m, { hours: 10 }]));
+const tv = makeLoad('tv', { watts: 300, hours: 2, priority: 'optional', profile: { months: allYear } });
+const battery = makeBattery({ initialSoC: 100, forecastMode: 'monthAvg', forecastMonth: '2026-06-15' });
+const target: SheddingTarget = { minSoC: 50, days: 1, weather: 'zero' };
+
+test('profiled loads are cut from their resolved hours, not disabled', () => {
+  const plan = planShedding([tv], [], battery, target);
+  assert.equal(plan.met, true);
+  assert.equal(plan.actions.length, 1);
+  const [action] = plan.actions;
+  assert.equal(action.kind, 'reduce');
+  assert.equal(action.field, 'hours');
+  assert.equal(action.from, 10);
+  assert.equal(action.to, 7.5);
+});
+
+test('an applied plan meets the target and restores exactly', () => {
+  const plan = planShedding([tv], [], battery, target);
+  const applied = applyShedding([tv], plan.actions);
+  assert.equal(resolveLoadProfile(applied[0], { date: new Date(2026, 5, 15) }).hours, 7.5);
+  assert.ok(getEventMinSoC(applied, [], battery, target) >= target.minSoC);
+  assert.deepEqual(restoreShedding(applied), [tv]);
+});
+
+test('duty-cycled loads give up duty', () => {
+  const fridge = makeLoad('fridge', { watts: 600, hours: 24, dutyCycle: 50, priority: 'optional' });
+  const plan = planShedding([fridge], [], battery, target);
+  assert.equal(plan.actions[0]?.field, 'dutyCycle');
+});
+
+test('critical loads are never cut, optional go before comfort', () => {
+  const items = [
+    makeLoad('heater', { watts: 1000, hours: 6, priority: 'critical' }),
+    makeLoad('lights', { watts: 200, hours: 6 }),
+    makeLoad('tv', { watts: 100, hours: 6, priority: 'optional' })
+  ];
+  const plan = planShedding(items, [], battery, { ...target, minSoC: 90 });
+  assert.equal(plan.met, false);
+  assert.deepEqual(plan.actions.map(a => a.itemId), ['tv', 'lights']);
+  assert.ok(plan.actions.every(a => a.kind === 'disable'));
+});
+
+test('no cuts when the target already holds', () => {
+  const plan = planShedding([tv], [], battery, { ...target, minSoC: 10 });
+  assert.equal(plan.met, true);
+  assert.equal(plan.actions.length, 0);
+  assert.equal(plan.minSoC, plan.baselineMinSoC);
+});
@@ -0,0 +1,74 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { simulateDay, simulateMultiDay } from '../services/simulation';
+import { buildScheduleProfile, parseScheduleWindows } from '../services/schedule';
+import { calculateSystemTotals } from '../services/powerLogic';
+import { makeBattery, makeLoad, makeSource, MIDSUMMER } from './fixtures';
+
+const sum = (values: number[]) => values.reduce((a, b) => a + b, 0);
+const near = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) <= tolerance, `${actual} is not within ${tolerance} of ${expected}`);
+
+test('schedule weights sum to one and stay inside their windows', () => {
+  const evening = buildScheduleProfile({ windows: [{ start: 18, end: 22 }] }, 24);
+  near(sum(evening), 1);
+  evening.forEach((w, hour) => assert.equal(w > 0, hour >= 18 && hour < 22, `hour ${hour}`));
+
+  // end < start wraps past midnight
+  const overnight = buildScheduleProfile({ windows: [{ start: 22, end: 2 }] }, 96);
+  near(sum(overnight), 1);
+  assert.deepEqual(overnight.map((w, i) => w > 0 ? i : -1).filter(i => i >= 0), [0, 1, 2, 3, 4, 5, 6, 7, 88, 89, 90, 91, 92, 93, 94, 95]);
+
+  near(sum(buildScheduleProfile(undefined, 24)), 1);
+  assert.deepEqual(parseScheduleWindows('18-22, 6-7.5'), [{ start: 18, end: 22 }, { start: 6, end: 7.5 }]);
+  assert.equal(parseScheduleWindows('  '), undefined);
+});
+
+test('the day run spreads the daily totals without changing them', () => {
+  const items = [makeLoad('fridge', { watts: 60, hours: 24, dutyCycle: 40 }), makeLoad('lights', { watts: 40, hours: 4, schedule: { windows: [{ start: 18, end: 22 }] } })];
+  const charging = [makeSource('roof')];
+  const battery = makeBattery();
+  const totals = calculateSystemTotals(items, charging, battery);
+
+  [24, 96].forEach(intervals => {
+    const day = simulateDay(items, charging, battery, { intervals, date: MIDSUMMER });
+    assert.equal(day.points.length, intervals);
+    near(sum(day.points.map(p => p.loadWh)), totals.dailyWhConsumed);
+    near(sum(day.points.map(p => p.genWh)), totals.dailyWhGenerated);
+  });
+});
+
+test('SoC stays between empty and full', () => {
+  const battery = makeBattery({ capacityAh: 20, initialSoC: 50 });
+  const sunny = simulateDay([makeLoad('fan', { watts: 10 })], [makeSource('roof', { input: 2000 })], battery, { date: MIDSUMMER });
+  assert.ok(sunny.clippedWh > 0);
+  assert.ok(sunny.points.every(p => p.soc <= 100));
+
+  const flat = simulateDay([makeLoad('heater', { watts: 1000, hours: 24 })], [], battery, { date: MIDSUMMER });
+  assert.ok(flat.unmetWh > 0);
+  assert.ok(flat.points.every(p => p.soc >= 0));
+  assert.ok(flat.minSoC <= flat.startSoC);
+});
+
+test('multi-day runs carry SoC from one day into the next', () => {
+  const items = [makeLoad('fridge', { watts: 60, hours: 24, dutyCycle: 50 })];
+  const run = simulateMultiDay(items, [makeSource('roof')], makeBattery({ capacityAh: 40 }), [6, 0, 0, 0, 5], { startDate: MIDSUMMER });
+  assert.equal(run.days.length, 5);
+  run.days.slice(1).forEach((day, i) => assert.equal(day.startSoC, run.days[i].endSoC));
+  // Sunless days only ever drain
+  [1, 2, 3].forEach(i => assert.ok(run.days[i].endSoC <= run.days[i].startSoC));
+  assert.ok(run.days[4].endSoC > run.days[4].startSoC);
+  assert.equal(run.minSoC, Math.min(run.days[0].startSoC, ...run.days.map(d => d.minSoC)));
+  assert.ok(run.firstFlatDay !== null && run.firstFlatDay >= 2 && run.firstFlatDay <= 4);
+});
+
+test('a day without a temperature is not read as 0 °C', () => {
+  const fridge = makeLoad('fridge', {
+    watts: 100, hours: 24, dutyCycle: 40,
+    profile: { tempRule: { baseTempC: 20, baseDuty: 40, dutyPerDegC: 2, minDuty: 10, maxDuty: 80 } }
+  });
+  const roof = makeSource('roof', { autoSolar: true, array: { flat: true, tiltDeg: 0, azimuthDeg: 180, tempCoeffPct: -0.4, noctC: 45, shadingPct: 0, controller: 'mppt' } });
+  const run = (dailyAmbientC?: number[]) => simulateMultiDay([fridge], [roof], makeBattery({ initialSoC: 50 }), [2, 2], { startDate: MIDSUMMER, dailyAmbientC }).days[1].endSoC;
+  assert.equal(run([25, NaN]), run([25]));
+  assert.notEqual(run([25, NaN]), run([25, 0]));
+});
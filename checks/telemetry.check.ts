@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LoadCategory } from '../types';
+import { importTelemetry } from '../services/telemetry';
+import { calibrate } from '../services/calibration';
+import { makeBattery, makeLoad } from './fixtures';
+
+// DOMAIN_SPEC §15: logs integrate per local clock hour; calibration fits what the shunt could see
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const stamp = (day: number, minutes: number) => `2026-03-${pad(day)} ${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}:00`;
+
+// A steady draw logged every `everyMin` minutes from midnight on the 1st
+const makeLog = (days: number, everyMin: number, amps: number, delimiter = ',') => {
+  const rows = ['Timestamp,Voltage (V),Current (A),SoC (%)'.replace(/,/g, delimiter)];
+  for (let t = 0; t <= days * 1440; t += everyMin) {
+    const day = 1 + Math.floor(t / 1440);
+    rows.push([stamp(day, t % 1440), '24', String(amps), '80'].join(delimiter));
+  }
+  return rows.join('\n');
+};
+
+test('sample logs integrate to Wh per clock hour', () => {
+  const log = importTelemetry(makeLog(1, 5, -5), 'log.csv', { nominalVoltage: 24 });
+  assert.equal(log.format, 'generic');
+  const [day] = log.days;
+  assert.equal(day.date, '2026-03-01');
+  assert.ok(Math.abs(day.outWh - 24 * 120) < 1e-6);
+  assert.equal(day.inWh, 0);
+  day.hours!.forEach(hour => assert.ok(Math.abs(hour.outWh - 120) < 1e-6 && hour.coverage === 1 && hour.soc === 80));
+});
+
+test('European exports and inverted current', () => {
+  const text = makeLog(1, 5, 5, ';').replace(/;24;/g, ';24,0;');
+  const log = importTelemetry(text, 'bms.csv', { nominalVoltage: 24, invertCurrent: true });
+  assert.ok(Math.abs(log.days[0].outWh - 24 * 120) < 1e-6);
+});
+
+test('half-hourly and hourly logs integrate like dense ones', () => {
+  [30, 60].forEach(everyMin => {
+    const [day] = importTelemetry(makeLog(1, everyMin, -5), 'log.csv', { nominalVoltage: 24 }).days;
+    assert.ok(Math.abs(day.outWh - 24 * 120) < 1e-6, `${everyMin} min: ${day.outWh}`);
+  });
+  // A gap of several intervals is still missing data
+  const gappy = makeLog(1, 5, -5).split('\n').filter(row => !/ 1[0-2]:/.test(row)).join('\n');
+  assert.ok(Math.abs(importTelemetry(gappy, 'log.csv', { nominalVoltage: 24 }).days[0].outWh - (21 * 120 - 10)) < 1e-6);
+});
+
+test('quoted thousands separators', () => {
+  const text = 'Timestamp,Power (W)\n2026-03-01 00:00,"-1,234"\n2026-03-01 00:05,"-1,234.5"\n2026-03-01 00:10,-1';
+  const [day] = importTelemetry(text, 'log.csv', { nominalVoltage: 24 }).days;
+  assert.ok(Math.abs(day.outWh - (1234 + 1234.5) / 12) < 1e-9);
+  // A lone comma in a ;-separated file is still a decimal comma
+  const european = importTelemetry('Timestamp;Power (W)\n2026-03-01 00:00;-1,234\n2026-03-01 00:05;0', 'log.csv', { nominalVoltage: 24 });
+  assert.ok(Math.abs(european.days[0].outWh - 1.234 / 12) < 1e-9);
+});
+
+test('daily summaries scale kWh', () => {
+  const text = 'Date,Charged energy (kWh),Discharged energy (kWh)\n2026-03-01,2.5,1.75\n2026-03-02,3,2';
+  const log = importTelemetry(text, 'smartshunt.csv', { nominalVoltage: 24 });
+  assert.equal(log.format, 'smartshunt');
+  assert.deepEqual(log.days.map(d => [d.date, d.inWh, d.outWh, d.hours]), [['2026-03-01', 2500, 1750, undefined], ['2026-03-02', 3000, 2000, undefined]]);
+  // Nothing hourly to fit, and the report says so
+  const report = calibrate(log, [makeLoad('fridge')], makeBattery());
+  assert.match(report.unavailable!, /daily totals/i);
+  assert.ok(report.categories.every(c => c.suggestions.length === 0));
+});
+
+test('unusable files say why', () => {
+  assert.throws(() => importTelemetry('Voltage,Current\n24,1\n24,2', 'x.csv', { nominalVoltage: 24 }), /timestamp/);
+  assert.throws(() => importTelemetry('Timestamp,SoC\n2026-03-01 00:00,80\n2026-03-01 00:05,80', 'x.csv', { nominalVoltage: 24 }), /current or power/);
+});
+
+test('calibration recovers a steady over-draw', () => {
+  // Modelled 100 W mean; logged 120 W around the clock with no solar
+  const fridge = makeLoad('fridge', { watts: 200, hours: 24, dutyCycle: 50 });
+  const log = importTelemetry(makeLog(3, 5, -5), 'log.csv', { nominalVoltage: 24 });
+  const report = calibrate(log, [fridge], makeBattery());
+  const dc = report.categories.find(c => c.category === LoadCategory.DC_LOADS)!;
+  assert.ok(dc.factor > 1.1 && dc.factor <= 1.2 + 1e-9, `factor ${dc.factor}`);
+  assert.equal(dc.suggestions[0].field, 'dutyCycle');
+  assert.ok(dc.suggestions[0].suggested > 50);
+});
@@ -0,0 +1,105 @@
+import React from 'react';
+import { ChargingSource, BatteryConfig, SolarArray, ControllerType } from '../types';
+import { DEFAULT_SOLAR_ARRAY, CONTROLLER_EFFICIENCY } from '../constants';
+import { getEffectiveSolarHours, getSiteLatitude, getSimulationDate, getAmbientTempC } from '../services/powerLogic';
+import { getArrayFactors } from '../services/arrayPhysics';
+import NumberInput from './NumberInput';
+
+interface ArrayDrawerProps {
+  source: ChargingSource;
+  battery: BatteryConfig;
+  colSpan: number;
+  onChange: (array: SolarArray | undefined) => void;
+}
+
+const COMPASS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'];
+
+export const formatOrientation = (array: SolarArray) => {
+  if (array.flat) return 'Flat';
+  const bearing = ((Number(array.azimuthDeg) || 0) % 360 + 360) % 360;
+  return `${Math.round(Number(array.tiltDeg) || 0)}° ${COMPASS[Math.round(bearing / 45) % 8]}`;
+};
+
+const Field: React.FC<{ label: string; unit: string; children: React.ReactNode }> = ({ label, unit, children }) => (
+  <label className="flex items-center gap-1.5">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+      {children}
+      <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{unit}</span>
+    </div>
+  </label>
+);
+
+const ArrayDrawer: React.FC<ArrayDrawerProps> = ({ source, battery, colSpan, onChange }) => {
+  const array = source.array;
+  const latitude = getSiteLatitude(battery);
+  const update = (field: keyof SolarArray, value: any) => array && onChange({ ...array, [field]: value });
+
+  const enable = (on: boolean) => {
+    // Face the equator by default
+    onChange(on ? { ...DEFAULT_SOLAR_ARRAY, azimuthDeg: latitude < 0 ? 0 : 180 } : undefined);
+  };
+
+  const psh = getEffectiveSolarHours(source, battery);
+  const factors = array ? getArrayFactors(array, latitude, getSimulationDate(battery), psh, getAmbientTempC(battery)) : null;
+
+  return (
+    <tr className="bg-slate-950/60 border-b border-slate-800">
+      <td colSpan={colSpan} className="px-8 py-2">
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-[10px]">
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={!!array} onChange={(e) => enable(e.target.checked)} className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20" />
+            <span className="text-[7px] text-slate-400 uppercase font-black tracking-widest">Model Array</span>
+          </label>
+
+          {!array && (
+            <span className="text-slate-600 italic">Using flat efficiency ({(Number(source.efficiency) || 0.85).toFixed(2)}) on horizontal PSH.</span>
+          )}
+
+          {array && (
+            <>
+              <label className="flex items-center gap-1.5 cursor-pointer">
+                <input type="checkbox" checked={array.flat} onChange={(e) => update('flat', e.target.checked)} className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20" />
+                <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Flat on Roof</span>
+              </label>
+              <Field label="Tilt" unit="°">
+                <NumberInput value={array.tiltDeg} onChange={(val) => update('tiltDeg', Math.min(90, Math.max(0, val)))} disabled={array.flat} />
+              </Field>
+              <Field label="Facing" unit="°">
+                <NumberInput value={array.azimuthDeg} onChange={(val) => update('azimuthDeg', ((val % 360) + 360) % 360)} step="5" disabled={array.flat} />
+              </Field>
+              <Field label="Temp Coeff" unit="%/°">
+                <NumberInput value={array.tempCoeffPct} onChange={(val) => update('tempCoeffPct', Math.min(0, val))} step="0.01" />
+              </Field>
+              <Field label="NOCT" unit="°C">
+                <NumberInput value={array.noctC} onChange={(val) => update('noctC', Math.max(20, val))} />
+              </Field>
+              <Field label="Shade/Soil" unit="%">
+                <NumberInput value={array.shadingPct} onChange={(val) => update('shadingPct', Math.min(100, Math.max(0, val)))} />
+              </Field>
+              <label className="flex items-center gap-1.5">
+                <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Controller</span>
+                <select value={array.controller} onChange={(e) => update('controller', e.target.value as ControllerType)} className="bg-transparent border-none text-slate-200 font-mono text-[10px] focus:ring-0 font-bold outline-none p-0 cursor-pointer">
+                  {(Object.keys(CONTROLLER_EFFICIENCY) as ControllerType[]).map(key => (
+                    <option key={key} value={key} className="bg-slate-900 text-slate-200">{CONTROLLER_EFFICIENCY[key].label}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+
+          {factors && (
+            <div className="flex items-center gap-4 ml-auto font-mono font-bold">
+              <span className="text-slate-400" title="Plane-of-array vs horizontal irradiance">POA {(factors.transposition * 100).toFixed(0)}%</span>
+              <span className="text-amber-400" title={`Cell ${factors.cellTempC.toFixed(0)}°C at ${getAmbientTempC(battery).toFixed(0)}°C ambient`}>Temp {(factors.temperature * 100).toFixed(0)}%</span>
+              <span className="text-cyan-400" title="Temperature × shading × controller × wiring">PR {factors.performance.toFixed(2)}</span>
+              <span className="text-emerald-400" title="Horizontal PSH × transposition">{(psh * factors.transposition).toFixed(1)} PSH</span>
+            </div>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+export default ArrayDrawer;
@@ -0,0 +1,72 @@
+import React, { useState, useEffect } from 'react';
+import { AutoStartRule, ChargingSource, BatteryConfig } from '../types';
+import { getAutoStartWhPerHour, getAutoStartMaxHours } from '../services/powerLogic';
+import { parseScheduleWindows } from '../services/schedule';
+import { DEFAULT_AUTO_START } from '../constants';
+import NumberInput from './NumberInput';
+
+interface AutoStartDrawerProps {
+  source: ChargingSource;
+  battery: BatteryConfig;
+  colSpan: number;
+  onChange: (rule: AutoStartRule) => void;
+}
+
+const Field: React.FC<{ label: string; unit: string; children: React.ReactNode }> = ({ label, unit, children }) => (
+  <label className="flex items-center gap-1.5">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+      {children}
+      <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{unit}</span>
+    </div>
+  </label>
+);
+
+export const formatAutoStart = (rule: AutoStartRule) => `<${rule.startSoC}→${rule.stopSoC}%`;
+
+const formatWindows = (rule: AutoStartRule) => (rule.quietWindows || []).map(w => `${w.start}-${w.end}`).join(', ');
+
+const AutoStartDrawer: React.FC<AutoStartDrawerProps> = ({ source, battery, colSpan, onChange }) => {
+  const rule = source.autoStart || DEFAULT_AUTO_START;
+  const update = (field: keyof AutoStartRule, value: any) => onChange({ ...rule, [field]: value });
+  const [quietText, setQuietText] = useState(formatWindows(rule));
+  useEffect(() => setQuietText(formatWindows(rule)), [source.autoStart?.quietWindows]);
+
+  const whPerHour = getAutoStartWhPerHour(source, battery);
+  const limited = whPerHour < (Number(source.input) || 0) * (Number(source.efficiency) || 1) * (Number(source.quantity) || 1) - 0.5;
+
+  return (
+    <tr className="bg-slate-950/60 border-b border-slate-800">
+      <td colSpan={colSpan} className="px-8 py-2">
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-[10px]">
+          <Field label="Start Below" unit="%">
+            <NumberInput optional value={rule.startSoC} onChange={(val) => update('startSoC', Math.min(rule.stopSoC, Math.max(0, val ?? 0)))} step="5" />
+          </Field>
+          <Field label="Stop At" unit="%">
+            <NumberInput optional value={rule.stopSoC} onChange={(val) => update('stopSoC', Math.min(100, Math.max(rule.startSoC, val ?? 100)))} step="5" />
+          </Field>
+          <Field label="Max Run" unit="h">
+            <NumberInput optional value={rule.maxRunHours} onChange={(val) => update('maxRunHours', val === undefined ? undefined : Math.min(24, Math.max(0, val)))} placeholder="24" step="0.5" />
+          </Field>
+          <Field label="Charge Limit" unit="A">
+            <NumberInput optional value={rule.maxChargeA} onChange={(val) => update('maxChargeA', val === undefined || val <= 0 ? undefined : val)} placeholder="—" />
+          </Field>
+          <label className="flex items-center gap-1.5">
+            <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Quiet</span>
+            <input type="text" value={quietText} placeholder="e.g. 21-7" title="Hours it may not run, e.g. 21-7, 12-13"
+              onChange={(e) => setQuietText(e.target.value)}
+              onBlur={() => update('quietWindows', parseScheduleWindows(quietText))}
+              onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+              className="w-[80px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 text-white text-[10px] font-mono outline-none focus:border-blue-500 placeholder-slate-600" />
+          </label>
+          <div className="flex items-center gap-4 ml-auto font-mono font-bold">
+            <span className={limited ? 'text-amber-400' : 'text-emerald-400'} title={limited ? 'Held to the charge current limit' : 'Full rated output'}>{whPerHour.toFixed(0)} Wh/h</span>
+            <span className="text-slate-400" title="Most it may run per day">≤ {getAutoStartMaxHours(source).toFixed(1)} h/day</span>
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+export default AutoStartDrawer;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { BatteryBank, BatteryChemistry, BankTotals } from '../types';
+import { CHEMISTRY_PRESETS } from '../constants';
+import { getPackVoltage, getPackCapacityAh } from '../services/powerLogic';
+import NumberInput from './NumberInput';
+
+interface BatteryBankTableProps {
+  banks: BatteryBank[];
+  bankTotals?: BankTotals[];
+  onUpdateBank: (id: string, field: keyof BatteryBank, value: any) => void;
+  onDeleteBank: (id: string) => void;
+  onAddBank: () => void;
+}
+
+const BatteryBankTable: React.FC<BatteryBankTableProps> = ({ banks, bankTotals, onUpdateBank, onDeleteBank, onAddBank }) => {
+  return (
+    <div className="overflow-hidden bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5">
+      <table className="w-full text-left text-[12px] text-slate-300 table-auto border-collapse">
+        <thead className="bg-slate-950 text-[8px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+          <tr>
+            <th className="px-2 py-2 min-w-[140px]">Bank</th>
+            <th className="px-1 py-2 w-[70px]">Chemistry</th>
+            <th className="px-1 py-2 text-right w-[46px]">Module V</th>
+            <th className="px-1 py-2 text-right w-[46px]">Module Ah</th>
+            <th className="px-1 py-2 text-center w-[30px]">S</th>
+            <th className="px-1 py-2 text-center w-[30px]">P</th>
+            <th className="px-2 py-2 text-right whitespace-nowrap">Pack</th>
+            <th className="px-1 py-2 text-right w-[42px]">Init SoC</th>
+            <th className="px-1 py-2 text-right w-[42px]" title="State of health: capacity left vs. nameplate">SoH</th>
+            <th className="px-1 py-2 text-right w-[42px]" title="BMS max continuous discharge">BMS</th>
+            <th className="px-1 py-2 text-right w-[42px]" title="Main battery fuse rating">Fuse</th>
+            <th className="px-2 py-2 text-right whitespace-nowrap">24H SoC</th>
+            <th className="px-2 py-2 w-8"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800/50">
+          {banks.map((bank, index) => {
+            const packV = getPackVoltage(bank);
+            const packAh = getPackCapacityAh(bank);
+            const totals = bankTotals?.find(t => t.bankId === bank.id);
+            return (
+              <tr key={bank.id} className="hover:bg-slate-800/40 transition-all group">
+                <td className="px-2 py-1 whitespace-nowrap">
+                  <div className="flex items-center gap-1.5">
+                    <input type="text" value={bank.name} onChange={(e) => onUpdateBank(bank.id, 'name', e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                      className="bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-200 transition-colors text-[12px] font-medium outline-none"/>
+                    {index === 0 && <span className="text-[6px] font-black uppercase tracking-widest text-blue-400 shrink-0">House</span>}
+                  </div>
+                </td>
+                <td className="px-1 py-1">
+                  <select value={bank.chemistry} onChange={(e) => onUpdateBank(bank.id, 'chemistry', e.target.value as BatteryChemistry)} className="bg-transparent border-none w-full text-slate-200 font-mono text-[10px] focus:ring-0 font-bold outline-none p-0 cursor-pointer">
+                    {(Object.keys(CHEMISTRY_PRESETS) as BatteryChemistry[]).map(key => (
+                      <option key={key} value={key} className="bg-slate-900 text-slate-200">{CHEMISTRY_PRESETS[key].label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[40px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput placeholder="0" value={bank.moduleVoltage} onChange={(val) => onUpdateBank(bank.id, 'moduleVoltage', Math.max(0, val))} step="0.1" />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">V</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[42px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput placeholder="0" value={bank.moduleAh} onChange={(val) => onUpdateBank(bank.id, 'moduleAh', Math.max(0, val))} />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">Ah</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-center">
+                  <div className="inline-flex items-center justify-center w-[24px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput value={bank.seriesCount} onChange={(val) => onUpdateBank(bank.id, 'seriesCount', Math.max(1, Math.round(val)))} placeholder="1" className="text-center pr-0" />
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-center">
+                  <div className="inline-flex items-center justify-center w-[24px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput value={bank.parallelCount} onChange={(val) => onUpdateBank(bank.id, 'parallelCount', Math.max(1, Math.round(val)))} placeholder="1" className="text-center pr-0" />
+                  </div>
+                </td>
+                <td className="px-2 py-1 text-right font-mono text-cyan-400 font-bold text-[11px] whitespace-nowrap">
+                  {packV.toFixed(1)}V · {packAh.toFixed(0)}Ah
+                  <span className="text-slate-600 text-[9px] ml-1">{bank.seriesCount}S{bank.parallelCount}P</span>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[36px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput placeholder="0" value={bank.initialSoC} onChange={(val) => onUpdateBank(bank.id, 'initialSoC', Math.min(100, Math.max(0, val)))} />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">%</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[36px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput value={bank.stateOfHealthPct || 0} onChange={(val) => onUpdateBank(bank.id, 'stateOfHealthPct', val > 0 ? Math.min(100, val) : undefined)} placeholder="100" />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">%</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[38px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput value={bank.bmsMaxDischargeA || 0} onChange={(val) => onUpdateBank(bank.id, 'bmsMaxDischargeA', Math.max(0, val) || undefined)} placeholder="-" />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">A</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[38px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput value={bank.mainFuseA || 0} onChange={(val) => onUpdateBank(bank.id, 'mainFuseA', Math.max(0, val) || undefined)} placeholder="-" />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">A</span>
+                  </div>
+                </td>
+                <td className="px-2 py-1 text-right font-mono text-emerald-400 font-bold text-[11px] whitespace-nowrap">
+                  {totals ? `${totals.finalSoC.toFixed(0)}%` : '-'}
+                </td>
+                <td className="px-2 py-1 text-center w-8">
+                  {banks.length > 1 && (
+                    <button onClick={() => onDeleteBank(bank.id)} className="text-slate-400 hover:text-red-400 opacity-60 hover:opacity-100 transition-all p-0.5 group/del">
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3 h-3 group-hover/del:scale-110 transition-transform"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+                    </button>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={13} className="px-2 py-1">
+              <button onClick={onAddBank} className="w-[10%] flex items-center justify-center gap-2 py-1 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-sm font-medium transition-all">+</button>
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default BatteryBankTable;
@@ -0,0 +1,21 @@
+import React from 'react';
+
+interface BoxProps {
+  width: string;
+  prefix?: string;
+  unit?: string;
+  children: React.ReactNode;
+}
+
+/**
+ * Bordered input cell with a small prefix (currency) and/or unit label.
+ */
+const Box: React.FC<BoxProps> = ({ width, prefix, unit, children }) => (
+  <div className={`inline-flex items-center justify-end ${width} bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors`}>
+    {prefix && <span className="text-[7px] text-slate-500 font-black shrink-0">{prefix}</span>}
+    {children}
+    {unit && <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{unit}</span>}
+  </div>
+);
+
+export default Box;
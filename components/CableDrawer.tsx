@@ -0,0 +1,75 @@
+import React from 'react';
+import { CableRun, CableSizing, ConductorMaterial } from '../types';
+import { getCableRun } from '../services/powerLogic';
+import NumberInput from './NumberInput';
+
+interface CableDrawerProps {
+  run?: CableRun;
+  sizing: CableSizing;
+  colSpan: number;
+  onChange: (run: CableRun) => void;
+}
+
+export const formatCableSize = (sizing: CableSizing) => sizing.oversize ? '> 4/0' : `${sizing.awg} AWG`;
+
+/**
+ * Summary cell for the CABLE column. Opens the drawer row.
+ */
+export const CableCell: React.FC<{ sizing: CableSizing; open: boolean; onToggle: () => void }> = ({ sizing, open, onToggle }) => (
+  <button onClick={onToggle} title={`${sizing.amps.toFixed(1)}A · ${sizing.mm2}mm² · ${sizing.dropPct.toFixed(1)}% drop`}
+    className={`font-mono text-[10px] font-bold whitespace-nowrap transition-colors ${sizing.oversize ? 'text-rose-400' : open ? 'text-blue-400' : 'text-slate-400 hover:text-white'}`}>
+    {formatCableSize(sizing)} <span className="text-slate-600">· {sizing.fuseA}A</span>
+  </button>
+);
+
+const Field: React.FC<{ label: string; unit: string; children: React.ReactNode }> = ({ label, unit, children }) => (
+  <label className="flex items-center gap-1.5">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+      {children}
+      <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{unit}</span>
+    </div>
+  </label>
+);
+
+const CableDrawer: React.FC<CableDrawerProps> = ({ run: runProp, sizing, colSpan, onChange }) => {
+  const run = getCableRun(runProp);
+  const update = (field: keyof CableRun, value: any) => onChange({ ...run, [field]: value });
+
+  return (
+    <tr className="bg-slate-950/60 border-b border-slate-800">
+      <td colSpan={colSpan} className="px-8 py-2">
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-[10px]">
+          <Field label="Length (one way)" unit="m">
+            <NumberInput value={run.lengthM} onChange={(val) => update('lengthM', Math.max(0, val))} step="0.5" />
+          </Field>
+          <Field label="Max Drop" unit="%">
+            <NumberInput value={run.maxDropPct} onChange={(val) => update('maxDropPct', Math.min(20, Math.max(0.5, val)))} step="0.5" />
+          </Field>
+          <Field label="Ambient" unit="°C">
+            <NumberInput value={run.ambientC} onChange={(val) => update('ambientC', Math.min(85, val))} />
+          </Field>
+          <label className="flex items-center gap-1.5">
+            <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Conductor</span>
+            <select value={run.material} onChange={(e) => update('material', e.target.value as ConductorMaterial)} className="bg-transparent border-none text-slate-200 font-mono text-[10px] focus:ring-0 font-bold outline-none p-0 cursor-pointer">
+              <option value="copper" className="bg-slate-900 text-slate-200">Copper</option>
+              <option value="aluminium" className="bg-slate-900 text-slate-200">Aluminium</option>
+            </select>
+          </label>
+
+          <div className="flex items-center gap-4 ml-auto font-mono font-bold">
+            <span className="text-slate-400">{sizing.amps.toFixed(1)}A @ {sizing.voltage.toFixed(1)}V</span>
+            <span className={sizing.oversize ? 'text-rose-400' : 'text-cyan-400'}>
+              {formatCableSize(sizing)} / {sizing.mm2}mm²
+              <span className="text-slate-600 text-[8px] ml-1 uppercase">{sizing.oversize ? 'parallel runs' : `${sizing.limitedBy} limited`}</span>
+            </span>
+            <span className={sizing.dropPct > run.maxDropPct ? 'text-rose-400' : 'text-emerald-400'}>{sizing.dropV.toFixed(2)}V ({sizing.dropPct.toFixed(1)}%)</span>
+            <span className="text-amber-400" title={`Cable ampacity ${sizing.ampacityA.toFixed(0)}A (derated)`}>{sizing.fuseA}A fuse</span>
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+export default CableDrawer;
@@ -1,16 +1,27 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useMemo } from 'react';
 import { ChargingSource, BatteryConfig } from '../types';
-import { getEffectiveSolarHours, normalizeAutoSolarHours } from '../services/powerLogic';
+import { getEffectiveSolarHours, getLearnedSolarFactor, normalizeAutoSolarHours, getBatteryBanks, isOnBank, getRowVoltage, sizeCable, getSourceCurrent, calculateSourceEnergy, isAutoStart, getAutoStartWhPerHour, getSourceInputW } from '../services/powerLogic';
+import { isDriven, formatDriving } from '../services/driving';
+import { DEFAULT_AUTO_START, DEFAULT_DRIVING } from '../constants';
+import ScheduleInput from './ScheduleInput';
+import CableDrawer, { CableCell } from './CableDrawer';
+import ArrayDrawer, { formatOrientation } from './ArrayDrawer';
+import AutoStartDrawer, { formatAutoStart } from './AutoStartDrawer';
+import DrivingDrawer from './DrivingDrawer';
+import NumberInput from './NumberInput';
 
 interface ChargingTableProps {
   sources: ChargingSource[];
   battery: BatteryConfig;
+  autoStartHours?: Record<string, number>; // Deficit-covering hours for auto-start rows
+  overVoltageIds?: string[];               // Solar rows whose cold Voc exceeds their controller's PV input limit
   highlightedId: string | null;
   onUpdateSource: (id: string, field: keyof ChargingSource, value: any) => void;
   onDeleteSource: (id: string) => void;
   onAddSource: () => void;
   onAIAddSource: () => void;
+  onOpenLibrary?: () => void;
   onUpdateBattery: (field: keyof BatteryConfig, value: any) => void;
   onReorder: (fromId: string, toId: string) => void;
   onSort: (key: string, direction: 'asc' | 'desc') => void;
@@ -22,55 +33,6 @@ const isMgmt = (source: ChargingSource) =>
   source.name.toLowerCase().includes('rover') ||
   source.name.toLowerCase().includes('inverter');
 
-const NumberInput = ({ 
-  value, 
-  onChange, 
-  className,
-  step = "any",
-  disabled = false,
-  placeholder = ""
-}: { 
-  value: number, 
-  onChange: (val: number) => void, 
-  className?: string,
-  step?: string,
-  disabled?: boolean,
-  placeholder?: string
-}) => {
-const [localStr, setLocalStr] = useState(
-  Number.isFinite(value) ? String(value) : ''
-);
-  useEffect(() => {
-  if (Number.isFinite(value)) {
-    const next = String(value);
-    if (localStr !== next) setLocalStr(next);
-  } else {
-    if (localStr !== '') setLocalStr('');
-  }
-}, [value]);
-
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    setLocalStr(val);
-    const parsed = parseFloat(val);
-    if (!isNaN(parsed)) onChange(parsed);
-  };
-  
-  return (
-    <input 
-      type="number" 
-      step={step} 
-      placeholder={placeholder}
-      className={`bg-transparent text-right text-white focus:outline-none w-full pr-0.5 font-medium placeholder-slate-600 ${className} ${disabled ? 'opacity-30' : ''}`} 
-      value={localStr} 
-      onChange={handleChange} 
-      disabled={disabled}
-      onFocus={(e) => !disabled && e.target.select()} 
-      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
-    />
-  );
-};
-
 const SortHeader = ({ label, sortKey, currentSort, onSort, className, widthClass }: { label: string, sortKey: string, currentSort: { key: string, dir: 'asc' | 'desc' } | null, onSort: (k: string, d: 'asc' | 'desc') => void, className?: string, widthClass?: string }) => {
   const isActive = currentSort?.key === sortKey;
   const handleClick = () => onSort(sortKey, isActive && currentSort.dir === 'desc' ? 'asc' : 'desc');
@@ -87,11 +49,19 @@ const SortHeader = ({ label, sortKey, currentSort, onSort, className, widthClass
   );
 };
 
+type DrawerKind = 'cable' | 'array' | 'autoStart' | 'driving';
+
 const ChargingTable: React.FC<ChargingTableProps> = ({ 
-  sources, battery, highlightedId, onUpdateSource, onDeleteSource, onAddSource, onAIAddSource, onUpdateBattery, onReorder, onSort
+  sources, battery, autoStartHours = {}, overVoltageIds = [], highlightedId, onUpdateSource, onDeleteSource, onAddSource, onAIAddSource, onOpenLibrary, onUpdateBattery, onReorder, onSort
 }) => {
   const [draggedId, setDraggedId] = useState<string | null>(null);
   const [sortState, setSortState] = useState<{ key: string, dir: 'asc' | 'desc' } | null>(null);
+  const [drawer, setDrawer] = useState<{ id: string, kind: DrawerKind } | null>(null);
+  const toggleDrawer = (id: string, kind: DrawerKind) => setDrawer(drawer?.id === id && drawer.kind === kind ? null : { id, kind });
+
+  const banks = getBatteryBanks(battery);
+  const showBank = banks.length > 1;
+  const columnCount = showBank ? 13 : 12;
 
   const sortedSources = useMemo(() => {
     if (!sortState) return sources;
@@ -101,11 +71,9 @@ const ChargingTable: React.FC<ChargingTableProps> = ({
       let valB: any = b[key as keyof ChargingSource];
 
       if (key === 'dailyWh') {
-        const hA = getEffectiveSolarHours(a, battery);
-        const hB = getEffectiveSolarHours(b, battery);
         // Watts Only Logic
-        valA = (a.input * hA * a.efficiency * a.quantity);
-        valB = (b.input * hB * b.efficiency * b.quantity);
+        valA = calculateSourceEnergy(a, battery).wh;
+        valB = calculateSourceEnergy(b, battery).wh;
       }
 
       if (typeof valA === 'string') return dir === 'asc' ? valA.localeCompare(valB) : valB.localeCompare(valA);
@@ -131,7 +99,10 @@ const ChargingTable: React.FC<ChargingTableProps> = ({
             <th className="px-1 py-2 text-center whitespace-nowrap w-[30px]">☀️ Auto</th>
             <SortHeader label="Hrs/Day" sortKey="hours" currentSort={sortState} onSort={handleSort} className="text-right" widthClass="w-[46px]" />
             <SortHeader label="Efficiency" sortKey="efficiency" currentSort={sortState} onSort={handleSort} className="text-right" widthClass="w-[38px]" />
+            <th className="px-1 py-2 whitespace-nowrap w-[64px]">When</th>
+            {showBank && <th className="px-1 py-2 whitespace-nowrap w-[60px]">Bank</th>}
             <SortHeader label="Daily Wh" sortKey="dailyWh" currentSort={sortState} onSort={handleSort} className="text-right" widthClass="w-[45px]" />
+            <th className="px-2 py-2 whitespace-nowrap" title="Minimum cable and fuse for this circuit">Cable</th>
             <th className="px-2 py-2 w-8"></th>
           </tr>
         </thead>
@@ -143,11 +114,16 @@ const ChargingTable: React.FC<ChargingTableProps> = ({
             const effectiveHours = Math.round(rawEffectiveHours * 10) / 10;
             
             const efficiency = Number(source.efficiency) || 0.85;
-            const inputVal = Number(source.input) || 0;
-            const qty = Number(source.quantity) || 1;
             
-            // WATTS ONLY LOGIC
-            const dailyWh = managementItem ? 0 : (inputVal * rawEffectiveHours * efficiency * qty);
+            // WATTS ONLY LOGIC. Modelled arrays replace the flat efficiency with physics.
+            const energy = calculateSourceEnergy(source, battery);
+            const isAuto = isAutoStart(source);
+            const autoHours = autoStartHours[source.id] || 0;
+            const dailyWh = managementItem ? 0 : isAuto ? autoHours * getAutoStartWhPerHour(source, battery) : energy.wh;
+            const canAutoStart = !managementItem && source.type !== 'solar' && source.type !== 'alternator';
+            const driven = isDriven(source);
+            const ampRated = driven && !!source.driving!.ratedA;
+            const isModelled = source.type === 'solar' && !!source.array;
             
             const isHighlighted = highlightedId === source.id;
             const isDisabled = source.enabled === false;
@@ -155,9 +131,12 @@ const ChargingTable: React.FC<ChargingTableProps> = ({
             const norm = normalizeAutoSolarHours(battery);
             const isAutoErr = source.autoSolar && (norm.status === 'invalid' || norm.status === 'nodata');
             const isLoading = source.autoSolar && battery.forecast?.loading;
+            const sourceVoltage = getRowVoltage(source, battery);
+            const cable = sizeCable(getSourceCurrent(source, sourceVoltage), sourceVoltage, source.cable);
               
             return (
-              <tr key={source.id} className={`hover:bg-slate-800/40 transition-all duration-700 group ${draggedId === source.id ? 'opacity-20 scale-[0.98]' : ''} ${managementItem ? 'bg-slate-900/40 opacity-60' : ''} ${isHighlighted ? 'bg-purple-900/40 border-purple-500/50 shadow-[inset_0_0_20px_rgba(168,85,247,0.1)] ring-1 ring-purple-500/30' : ''} ${isDisabled ? 'opacity-40 grayscale' : ''}`}
+              <React.Fragment key={source.id}>
+              <tr className={`hover:bg-slate-800/40 transition-all duration-700 group ${draggedId === source.id ? 'opacity-20 scale-[0.98]' : ''} ${managementItem ? 'bg-slate-900/40 opacity-60' : ''} ${isHighlighted ? 'bg-purple-900/40 border-purple-500/50 shadow-[inset_0_0_20px_rgba(168,85,247,0.1)] ring-1 ring-purple-500/30' : ''} ${isDisabled ? 'opacity-40 grayscale' : ''}`}
                 draggable 
                 onDragStart={(e) => { 
                   setDraggedId(source.id); 
@@ -178,9 +157,14 @@ const ChargingTable: React.FC<ChargingTableProps> = ({
               >
                 <td className="pl-2 pr-0 py-1 w-6 text-center cursor-move text-slate-700 group-hover:text-slate-400 select-none">⋮⋮</td>
                 <td className="px-2 py-1 whitespace-nowrap">
-                  <input type="text" value={source.name} onChange={(e) => onUpdateSource(source.id, 'name', e.target.value)}
-                    onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
-                    className={`bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-200 transition-colors text-[12px] font-medium outline-none ${managementItem ? 'italic' : ''}`}/>
+                  <div className="flex items-center gap-1">
+                    <input type="text" value={source.name} onChange={(e) => onUpdateSource(source.id, 'name', e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                      className={`bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-200 transition-colors text-[12px] font-medium outline-none ${managementItem ? 'italic' : ''}`}/>
+                    {source.partId && <span className="shrink-0 text-[7px] font-black uppercase tracking-widest text-slate-600" title="Linked to a parts library entry">lib</span>}
+                    {getLearnedSolarFactor(source, battery) !== 1 && <span className="shrink-0 text-[7px] font-black uppercase tracking-widest text-amber-400/80" title="Solar yield scaled by the factor learned from the journal">×{source.learnedFactor!.toFixed(2)}</span>}
+                    {overVoltageIds.includes(source.id) && <span className="shrink-0 text-[7px] font-black uppercase tracking-widest bg-red-600 text-white px-1 rounded" title="String Voc at the site's record low exceeds the controller's PV input limit">Voc</span>}
+                  </div>
                 </td>
                 <td className="text-center w-6">
                     <input type="checkbox" checked={source.enabled !== false} onChange={(e) => onUpdateSource(source.id, 'enabled', e.target.checked)} className="rounded border-slate-700 bg-slate-800/50 text-blue-500 focus:ring-0 w-3 h-3 cursor-pointer" />
@@ -192,8 +176,9 @@ const ChargingTable: React.FC<ChargingTableProps> = ({
                 </td>
                 <td className="px-1 py-1 text-right">
                   {!managementItem ? (
-                    <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
-                      <NumberInput value={source.input} onChange={(val) => onUpdateSource(source.id, 'input', val)} />
+                    <div className={`inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors ${ampRated ? 'opacity-50' : ''}`}
+                      title={ampRated ? `DC-DC ${source.driving!.ratedA}A at ${battery.voltage}V` : undefined}>
+                      <NumberInput value={ampRated ? Math.round(getSourceInputW(source, battery)) : source.input} onChange={(val) => onUpdateSource(source.id, 'input', val)} disabled={ampRated} />
                       <span className="text-[7px] text-slate-500 font-black uppercase shrink-0 pr-0.5 pl-1">W</span>
                     </div>
                   ) : (
@@ -209,14 +194,24 @@ const ChargingTable: React.FC<ChargingTableProps> = ({
                       className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20"
                     />
                   )}
+                  {canAutoStart && (
+                    <input type="checkbox" checked={isAuto} title="Auto-start on battery SoC"
+                      onChange={(e) => {
+                        onUpdateSource(source.id, 'autoStart', e.target.checked ? (source.autoStart || DEFAULT_AUTO_START) : undefined);
+                        if (e.target.checked) setDrawer({ id: source.id, kind: 'autoStart' });
+                      }}
+                      className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-amber-500 focus:ring-amber-500/20"
+                    />
+                  )}
                 </td>
                 <td className="px-1 py-1 text-right relative">
-                  <div className={`inline-flex items-center justify-end w-[38px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors ${source.autoSolar ? 'opacity-50' : ''}`}>
+                  <div className={`inline-flex items-center justify-end w-[38px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors ${source.autoSolar || isAuto || driven ? 'opacity-50' : ''}`}
+                    title={isAuto ? 'Hours a day needed to cover the deficit' : driven ? 'Charging hours averaged over the week' : undefined}>
                     <NumberInput 
-                      value={effectiveHours} 
+                      value={isAuto ? Math.round(autoHours * 10) / 10 : driven ? Math.round(energy.hours * 10) / 10 : effectiveHours} 
                       onChange={(val) => onUpdateSource(source.id, 'hours', val)} 
                       step="0.1" 
-                      disabled={source.autoSolar || managementItem} 
+                      disabled={source.autoSolar || isAuto || driven || managementItem} 
                     />
                     <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">H</span>
                   </div>
@@ -230,31 +225,87 @@ const ChargingTable: React.FC<ChargingTableProps> = ({
                   )}
                 </td>
                 <td className="px-1 py-1 text-right">
-                  <div className="inline-flex items-center justify-end w-[32px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
-                    <NumberInput 
-                      value={efficiency} 
-                      onChange={(val) => onUpdateSource(source.id, 'efficiency', val)} 
-                      step="0.01" 
-                      disabled={managementItem}
-                    />
-                  </div>
+                  {isModelled ? (
+                    <button onClick={() => toggleDrawer(source.id, 'array')} className="w-[32px] text-right font-mono text-[11px] font-bold text-cyan-400 hover:text-white transition-colors" title="Modelled: plane-of-array gain × temperature, shading and controller losses">
+                      {energy.efficiency.toFixed(2)}
+                    </button>
+                  ) : (
+                    <div className="inline-flex items-center justify-end w-[32px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                      <NumberInput 
+                        value={efficiency} 
+                        onChange={(val) => onUpdateSource(source.id, 'efficiency', val)} 
+                        step="0.01" 
+                        disabled={managementItem}
+                      />
+                    </div>
+                  )}
                 </td>
+                <td className="px-1 py-1 w-[64px]">
+                  {source.type === 'solar' ? (
+                    <button onClick={() => toggleDrawer(source.id, 'array')} title="Array orientation and derating"
+                      className={`italic text-[10px] whitespace-nowrap transition-colors ${drawer?.id === source.id && drawer.kind === 'array' ? 'text-blue-400' : isModelled ? 'text-cyan-400 hover:text-white' : 'text-slate-600 hover:text-slate-300'}`}>
+                      {source.array ? formatOrientation(source.array) : source.schedule?.hourly ? 'Profile' : 'Sun curve'}
+                    </button>
+                  ) : driven ? (
+                    <button onClick={() => toggleDrawer(source.id, 'driving')} title="Driving schedule"
+                      className={`font-mono text-[10px] font-bold whitespace-nowrap transition-colors ${drawer?.id === source.id && drawer.kind === 'driving' ? 'text-blue-400' : 'text-cyan-400 hover:text-white'}`}>
+                      {formatDriving(source.driving!)}
+                    </button>
+                  ) : source.type === 'alternator' && !managementItem ? (
+                    <div className="flex items-center gap-1">
+                      <ScheduleInput schedule={source.schedule} onChange={(val) => onUpdateSource(source.id, 'schedule', val)} />
+                      <button onClick={() => { onUpdateSource(source.id, 'driving', DEFAULT_DRIVING); setDrawer({ id: source.id, kind: 'driving' }); }}
+                        className="text-[8px] text-slate-600 hover:text-slate-300 font-black uppercase shrink-0 transition-colors" title="Charge on a driving schedule">Drive</button>
+                    </div>
+                  ) : isAuto ? (
+                    <button onClick={() => toggleDrawer(source.id, 'autoStart')} title="Auto-start rule"
+                      className={`font-mono text-[10px] font-bold whitespace-nowrap transition-colors ${drawer?.id === source.id && drawer.kind === 'autoStart' ? 'text-blue-400' : 'text-amber-400 hover:text-white'}`}>
+                      {formatAutoStart(source.autoStart!)}
+                    </button>
+                  ) : (
+                    <ScheduleInput schedule={source.schedule} onChange={(val) => onUpdateSource(source.id, 'schedule', val)} disabled={managementItem} />
+                  )}
+                </td>
+                {showBank && (
+                  <td className="px-1 py-1 w-[60px]">
+                    <select value={banks.find(b => isOnBank(source, b, banks))?.id} onChange={(e) => onUpdateSource(source.id, 'bankId', e.target.value)} className="bg-transparent border-none w-full text-slate-300 font-mono text-[10px] focus:ring-0 outline-none p-0 cursor-pointer">
+                      {banks.map(b => <option key={b.id} value={b.id} className="bg-slate-900 text-slate-200">{b.name}</option>)}
+                    </select>
+                  </td>
+                )}
                 <td className="px-2 py-1 text-right font-mono text-emerald-400 font-bold text-[11px] whitespace-nowrap">
                   {dailyWh.toFixed(0)}
                 </td>
+                <td className="px-2 py-1 text-right">
+                  {!managementItem && <CableCell sizing={cable} open={drawer?.id === source.id && drawer.kind === 'cable'} onToggle={() => toggleDrawer(source.id, 'cable')} />}
+                </td>
                 <td className="px-2 py-1 text-center w-8">
                   <button onClick={() => onDeleteSource(source.id)} className="text-slate-400 hover:text-red-400 opacity-60 hover:opacity-100 transition-all p-0.5 group/del">
                     <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-4 h-4 group-hover/del:scale-110 transition-transform"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
                   </button>
                 </td>
               </tr>
+              {drawer?.id === source.id && drawer.kind === 'cable' && (
+                <CableDrawer run={source.cable} sizing={cable} colSpan={columnCount} onChange={(run) => onUpdateSource(source.id, 'cable', run)} />
+              )}
+              {drawer?.id === source.id && drawer.kind === 'array' && source.type === 'solar' && (
+                <ArrayDrawer source={source} battery={battery} colSpan={columnCount} onChange={(array) => onUpdateSource(source.id, 'array', array)} />
+              )}
+              {drawer?.id === source.id && drawer.kind === 'driving' && driven && (
+                <DrivingDrawer source={source} battery={battery} colSpan={columnCount} onChange={(driving) => onUpdateSource(source.id, 'driving', driving)} />
+              )}
+              {drawer?.id === source.id && drawer.kind === 'autoStart' && isAuto && (
+                <AutoStartDrawer source={source} battery={battery} colSpan={columnCount} onChange={(rule) => onUpdateSource(source.id, 'autoStart', rule)} />
+              )}
+              </React.Fragment>
             );
           })}
           <tr>
-            <td colSpan={10} className="px-2 py-1">
+            <td colSpan={columnCount} className="px-2 py-1">
               <div className="flex gap-1.5">
                 <button onClick={onAddSource} className="w-[10%] flex-none flex items-center justify-center gap-2 py-1 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-sm font-medium transition-all">+</button>
                 <button onClick={onAIAddSource} className="flex-1 flex items-center justify-center gap-2 py-1 border border-dashed border-blue-900/50 bg-blue-950/20 rounded hover:bg-blue-900/40 text-blue-400/80 text-[8px] font-black uppercase tracking-widest transition-all">✨ Spec Asst.</button>
+                {onOpenLibrary && <button onClick={onOpenLibrary} className="w-[18%] flex-none flex items-center justify-center gap-2 py-1 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-[8px] font-black uppercase tracking-widest transition-all">Library</button>}
               </div>
             </td>
           </tr>
@@ -2,7 +2,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Chat, GenerateContentResponse, FunctionCall, Part } from "@google/genai";
 import ReactMarkdown from 'react-markdown';
-import { createChatSession, getDynamicSuggestions } from '../services/geminiService';
+import { createChatSession, getDynamicSuggestions, buildSystemContext } from '../services/geminiService';
 import { calculateItemEnergy, getEffectiveSolarHours } from '../services/powerLogic';
 import { ChatMessage, PowerItem, SystemTotals, ChargingSource, ChatMode, BatteryConfig } from '../types';
 
@@ -160,7 +160,11 @@ const ChatBot: React.FC<ChatBotProps> = ({
     setIsTyping(true);
 
     try {
-        const result = await chatSessionRef.current.sendMessageStream({ message: textToSend });
+        // General chat answers from the live system state; spec assistants only need the user's text.
+        const message = mode === 'general'
+          ? `${buildSystemContext(items, charging, battery, totals)}\n\n[USER]\n${textToSend}`
+          : textToSend;
+        const result = await chatSessionRef.current.sendMessageStream({ message });
         let fullRawText = '';
         let toolCall: FunctionCall | null = null;
         setMessages(prev => [...prev, { role: 'model', text: '', timestamp: new Date(), category: mode }]);
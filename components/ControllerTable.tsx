@@ -0,0 +1,179 @@
+import React, { useState, useMemo } from 'react';
+import { ChargeController, ChargingSource, BatteryConfig, PanelStringing } from '../types';
+import { DEFAULT_STRINGING } from '../constants';
+import { checkControllers, getRecordLowC, getSourceColdVocV, getPanelCount, hasCountMismatch } from '../services/controllers';
+import NumberInput from './NumberInput';
+import Box from './Box';
+
+interface ControllerTableProps {
+  controllers: ChargeController[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+  onUpdateController: (id: string, field: keyof ChargeController, value: any) => void;
+  onDeleteController: (id: string) => void;
+  onAddController: () => void;
+  onUpdateSource: (id: string, field: keyof ChargingSource, value: any) => void;
+}
+
+/**
+ * Solar rows and their wiring into one controller: which rows, and how each row's panels are strung.
+ */
+const WiringDrawer: React.FC<{
+  controller: ChargeController;
+  solar: ChargingSource[];
+  battery: BatteryConfig;
+  overVoltage: string[];
+  onUpdateSource: ControllerTableProps['onUpdateSource'];
+}> = ({ controller, solar, battery, overVoltage, onUpdateSource }) => {
+  const updateStringing = (source: ChargingSource, field: keyof PanelStringing, value: number) =>
+    onUpdateSource(source.id, 'stringing', { ...DEFAULT_STRINGING, ...source.stringing, [field]: value });
+
+  if (solar.length === 0) {
+    return <div className="text-[9px] text-slate-500 italic">No solar rows to wire in.</div>;
+  }
+  return (
+    <div className="space-y-1">
+      {solar.map(source => {
+        const wired = source.controllerId === controller.id;
+        const elsewhere = !wired && !!source.controllerId;
+        const stringing = { ...DEFAULT_STRINGING, ...source.stringing };
+        const coldVoc = wired ? getSourceColdVocV(source, battery) : null;
+        return (
+          <div key={source.id} className={`flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] ${wired ? '' : 'opacity-50'}`}>
+            <label className="flex items-center gap-1.5 cursor-pointer min-w-[140px]" title={elsewhere ? 'Wired to another controller. Ticking moves it here.' : undefined}>
+              <input type="checkbox" checked={wired} onChange={(e) => onUpdateSource(source.id, 'controllerId', e.target.checked ? controller.id : undefined)}
+                className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20" />
+              <span className="text-slate-200 truncate">{source.name}</span>
+              {elsewhere && <span className="text-[7px] text-slate-500 font-black uppercase">other</span>}
+            </label>
+            {wired && (
+              <>
+                <Box width="w-[38px]" unit="S"><NumberInput emptyAs={0} value={stringing.series} onChange={(val) => updateStringing(source, 'series', Math.max(1, Math.round(val)))} placeholder="1" /></Box>
+                <Box width="w-[38px]" unit="P"><NumberInput emptyAs={0} value={stringing.parallel} onChange={(val) => updateStringing(source, 'parallel', Math.max(1, Math.round(val)))} placeholder="1" /></Box>
+                <Box width="w-[54px]" unit="Voc"><NumberInput emptyAs={0} value={stringing.vocV} onChange={(val) => updateStringing(source, 'vocV', Math.max(0, val))} placeholder="—" step="0.1" /></Box>
+                <Box width="w-[58px]" unit="%/°C"><NumberInput emptyAs={0} value={stringing.tempCoeffVocPct} onChange={(val) => updateStringing(source, 'tempCoeffVocPct', val)} placeholder="-0.28" step="0.01" /></Box>
+                <Box width="w-[50px]" unit="Isc"><NumberInput emptyAs={0} value={stringing.iscA} onChange={(val) => updateStringing(source, 'iscA', Math.max(0, val))} placeholder="—" step="0.1" /></Box>
+                <Box width="w-[50px]" unit="Imp"><NumberInput emptyAs={0} value={stringing.impA} onChange={(val) => updateStringing(source, 'impA', Math.max(0, val))} placeholder="—" step="0.1" /></Box>
+                <span className={`font-mono font-bold ${overVoltage.includes(source.id) ? 'text-red-400' : coldVoc === null ? 'text-slate-500' : 'text-emerald-400'}`}
+                  title="String Voc at the site's record low">
+                  {coldVoc === null ? 'Voc ?' : `${coldVoc.toFixed(1)} V`}
+                </span>
+                {hasCountMismatch(source) && (
+                  <span className="text-[7px] font-black uppercase bg-amber-600 text-white px-1 rounded"
+                    title={`The row's quantity (${source.quantity}) isn't series × parallel (${getPanelCount(source)}). The controller check counts the strung panels.`}>
+                    Qty {source.quantity} ≠ {getPanelCount(source)}
+                  </span>
+                )}
+              </>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const ControllerTable: React.FC<ControllerTableProps> = ({ controllers, charging, battery, onUpdateController, onDeleteController, onAddController, onUpdateSource }) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const checks = useMemo(() => checkControllers(charging, battery), [charging, battery]);
+  const solar = charging.filter(c => c.type === 'solar');
+  const recordLowC = getRecordLowC(battery);
+
+  return (
+    <div className="overflow-hidden bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5">
+      <table className="w-full text-left text-[12px] text-slate-300 table-auto border-collapse">
+        <thead className="bg-slate-950 text-[8px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+          <tr>
+            <th className="px-2 py-2 min-w-[140px]">Controller</th>
+            <th className="px-1 py-2 text-right w-[56px]">Max PV</th>
+            <th className="px-1 py-2 text-right w-[50px]">PV In</th>
+            <th className="px-1 py-2 text-right w-[50px]">Charge</th>
+            <th className="px-1 py-2 text-right w-[56px]">PV Rated</th>
+            <th className="px-2 py-2 text-right whitespace-nowrap">Array</th>
+            <th className="px-2 py-2 text-right whitespace-nowrap">Cold Voc</th>
+            <th className="px-2 py-2 text-right whitespace-nowrap">Clipped Wh</th>
+            <th className="px-2 py-2 w-8"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800/50">
+          {controllers.map(controller => {
+            const check = checks.find(c => c.controllerId === controller.id)!;
+            const wiredCount = charging.filter(c => c.type === 'solar' && c.controllerId === controller.id).length;
+            const overVoltage = check.overVoltage.length > 0;
+            const mismatch = check.countMismatch.length > 0;
+            return (
+              <React.Fragment key={controller.id}>
+                <tr className={`hover:bg-slate-800/40 transition-all group ${overVoltage ? 'bg-red-950/30' : ''}`}>
+                  <td className="px-2 py-1 whitespace-nowrap">
+                    <div className="flex items-center gap-1.5">
+                      <button onClick={() => setOpenId(openId === controller.id ? null : controller.id)} title="Wire solar rows"
+                        className={`text-[8px] font-black uppercase tracking-widest px-1 rounded transition-colors ${openId === controller.id ? 'bg-blue-600/80 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}>
+                        {wiredCount} PV
+                      </button>
+                      <input type="text" value={controller.name} onChange={(e) => onUpdateController(controller.id, 'name', e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                        className="bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-200 transition-colors text-[12px] font-medium outline-none italic"/>
+                    </div>
+                  </td>
+                  <td className="px-1 py-1 text-right">
+                    <Box width="w-[50px]" unit="V"><NumberInput emptyAs={0} placeholder="0" value={controller.maxPvVoltage} onChange={(val) => onUpdateController(controller.id, 'maxPvVoltage', Math.max(0, val))} /></Box>
+                  </td>
+                  <td className="px-1 py-1 text-right">
+                    <Box width="w-[44px]" unit="A"><NumberInput emptyAs={0} value={controller.maxPvA} onChange={(val) => onUpdateController(controller.id, 'maxPvA', Math.max(0, val) || undefined)} placeholder="—" /></Box>
+                  </td>
+                  <td className="px-1 py-1 text-right">
+                    <Box width="w-[44px]" unit="A"><NumberInput emptyAs={0} placeholder="0" value={controller.maxChargeA} onChange={(val) => onUpdateController(controller.id, 'maxChargeA', Math.max(0, val))} /></Box>
+                  </td>
+                  <td className="px-1 py-1 text-right">
+                    <Box width="w-[50px]" unit="W"><NumberInput emptyAs={0} value={controller.maxPvW} onChange={(val) => onUpdateController(controller.id, 'maxPvW', Math.max(0, val) || undefined)} placeholder="—" /></Box>
+                  </td>
+                  <td className={`px-2 py-1 text-right font-mono font-bold text-[11px] whitespace-nowrap ${check.overCurrent ? 'text-red-400' : check.arrayW > check.limitW || mismatch ? 'text-amber-400' : 'text-slate-300'}`}
+                    title={[
+                      `Output limit ${check.limitW.toFixed(0)} W at the bank voltage`,
+                      check.iscA !== null ? `Array Isc ${check.iscA.toFixed(1)} A${check.impA !== null ? `, Imp ${check.impA.toFixed(1)} A` : ''}` : 'No panel Isc entered',
+                      check.overCurrent ? 'Isc exceeds the PV input current limit' : '',
+                      mismatch ? 'A wired row\'s quantity differs from its series × parallel' : ''
+                    ].filter(Boolean).join('. ')}>
+                    {check.arrayW.toFixed(0)}W <span className="text-slate-500 text-[9px]">/ {check.limitW.toFixed(0)}</span>
+                    {check.iscA !== null && <span className="ml-1 text-slate-500 text-[9px]">{check.iscA.toFixed(1)}A</span>}
+                    {check.overCurrent && <span className="ml-1 text-[7px] font-black uppercase bg-red-600 text-white px-1 rounded">Isc</span>}
+                  </td>
+                  <td className={`px-2 py-1 text-right font-mono font-bold text-[11px] whitespace-nowrap ${overVoltage ? 'text-red-400' : 'text-emerald-400'}`}
+                    title={overVoltage ? 'String Voc on a record-cold morning exceeds the PV input limit. This can destroy the controller.' : `At ${recordLowC.toFixed(1)}°C`}>
+                    {check.coldVocV === null ? <span className="text-slate-600">—</span> : `${check.coldVocV.toFixed(1)} V`}
+                    {overVoltage && <span className="ml-1 text-[7px] font-black uppercase bg-red-600 text-white px-1 rounded">Over</span>}
+                  </td>
+                  <td className={`px-2 py-1 text-right font-mono font-bold text-[11px] whitespace-nowrap ${check.clippedWh > 0.5 ? 'text-amber-400' : 'text-slate-500'}`}>{check.clippedWh.toFixed(0)}</td>
+                  <td className="px-2 py-1 text-center w-8">
+                    <button onClick={() => onDeleteController(controller.id)} className="text-slate-400 hover:text-red-400 opacity-60 hover:opacity-100 transition-all p-0.5 group/del">
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3 h-3 group-hover/del:scale-110 transition-transform"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+                    </button>
+                  </td>
+                </tr>
+                {openId === controller.id && (
+                  <tr className="bg-slate-950/60 border-b border-slate-800">
+                    <td colSpan={9} className="px-8 py-2">
+                      <WiringDrawer controller={controller} solar={solar} battery={battery} overVoltage={check.overVoltage} onUpdateSource={onUpdateSource} />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={7} className="px-2 py-1">
+              <button onClick={onAddController} className="w-[10%] flex items-center justify-center gap-2 py-1 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-sm font-medium transition-all">+</button>
+            </td>
+            <td colSpan={2} className="px-2 py-1 text-right text-[9px] text-slate-500 font-mono whitespace-nowrap"
+              title={battery.forecast?.recordLowC !== undefined ? 'Coldest daily minimum in the weather archive' : 'Default until the weather archive answers'}>
+              Record low {recordLowC.toFixed(1)}°C
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default ControllerTable;
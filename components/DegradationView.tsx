@@ -0,0 +1,96 @@
+import React, { useState, useMemo } from 'react';
+import { PowerItem, ChargingSource, BatteryConfig, BatteryBank } from '../types';
+import { END_OF_LIFE_SOH_PCT } from '../constants';
+import { projectDegradation } from '../services/degradation';
+import { getBatteryBanks, getAmbientTempC } from '../services/powerLogic';
+import NumberInput from './NumberInput';
+
+interface DegradationViewProps {
+  items: PowerItem[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+  onUpdateBank: (id: string, field: keyof BatteryBank, value: any) => void;
+}
+
+const Field: React.FC<{ label: string; unit: string; children: React.ReactNode }> = ({ label, unit, children }) => (
+  <label className="flex items-center gap-1.5">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+      {children}
+      <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{unit}</span>
+    </div>
+  </label>
+);
+
+const Stat: React.FC<{ label: string; value: string; sub?: string; color: string }> = ({ label, value, sub, color }) => (
+  <div className="flex flex-col">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <span className={`font-mono font-bold text-[13px] ${color}`}>{value}</span>
+    {sub && <span className="text-[9px] text-slate-500 font-mono">{sub}</span>}
+  </div>
+);
+
+const formatDays = (days: number) => isFinite(days) ? days.toFixed(1) : '∞';
+
+/**
+ * House bank capacity fade over the years at today's usage, and what it does to autonomy.
+ */
+const DegradationView: React.FC<DegradationViewProps> = ({ items, charging, battery, onUpdateBank }) => {
+  // Cell temperature is a what-if, so it isn't saved with the config
+  const [tempC, setTempC] = useState<number | undefined>(undefined);
+  const ambientC = getAmbientTempC(battery);
+  const projection = useMemo(() => projectDegradation(items, charging, battery, tempC ?? ambientC), [items, charging, battery, tempC, ambientC]);
+  const house = getBatteryBanks(battery)[0];
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5 p-3 space-y-3">
+      <div className="flex flex-wrap items-end gap-x-8 gap-y-2">
+        <Stat label="Daily DoD" value={`${projection.dailyDoDPct.toFixed(0)}%`} sub="simulated day" color="text-cyan-400" />
+        <Stat label="Full Cycles" value={`${projection.cyclesPerYear.toFixed(0)} /yr`} sub="equivalent" color="text-slate-200" />
+        <Stat label="Fade" value={`${projection.fadePctPerYear.toFixed(1)}% /yr`} sub="cycling + calendar" color="text-amber-400" />
+        <Stat label={`Below ${END_OF_LIFE_SOH_PCT}%`}
+          value={projection.endOfLifeYear === null ? `> ${projection.years.length - 1} yr` : projection.endOfLifeYear === 0 ? 'Now' : `${projection.endOfLifeYear.toFixed(1)} yr`}
+          sub="of nameplate" color={projection.endOfLifeYear !== null && projection.endOfLifeYear < 3 ? 'text-rose-400' : 'text-emerald-400'} />
+        <div className="flex items-center gap-4 ml-auto text-[10px]">
+          <Field label="Health Today" unit="%">
+            <NumberInput optional value={house.stateOfHealthPct} onChange={(val) => onUpdateBank(house.id, 'stateOfHealthPct', val === undefined ? undefined : Math.min(100, Math.max(1, val)))} placeholder="100" />
+          </Field>
+          <Field label="Cell Temp" unit="°C">
+            <NumberInput optional value={tempC} onChange={setTempC} placeholder={ambientC.toFixed(0)} />
+          </Field>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-[10px] text-slate-300 border-collapse">
+          <tbody className="font-mono">
+            <tr className="text-[7px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+              <td className="px-1 py-1 font-sans">Year</td>
+              {projection.years.map(y => <td key={y.year} className="px-1 py-1 text-right">{y.year === 0 ? 'Now' : `+${y.year}`}</td>)}
+            </tr>
+            <tr>
+              <td className="px-1 py-0.5 text-[7px] uppercase text-slate-500 font-black tracking-widest font-sans">Health</td>
+              {projection.years.map(y => (
+                <td key={y.year} className={`px-1 py-0.5 text-right font-bold ${y.sohPct < END_OF_LIFE_SOH_PCT ? 'text-rose-400' : 'text-emerald-400'}`}>{y.sohPct.toFixed(0)}%</td>
+              ))}
+            </tr>
+            <tr>
+              <td className="px-1 py-0.5 text-[7px] uppercase text-slate-500 font-black tracking-widest font-sans">Ah</td>
+              {projection.years.map(y => <td key={y.year} className="px-1 py-0.5 text-right text-cyan-400">{y.capacityAh.toFixed(0)}</td>)}
+            </tr>
+            <tr>
+              <td className="px-1 py-0.5 text-[7px] uppercase text-slate-500 font-black tracking-widest font-sans whitespace-nowrap" title="Days from full with no charging at all">No Sun</td>
+              {projection.years.map(y => <td key={y.year} className="px-1 py-0.5 text-right text-slate-200">{formatDays(y.autonomyDays)}</td>)}
+            </tr>
+            <tr>
+              <td className="px-1 py-0.5 text-[7px] uppercase text-slate-500 font-black tracking-widest font-sans whitespace-nowrap" title="Days from full in the cloud scenario">Cloud</td>
+              {projection.years.map(y => <td key={y.year} className="px-1 py-0.5 text-right text-slate-400">{formatDays(y.cloudAutonomyDays)}</td>)}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default DegradationView;
@@ -0,0 +1,98 @@
+import React from 'react';
+import { DrivingProfile, ChargingSource, BatteryConfig } from '../types';
+import { getSourceInputW, getAmbientTempC } from '../services/powerLogic';
+import { WEEKDAY_LABELS, getDriveDays, getChargeHoursPerDrive, getDrivingDerate } from '../services/driving';
+import { SMART_ALTERNATOR_CHARGE_MIN, ALTERNATOR_HOT_ABOVE_C } from '../constants';
+import NumberInput from './NumberInput';
+
+interface DrivingDrawerProps {
+  source: ChargingSource;
+  battery: BatteryConfig;
+  colSpan: number;
+  onChange: (driving: DrivingProfile | undefined) => void;
+}
+
+const Field: React.FC<{ label: string; unit: string; children: React.ReactNode }> = ({ label, unit, children }) => (
+  <label className="flex items-center gap-1.5">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+      {children}
+      <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{unit}</span>
+    </div>
+  </label>
+);
+
+const Toggle: React.FC<{ label: string; checked: boolean; onChange: (checked: boolean) => void; title?: string }> = ({ label, checked, onChange, title }) => (
+  <label className="flex items-center gap-1.5 cursor-pointer" title={title}>
+    <input type="checkbox" checked={checked} onChange={(e) => onChange(e.target.checked)} className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20" />
+    <span className="text-[7px] text-slate-400 uppercase font-black tracking-widest">{label}</span>
+  </label>
+);
+
+const DrivingDrawer: React.FC<DrivingDrawerProps> = ({ source, battery, colSpan, onChange }) => {
+  const driving = source.driving!;
+  const update = (field: keyof DrivingProfile, value: any) => onChange({ ...driving, [field]: value });
+  const driveDays = getDriveDays(driving);
+  const toggleDay = (day: number) => {
+    const days = driveDays.includes(day) ? driveDays.filter(d => d !== day) : [...driveDays, day].sort((a, b) => a - b);
+    onChange({ ...driving, driveDays: days, daysPerWeek: days.length });
+  };
+
+  const chargeHours = getChargeHoursPerDrive(driving);
+  const derate = getDrivingDerate(driving, getAmbientTempC(battery));
+  const inputW = getSourceInputW(source, battery);
+
+  return (
+    <tr className="bg-slate-950/60 border-b border-slate-800">
+      <td colSpan={colSpan} className="px-8 py-2">
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-[10px]">
+          <Field label="Days / Wk" unit="d">
+            <NumberInput optional value={driving.daysPerWeek} onChange={(val) => onChange({ ...driving, daysPerWeek: Math.min(7, Math.max(0, Math.round(val ?? 0))), driveDays: undefined })} />
+          </Field>
+          <div className="flex gap-0.5" title="Days driven. Click to pick specific days.">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <button key={day} onClick={() => toggleDay(day)}
+                className={`w-4 h-4 rounded text-[8px] font-black transition-colors ${driveDays.includes(day) ? 'bg-blue-600/80 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}>
+                {label}
+              </button>
+            ))}
+          </div>
+          <Field label="Per Drive" unit="h">
+            <NumberInput optional value={driving.hoursPerDrive} onChange={(val) => update('hoursPerDrive', Math.min(24, Math.max(0, val ?? 0)))} step="0.5" />
+          </Field>
+          <Field label="From" unit="h">
+            <NumberInput optional value={driving.startHour} onChange={(val) => update('startHour', val === undefined ? undefined : Math.min(23.75, Math.max(0, val)))} placeholder="9" step="0.5" />
+          </Field>
+          <Field label="DC-DC" unit="A">
+            <NumberInput optional value={driving.ratedA} onChange={(val) => update('ratedA', val === undefined || val <= 0 ? undefined : val)} placeholder="—" />
+          </Field>
+          <Field label="Hot Derate" unit="%">
+            <NumberInput optional value={driving.hotDeratePct} onChange={(val) => update('hotDeratePct', val === undefined ? undefined : Math.min(100, Math.max(0, val)))} placeholder="0" step="5" />
+          </Field>
+          <Field label="Above" unit="°C">
+            <NumberInput optional value={driving.hotAboveC} onChange={(val) => update('hotAboveC', val)} placeholder={String(ALTERNATOR_HOT_ABOVE_C)} />
+          </Field>
+          <Toggle label="Smart Alt." checked={!!driving.smartAlternator} onChange={(val) => update('smartAlternator', val || undefined)} title="Variable-voltage alternator (Euro 5+ / most newer vehicles)" />
+          {driving.smartAlternator && (
+            <>
+              <Toggle label="Ignition Trigger" checked={!!driving.ignitionTrigger} onChange={(val) => update('ignitionTrigger', val || undefined)} title="DC-DC enabled by ignition/D+ instead of sensing input voltage" />
+              {!driving.ignitionTrigger && (
+                <Field label="Above Cut-In" unit="min">
+                  <NumberInput optional value={driving.smartChargeMin} onChange={(val) => update('smartChargeMin', val === undefined ? undefined : Math.max(0, val))} placeholder={String(SMART_ALTERNATOR_CHARGE_MIN)} step="5" />
+                </Field>
+              )}
+            </>
+          )}
+          <div className="flex items-center gap-4 ml-auto font-mono font-bold">
+            <span className="text-emerald-400" title={driving.ratedA ? `${driving.ratedA}A × ${battery.voltage}V` : 'Row input watts'}>{inputW.toFixed(0)} W</span>
+            <span className={chargeHours < (Number(driving.hoursPerDrive) || 0) ? 'text-amber-400' : 'text-slate-400'} title="Charging hours per drive">{chargeHours.toFixed(1)} h/drive</span>
+            {derate < 1 && <span className="text-rose-400" title="Hot-day derate at the current forecast">×{derate.toFixed(2)}</span>}
+            <button onClick={() => onChange(undefined)} className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white text-[8px] font-black uppercase tracking-widest transition-colors" title="Back to fixed daily hours">Remove</button>
+          </div>
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+export default DrivingDrawer;
@@ -1,7 +1,11 @@
 
-import React, { useState, useEffect, useMemo } from 'react';
-import { PowerItem, LoadCategory } from '../types';
-import { calculateItemEnergy } from '../services/powerLogic';
+import React, { useState, useMemo } from 'react';
+import { PowerItem, LoadCategory, BatteryBank, Inverter, PeakViolation } from '../types';
+import { calculateItemEnergy, getPackVoltage, isOnBank, findInverter, sizeCable, getItemCurrent, LoadConditions } from '../services/powerLogic';
+import ScheduleInput from './ScheduleInput';
+import CableDrawer, { CableCell } from './CableDrawer';
+import ProfileDrawer, { hasLoadProfile } from './ProfileDrawer';
+import NumberInput from './NumberInput';
 
 interface EnergyTableProps {
   items: PowerItem[];
@@ -11,9 +15,14 @@ interface EnergyTableProps {
   onDeleteItem: (id: string) => void;
   onAddItem: (category: LoadCategory) => void;
   onAIAddItem: (category: LoadCategory) => void;
+  onOpenLibrary?: (category: LoadCategory) => void;
   onReorder: (fromId: string, toId: string) => void;
   onSort: (key: string, direction: 'asc' | 'desc') => void;
   visibleCategories: LoadCategory[];
+  banks?: BatteryBank[];
+  inverters?: Inverter[];
+  peakViolations?: PeakViolation[];
+  conditions?: LoadConditions; // Date/temperature the load profiles resolve against
 }
 
 const isMgmt = (item: PowerItem) => 
@@ -21,43 +30,6 @@ const isMgmt = (item: PowerItem) =>
   item.name.toLowerCase().includes('controller') ||
   item.category === LoadCategory.SYSTEM_MGMT;
 
-const NumberInput = ({ 
-  value, 
-  onChange, 
-  className,
-  step = "any",
-  disabled = false,
-  placeholder = "0"
-}: { 
-  value: number, 
-  onChange: (val: number) => void, 
-  className?: string,
-  step?: string,
-  disabled?: boolean,
-  placeholder?: string
-}) => {
-  const [localStr, setLocalStr] = useState(value?.toString() || '');
-  useEffect(() => {
-    const v = Number(value) || 0;
-    const parsed = parseFloat(localStr);
-    if (Math.abs(parsed - v) > 0.0001 || isNaN(parsed)) setLocalStr(value?.toString() || '');
-  }, [value]);
-  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const val = e.target.value;
-    setLocalStr(val);
-    const parsed = parseFloat(val);
-    if (!isNaN(parsed)) onChange(parsed);
-    else if (val === '') onChange(0);
-  };
-  return (
-    <input 
-      type="number" step={step} disabled={disabled} placeholder={placeholder}
-      className={`bg-transparent text-right text-white focus:outline-none w-full pr-0.5 font-medium placeholder-slate-600 ${className} ${disabled ? 'opacity-30' : ''}`}
-      value={localStr} onChange={handleChange} onFocus={(e) => !disabled && e.target.select()} onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
-    />
-  );
-};
-
 const SortHeader = ({ label, sortKey, currentSort, onSort, className, widthClass }: { label: string, sortKey: string, currentSort: { key: string, dir: 'asc' | 'desc' } | null, onSort: (k: string, d: 'asc' | 'desc') => void, className?: string, widthClass?: string }) => {
   const isActive = currentSort?.key === sortKey;
   const handleClick = () => onSort(sortKey, isActive && currentSort.dir === 'desc' ? 'asc' : 'desc');
@@ -75,10 +47,22 @@ const SortHeader = ({ label, sortKey, currentSort, onSort, className, widthClass
 };
 
 const EnergyTable: React.FC<EnergyTableProps> = ({ 
-  items, systemVoltage, highlightedId, onUpdateItem, onDeleteItem, onAddItem, onAIAddItem, onReorder, onSort, visibleCategories
+  items, systemVoltage, highlightedId, onUpdateItem, onDeleteItem, onAddItem, onAIAddItem, onReorder, onSort, visibleCategories, banks = [], inverters = [], peakViolations = [], conditions = {}, onOpenLibrary
 }) => {
   const [draggedId, setDraggedId] = useState<string | null>(null);
   const [sortState, setSortState] = useState<{ key: string, dir: 'asc' | 'desc' } | null>(null);
+  const [drawer, setDrawer] = useState<{ id: string, kind: 'cable' | 'profile' } | null>(null);
+  const toggleDrawer = (id: string, kind: 'cable' | 'profile') => setDrawer(drawer?.id === id && drawer.kind === kind ? null : { id, kind });
+
+  const showBank = banks.length > 1;
+  const showInverter = inverters.length > 1 && visibleCategories.includes(LoadCategory.AC_LOADS);
+  const columnCount = 15 + (showBank ? 1 : 0) + (showInverter ? 1 : 0);
+  const context = { items, inverters, ...conditions };
+  const getItemVoltage = (item: PowerItem) => {
+    if (!showBank) return systemVoltage;
+    const bank = banks.find(b => isOnBank(item, b, banks));
+    return (bank && getPackVoltage(bank)) || systemVoltage;
+  };
 
   const filteredItems = useMemo(() => {
     return items.filter(i => visibleCategories.includes(i.category));
@@ -92,8 +76,8 @@ const EnergyTable: React.FC<EnergyTableProps> = ({
       let valB: any = b[key as keyof PowerItem];
 
       if (key === 'wh' || key === 'ah') {
-        const energyA = calculateItemEnergy(a, systemVoltage);
-        const energyB = calculateItemEnergy(b, systemVoltage);
+        const energyA = calculateItemEnergy(a, getItemVoltage(a), context);
+        const energyB = calculateItemEnergy(b, getItemVoltage(b), context);
         valA = energyA[key];
         valB = energyB[key];
       }
@@ -101,7 +85,7 @@ const EnergyTable: React.FC<EnergyTableProps> = ({
       if (typeof valA === 'string') return dir === 'asc' ? valA.localeCompare(valB) : valB.localeCompare(valA);
       return dir === 'asc' ? (Number(valA) || 0) - (Number(valB) || 0) : (Number(valB) || 0) - (Number(valA) || 0);
     });
-  }, [filteredItems, sortState, systemVoltage]);
+  }, [filteredItems, sortState, systemVoltage, banks, inverters, conditions]);
 
   const handleSortChange = (key: string, dir: 'asc' | 'desc') => {
     setSortState({ key, dir });
@@ -122,22 +106,33 @@ const EnergyTable: React.FC<EnergyTableProps> = ({
             <SortHeader label="POWER (W)" sortKey="watts" currentSort={sortState} onSort={handleSortChange} className="text-right" widthClass="w-[50px]" />
             <SortHeader label="HRS/DAY" sortKey="hours" currentSort={sortState} onSort={handleSortChange} className="text-right" widthClass="w-[46px]" />
             <th className="px-1 py-2 text-right whitespace-nowrap w-[42px]">DUTY %</th>
+            <th className="px-1 py-2 whitespace-nowrap w-[64px]">WHEN</th>
+            <th className="px-1 py-2 text-right whitespace-nowrap w-[36px]" title="Start-up surge multiplier">SURGE</th>
+            <th className="px-1 py-2 whitespace-nowrap w-[44px]" title="Loads in the same group run together">GROUP</th>
+            {showBank && <th className="px-1 py-2 whitespace-nowrap w-[60px]">BANK</th>}
+            {showInverter && <th className="px-1 py-2 whitespace-nowrap w-[60px]">INV</th>}
             <SortHeader label="DAILY WH" sortKey="wh" currentSort={sortState} onSort={handleSortChange} className="text-right" widthClass="w-[45px]" />
             <SortHeader label="AH TOTAL" sortKey="ah" currentSort={sortState} onSort={handleSortChange} className="text-right" widthClass="w-[45px]" />
+            <th className="px-2 py-2 whitespace-nowrap" title="Minimum cable and fuse for this circuit">CABLE</th>
             <th className="px-2 py-2 whitespace-nowrap uppercase">Notes</th>
             <th className="px-2 py-2 w-8"></th>
           </tr>
         </thead>
         <tbody className="divide-y divide-slate-800/50">
           {sortedItems.map(item => {
-            const { wh, ah } = calculateItemEnergy(item, systemVoltage);
+            const { wh, ah, efficiency } = calculateItemEnergy(item, getItemVoltage(item), context);
             const isSuspicious = ah > 100 && (item.dutyCycle === undefined || item.dutyCycle === 100);
             const managementItem = isMgmt(item);
             const isHighlighted = highlightedId === item.id;
             const isDisabled = item.enabled === false;
+            const itemViolations = peakViolations.filter(v => v.itemIds.includes(item.id));
+            const peakSeverity = itemViolations.some(v => v.severity === 'error') ? 'error' : itemViolations.length ? 'warning' : null;
+            const itemVoltage = getItemVoltage(item);
+            const cable = sizeCable(getItemCurrent(item, itemVoltage, context), itemVoltage, item.cable);
             
             return (
-              <tr key={item.id} className={`border-b border-slate-800 hover:bg-slate-800/40 transition-all duration-700 group ${draggedId === item.id ? 'opacity-20 scale-[0.98]' : ''} ${managementItem ? 'bg-slate-900/40' : ''} ${isHighlighted ? 'bg-purple-900/40 border-purple-500/50 shadow-[inset_0_0_20px_rgba(168,85,247,0.1)] ring-1 ring-purple-500/30' : ''} ${isDisabled ? 'opacity-40 grayscale' : ''}`} draggable
+              <React.Fragment key={item.id}>
+              <tr className={`border-b border-slate-800 hover:bg-slate-800/40 transition-all duration-700 group ${draggedId === item.id ? 'opacity-20 scale-[0.98]' : ''} ${managementItem ? 'bg-slate-900/40' : ''} ${isHighlighted ? 'bg-purple-900/40 border-purple-500/50 shadow-[inset_0_0_20px_rgba(168,85,247,0.1)] ring-1 ring-purple-500/30' : ''} ${isDisabled ? 'opacity-40 grayscale' : ''}`} draggable
                 onDragStart={(e) => { 
                   setDraggedId(item.id); 
                   e.dataTransfer.effectAllowed = 'move';
@@ -157,8 +152,19 @@ const EnergyTable: React.FC<EnergyTableProps> = ({
               >
                 <td className="pl-2 pr-0 py-1 w-6 text-center cursor-move text-slate-700 group-hover:text-slate-400 select-none">⋮⋮</td>
                 <td className="px-2 py-1 whitespace-nowrap min-w-[180px]">
-                  <input type="text" value={item.name} onChange={(e) => onUpdateItem(item.id, 'name', e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
-                    className={`bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-200 transition-colors text-[12px] font-medium outline-none ${managementItem ? 'italic' : ''}`}/>
+                  <div className="flex items-center gap-1">
+                    <input type="text" value={item.name} onChange={(e) => onUpdateItem(item.id, 'name', e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                      className={`bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-200 transition-colors text-[12px] font-medium outline-none ${managementItem ? 'italic' : ''}`}/>
+                    <button onClick={() => toggleDrawer(item.id, 'profile')} title="Monthly, weekend and temperature profile"
+                      className={`shrink-0 text-[10px] transition-opacity ${drawer?.id === item.id && drawer.kind === 'profile' ? 'text-blue-400 opacity-100' : hasLoadProfile(item) ? 'text-cyan-400 opacity-100' : 'text-slate-500 opacity-0 group-hover:opacity-60 hover:!opacity-100'}`}>
+                      {item.season === 'summer' ? '☀' : item.season === 'winter' ? '❄' : '◷'}
+                    </button>
+                    {item.partId && <span className="shrink-0 text-[7px] font-black uppercase tracking-widest text-slate-600" title="Linked to a parts library entry">lib</span>}
+                    {item.shed && <span className="shrink-0 text-[7px] font-black uppercase tracking-widest text-amber-500" title="Cut by the load shedding plan. Restore it under Load Shedding.">shed</span>}
+                    {peakSeverity && (
+                      <span className={`shrink-0 text-[10px] ${peakSeverity === 'error' ? 'text-rose-400 animate-pulse' : 'text-amber-400'}`} title={itemViolations.map(v => v.message).join('\n')}>⚡</span>
+                    )}
+                  </div>
                 </td>
                 <td className="text-center w-6">
                     <input type="checkbox" checked={item.enabled !== false} onChange={(e) => onUpdateItem(item.id, 'enabled', e.target.checked)} className="rounded border-slate-700 bg-slate-800/50 text-blue-500 focus:ring-0 w-3 h-3 cursor-pointer" />
@@ -166,7 +172,7 @@ const EnergyTable: React.FC<EnergyTableProps> = ({
                 <td className="px-1 py-1 text-right">
                   {showQtyInput ? (
                     <div className="inline-flex items-center justify-center w-[18px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
-                      <NumberInput value={item.quantity || 1} onChange={(val) => onUpdateItem(item.id, 'quantity', Math.max(1, val))} placeholder="1" className="text-center pr-0" />
+                      <NumberInput emptyAs={0} value={item.quantity || 1} onChange={(val) => onUpdateItem(item.id, 'quantity', Math.max(1, val))} placeholder="1" className="text-center pr-0" />
                     </div>
                   ) : (
                     <div className="w-[18px] h-5 flex items-center justify-center opacity-20 text-slate-600 font-mono text-[8px]">-</div>
@@ -174,28 +180,60 @@ const EnergyTable: React.FC<EnergyTableProps> = ({
                 </td>
                 <td className="px-1 py-1 text-right">
                   <div className={`inline-flex items-center justify-end w-[41px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors`}>
-                    <NumberInput value={item.watts} onChange={(val) => onUpdateItem(item.id, 'watts', val)} />
+                    <NumberInput emptyAs={0} placeholder="0" value={item.watts} onChange={(val) => onUpdateItem(item.id, 'watts', val)} />
                     <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">W</span>
                   </div>
                 </td>
                 <td className="px-1 py-1 text-right">
                   <div className={`inline-flex items-center justify-end w-[36px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors`}>
-                    <NumberInput value={item.hours} onChange={(val) => onUpdateItem(item.id, 'hours', val)} step="0.1" />
+                    <NumberInput emptyAs={0} placeholder="0" value={item.hours} onChange={(val) => onUpdateItem(item.id, 'hours', val)} step="0.1" />
                     <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">H</span>
                   </div>
                 </td>
                 <td className="px-1 py-1 text-right">
                    <div className={`inline-flex items-center justify-end w-[33px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors`}>
-                    <NumberInput value={item.dutyCycle || 100} onChange={(val) => onUpdateItem(item.id, 'dutyCycle', Math.min(100, Math.max(1, val)))} className={item.dutyCycle < 100 ? 'text-amber-400' : ''}/>
+                    <NumberInput emptyAs={0} placeholder="0" value={item.dutyCycle || 100} onChange={(val) => onUpdateItem(item.id, 'dutyCycle', Math.min(100, Math.max(1, val)))} className={item.dutyCycle < 100 ? 'text-amber-400' : ''}/>
                     <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">%</span>
                   </div>
                 </td>
-                <td className="px-2 py-1 text-right font-mono text-emerald-400 font-bold text-[11px] whitespace-nowrap">{(wh || 0).toFixed(0)}</td>
+                <td className="px-1 py-1 w-[64px]">
+                  <ScheduleInput schedule={item.schedule} onChange={(val) => onUpdateItem(item.id, 'schedule', val)} />
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[30px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput emptyAs={0} value={item.surgeMultiplier || 1} onChange={(val) => onUpdateItem(item.id, 'surgeMultiplier', Math.max(1, val))} step="0.5" placeholder="1" className={(item.surgeMultiplier || 1) > 1 ? 'text-amber-400' : ''} />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">×</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 w-[44px]">
+                  <input type="text" value={item.simultaneousGroup || ''} placeholder="-" onChange={(e) => onUpdateItem(item.id, 'simultaneousGroup', e.target.value || undefined)} onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                    className="bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-300 font-mono text-[10px] outline-none placeholder-slate-700"/>
+                </td>
+                {showBank && (
+                  <td className="px-1 py-1 w-[60px]">
+                    <select value={banks.find(b => isOnBank(item, b, banks))?.id} onChange={(e) => onUpdateItem(item.id, 'bankId', e.target.value)} className="bg-transparent border-none w-full text-slate-300 font-mono text-[10px] focus:ring-0 outline-none p-0 cursor-pointer">
+                      {banks.map(b => <option key={b.id} value={b.id} className="bg-slate-900 text-slate-200">{b.name}</option>)}
+                    </select>
+                  </td>
+                )}
+                {showInverter && (
+                  <td className="px-1 py-1 w-[60px]">
+                    {item.category === LoadCategory.AC_LOADS && (
+                      <select value={findInverter(item, inverters)?.id} onChange={(e) => onUpdateItem(item.id, 'inverterId', e.target.value)} className="bg-transparent border-none w-full text-slate-300 font-mono text-[10px] focus:ring-0 outline-none p-0 cursor-pointer">
+                        {inverters.map(inv => <option key={inv.id} value={inv.id} className="bg-slate-900 text-slate-200">{inv.name}</option>)}
+                      </select>
+                    )}
+                  </td>
+                )}
+                <td className="px-2 py-1 text-right font-mono text-emerald-400 font-bold text-[11px] whitespace-nowrap" title={item.category === LoadCategory.AC_LOADS ? `Inverter efficiency ${(efficiency * 100).toFixed(0)}%` : undefined}>{(wh || 0).toFixed(0)}</td>
                 <td className="px-2 py-1 text-right font-mono text-amber-400 font-bold text-[11px] whitespace-nowrap relative">
                   <div className="flex items-center justify-end gap-1">{(ah || 0).toFixed(1)}
                      {isSuspicious && <div className="text-amber-500 animate-pulse"><svg viewBox="0 0 20 20" fill="currentColor" className="w-3 h-3"><path fillRule="evenodd" d="M8.485 2.495c.673-1.167 2.357-1.167 3.03 0l6.28 10.875c.673 1.167-.17 2.625-1.516 2.625H3.72c-1.347 0-2.189-1.458-1.515-2.625L8.485 2.495ZM10 5a.75.75 0 0 1 .75.75v3.5a.75.75 0 0 1-1.5 0v-3.5A.75.75 0 0 1 10 5Zm0 9a1 1 0 1 0 0-2 1 1 0 0 0 0 2Z" clipRule="evenodd" /></svg></div>}
                   </div>
                 </td>
+                <td className="px-2 py-1 text-right">
+                  <CableCell sizing={cable} open={drawer?.id === item.id && drawer.kind === 'cable'} onToggle={() => toggleDrawer(item.id, 'cable')} />
+                </td>
                 <td className="px-2 py-1 whitespace-nowrap text-[10px]">
                   <input type="text" value={item.notes} onChange={(e) => onUpdateItem(item.id, 'notes', e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
                     className="bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-500 italic transition-colors outline-none"/>
@@ -206,14 +244,22 @@ const EnergyTable: React.FC<EnergyTableProps> = ({
                   </button>
                 </td>
               </tr>
+              {drawer?.id === item.id && drawer.kind === 'cable' && (
+                <CableDrawer run={item.cable} sizing={cable} colSpan={columnCount} onChange={(run) => onUpdateItem(item.id, 'cable', run)} />
+              )}
+              {drawer?.id === item.id && drawer.kind === 'profile' && (
+                <ProfileDrawer item={item} conditions={conditions} colSpan={columnCount} onChange={(field, value) => onUpdateItem(item.id, field, value)} />
+              )}
+              </React.Fragment>
             );
           })}
         </tbody>
         <tfoot>
           <tr>
-            <td colSpan={11} className="px-2 py-1"><div className="flex gap-1.5">
+            <td colSpan={columnCount} className="px-2 py-1"><div className="flex gap-1.5">
               <button onClick={() => onAddItem(visibleCategories[0])} className="w-[10%] flex-none flex items-center justify-center gap-2 py-1 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-sm font-medium transition-all">+</button>
               <button onClick={() => onAIAddItem(visibleCategories[0])} className="flex-1 flex items-center justify-center gap-2 py-1 border border-dashed border-blue-900/50 bg-blue-950/20 rounded hover:bg-blue-900/40 text-blue-400/80 text-[8px] font-black uppercase tracking-widest transition-all">✨ Spec Asst.</button>
+              {onOpenLibrary && <button onClick={() => onOpenLibrary(visibleCategories[0])} className="w-[18%] flex-none flex items-center justify-center gap-2 py-1 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-[8px] font-black uppercase tracking-widest transition-all">Library</button>}
             </div></td>
           </tr>
         </tfoot>
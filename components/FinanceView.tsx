@@ -0,0 +1,134 @@
+import React, { useMemo } from 'react';
+import { PowerItem, ChargingSource, BatteryConfig, BatteryBank, FinanceSettings, GeneratorFuel } from '../types';
+import { calculateFinance } from '../services/finance';
+import { getBatteryBanks, getChemistryPreset } from '../services/powerLogic';
+import NumberInput from './NumberInput';
+import Box from './Box';
+
+interface FinanceViewProps {
+  items: PowerItem[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+  settings: FinanceSettings;
+  onSettingsChange: (settings: FinanceSettings) => void;
+  onUpdateSource: (id: string, field: keyof ChargingSource, value: any) => void;
+  onUpdateBank: (id: string, field: keyof BatteryBank, value: any) => void;
+}
+
+const formatMoney = (v: number, digits = 0) => isFinite(v) ? `$${v.toFixed(digits)}` : '—';
+
+const Stat: React.FC<{ label: string; value: string; sub?: string; color: string }> = ({ label, value, sub, color }) => (
+  <div className="flex flex-col">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <span className={`font-mono font-bold text-[13px] ${color}`}>{value}</span>
+    {sub && <span className="text-[9px] text-slate-500 font-mono">{sub}</span>}
+  </div>
+);
+
+/**
+ * Dollars and litres for the current config, plus the payback of a proposed solar upgrade.
+ */
+const FinanceView: React.FC<FinanceViewProps> = ({ items, charging, battery, settings, onSettingsChange, onUpdateSource, onUpdateBank }) => {
+  const finance = useMemo(() => calculateFinance(items, charging, battery, settings), [items, charging, battery, settings]);
+  const house = getBatteryBanks(battery)[0];
+  const preset = getChemistryPreset(battery);
+  const updateFuel = (source: ChargingSource, field: keyof GeneratorFuel, value: number) =>
+    onUpdateSource(source.id, 'fuel', { litresPerHour: 0, pricePerLitre: 0, ...source.fuel, [field]: Math.max(0, value) });
+
+  const { generator, payback } = finance;
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5 p-3 space-y-3">
+      <div className="flex flex-wrap gap-x-8 gap-y-2">
+        <Stat label="Per kWh Used" value={formatMoney(finance.costPerKWh, 2)} sub={`${finance.annualKWhConsumed.toFixed(0)} kWh/yr`} color="text-amber-400" />
+        <Stat label="Annual Cost" value={formatMoney(finance.annualCost)} sub="capex/life + fuel + wear" color="text-slate-200" />
+        {generator && (
+          <Stat label="Generator" value={`${generator.annualLitres.toFixed(0)} L/yr`} sub={`${generator.annualHours.toFixed(0)} h · ${formatMoney(generator.annualFuelCost)}`} color="text-rose-400" />
+        )}
+        {finance.battery && (
+          <Stat label="Battery Wear" value={`${formatMoney(finance.battery.costPerCycle, 2)}/cycle`} sub={`${formatMoney(finance.battery.costPerKWh, 3)}/kWh · ${formatMoney(finance.battery.annualCost)}/yr`} color="text-cyan-400" />
+        )}
+      </div>
+
+      <table className="w-full text-left text-[10px] text-slate-300 border-collapse">
+        <thead className="text-[7px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+          <tr>
+            <th className="px-1 py-1">Source</th>
+            <th className="px-1 py-1 text-right w-[66px]">Capex</th>
+            <th className="px-1 py-1 text-right w-[46px]">Life</th>
+            <th className="px-1 py-1 text-right w-[50px]">Fuel</th>
+            <th className="px-1 py-1 text-right w-[54px]">Price</th>
+            <th className="px-1 py-1 text-right w-[60px]">kWh/yr</th>
+            <th className="px-1 py-1 text-right w-[56px]">$/kWh</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800/50">
+          {charging.map(source => {
+            const econ = finance.sources.find(s => s.sourceId === source.id);
+            const isGenerator = source.type === 'generator';
+            return (
+              <tr key={source.id}>
+                <td className={`px-1 py-0.5 text-[11px] ${source.enabled === false && !isGenerator ? 'text-slate-500 line-through' : 'text-slate-200'}`}>{source.name}</td>
+                <td className="px-1 py-0.5 text-right">
+                  <Box width="w-[60px]" prefix="$"><NumberInput emptyAs={0} value={source.capex} onChange={(val) => onUpdateSource(source.id, 'capex', Math.max(0, val) || undefined)} placeholder="0" /></Box>
+                </td>
+                <td className="px-1 py-0.5 text-right">
+                  <Box width="w-[40px]" unit="Y"><NumberInput emptyAs={0} value={source.lifetimeYears} onChange={(val) => onUpdateSource(source.id, 'lifetimeYears', Math.max(0, val) || undefined)} placeholder="1" /></Box>
+                </td>
+                {isGenerator ? (
+                  <>
+                    <td className="px-1 py-0.5 text-right">
+                      <Box width="w-[44px]" unit="L/h"><NumberInput emptyAs={0} value={source.fuel?.litresPerHour} onChange={(val) => updateFuel(source, 'litresPerHour', val)} step="0.1" placeholder="0" /></Box>
+                    </td>
+                    <td className="px-1 py-0.5 text-right">
+                      <Box width="w-[48px]" prefix="$" unit="/L"><NumberInput emptyAs={0} value={source.fuel?.pricePerLitre} onChange={(val) => updateFuel(source, 'pricePerLitre', val)} step="0.05" placeholder="0" /></Box>
+                    </td>
+                  </>
+                ) : (
+                  <td colSpan={2}></td>
+                )}
+                <td className="px-1 py-0.5 text-right font-mono text-emerald-400">{econ ? econ.annualKWh.toFixed(0) : '—'}</td>
+                <td className="px-1 py-0.5 text-right font-mono font-bold text-amber-400">{econ ? formatMoney(econ.costPerKWh, 2) : '—'}</td>
+              </tr>
+            );
+          })}
+          <tr className="border-t border-slate-800">
+            <td className="px-1 py-0.5 text-[11px] text-slate-200">{house.name} <span className="text-[8px] text-slate-500">(house bank)</span></td>
+            <td className="px-1 py-0.5 text-right">
+              <Box width="w-[60px]" prefix="$"><NumberInput emptyAs={0} value={house.price} onChange={(val) => onUpdateBank(house.id, 'price', Math.max(0, val) || undefined)} placeholder="0" /></Box>
+            </td>
+            <td className="px-1 py-0.5 text-right" colSpan={2}>
+              <Box width="w-[64px]" unit="cyc"><NumberInput emptyAs={0} value={house.cycleLife} onChange={(val) => onUpdateBank(house.id, 'cycleLife', Math.max(0, Math.round(val)) || undefined)} placeholder={String(preset.cycleLife)} /></Box>
+            </td>
+            <td className="px-1 py-0.5 text-right">
+              <Box width="w-[48px]" prefix="@" unit="%"><NumberInput emptyAs={0} value={house.cycleLifeDoD} onChange={(val) => onUpdateBank(house.id, 'cycleLifeDoD', Math.min(100, Math.max(0, val)) || undefined)} placeholder={String(preset.cycleLifeDoD)} /></Box>
+            </td>
+            <td className="px-1 py-0.5 text-right font-mono text-cyan-400" title="Discharged from the bank, simulated day × 365">{finance.battery ? ((finance.battery.dailyThroughputWh / 1000) * 365).toFixed(0) : '—'}</td>
+            <td className="px-1 py-0.5 text-right font-mono font-bold text-amber-400">{finance.battery ? formatMoney(finance.battery.costPerKWh, 3) : '—'}</td>
+          </tr>
+        </tbody>
+      </table>
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[10px] border-t border-slate-800 pt-2">
+        <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Proposed Solar</span>
+        <Box width="w-[56px]" unit="W"><NumberInput emptyAs={0} value={settings.proposedSolarW} onChange={(val) => onSettingsChange({ ...settings, proposedSolarW: Math.max(0, val) })} step="50" /></Box>
+        <Box width="w-[60px]" prefix="$"><NumberInput emptyAs={0} value={settings.proposedSolarCost} onChange={(val) => onSettingsChange({ ...settings, proposedSolarCost: Math.max(0, val) })} /></Box>
+        {!generator && <span className="text-slate-500 italic">Give a generator row a fuel burn to compare against running it.</span>}
+        {payback && (
+          <span className="ml-auto font-mono font-bold flex items-center gap-3">
+            <span className="text-emerald-400">−{payback.annualLitresSaved.toFixed(0)} L/yr</span>
+            <span className="text-emerald-400">{formatMoney(payback.annualSaving)}/yr</span>
+            <span className={isFinite(payback.years) ? 'text-amber-400' : 'text-rose-400'}>
+              {isFinite(payback.years) ? `Payback ${payback.years.toFixed(1)} yr` : 'No fuel saved'}
+            </span>
+          </span>
+        )}
+      </div>
+      {generator && generator.deficitWh === 0 && (
+        <div className="text-[9px] text-slate-500 italic">No daily deficit at the current forecast, so the generator never needs to run. Switch to a winter month for a fuller picture.</div>
+      )}
+    </div>
+  );
+};
+
+export default FinanceView;
@@ -0,0 +1,46 @@
+import React from 'react';
+import { ForecastDay, MultiDaySimulation } from '../types';
+
+interface ForecastStripProps {
+  days: ForecastDay[];
+  statuses?: ('ok' | 'nodata' | 'invalid')[];
+  multiDay?: MultiDaySimulation;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * One column per forecast day: PSH bar, cloud cover, max temperature and end-of-day SoC.
+ */
+const ForecastStrip: React.FC<ForecastStripProps> = ({ days, statuses = [], multiDay }) => {
+  const maxPsh = Math.max(6, ...days.map(d => d.psh));
+
+  return (
+    <div className="bg-slate-900 rounded-lg border border-slate-800 ring-1 ring-white/5 shadow-inner p-2 overflow-x-auto no-scrollbar">
+      <div className="flex gap-1 min-w-max">
+        {days.map((day, i) => {
+          const status = statuses[i] || 'ok';
+          const run = multiDay?.days[i];
+          const weekday = WEEKDAYS[new Date(`${day.date}T12:00`).getDay()];
+          const socColor = !run ? 'bg-slate-700' : run.unmetWh > 0 ? 'bg-rose-500' : run.endSoC > 50 ? 'bg-emerald-500' : 'bg-amber-500';
+          return (
+            <div key={day.date} className={`flex flex-col items-center w-[42px] px-0.5 ${i === 0 ? 'bg-slate-800/50 rounded' : ''}`}
+              title={`${day.date}: ${day.psh.toFixed(1)} PSH, ${(day.diffuseShare * 100).toFixed(0)}% diffuse, ${day.cloudCover.toFixed(0)}% cloud, ${day.tempMaxC.toFixed(0)}°C max${run ? `, SoC ${run.endSoC.toFixed(0)}% at midnight` : ''}${status !== 'ok' ? ' (invalid, fallback used)' : ''}`}>
+              <span className={`text-[7px] font-black uppercase tracking-widest ${i === 0 ? 'text-blue-400' : 'text-slate-500'}`}>{i === 0 ? 'Today' : weekday}</span>
+              <div className="h-8 w-3 flex flex-col justify-end mt-0.5">
+                <div className={`w-full rounded-t-sm ${status !== 'ok' ? 'bg-rose-500/50' : day.cloudCover > 70 ? 'bg-slate-500' : 'bg-amber-400'}`}
+                  style={{ height: `${Math.max(4, (day.psh / maxPsh) * 100)}%` }} />
+              </div>
+              <span className={`font-mono font-bold text-[9px] ${status !== 'ok' ? 'text-rose-400 line-through' : 'text-slate-200'}`}>{day.psh.toFixed(1)}</span>
+              <span className="font-mono text-[8px] text-slate-500">{day.cloudCover.toFixed(0)}%☁</span>
+              <span className="font-mono text-[8px] text-slate-500">{day.tempMaxC.toFixed(0)}°</span>
+              <div className={`w-1.5 h-1.5 rounded-full mt-0.5 ${socColor}`} />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ForecastStrip;
@@ -1,10 +1,12 @@
 import React from 'react';
-import { PowerItem, LoadCategory } from '../types';
-import { calculateItemEnergy } from '../services/powerLogic';
+import { PowerItem, LoadCategory, Inverter } from '../types';
+import { calculateItemEnergy, calculateInverterIdleWh, LoadConditions } from '../services/powerLogic';
 
 interface HeaderGraphProps {
   items: PowerItem[];
   systemVoltage: number;
+  inverters?: Inverter[];
+  conditions?: LoadConditions;
 }
 
 const COLORS: Record<string, string> = {
@@ -13,12 +15,15 @@ const COLORS: Record<string, string> = {
   [LoadCategory.SYSTEM_MGMT]: 'bg-amber-500',
 };
 
-const HeaderGraph: React.FC<HeaderGraphProps> = ({ items, systemVoltage }) => {
-  // Calc totals
+const HeaderGraph: React.FC<HeaderGraphProps> = ({ items, systemVoltage, inverters = [], conditions = {} }) => {
+  // Calc totals (inverter idle draw counts as System Mgmt)
+  const context = { items, inverters, ...conditions };
+  const idleWh = inverters.reduce((sum, inv) => sum + calculateInverterIdleWh(inv), 0);
   const categoryTotals = Object.values(LoadCategory).map(cat => {
     const totalWh = items
       .filter(i => i.category === cat)
-      .reduce((sum, i) => sum + calculateItemEnergy(i, systemVoltage).wh, 0);
+      .reduce((sum, i) => sum + calculateItemEnergy(i, systemVoltage, context).wh, 0)
+      + (cat === LoadCategory.SYSTEM_MGMT ? idleWh : 0);
     return { category: cat, totalWh };
   }).filter(d => d.totalWh > 0);
 
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react';
+import { Inverter, InverterPreset, InverterCurvePoint, PowerItem, LoadCategory } from '../types';
+import { INVERTER_CURVE_PRESETS } from '../constants';
+import { calculateInverterIdleWh, findInverter, getInverterCurveEfficiency, getInverterLoadW } from '../services/powerLogic';
+import ScheduleInput from './ScheduleInput';
+import NumberInput from './NumberInput';
+
+interface InverterTableProps {
+  inverters: Inverter[];
+  items: PowerItem[];
+  onUpdateInverter: (id: string, field: keyof Inverter, value: any) => void;
+  onDeleteInverter: (id: string) => void;
+  onAddInverter: () => void;
+}
+
+/**
+ * "10:0.86, 50:0.93" <-> curve points (load % : efficiency).
+ */
+const parseCurve = (text: string): InverterCurvePoint[] | undefined => {
+  const points = text.split(',')
+    .map(part => part.trim().match(/^(\d+(?:\.\d+)?)\s*:\s*(0?\.\d+|1(?:\.0+)?)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map(m => ({ loadPct: Number(m[1]), efficiency: Number(m[2]) }));
+  return points.length > 0 ? points : undefined;
+};
+
+const formatCurve = (curve?: InverterCurvePoint[]) => (curve || []).map(p => `${p.loadPct}:${p.efficiency}`).join(', ');
+
+const CurveInput = ({ curve, onChange }: { curve?: InverterCurvePoint[], onChange: (curve: InverterCurvePoint[] | undefined) => void }) => {
+  const [localStr, setLocalStr] = useState(formatCurve(curve));
+  useEffect(() => { setLocalStr(formatCurve(curve)); }, [curve]);
+  const commit = () => {
+    const next = parseCurve(localStr);
+    onChange(next);
+    setLocalStr(formatCurve(next));
+  };
+  return (
+    <input type="text" value={localStr} placeholder="preset" title="Load %:efficiency pairs, e.g. 10:0.86, 50:0.93, 100:0.91"
+      onChange={(e) => setLocalStr(e.target.value)} onBlur={commit} onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className="bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-300 font-mono text-[10px] outline-none placeholder-slate-700" />
+  );
+};
+
+const InverterTable: React.FC<InverterTableProps> = ({ inverters, items, onUpdateInverter, onDeleteInverter, onAddInverter }) => {
+  return (
+    <div className="overflow-hidden bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5">
+      <table className="w-full text-left text-[12px] text-slate-300 table-auto border-collapse">
+        <thead className="bg-slate-950 text-[8px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+          <tr>
+            <th className="px-2 py-2 min-w-[140px]">Inverter</th>
+            <th className="px-1 py-2 w-[64px]">Curve</th>
+            <th className="px-1 py-2 text-right w-[50px]">Rated</th>
+            <th className="px-1 py-2 text-right w-[50px]">Surge</th>
+            <th className="px-1 py-2 text-right w-[40px]">Idle</th>
+            <th className="px-1 py-2 text-right w-[40px]">Hrs On</th>
+            <th className="px-1 py-2 w-[64px]">When</th>
+            <th className="px-2 py-2 text-right whitespace-nowrap">Peak Load</th>
+            <th className="px-2 py-2 text-right whitespace-nowrap">Idle Wh</th>
+            <th className="px-2 py-2 min-w-[100px]">Custom Table</th>
+            <th className="px-2 py-2 w-8"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800/50">
+          {inverters.map(inv => {
+            const context = { items, inverters };
+            const acItems = items.filter(i => i.enabled !== false && i.category === LoadCategory.AC_LOADS && findInverter(i, inverters) === inv);
+            const peakW = acItems.reduce((max, i) => Math.max(max, getInverterLoadW(i, inv, context)), 0);
+            const peakEff = getInverterCurveEfficiency(inv, peakW);
+            return (
+              <tr key={inv.id} className="hover:bg-slate-800/40 transition-all group">
+                <td className="px-2 py-1 whitespace-nowrap">
+                  <input type="text" value={inv.name} onChange={(e) => onUpdateInverter(inv.id, 'name', e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                    className="bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-200 transition-colors text-[12px] font-medium outline-none italic"/>
+                </td>
+                <td className="px-1 py-1">
+                  <select value={inv.preset} onChange={(e) => onUpdateInverter(inv.id, 'preset', e.target.value as InverterPreset)} className="bg-transparent border-none w-full text-slate-200 font-mono text-[10px] focus:ring-0 font-bold outline-none p-0 cursor-pointer">
+                    {(Object.keys(INVERTER_CURVE_PRESETS) as InverterPreset[]).map(key => (
+                      <option key={key} value={key} className="bg-slate-900 text-slate-200">{INVERTER_CURVE_PRESETS[key].label}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput emptyAs={0} placeholder="0" value={inv.ratedW} onChange={(val) => onUpdateInverter(inv.id, 'ratedW', Math.max(0, val))} />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">W</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput emptyAs={0} placeholder="0" value={inv.surgeW} onChange={(val) => onUpdateInverter(inv.id, 'surgeW', Math.max(0, val))} />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">W</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[36px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput emptyAs={0} placeholder="0" value={inv.idleW} onChange={(val) => onUpdateInverter(inv.id, 'idleW', Math.max(0, val))} />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">W</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 text-right">
+                  <div className="inline-flex items-center justify-end w-[36px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput emptyAs={0} placeholder="0" value={inv.hoursOn} onChange={(val) => onUpdateInverter(inv.id, 'hoursOn', Math.min(24, Math.max(0, val)))} step="0.1" />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">H</span>
+                  </div>
+                </td>
+                <td className="px-1 py-1 w-[64px]">
+                  <ScheduleInput schedule={inv.schedule} onChange={(val) => onUpdateInverter(inv.id, 'schedule', val)} />
+                </td>
+                <td className="px-2 py-1 text-right font-mono text-cyan-400 font-bold text-[11px] whitespace-nowrap" title="Largest simultaneous AC load and the curve efficiency at that load">
+                  {peakW.toFixed(0)}W <span className="text-slate-500 text-[9px]">@ {(peakEff * 100).toFixed(0)}%</span>
+                </td>
+                <td className="px-2 py-1 text-right font-mono text-amber-400 font-bold text-[11px] whitespace-nowrap">{calculateInverterIdleWh(inv).toFixed(0)}</td>
+                <td className="px-2 py-1">
+                  <CurveInput curve={inv.curve} onChange={(val) => onUpdateInverter(inv.id, 'curve', val)} />
+                </td>
+                <td className="px-2 py-1 text-center w-8">
+                  <button onClick={() => onDeleteInverter(inv.id)} className="text-slate-400 hover:text-red-400 opacity-60 hover:opacity-100 transition-all p-0.5 group/del">
+                    <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3 h-3 group-hover/del:scale-110 transition-transform"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={11} className="px-2 py-1">
+              <button onClick={onAddInverter} className="w-[10%] flex items-center justify-center gap-2 py-1 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-sm font-medium transition-all">+</button>
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+    </div>
+  );
+};
+
+export default InverterTable;
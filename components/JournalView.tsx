@@ -0,0 +1,165 @@
+import React, { useMemo } from 'react';
+import { ChargingSource, BatteryConfig, JournalEntry, JournalActual } from '../types';
+import { JOURNAL_MIN_DAYS } from '../constants';
+import { learnFactors } from '../services/journal';
+import NumberInput from './NumberInput';
+import Box from './Box';
+
+interface JournalViewProps {
+  journal: JournalEntry[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+  canFillFromLog: boolean;
+  rigName: string;       // Scenario marked as the real installation
+  isRigActive: boolean;  // Plans are only recorded while it is active
+  onMarkRig: () => void;
+  onRecordToday: () => void;
+  onFillFromLog: () => void;
+  onUpdateActual: (date: string, actual: JournalActual | undefined) => void;
+  onDeleteEntry: (date: string) => void;
+  onUpdateBattery: (field: keyof BatteryConfig, value: any) => void;
+}
+
+const CHART_DAYS = 30;
+const TABLE_DAYS = 14;
+
+const Stat: React.FC<{ label: string; value: string; sub?: string; color: string }> = ({ label, value, sub, color }) => (
+  <div className="flex flex-col">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <span className={`font-mono font-bold text-[13px] ${color}`}>{value}</span>
+    {sub && <span className="text-[9px] text-slate-500 font-mono">{sub}</span>}
+  </div>
+);
+
+/**
+ * Modelled vs. actual solar per day. Bars are the model, ticks the actual.
+ */
+const JournalChart: React.FC<{ entries: JournalEntry[] }> = ({ entries }) => {
+  const max = Math.max(1, ...entries.flatMap(e => [e.planned?.solarWh || 0, e.actual?.solarWh || 0]));
+  const width = 100 / CHART_DAYS;
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-16 bg-slate-950/60 rounded border border-slate-800">
+      {entries.map((e, i) => {
+        const x = (CHART_DAYS - entries.length + i) * width;
+        const planned = ((e.planned?.solarWh || 0) / max) * 38;
+        const actual = e.actual?.solarWh !== undefined ? (e.actual.solarWh / max) * 38 : null;
+        return (
+          <g key={e.date}>
+            <title>{`${e.date}: model ${(e.planned?.solarWh || 0).toFixed(0)} Wh${actual !== null ? `, actual ${e.actual!.solarWh!.toFixed(0)} Wh` : ''}`}</title>
+            <rect x={x + width * 0.15} width={width * 0.7} y={40 - planned} height={planned} className="fill-blue-500/40" />
+            {actual !== null && <rect x={x} width={width} y={40 - actual - 0.6} height={1.2} className="fill-emerald-400" />}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+/**
+ * Day-by-day plan against what happened, and the solar yield factors learned from the gap.
+ */
+const JournalView: React.FC<JournalViewProps> = ({ journal, charging, battery, canFillFromLog, rigName, isRigActive, onMarkRig, onRecordToday, onFillFromLog, onUpdateActual, onDeleteEntry, onUpdateBattery }) => {
+  const factors = useMemo(() => learnFactors(journal, charging), [journal, charging]);
+  const compared = journal.filter(e => e.planned && e.planned.solarWh > 0 && e.actual?.solarWh !== undefined);
+  const modelWh = compared.reduce((s, e) => s + e.planned!.solarWh, 0);
+  const actualWh = compared.reduce((s, e) => s + e.actual!.solarWh!, 0);
+  const meanErrorPct = compared.length ? (compared.reduce((s, e) => s + Math.abs(e.actual!.solarWh! / e.planned!.solarWh - 1), 0) / compared.length) * 100 : null;
+
+  const updateActual = (entry: JournalEntry, field: 'solarWh' | 'endSoC', value: number | undefined) => {
+    const next: JournalActual = { ...entry.actual, origin: 'manual', [field]: value === undefined ? undefined : Math.max(0, field === 'endSoC' ? Math.min(100, value) : value) };
+    onUpdateActual(entry.date, next.solarWh === undefined && next.endSoC === undefined ? undefined : next);
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5 p-3 space-y-3">
+      <div className="flex flex-wrap items-end gap-x-8 gap-y-2">
+        <Stat label="Days Compared" value={`${compared.length}`} sub={`${journal.length} logged`} color="text-slate-200" />
+        <Stat label="Solar Error" value={meanErrorPct === null ? '—' : `±${meanErrorPct.toFixed(0)}%`} sub="mean daily" color="text-amber-400" />
+        <Stat label="Actual / Model" value={modelWh > 0 ? `×${(actualWh / modelWh).toFixed(2)}` : '—'} sub="all days" color="text-cyan-400" />
+        <div className="flex items-center gap-2 ml-auto">
+          {!isRigActive && (
+            <span className="text-[9px] text-slate-500 italic" title="The journal compares plans with what the installed kit did, so other scenarios don't record">
+              Plans record for "{rigName}".
+              <button onClick={onMarkRig} className="ml-1 not-italic text-[8px] font-black uppercase tracking-widest text-blue-400 hover:text-blue-300">Mark this as the rig</button>
+            </span>
+          )}
+          {canFillFromLog && (
+            <button onClick={onFillFromLog} title="Daily PV yield and end-of-day SoC from the imported shunt log"
+              className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white text-[8px] font-black uppercase tracking-widest transition-colors border border-slate-700">
+              Fill from Log
+            </button>
+          )}
+          <button onClick={onRecordToday} disabled={!isRigActive} title="Save today's plan now. 'Now' mode records it automatically."
+            className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 disabled:opacity-30 disabled:hover:bg-slate-800 text-slate-300 hover:text-white text-[8px] font-black uppercase tracking-widest transition-colors border border-slate-700">
+            Record Today
+          </button>
+        </div>
+      </div>
+
+      {journal.length > 0 && <JournalChart entries={journal.slice(-CHART_DAYS)} />}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px]">
+        <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Learned</span>
+        {factors.length === 0 && <span className="text-slate-500 italic">Needs {JOURNAL_MIN_DAYS} days with actual solar.</span>}
+        {factors.map(f => (
+          <span key={f.sourceId} className="font-mono" title={`Fitted over ${f.days} days`}>
+            <span className="text-slate-300 font-sans">{charging.find(c => c.id === f.sourceId)?.name}</span>{' '}
+            <span className={`font-bold ${Math.abs(f.factor - 1) >= 0.1 ? 'text-amber-400' : 'text-emerald-400'}`}>×{f.factor.toFixed(2)}</span>
+          </span>
+        ))}
+        <label className="flex items-center gap-1.5 cursor-pointer ml-auto" title="Scale each solar row by its learned factor everywhere solar is modelled">
+          <input type="checkbox" checked={!!battery.applyLearnedFactors} onChange={(e) => onUpdateBattery('applyLearnedFactors', e.target.checked)}
+            className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20" />
+          <span className="text-[7px] text-slate-400 uppercase font-black tracking-widest">Apply to solar model</span>
+        </label>
+      </div>
+
+      {journal.length > 0 && (
+        <table className="w-full text-left text-[10px] text-slate-300 border-collapse">
+          <thead className="text-[7px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+            <tr>
+              <th className="px-1 py-1">Date</th>
+              <th className="px-1 py-1 text-right">PSH</th>
+              <th className="px-1 py-1 text-right" title="Solar rows before learned factors">Model Solar</th>
+              <th className="px-1 py-1 text-right w-[70px]">Actual Solar</th>
+              <th className="px-1 py-1 text-right">Ratio</th>
+              <th className="px-1 py-1 text-right">Plan SoC</th>
+              <th className="px-1 py-1 text-right w-[54px]">Actual SoC</th>
+              <th className="px-1 py-1 w-6"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {[...journal].reverse().slice(0, TABLE_DAYS).map(entry => {
+              const ratio = entry.planned && entry.planned.solarWh > 0 && entry.actual?.solarWh !== undefined ? entry.actual.solarWh / entry.planned.solarWh : null;
+              return (
+                <tr key={entry.date}>
+                  <td className="px-1 py-0.5 font-mono text-slate-200 whitespace-nowrap">
+                    {entry.date}
+                    {entry.actual?.origin === 'telemetry' && <span className="ml-1 text-[7px] font-black uppercase text-slate-500" title="Actuals from the shunt log">log</span>}
+                  </td>
+                  <td className="px-1 py-0.5 text-right font-mono text-slate-400">{entry.planned ? entry.planned.psh.toFixed(1) : '—'}</td>
+                  <td className="px-1 py-0.5 text-right font-mono text-blue-400">{entry.planned ? entry.planned.solarWh.toFixed(0) : '—'}</td>
+                  <td className="px-1 py-0.5 text-right">
+                    <Box width="w-[64px]" unit="Wh"><NumberInput optional value={entry.actual?.solarWh === undefined ? undefined : Math.round(entry.actual.solarWh)} onChange={(val) => updateActual(entry, 'solarWh', val)} placeholder="—" /></Box>
+                  </td>
+                  <td className={`px-1 py-0.5 text-right font-mono font-bold ${ratio === null ? 'text-slate-600' : Math.abs(ratio - 1) >= 0.1 ? 'text-amber-400' : 'text-emerald-400'}`}>{ratio === null ? '—' : `×${ratio.toFixed(2)}`}</td>
+                  <td className="px-1 py-0.5 text-right font-mono text-slate-400">{entry.planned ? `${entry.planned.endSoC.toFixed(0)}%` : '—'}</td>
+                  <td className="px-1 py-0.5 text-right">
+                    <Box width="w-[48px]" unit="%"><NumberInput optional value={entry.actual?.endSoC === undefined ? undefined : Math.round(entry.actual.endSoC)} onChange={(val) => updateActual(entry, 'endSoC', val)} placeholder="—" /></Box>
+                  </td>
+                  <td className="px-1 py-0.5 text-center">
+                    <button onClick={() => onDeleteEntry(entry.date)} className="text-slate-400 hover:text-red-400 opacity-60 hover:opacity-100 transition-all p-0.5 group/del">
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3 h-3 group-hover/del:scale-110 transition-transform"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+                    </button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default JournalView;
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { LiveSettings, LiveEntities, LiveStatus, LiveProtocol } from '../types';
+
+interface LiveConnectionProps {
+  settings: LiveSettings;
+  status: LiveStatus;
+  message?: string;
+  onChange: (settings: LiveSettings) => void;
+}
+
+const PROTOCOLS: { id: LiveProtocol; label: string; url: string }[] = [
+  { id: 'homeassistant', label: 'Home Assistant', url: 'http://homeassistant.local:8123' },
+  { id: 'mqtt', label: 'MQTT (WebSocket)', url: 'ws://venus.local:9001' },
+  { id: 'mock', label: 'Mock feed', url: '' }
+];
+
+const ENTITY_LABELS: Record<keyof LiveEntities, string> = {
+  soc: 'SoC',
+  pv: 'PV Power',
+  load: 'Load Power',
+  temp: 'Temp'
+};
+
+export const STATUS_STYLES: Record<LiveStatus, { dot: string; label: string }> = {
+  off: { dot: 'bg-slate-600', label: 'Off' },
+  connecting: { dot: 'bg-amber-400 animate-pulse', label: 'Connecting' },
+  live: { dot: 'bg-emerald-400', label: 'Live' },
+  error: { dot: 'bg-rose-500', label: 'Error' }
+};
+
+const TextField: React.FC<{ label: string; value: string; onChange: (val: string) => void; type?: string; placeholder?: string; width?: string }> = ({ label, value, onChange, type = 'text', placeholder, width = 'w-[180px]' }) => (
+  <label className="flex flex-col gap-0.5">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <input type={type} value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} autoComplete="off"
+      className={`${width} bg-slate-850 border border-slate-700 rounded px-1.5 py-0.5 text-[10px] font-mono text-slate-200 placeholder-slate-600 focus:border-blue-500 outline-none transition-colors`} />
+  </label>
+);
+
+/**
+ * Connection settings for the live readings. Edits are drafts until Connect, so typing
+ * doesn't reconnect on every keystroke.
+ */
+const LiveConnection: React.FC<LiveConnectionProps> = ({ settings, status, message, onChange }) => {
+  const [draft, setDraft] = useState<LiveSettings>(settings);
+  useEffect(() => { setDraft(settings); }, [settings]);
+
+  const update = <K extends keyof LiveSettings>(field: K, value: LiveSettings[K]) => setDraft(prev => ({ ...prev, [field]: value }));
+  const updateEntity = (field: keyof LiveEntities, value: string) => setDraft(prev => ({ ...prev, entities: { ...prev.entities, [field]: value } }));
+  const setProtocol = (protocol: LiveProtocol) => {
+    const known = PROTOCOLS.find(p => p.url === draft.url);
+    setDraft(prev => ({ ...prev, protocol, url: !prev.url || known ? PROTOCOLS.find(p => p.id === protocol)!.url : prev.url }));
+  };
+  const isMock = draft.protocol === 'mock';
+  const style = STATUS_STYLES[status];
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5 p-3 space-y-3">
+      <div className="flex flex-wrap items-end gap-x-4 gap-y-2">
+        <label className="flex flex-col gap-0.5">
+          <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Source</span>
+          <select value={draft.protocol} onChange={(e) => setProtocol(e.target.value as LiveProtocol)}
+            className="bg-slate-850 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200 outline-none focus:border-blue-500 cursor-pointer">
+            {PROTOCOLS.map(p => <option key={p.id} value={p.id} className="bg-slate-900">{p.label}</option>)}
+          </select>
+        </label>
+        {!isMock && <TextField label={draft.protocol === 'mqtt' ? 'Broker URL' : 'URL'} value={draft.url} onChange={(val) => update('url', val)} width="w-[200px]" />}
+        {draft.protocol === 'homeassistant' && (
+          <TextField label="Long-lived Token" type="password" value={draft.token || ''} onChange={(val) => update('token', val || undefined)} placeholder="Profile → Security" width="w-[200px]" />
+        )}
+        {draft.protocol === 'mqtt' && (
+          <>
+            <TextField label="Username" value={draft.username || ''} onChange={(val) => update('username', val || undefined)} width="w-[100px]" />
+            <TextField label="Password" type="password" value={draft.password || ''} onChange={(val) => update('password', val || undefined)} width="w-[100px]" />
+          </>
+        )}
+        <div className="flex items-center gap-3 ml-auto">
+          <span className="flex items-center gap-1.5 text-[8px] font-black uppercase tracking-widest text-slate-400" title={message}>
+            <span className={`w-1.5 h-1.5 rounded-full ${style.dot}`}></span>{style.label}
+          </span>
+          {settings.enabled ? (
+            <button onClick={() => onChange({ ...draft, enabled: false })} className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-rose-400 text-[8px] font-black uppercase tracking-widest transition-colors border border-slate-700">
+              Disconnect
+            </button>
+          ) : (
+            <button onClick={() => onChange({ ...draft, enabled: true })} className="px-2 py-1 rounded bg-blue-600/80 hover:bg-blue-600 text-white text-[8px] font-black uppercase tracking-widest transition-colors">
+              Connect
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!isMock && (
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {(Object.keys(ENTITY_LABELS) as (keyof LiveEntities)[]).map(field => (
+            <TextField key={field} label={`${ENTITY_LABELS[field]} ${draft.protocol === 'mqtt' ? 'Topic' : 'Entity'}`} value={draft.entities[field]} onChange={(val) => updateEntity(field, val)} placeholder="—" />
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[9px]">
+        <label className="flex items-center gap-1.5 cursor-pointer" title="Each live SoC reading overwrites the house bank's initial SoC">
+          <input type="checkbox" checked={settings.syncSoC} onChange={(e) => onChange({ ...settings, syncSoC: e.target.checked })}
+            className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20" />
+          <span className="text-[7px] text-slate-400 uppercase font-black tracking-widest">Live SoC sets Initial SoC</span>
+        </label>
+        {message && status !== 'live' && <span className={status === 'error' ? 'text-rose-400' : 'text-slate-500'}>{message}</span>}
+        <span className="ml-auto text-slate-500 italic">
+          {isMock ? 'Replays the plan from connect time, drawing a little over it.' : 'Connects from this browser. Credentials stay on this device and are left out of exports.'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default LiveConnection;
@@ -0,0 +1,136 @@
+import React, { useState, useMemo } from 'react';
+import { PowerItem, ChargingSource, BatteryConfig, LoadPriority, SheddingTarget, SheddingAction } from '../types';
+import { DEFAULT_SHEDDING_TARGET } from '../constants';
+import { planShedding, getPriority } from '../services/shedding';
+import NumberInput from './NumberInput';
+import Box from './Box';
+
+interface LoadSheddingProps {
+  items: PowerItem[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+  onUpdateItem: (id: string, field: keyof PowerItem, value: any) => void;
+  onApply: (actions: SheddingAction[]) => void;
+  onRestore: (ids?: string[]) => void;
+}
+
+const Stat: React.FC<{ label: string; value: string; sub?: string; color: string }> = ({ label, value, sub, color }) => (
+  <div className="flex flex-col">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <span className={`font-mono font-bold text-[13px] ${color}`}>{value}</span>
+    {sub && <span className="text-[9px] text-slate-500 font-mono">{sub}</span>}
+  </div>
+);
+
+const PRIORITY_ORDER: LoadPriority[] = ['critical', 'comfort', 'optional'];
+
+const PRIORITY_STYLES: Record<LoadPriority, string> = {
+  critical: 'bg-rose-500/15 text-rose-300 border-rose-500/40',
+  comfort: 'bg-slate-800 text-slate-300 border-slate-700',
+  optional: 'bg-emerald-500/10 text-emerald-300 border-emerald-500/30'
+};
+
+const describeAction = (action: SheddingAction) => {
+  if (action.kind === 'disable') return 'Turn off';
+  return action.field === 'dutyCycle'
+    ? `Duty ${action.from!.toFixed(0)}% → ${action.to!.toFixed(0)}%`
+    : `${action.from!.toFixed(1)} h → ${action.to!.toFixed(1)} h`;
+};
+
+/**
+ * What to switch off to ride out a bad spell. Priorities are tagged here; the plan is
+ * recomputed as the loads change and only touches the rows once applied.
+ */
+const LoadShedding: React.FC<LoadSheddingProps> = ({ items, charging, battery, onUpdateItem, onApply, onRestore }) => {
+  const [target, setTarget] = useState<SheddingTarget>(DEFAULT_SHEDDING_TARGET);
+  const plan = useMemo(() => planShedding(items, charging, battery, target), [items, charging, battery, target]);
+  const shedItems = items.filter(i => i.shed);
+
+  const updateTarget = <K extends keyof SheddingTarget>(field: K, value: SheddingTarget[K]) => setTarget(prev => ({ ...prev, [field]: value }));
+  const cyclePriority = (item: PowerItem) => {
+    const next = PRIORITY_ORDER[(PRIORITY_ORDER.indexOf(getPriority(item)) + 1) % PRIORITY_ORDER.length];
+    onUpdateItem(item.id, 'priority', next === 'comfort' ? undefined : next);
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5 p-3 space-y-3">
+      <div className="flex flex-wrap items-end gap-x-6 gap-y-2">
+        <label className="flex flex-col gap-0.5">
+          <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Keep SoC ≥</span>
+          <Box width="w-[56px]" unit="%"><NumberInput value={target.minSoC} onChange={(val) => updateTarget('minSoC', Math.min(100, Math.max(0, val)))} step="5" /></Box>
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Through</span>
+          <Box width="w-[56px]" unit="days"><NumberInput value={target.days} onChange={(val) => updateTarget('days', Math.min(14, Math.max(1, Math.round(val))))} step="1" /></Box>
+        </label>
+        <label className="flex flex-col gap-0.5">
+          <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Weather</span>
+          <select value={target.weather} onChange={(e) => updateTarget('weather', e.target.value as SheddingTarget['weather'])}
+            className="bg-slate-850 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-200 outline-none focus:border-blue-500 cursor-pointer">
+            <option value="cloud" className="bg-slate-900">Cloud (P10 / half sun)</option>
+            <option value="zero" className="bg-slate-900">No charging</option>
+          </select>
+        </label>
+        <Stat label="As Planned" value={`${plan.baselineMinSoC.toFixed(0)}%`} sub="lowest SoC" color={plan.baselineMinSoC >= target.minSoC ? 'text-emerald-400' : 'text-rose-400'} />
+        <Stat label="With Cuts" value={`${plan.minSoC.toFixed(0)}%`} sub={plan.met ? 'target met' : 'target not reachable'} color={plan.met ? 'text-emerald-400' : 'text-amber-400'} />
+        <Stat label="Saved" value={`${plan.savedWh.toFixed(0)} Wh`} sub="per day" color="text-cyan-400" />
+        <button onClick={() => onApply(plan.actions)} disabled={plan.actions.length === 0}
+          className="ml-auto px-2 py-1 rounded bg-blue-600/80 hover:bg-blue-600 disabled:bg-slate-800 disabled:text-slate-600 text-white text-[8px] font-black uppercase tracking-widest transition-colors">
+          Apply Plan
+        </button>
+      </div>
+
+      {plan.actions.length === 0 ? (
+        <p className="text-[10px] text-slate-500 italic">{plan.met ? 'Nothing to cut: the target holds as planned.' : 'Nothing left to cut: every load is critical or already off.'}</p>
+      ) : (
+        <table className="w-full text-left text-[10px] text-slate-300 border-collapse">
+          <thead className="text-[7px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+            <tr>
+              <th className="px-1 py-1">Load</th>
+              <th className="px-1 py-1">Priority</th>
+              <th className="px-1 py-1">Change</th>
+              <th className="px-1 py-1 text-right">Saves</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800/50">
+            {plan.actions.map(action => (
+              <tr key={action.itemId}>
+                <td className="px-1 py-0.5 text-slate-200">{action.name}</td>
+                <td className="px-1 py-0.5 text-[8px] font-black uppercase tracking-widest text-slate-500">{action.priority}</td>
+                <td className={`px-1 py-0.5 font-mono ${action.kind === 'disable' ? 'text-rose-300' : 'text-amber-300'}`}>{describeAction(action)}</td>
+                <td className="px-1 py-0.5 text-right font-mono text-cyan-400">{action.savedWh.toFixed(0)} Wh</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1">
+        <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest mr-1" title="Click to cycle critical → comfort → optional. Critical loads are never cut.">Priorities</span>
+        {items.map(item => (
+          <button key={item.id} onClick={() => cyclePriority(item)} title={`${getPriority(item)}: click to change`}
+            className={`px-1.5 py-0.5 rounded border text-[9px] transition-colors ${PRIORITY_STYLES[getPriority(item)]} ${item.enabled === false ? 'opacity-40' : ''}`}>
+            {item.name}
+          </button>
+        ))}
+      </div>
+
+      {shedItems.length > 0 && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] border-t border-slate-800 pt-2">
+          <span className="text-[7px] text-amber-500 uppercase font-black tracking-widest">Shed</span>
+          {shedItems.map(item => (
+            <span key={item.id} className="flex items-center gap-1">
+              <span className="text-slate-300">{item.name}</span>
+              <button onClick={() => onRestore([item.id])} className="text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-emerald-400 transition-colors">Restore</button>
+            </span>
+          ))}
+          <button onClick={() => onRestore()} className="ml-auto px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white text-[8px] font-black uppercase tracking-widest transition-colors border border-slate-700">
+            Restore All
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoadShedding;
@@ -0,0 +1,52 @@
+import React, { useState, useEffect } from 'react';
+
+type NumberInputProps = {
+  value?: number;
+  className?: string;
+  step?: string;
+  disabled?: boolean;
+  placeholder?: string;
+} & (
+  // Clearing the box sends undefined
+  | { optional: true; onChange: (val: number | undefined) => void; emptyAs?: never }
+  // Clearing the box sends `emptyAs`, or nothing when it isn't set
+  | { optional?: false; onChange: (val: number) => void; emptyAs?: number }
+);
+
+/**
+ * Number cell that keeps the typed text while it's being edited, so "0." or a blank box
+ * isn't reformatted under the cursor. Commits each parseable keystroke.
+ */
+const NumberInput: React.FC<NumberInputProps> = (props) => {
+  const { value, className = '', step = 'any', disabled = false, placeholder } = props;
+  const [localStr, setLocalStr] = useState(Number.isFinite(value) ? String(value) : '');
+
+  useEffect(() => {
+    const parsed = parseFloat(localStr);
+    if (value === undefined || !Number.isFinite(value)) {
+      if (localStr !== '') setLocalStr('');
+    } else if (isNaN(parsed) ? value !== props.emptyAs : Math.abs(parsed - value) > 0.0001) {
+      setLocalStr(String(value));
+    }
+  }, [value]);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const val = e.target.value;
+    setLocalStr(val);
+    const parsed = parseFloat(val);
+    if (!isNaN(parsed)) props.onChange(parsed);
+    else if (val.trim() !== '') return;
+    else if (props.optional) props.onChange(undefined);
+    else if (props.emptyAs !== undefined) props.onChange(props.emptyAs);
+  };
+
+  return (
+    <input
+      type="number" step={step} disabled={disabled} placeholder={placeholder}
+      className={`bg-transparent text-right text-white focus:outline-none w-full pr-0.5 font-medium placeholder-slate-600 ${className} ${disabled ? 'opacity-30 cursor-not-allowed' : ''}`}
+      value={localStr} onChange={handleChange} onFocus={(e) => !disabled && e.target.select()} onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+    />
+  );
+};
+
+export default NumberInput;
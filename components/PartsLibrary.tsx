@@ -0,0 +1,161 @@
+import React, { useState, useMemo } from 'react';
+import { PartEntry, PartKind, PanelSpec, LoadCategory, ChargingSource } from '../types';
+import { searchParts, createPart, getPartLabel } from '../services/partsLibrary';
+import NumberInput from './NumberInput';
+
+interface PartsLibraryProps {
+  parts: PartEntry[];
+  kinds: PartKind[];
+  getUsage: (partId: string) => { rows: number, scenarios: number };
+  onPick: (part: PartEntry) => void;
+  onSave: (part: PartEntry) => void;
+  onDelete: (id: string) => void;
+  onPush: (part: PartEntry) => void;
+  onClose: () => void;
+}
+
+const Field: React.FC<{ label: string; unit?: string; width?: string; children: React.ReactNode }> = ({ label, unit, width = 'w-[54px]', children }) => (
+  <label className="flex flex-col gap-0.5">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <div className={`inline-flex items-center justify-end ${width} bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors`}>
+      {children}
+      {unit && <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{unit}</span>}
+    </div>
+  </label>
+);
+
+const KIND_LABELS: Record<PartKind, string> = { load: 'Load', panel: 'Panel', source: 'Charger' };
+const SOURCE_TYPES: ChargingSource['type'][] = ['alternator', 'generator', 'charger', 'wind', 'other'];
+
+const PartEditor: React.FC<{ part: PartEntry; onChange: (part: PartEntry) => void }> = ({ part, onChange }) => {
+  const update = (field: keyof PartEntry, value: any) => onChange({ ...part, [field]: value, updatedAt: Date.now() });
+  const updatePanel = (field: keyof PanelSpec, value: number) => part.panel && update('panel', { ...part.panel, [field]: value });
+  const textClass = "bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus:border-blue-500 text-slate-200 text-[10px] outline-none";
+
+  return (
+    <div className="flex flex-wrap items-end gap-2 px-2 py-2 bg-slate-950/60 border-t border-slate-800">
+      <label className="flex flex-col gap-0.5">
+        <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Manufacturer</span>
+        <input type="text" value={part.manufacturer} onChange={(e) => update('manufacturer', e.target.value)} className={`${textClass} w-[100px]`} />
+      </label>
+      <label className="flex flex-col gap-0.5">
+        <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Model</span>
+        <input type="text" value={part.model} onChange={(e) => update('model', e.target.value)} className={`${textClass} w-[140px]`} />
+      </label>
+      <Field label={part.kind === 'load' ? 'Rated' : 'Output'} unit="W">
+        <NumberInput value={part.watts} onChange={(val) => update('watts', Math.max(0, val))} />
+      </Field>
+      {part.kind === 'load' && (
+        <>
+          <Field label="Standby" unit="W">
+            <NumberInput value={part.standbyWatts || 0} onChange={(val) => update('standbyWatts', Math.max(0, val) || undefined)} step="0.1" />
+          </Field>
+          <Field label="Duty" unit="%">
+            <NumberInput value={part.dutyCycle ?? 100} onChange={(val) => update('dutyCycle', Math.min(100, Math.max(1, val)))} />
+          </Field>
+          <label className="flex flex-col gap-0.5">
+            <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Table</span>
+            <select value={part.category || LoadCategory.DC_LOADS} onChange={(e) => update('category', e.target.value as LoadCategory)} className={textClass}>
+              {Object.values(LoadCategory).map(c => <option key={c} value={c} className="bg-slate-900">{c}</option>)}
+            </select>
+          </label>
+        </>
+      )}
+      {part.kind === 'source' && (
+        <label className="flex flex-col gap-0.5">
+          <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Type</span>
+          <select value={part.sourceType || 'other'} onChange={(e) => update('sourceType', e.target.value)} className={textClass}>
+            {SOURCE_TYPES.map(t => <option key={t} value={t} className="bg-slate-900">{t}</option>)}
+          </select>
+        </label>
+      )}
+      {part.kind === 'panel' && part.panel && (
+        <>
+          <Field label="Voc" unit="V"><NumberInput value={part.panel.vocV} onChange={(val) => updatePanel('vocV', Math.max(0, val))} step="0.1" /></Field>
+          <Field label="Isc" unit="A"><NumberInput value={part.panel.iscA} onChange={(val) => updatePanel('iscA', Math.max(0, val))} step="0.1" /></Field>
+          <Field label="Vmp" unit="V"><NumberInput value={part.panel.vmpV} onChange={(val) => updatePanel('vmpV', Math.max(0, val))} step="0.1" /></Field>
+          <Field label="Imp" unit="A"><NumberInput value={part.panel.impA} onChange={(val) => updatePanel('impA', Math.max(0, val))} step="0.1" /></Field>
+          <Field label="Pmax Coeff" unit="%/°"><NumberInput value={part.panel.tempCoeffPmaxPct} onChange={(val) => updatePanel('tempCoeffPmaxPct', Math.min(0, val))} step="0.01" /></Field>
+          <Field label="Voc Coeff" unit="%/°"><NumberInput value={part.panel.tempCoeffVocPct} onChange={(val) => updatePanel('tempCoeffVocPct', Math.min(0, val))} step="0.01" /></Field>
+          <Field label="NOCT" unit="°C"><NumberInput value={part.panel.noctC ?? 45} onChange={(val) => updatePanel('noctC', Math.max(20, val))} /></Field>
+        </>
+      )}
+      <label className="flex flex-col gap-0.5 flex-1 min-w-[160px]">
+        <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Datasheet URL</span>
+        <input type="url" value={part.datasheetUrl || ''} placeholder="https://" onChange={(e) => update('datasheetUrl', e.target.value || undefined)} className={`${textClass} w-full placeholder-slate-700`} />
+      </label>
+    </div>
+  );
+};
+
+/**
+ * Searchable parts picker. Also edits entries and pushes spec changes to linked rows.
+ */
+const PartsLibrary: React.FC<PartsLibraryProps> = ({ parts, kinds, getUsage, onPick, onSave, onDelete, onPush, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const results = useMemo(() => searchParts(parts, query, kinds), [parts, query, kinds]);
+
+  const handleNew = (kind: PartKind) => {
+    const part = createPart(kind);
+    onSave(part);
+    setEditingId(part.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[150] bg-black/60 flex items-center justify-center p-6" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[80vh] bg-slate-900 rounded-xl border border-slate-800 shadow-2xl flex flex-col overflow-hidden" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center gap-3 px-3 py-2 bg-slate-950 border-b border-slate-800">
+          <span className="app-header-font text-[11px] text-slate-400 uppercase shrink-0">Parts Library</span>
+          <input type="text" autoFocus value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search manufacturer or model..."
+            className="flex-1 bg-slate-850 border border-slate-700 rounded px-2 py-1 text-[11px] text-slate-200 outline-none focus:border-blue-500 placeholder-slate-600" />
+          <button onClick={onClose} className="text-slate-500 hover:text-white transition-colors">
+            <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-3.5 h-3.5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto divide-y divide-slate-800/50">
+          {results.length === 0 && <div className="px-3 py-4 text-[10px] text-slate-500 italic">No parts match "{query}".</div>}
+          {results.map(part => {
+            const usage = getUsage(part.id);
+            const isEditing = editingId === part.id;
+            return (
+              <div key={part.id} className="group">
+                <div className="flex items-center gap-3 px-3 py-1.5 hover:bg-slate-800/40">
+                  <span className="text-[7px] uppercase font-black tracking-widest text-slate-500 w-[44px] shrink-0">{KIND_LABELS[part.kind]}</span>
+                  <button onClick={() => onPick(part)} className="flex-1 text-left text-[11px] text-slate-200 hover:text-blue-300 font-medium truncate" title="Add a row from this part">
+                    {getPartLabel(part)}
+                  </button>
+                  <span className="font-mono text-[10px] text-emerald-400 w-[50px] text-right">{part.watts}W</span>
+                  <span className="font-mono text-[9px] text-slate-500 w-[80px] text-right">
+                    {part.kind === 'load' ? `${part.dutyCycle ?? 100}%${part.standbyWatts ? ` · ${part.standbyWatts}W sb` : ''}` : part.panel ? `${part.panel.vocV}Voc` : part.sourceType}
+                  </span>
+                  {part.datasheetUrl && <a href={part.datasheetUrl} target="_blank" rel="noreferrer" className="text-[9px] text-blue-400 hover:underline">sheet</a>}
+                  <span className="text-[9px] text-slate-600 w-[60px] text-right" title={`${usage.rows} rows in ${usage.scenarios} scenarios`}>{usage.rows ? `${usage.rows} linked` : ''}</span>
+                  <button onClick={() => setEditingId(isEditing ? null : part.id)} className={`text-[8px] font-black uppercase tracking-widest ${isEditing ? 'text-blue-400' : 'text-slate-500 hover:text-white'}`}>Edit</button>
+                  {usage.rows > 0 && (
+                    <button onClick={() => onPush(part)} className="text-[8px] font-black uppercase tracking-widest text-amber-400/80 hover:text-amber-300" title="Copy this spec onto every linked row in every scenario">Push</button>
+                  )}
+                  {!part.builtIn && (
+                    <button onClick={() => onDelete(part.id)} className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-60 hover:!opacity-100 transition-all">
+                      <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-2.5 h-2.5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+                    </button>
+                  )}
+                </div>
+                {isEditing && <PartEditor part={part} onChange={onSave} />}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-1.5 px-3 py-2 border-t border-slate-800 bg-slate-950">
+          {kinds.map(kind => (
+            <button key={kind} onClick={() => handleNew(kind)} className="px-2 py-1 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-[8px] font-black uppercase tracking-widest transition-all">+ New {KIND_LABELS[kind]}</button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PartsLibrary;
@@ -0,0 +1,162 @@
+import React, { useState, useEffect } from 'react';
+import { PowerItem, LoadProfile, LoadSeason, TemperatureDutyRule } from '../types';
+import { MONTH_LABELS } from '../constants';
+import { resolveLoadProfile, LoadConditions } from '../services/powerLogic';
+
+interface ProfileDrawerProps {
+  item: PowerItem;
+  conditions: LoadConditions;
+  colSpan: number;
+  onChange: (field: 'profile' | 'season', value: any) => void;
+}
+
+/**
+ * Blank means "inherit" here, so unlike the table inputs an empty box maps to undefined.
+ */
+const OptionalInput = ({
+  value,
+  onChange,
+  placeholder,
+  step = "any"
+}: {
+  value?: number,
+  onChange: (val: number | undefined) => void,
+  placeholder?: string,
+  step?: string
+}) => {
+  const [localStr, setLocalStr] = useState(value?.toString() ?? '');
+  useEffect(() => {
+    const parsed = parseFloat(localStr);
+    if (value === undefined) {
+      if (!isNaN(parsed)) setLocalStr('');
+    } else if (isNaN(parsed) || Math.abs(parsed - value) > 0.0001) {
+      setLocalStr(value.toString());
+    }
+  }, [value]);
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const val = e.target.value;
+    setLocalStr(val);
+    if (val.trim() === '') return onChange(undefined);
+    const parsed = parseFloat(val);
+    if (!isNaN(parsed)) onChange(parsed);
+  };
+  return (
+    <input
+      type="number" step={step} placeholder={placeholder}
+      className="bg-transparent text-right text-white focus:outline-none w-full pr-0.5 font-medium placeholder-slate-700"
+      value={localStr} onChange={handleChange} onFocus={(e) => e.target.select()} onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+    />
+  );
+};
+
+const Field: React.FC<{ label: string; unit: string; children: React.ReactNode }> = ({ label, unit, children }) => (
+  <label className="flex items-center gap-1.5">
+    <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">{label}</span>
+    <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+      {children}
+      <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{unit}</span>
+    </div>
+  </label>
+);
+
+const DEFAULT_TEMP_RULE: TemperatureDutyRule = { baseTempC: 25, baseDuty: 30, dutyPerDegC: 5, minDuty: 0, maxDuty: 100 };
+
+// Drop empty overrides so an untouched profile goes back to undefined
+const cleanProfile = (profile: LoadProfile): LoadProfile | undefined => {
+  const months = Object.fromEntries(Object.entries(profile.months || {}).filter(([, o]) => o.hours !== undefined || o.dutyCycle !== undefined));
+  const cleaned: LoadProfile = {
+    ...(Object.keys(months).length ? { months } : {}),
+    ...(profile.tempRule ? { tempRule: profile.tempRule } : {}),
+    ...(profile.weekendHours !== undefined ? { weekendHours: profile.weekendHours } : {})
+  };
+  return Object.keys(cleaned).length ? cleaned : undefined;
+};
+
+export const hasLoadProfile = (item: PowerItem) => !!item.profile || (!!item.season && item.season !== 'all');
+
+const ProfileDrawer: React.FC<ProfileDrawerProps> = ({ item, conditions, colSpan, onChange }) => {
+  const profile = item.profile || {};
+  const update = (next: LoadProfile) => onChange('profile', cleanProfile(next));
+  const updateMonth = (month: number, field: 'hours' | 'dutyCycle', value: number | undefined) => {
+    const months = { ...(profile.months || {}) };
+    months[month] = { ...months[month], [field]: value };
+    update({ ...profile, months });
+  };
+  const updateRule = (field: keyof TemperatureDutyRule, value: number) => profile.tempRule && update({ ...profile, tempRule: { ...profile.tempRule, [field]: value } });
+
+  const resolved = resolveLoadProfile(item, conditions);
+
+  return (
+    <tr className="bg-slate-950/60 border-b border-slate-800">
+      <td colSpan={colSpan} className="px-8 py-2 space-y-2">
+        <div className="flex flex-wrap items-center gap-x-5 gap-y-2 text-[10px]">
+          <label className="flex items-center gap-1.5">
+            <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">Season</span>
+            <select value={item.season || 'all'} onChange={(e) => onChange('season', e.target.value === 'all' ? undefined : e.target.value as LoadSeason)} title="Year planner only"
+              className="bg-transparent border-none text-slate-200 font-mono text-[10px] focus:ring-0 font-bold outline-none p-0 cursor-pointer">
+              <option value="all" className="bg-slate-900 text-slate-200">All year</option>
+              <option value="summer" className="bg-slate-900 text-slate-200">Summer</option>
+              <option value="winter" className="bg-slate-900 text-slate-200">Winter</option>
+            </select>
+          </label>
+          <Field label="Weekend" unit="H">
+            <OptionalInput value={profile.weekendHours} onChange={(val) => update({ ...profile, weekendHours: val === undefined ? undefined : Math.min(24, Math.max(0, val)) })} placeholder={String(item.hours)} step="0.5" />
+          </Field>
+          <label className="flex items-center gap-1.5 cursor-pointer">
+            <input type="checkbox" checked={!!profile.tempRule} onChange={(e) => update({ ...profile, tempRule: e.target.checked ? { ...DEFAULT_TEMP_RULE, baseDuty: Number(item.dutyCycle) || 100 } : undefined })}
+              className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20" />
+            <span className="text-[7px] text-slate-400 uppercase font-black tracking-widest">Duty follows temp</span>
+          </label>
+          {profile.tempRule && (
+            <>
+              <Field label="At" unit="°C">
+                <OptionalInput value={profile.tempRule.baseTempC} onChange={(val) => updateRule('baseTempC', val ?? 25)} />
+              </Field>
+              <Field label="Duty" unit="%">
+                <OptionalInput value={profile.tempRule.baseDuty} onChange={(val) => updateRule('baseDuty', Math.min(100, Math.max(0, val ?? 0)))} />
+              </Field>
+              <Field label="Per °C" unit="%">
+                <OptionalInput value={profile.tempRule.dutyPerDegC} onChange={(val) => updateRule('dutyPerDegC', val ?? 0)} step="0.5" />
+              </Field>
+              <Field label="Min" unit="%">
+                <OptionalInput value={profile.tempRule.minDuty} onChange={(val) => updateRule('minDuty', Math.min(100, Math.max(0, val ?? 0)))} />
+              </Field>
+              <Field label="Max" unit="%">
+                <OptionalInput value={profile.tempRule.maxDuty} onChange={(val) => updateRule('maxDuty', Math.min(100, Math.max(0, val ?? 100)))} />
+              </Field>
+            </>
+          )}
+          <div className="flex items-center gap-4 ml-auto font-mono font-bold">
+            <span className="text-cyan-400" title={`Resolved for ${conditions.date ? conditions.date.toDateString() : 'today'}${conditions.ambientC !== undefined ? ` at ${conditions.ambientC.toFixed(0)}°C` : ''}${conditions.weekBlend ? ', 5:2 week blend' : ''}`}>
+              Active {resolved.hours.toFixed(1)}h @ {resolved.dutyCycle.toFixed(0)}%
+            </span>
+          </div>
+        </div>
+
+        <div className="flex items-start gap-1 text-[10px]">
+          <div className="flex flex-col gap-1 pt-[14px] pr-1">
+            <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest h-[18px] flex items-center">Hrs</span>
+            <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest h-[18px] flex items-center">Duty</span>
+          </div>
+          {MONTH_LABELS.map((label, month) => {
+            const override = profile.months?.[month];
+            const isActive = conditions.date?.getMonth() === month;
+            return (
+              <div key={label} className="flex flex-col gap-1 items-center w-[38px]">
+                <span className={`text-[7px] uppercase font-black tracking-widest ${isActive ? 'text-blue-400' : 'text-slate-600'}`}>{label}</span>
+                <div className="w-full bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                  <OptionalInput value={override?.hours} onChange={(val) => updateMonth(month, 'hours', val === undefined ? undefined : Math.min(24, Math.max(0, val)))} placeholder={String(item.hours)} step="0.5" />
+                </div>
+                <div className="w-full bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                  <OptionalInput value={override?.dutyCycle} onChange={(val) => updateMonth(month, 'dutyCycle', val === undefined ? undefined : Math.min(100, Math.max(0, val)))} placeholder={String(item.dutyCycle || 100)} />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+export default ProfileDrawer;
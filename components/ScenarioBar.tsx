@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Scenario } from '../types';
+import { MAX_COMPARE } from '../services/scenarios';
+
+interface ScenarioBarProps {
+  scenarios: Scenario[];
+  activeId: string;
+  rigId: string;         // The real installation, whose plans the journal records
+  compareIds: string[];
+  onSwitch: (id: string) => void;
+  onClone: () => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onToggleCompare: (id: string) => void;
+}
+
+const ScenarioBar: React.FC<ScenarioBarProps> = ({ scenarios, activeId, rigId, compareIds, onSwitch, onClone, onRename, onDelete, onToggleCompare }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {scenarios.map(scenario => {
+        const isActive = scenario.id === activeId;
+        const isCompared = compareIds.includes(scenario.id);
+        const compareFull = !isCompared && compareIds.length >= MAX_COMPARE;
+        return (
+          <div key={scenario.id} className={`group/scn flex items-center gap-1.5 pl-1.5 pr-1 py-1 rounded-lg border transition-colors ${isActive ? 'bg-blue-950/40 border-blue-500/50' : 'bg-slate-900 border-slate-800 hover:border-slate-600'}`}>
+            <input type="checkbox" checked={isCompared} disabled={compareFull} onChange={() => onToggleCompare(scenario.id)} title={compareFull ? `Compare up to ${MAX_COMPARE}` : 'Include in comparison'}
+              className="w-2.5 h-2.5 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-0 cursor-pointer disabled:opacity-30" />
+            {editingId === scenario.id ? (
+              <input type="text" autoFocus defaultValue={scenario.name}
+                onBlur={(e) => { onRename(scenario.id, e.target.value.trim() || scenario.name); setEditingId(null); }}
+                onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setEditingId(null); }}
+                className="bg-transparent border-b border-blue-500 text-slate-200 text-[11px] font-medium outline-none w-[120px]" />
+            ) : (
+              <button onClick={() => onSwitch(scenario.id)} onDoubleClick={() => setEditingId(scenario.id)} title="Click to switch, double-click to rename"
+                className={`text-[11px] font-medium whitespace-nowrap ${isActive ? 'text-blue-300' : 'text-slate-400 hover:text-white'}`}>
+                {scenario.name}
+              </button>
+            )}
+            {scenario.id === rigId && (
+              <span className="text-[7px] font-black uppercase tracking-widest text-emerald-400" title="The real rig. The journal records its plans.">Rig</span>
+            )}
+            {scenarios.length > 1 && (
+              <button onClick={() => onDelete(scenario.id)} className="text-slate-500 hover:text-red-400 opacity-0 group-hover/scn:opacity-60 hover:!opacity-100 transition-all" title="Delete scenario">
+                <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-2.5 h-2.5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+              </button>
+            )}
+          </div>
+        );
+      })}
+      <button onClick={onClone} className="px-2 py-1 border border-dashed border-slate-700 rounded-lg hover:bg-slate-800 text-slate-500 text-[8px] font-black uppercase tracking-widest transition-all" title="Copy the active scenario">
+        + Clone
+      </button>
+    </div>
+  );
+};
+
+export default ScenarioBar;
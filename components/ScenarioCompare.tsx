@@ -0,0 +1,92 @@
+import React, { useMemo } from 'react';
+import { Scenario } from '../types';
+import { summariseScenario, ScenarioSummary } from '../services/scenarios';
+
+interface ScenarioCompareProps {
+  scenarios: Scenario[]; // First column is the baseline for deltas
+}
+
+interface CompareRow {
+  label: string;
+  unit: string;
+  value: (s: ScenarioSummary) => number;
+  higherIsBetter: boolean;
+  digits?: number;
+}
+
+const ROWS: CompareRow[] = [
+  { label: 'Daily In', unit: 'Wh', value: s => s.totals.dailyWhGenerated, higherIsBetter: true },
+  { label: 'Daily Out', unit: 'Wh', value: s => s.totals.dailyWhConsumed, higherIsBetter: false },
+  { label: 'Net', unit: 'Wh', value: s => s.totals.netWh, higherIsBetter: true },
+  { label: 'Usable', unit: 'Wh', value: s => s.totals.usableWh, higherIsBetter: true },
+  { label: 'Final SoC', unit: '%', value: s => s.finalSoC, higherIsBetter: true },
+  { label: 'Low SoC', unit: '%', value: s => s.minSoC, higherIsBetter: true },
+  { label: 'Realistic', unit: 'd', value: s => s.autonomy.current, higherIsBetter: true, digits: 1 },
+  { label: 'Cloud', unit: 'd', value: s => s.autonomy.cloud, higherIsBetter: true, digits: 1 },
+  { label: '0%', unit: 'd', value: s => s.autonomy.zero, higherIsBetter: true, digits: 1 }
+];
+
+// Autonomy beyond a month reads as "never flat", same as the Battery Life card
+const formatValue = (v: number, unit: string, digits = 0) => {
+  if (unit === 'd' && (!isFinite(v) || v > 30)) return '∞';
+  return `${v.toFixed(digits)}${unit === 'Wh' ? '' : unit === '%' ? '%' : ' d'}`;
+};
+
+const ScenarioCompare: React.FC<ScenarioCompareProps> = ({ scenarios }) => {
+  const summaries = useMemo(() => scenarios.map(summariseScenario), [scenarios]);
+  if (scenarios.length < 2) {
+    return <div className="text-[10px] text-slate-500 italic px-1">Tick 2–4 scenarios to compare them side by side.</div>;
+  }
+
+  const locations = new Set(scenarios.map(s => s.battery.forecast?.name || s.battery.location));
+
+  return (
+    <div className="overflow-x-auto bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5">
+      <table className="w-full text-left text-[11px] text-slate-300 border-collapse">
+        <thead className="bg-slate-950 text-[8px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+          <tr>
+            <th className="px-2 py-2 w-[90px]"></th>
+            {scenarios.map((s, i) => (
+              <th key={s.id} className="px-2 py-2 text-right whitespace-nowrap">
+                {s.name}
+                {i === 0 && <span className="ml-1 text-blue-400">base</span>}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800/50 font-mono">
+          {ROWS.map(row => {
+            const base = row.value(summaries[0]);
+            return (
+              <tr key={row.label}>
+                <td className="px-2 py-1 font-sans text-[8px] uppercase font-black tracking-widest text-slate-500 whitespace-nowrap">{row.label}{row.unit === 'Wh' ? ' Wh' : ''}</td>
+                {summaries.map((summary, i) => {
+                  const v = row.value(summary);
+                  const bothFinite = isFinite(v) && isFinite(base);
+                  const delta = bothFinite ? v - base : 0;
+                  const changed = i > 0 && (bothFinite ? Math.abs(delta) >= (row.digits ? 0.05 : 0.5) : isFinite(v) !== isFinite(base));
+                  const better = bothFinite ? (delta > 0) === row.higherIsBetter : !isFinite(v);
+                  return (
+                    <td key={scenarios[i].id} className={`px-2 py-1 text-right whitespace-nowrap ${changed ? (better ? 'bg-emerald-500/10' : 'bg-rose-500/10') : ''}`}>
+                      <span className="text-slate-200 font-bold">{formatValue(v, row.unit, row.digits)}</span>
+                      {changed && bothFinite && (
+                        <span className={`ml-1 text-[9px] ${better ? 'text-emerald-400' : 'text-rose-400'}`}>
+                          {delta > 0 ? '+' : ''}{delta.toFixed(row.digits || 0)}
+                        </span>
+                      )}
+                    </td>
+                  );
+                })}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      {locations.size > 1 && (
+        <div className="px-2 py-1 text-[9px] text-amber-400/80 border-t border-slate-800">Scenarios use different locations/forecasts: {Array.from(locations).filter(Boolean).join(' · ')}</div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioCompare;
@@ -0,0 +1,44 @@
+import React, { useState, useEffect } from 'react';
+import { UsageSchedule } from '../types';
+import { parseScheduleWindows, formatScheduleWindows } from '../services/schedule';
+
+interface ScheduleInputProps {
+  schedule?: UsageSchedule;
+  onChange: (schedule: UsageSchedule | undefined) => void;
+  placeholder?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Edits time windows as text ("18-22, 6-7"). Commits on blur/Enter so partial input isn't reformatted.
+ */
+const ScheduleInput: React.FC<ScheduleInputProps> = ({ schedule, onChange, placeholder = 'all day', disabled = false }) => {
+  const [localStr, setLocalStr] = useState(formatScheduleWindows(schedule));
+
+  useEffect(() => {
+    setLocalStr(formatScheduleWindows(schedule));
+  }, [schedule]);
+
+  const commit = () => {
+    const windows = parseScheduleWindows(localStr);
+    const next = windows ? { ...schedule, windows } : (schedule?.hourly ? { hourly: schedule.hourly } : undefined);
+    onChange(next);
+    setLocalStr(formatScheduleWindows(next));
+  };
+
+  return (
+    <input
+      type="text"
+      value={localStr}
+      disabled={disabled}
+      placeholder={schedule?.hourly ? 'profile' : placeholder}
+      title="Hours of day, e.g. 18-22, 6-7"
+      onChange={(e) => setLocalStr(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+      className={`bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-300 font-mono text-[10px] outline-none placeholder-slate-700 ${disabled ? 'opacity-30' : ''}`}
+    />
+  );
+};
+
+export default ScheduleInput;
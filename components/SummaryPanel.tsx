@@ -1,7 +1,10 @@
 
 import React from 'react';
-import { PowerItem, SystemTotals, BatteryConfig, ChargingSource } from '../types';
-import { calculateAutonomy } from '../services/powerLogic';
+import { PowerItem, SystemTotals, BatteryConfig, ChargingSource, DaySimulation, MultiDaySimulation, PeakReport, LiveStatus, LiveReading } from '../types';
+import { calculateAutonomy, getAutonomyForecast, isAutoStart } from '../services/powerLogic';
+import { getPlannedAt } from '../services/liveData';
+import { formatPeakWindow } from '../services/peakAnalysis';
+import { STATUS_STYLES } from './LiveConnection';
 
 interface SummaryPanelProps {
   items: PowerItem[];
@@ -9,21 +12,58 @@ interface SummaryPanelProps {
   systemVoltage: number;
   battery: BatteryConfig;
   charging: ChargingSource[];
+  simulation: DaySimulation;
+  multiDay?: MultiDaySimulation;
+  peak?: PeakReport;
+  live?: { status: LiveStatus; reading: LiveReading | null; syncSoC: boolean };
 }
 
-const SummaryPanel: React.FC<SummaryPanelProps> = ({ totals, systemVoltage, items, battery, charging }) => {
-  const socColor = totals.finalSoC > 50 ? 'text-emerald-400' : totals.finalSoC > 20 ? 'text-amber-400' : 'text-red-400';
+const formatHour = (hour: number) => {
+  const h = Math.floor(hour) % 24;
+  const m = Math.round((hour - Math.floor(hour)) * 60);
+  return `${h.toString().padStart(2, '0')}:${m.toString().padStart(2, '0')}`;
+};
+
+const SocSparkline: React.FC<{ simulation: DaySimulation }> = ({ simulation }) => {
+  const pts = [{ hour: 0, soc: simulation.startSoC }, ...simulation.points];
+  const path = pts.map(p => `${(p.hour / 24) * 100},${100 - p.soc}`).join(' ');
+  return (
+    <svg viewBox="0 0 100 100" preserveAspectRatio="none" className="w-full h-6">
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth={3} vectorEffect="non-scaling-stroke" className="text-blue-400" />
+      <circle cx={(simulation.minSoCHour / 24) * 100} cy={100 - simulation.minSoC} r={4} className="fill-rose-400" />
+    </svg>
+  );
+};
+
+// Measured against planned at the same clock time. Power compares the recent mean, not the last snapshot.
+const LiveRow: React.FC<{ label: string; measured?: number; planned?: number; unit: string; digits?: number }> = ({ label, measured, planned, unit, digits = 0 }) => {
+  const diffPct = measured !== undefined && planned !== undefined && planned > 1 ? ((measured - planned) / planned) * 100 : null;
+  return (
+    <div className="flex justify-between items-baseline gap-2">
+      <span className="text-[7px] text-slate-600 uppercase font-black tracking-widest">{label}</span>
+      <span className="font-mono font-black text-[10px] text-slate-200 whitespace-nowrap">
+        {measured === undefined ? '—' : `${measured.toFixed(digits)}${unit}`}
+        {planned !== undefined && <span className="text-slate-600"> / {planned.toFixed(digits)}</span>}
+        {diffPct !== null && Math.abs(diffPct) >= 10 && <span className={`ml-1 text-[8px] ${diffPct > 0 ? 'text-amber-400' : 'text-cyan-400'}`}>{diffPct > 0 ? '+' : ''}{diffPct.toFixed(0)}%</span>}
+      </span>
+    </div>
+  );
+};
+
+const SummaryPanel: React.FC<SummaryPanelProps> = ({ totals, systemVoltage, items, battery, charging, simulation, multiDay, peak, live }) => {
+  const finalSoC = simulation.finalSoC;
+  const socColor = finalSoC > 50 ? 'text-emerald-400' : finalSoC > 20 ? 'text-amber-400' : 'text-red-400';
+  const extraBanks = (totals.banks || []).slice(1);
+  const house = totals.banks?.[0] || totals;
+  const autoSources = charging.filter(c => c.enabled !== false && isAutoStart(c));
+  const lowColor = simulation.minSoC > 50 ? 'text-emerald-400' : simulation.minSoC > 20 ? 'text-amber-400' : 'text-rose-400';
 
   const renderAutonomyRow = (label: string, scenario: 'current' | 'peak' | 'cloud' | 'zero', icon: React.ReactNode) => {
     // Projections use forecast PSH if available (mapped to specific scenarios)
-    const forecast = battery.forecast ? { 
-      sunny: battery.forecast.sunnyHours, 
-      cloudy: battery.forecast.cloudyHours,
-      now: battery.forecast.nowHours
-    } : undefined;
-
-    // Pass totals.finalSoC to ensure autonomy is calculated from the CURRENT state, not the start of the day.
-    const { days, hours } = calculateAutonomy(items, charging, battery, scenario, forecast, totals.finalSoC);
+    const forecast = getAutonomyForecast(battery);
+
+    // Pass the simulated final SoC to ensure autonomy is calculated from the CURRENT state, not the start of the day.
+    const { days, hours } = calculateAutonomy(items, charging, battery, scenario, forecast, finalSoC);
     
     let text = "";
     let textColor = "text-slate-400";
@@ -56,38 +96,97 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ totals, systemVoltage, item
     );
   };
 
+  const liveAt = live?.reading ? new Date(live.reading.updatedAt) : null;
+  const planned = liveAt ? getPlannedAt(simulation, liveAt.getHours() + liveAt.getMinutes() / 60) : null;
+
   return (
     <div className="flex flex-col items-center gap-4 w-full text-center py-1 px-1">
+      {/* Live Card */}
+      {live && live.status !== 'off' && (
+        <div className="w-full bg-slate-950 p-3 rounded-xl border border-slate-800 shadow-2xl flex flex-col items-center relative overflow-hidden">
+          <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-emerald-500/20 to-transparent"></div>
+          <h3 className="app-header-font text-[9px] text-slate-600 mb-2 uppercase tracking-wider flex items-center gap-1.5">
+            <span className={`w-1.5 h-1.5 rounded-full ${STATUS_STYLES[live.status].dot}`}></span>Live vs Plan
+          </h3>
+          {live.reading && planned ? (
+            <div className="flex flex-col gap-1 w-full max-w-[140px]">
+              <LiveRow label="SoC" measured={live.reading.socPct} planned={live.syncSoC ? undefined : planned.socPct} unit="%" />
+              <LiveRow label="Load" measured={live.reading.loadAvgW} planned={planned.loadW} unit="W" />
+              <LiveRow label="Gen" measured={live.reading.pvAvgW} planned={planned.genW} unit="W" />
+              {live.reading.tempC !== undefined && <LiveRow label="Temp" measured={live.reading.tempC} unit="°C" digits={1} />}
+              <span className="text-[7px] text-slate-600 font-mono mt-0.5">{liveAt!.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}</span>
+            </div>
+          ) : (
+            <span className="text-[8px] text-slate-500 italic">Waiting for readings…</span>
+          )}
+        </div>
+      )}
+
       {/* Battery SoC Card */}
       <div className="w-full bg-slate-950 p-3 rounded-xl border border-slate-800 shadow-2xl flex flex-col items-center relative overflow-hidden group">
         <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-blue-500/20 to-transparent"></div>
-        <h3 className="app-header-font text-[9px] text-slate-600 mb-1.5 uppercase tracking-wider">24H SOC</h3>
+        <h3 className="app-header-font text-[9px] text-slate-600 mb-1.5 uppercase tracking-wider">24H SOC{extraBanks.length > 0 && ` · ${totals.banks![0].name}`}</h3>
         
         <div className={`app-header-font text-3xl mb-2 drop-shadow-lg transition-all duration-500 ${socColor}`}>
-          {totals.finalSoC.toFixed(0)}%
+          {finalSoC.toFixed(0)}%
         </div>
 
-        <div className="w-full bg-slate-800 h-1 rounded-full overflow-hidden mb-3 border border-slate-700/50 shadow-inner max-w-[100px]">
+        <div className="w-full bg-slate-800 h-1 rounded-full overflow-hidden mb-2 border border-slate-700/50 shadow-inner max-w-[100px]">
           <div 
-            className={`h-full transition-all duration-1000 relative ${totals.finalSoC > 50 ? 'bg-emerald-500' : 'bg-amber-500'}`} 
-            style={{ width: `${totals.finalSoC}%` }}
+            className={`h-full transition-all duration-1000 relative ${finalSoC > 50 ? 'bg-emerald-500' : 'bg-amber-500'}`} 
+            style={{ width: `${finalSoC}%` }}
           >
             <div className="absolute inset-0 bg-gradient-to-t from-white/10 to-transparent"></div>
           </div>
         </div>
 
+        <div className="w-full max-w-[120px] mb-1">
+          <SocSparkline simulation={simulation} />
+        </div>
+        <div className="flex flex-col items-center mb-3 leading-tight">
+          <span className="text-[6px] text-slate-600 uppercase font-black tracking-widest">Low @ {formatHour(simulation.minSoCHour)}</span>
+          <span className={`font-mono font-black text-[11px] ${lowColor}`}>{simulation.minSoC.toFixed(0)}%</span>
+          <span className="text-[7px] text-slate-500 font-mono mt-0.5" title="Energy between the chemistry's SoC floor and full">{(house.usableWh / 1000).toFixed(1)} kWh usable · floor {house.socFloor.toFixed(0)}%</span>
+          {simulation.clippedWh > 1 && (
+            <span className="text-[7px] text-slate-500 font-mono mt-0.5" title="Surplus generated while the battery was full">{simulation.clippedWh.toFixed(0)} Wh wasted</span>
+          )}
+          {autoSources.map(source => (
+            <span key={source.id} className="text-[7px] text-amber-400/90 font-mono mt-0.5"
+              title={`Steady state to cover the daily deficit. Today's run from ${simulation.startSoC.toFixed(0)}%: ${(simulation.autoRunHours[source.id] || 0).toFixed(1)} h`}>
+              {source.name} needed {(totals.autoStartHours?.[source.id] || 0).toFixed(1)} h/day
+            </span>
+          ))}
+        </div>
+
         <div className="flex flex-col gap-1.5 w-full max-w-[90px]">
           <div className="bg-slate-900 p-1 rounded-lg border border-slate-800 shadow-md flex flex-col items-center group/box hover:border-cyan-500/30 transition-colors">
              <span className="text-[6px] text-slate-600 uppercase font-black mb-0.5 tracking-widest leading-none">Input</span>
-             <span className="font-mono text-cyan-400 font-black text-[9px] tracking-tight">+{totals.dailyAhGenerated.toFixed(0)}Ah</span>
+             <span className="font-mono text-cyan-400 font-black text-[9px] tracking-tight">+{house.dailyAhGenerated.toFixed(0)}Ah</span>
           </div>
           <div className="bg-slate-900 p-1 rounded-lg border border-slate-800 shadow-md flex flex-col items-center group/box hover:border-rose-500/30 transition-colors">
              <span className="text-[6px] text-slate-600 uppercase font-black mb-0.5 tracking-widest leading-none">Output</span>
-             <span className="font-mono text-rose-400 font-black text-[9px] tracking-tight">-{totals.dailyAhConsumed.toFixed(0)}Ah</span>
+             <span className="font-mono text-rose-400 font-black text-[9px] tracking-tight">-{house.dailyAhConsumed.toFixed(0)}Ah</span>
           </div>
         </div>
       </div>
 
+      {/* Additional Bank Cards */}
+      {extraBanks.map(bank => {
+        const bankColor = bank.finalSoC > 50 ? 'text-emerald-400' : bank.finalSoC > 20 ? 'text-amber-400' : 'text-red-400';
+        return (
+          <div key={bank.bankId} className="w-full bg-slate-950 p-3 rounded-xl border border-slate-800 shadow-2xl flex flex-col items-center relative overflow-hidden">
+            <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-blue-500/20 to-transparent"></div>
+            <h3 className="app-header-font text-[9px] text-slate-600 mb-1 uppercase tracking-wider truncate max-w-full">{bank.name}</h3>
+            <div className={`app-header-font text-xl mb-1 ${bankColor}`}>{bank.finalSoC.toFixed(0)}%</div>
+            <div className="text-[7px] text-slate-500 font-mono mb-1">{bank.voltage.toFixed(1)}V · {bank.capacityAh.toFixed(0)}Ah</div>
+            <div className="flex gap-2 font-mono text-[9px] font-black">
+              <span className="text-cyan-400">+{bank.dailyAhGenerated.toFixed(0)}Ah</span>
+              <span className="text-rose-400">-{bank.dailyAhConsumed.toFixed(0)}Ah</span>
+            </div>
+          </div>
+        );
+      })}
+
       {/* Battery Life Card */}
       <div className="w-full bg-slate-950 p-4 rounded-xl border border-slate-800 shadow-2xl flex flex-col items-center relative overflow-hidden">
         <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-emerald-500/20 to-transparent"></div>
@@ -102,7 +201,94 @@ const SummaryPanel: React.FC<SummaryPanelProps> = ({ totals, systemVoltage, item
           {renderAutonomyRow("Cloud", "cloud", "⛅")}
           {renderAutonomyRow("0%", "zero", "🌑")}
         </div>
+
+        {battery.forecastMode !== 'now' && battery.forecast?.p10Hours !== undefined && (
+          <div className="w-full max-w-[160px] mt-3 pt-2 border-t border-slate-800/60 font-mono text-[8px] text-slate-500 flex justify-between"
+            title={`Daily PSH percentiles pooled over ${battery.forecast.climatologyYears || 0} years; longest run below half the mean PSH`}>
+            <span>P10 <span className="text-slate-300 font-bold">{battery.forecast.p10Hours.toFixed(1)}</span></span>
+            <span>P50 <span className="text-slate-300 font-bold">{(battery.forecast.p50Hours || 0).toFixed(1)}</span></span>
+            <span>P90 <span className="text-slate-300 font-bold">{(battery.forecast.p90Hours || 0).toFixed(1)}</span></span>
+            <span className="text-amber-400/80">{battery.forecast.longestLowRun || 0}d low</span>
+          </div>
+        )}
       </div>
+
+      {/* Weather Run Card */}
+      {multiDay && multiDay.days.length > 0 && (
+        <div className="w-full bg-slate-950 p-3 rounded-xl border border-slate-800 shadow-2xl flex flex-col items-center relative overflow-hidden">
+          <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-cyan-500/20 to-transparent"></div>
+          <h3 className="app-header-font text-[9px] text-slate-600 mb-2 uppercase tracking-wider">{multiDay.days.length}-Day Run</h3>
+
+          <div className="flex items-end gap-[2px] h-10 w-full max-w-[140px] mb-2">
+            {multiDay.days.map(d => (
+              <div key={d.day} className="flex-1 h-full flex flex-col justify-end" title={`Day ${d.day}: ${d.psh.toFixed(1)} PSH, low ${d.minSoC.toFixed(0)}%, end ${d.endSoC.toFixed(0)}%${d.autoRunHours > 0 ? `, auto-start ${d.autoRunHours.toFixed(1)} h` : ''}`}>
+                <div
+                  className={`w-full rounded-t-sm ${d.unmetWh > 0 ? 'bg-rose-500' : d.clippedWh > 0 ? 'bg-emerald-500' : d.minSoC > 20 ? 'bg-blue-500' : 'bg-amber-500'}`}
+                  style={{ height: `${Math.max(d.minSoC, 2)}%` }}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-col gap-1 w-full max-w-[120px]">
+            <div className="flex justify-between items-baseline">
+              <span className="text-[7px] text-slate-600 uppercase font-black tracking-widest">Flat</span>
+              <span className={`font-mono font-black text-[10px] ${multiDay.firstFlatDay ? 'text-rose-400' : 'text-emerald-400'}`}>
+                {multiDay.firstFlatDay ? `Day ${multiDay.firstFlatDay}` : 'Never'}
+              </span>
+            </div>
+            <div className="flex justify-between items-baseline">
+              <span className="text-[7px] text-slate-600 uppercase font-black tracking-widest">Low</span>
+              <span className="font-mono font-black text-[10px] text-slate-300">{multiDay.minSoC.toFixed(0)}%</span>
+            </div>
+            <div className="flex justify-between items-baseline" title={`${(multiDay.wastedWh / 1000).toFixed(1)} kWh surplus wasted`}>
+              <span className="text-[7px] text-slate-600 uppercase font-black tracking-widest">At Full</span>
+              <span className="font-mono font-black text-[10px] text-cyan-400">{multiDay.daysAtFull} d</span>
+            </div>
+            {autoSources.length > 0 && (
+              <div className="flex justify-between items-baseline" title={`${(multiDay.autoRunHours / multiDay.days.length).toFixed(1)} h/day on average`}>
+                <span className="text-[7px] text-slate-600 uppercase font-black tracking-widest">Auto Run</span>
+                <span className="font-mono font-black text-[10px] text-amber-400">{multiDay.autoRunHours.toFixed(1)} h</span>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Peak Load Card */}
+      {peak && (
+        <div className="w-full bg-slate-950 p-3 rounded-xl border border-slate-800 shadow-2xl flex flex-col items-center relative overflow-hidden">
+          <div className={`absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent ${peak.violations.some(v => v.severity === 'error') ? 'via-rose-500/40' : 'via-amber-500/20'} to-transparent`}></div>
+          <h3 className="app-header-font text-[9px] text-slate-600 mb-2 uppercase tracking-wider">Peak Load</h3>
+
+          <div className="flex flex-col gap-1 w-full max-w-[140px]">
+            {peak.banks.map(b => (
+              <div key={b.bankId} className="flex justify-between items-baseline" title={`${b.continuousW.toFixed(0)}W continuous (${formatPeakWindow(b.continuousWindow)}) / ${b.surgeW.toFixed(0)}W surge (${formatPeakWindow(b.surgeWindow)})`}>
+                <span className="text-[7px] text-slate-600 uppercase font-black tracking-widest truncate max-w-[60px]">{b.name}</span>
+                <span className="font-mono font-black text-[10px] text-slate-300">
+                  {b.continuousA.toFixed(0)}A <span className="text-slate-600">/ {b.surgeA.toFixed(0)}A</span>
+                </span>
+              </div>
+            ))}
+            {peak.inverters.map(inv => (
+              <div key={inv.inverterId} className="flex justify-between items-baseline" title={`${inv.continuousW.toFixed(0)}W continuous (${formatPeakWindow(inv.continuousWindow)}) / ${inv.surgeW.toFixed(0)}W surge (${formatPeakWindow(inv.surgeWindow)})`}>
+                <span className="text-[7px] text-slate-600 uppercase font-black tracking-widest truncate max-w-[60px]">{inv.name}</span>
+                <span className="font-mono font-black text-[10px] text-cyan-400">
+                  {inv.continuousW.toFixed(0)}W <span className="text-slate-600">/ {inv.surgeW.toFixed(0)}W</span>
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {peak.violations.length > 0 && (
+            <div className="flex flex-col gap-0.5 w-full mt-2 pt-2 border-t border-slate-800">
+              {peak.violations.map((v, i) => (
+                <div key={i} className={`text-[8px] font-bold leading-tight ${v.severity === 'error' ? 'text-rose-400' : 'text-amber-400'}`}>⚡ {v.message}</div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,188 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { PowerItem, BatteryConfig, SystemTotals, DaySimulation, TelemetryImport, CalibrationSuggestion } from '../types';
+import { importTelemetry } from '../services/telemetry';
+import { calibrate } from '../services/calibration';
+
+interface TelemetryViewProps {
+  items: PowerItem[];
+  battery: BatteryConfig;
+  totals: SystemTotals;
+  simulation: DaySimulation;
+  telemetry?: TelemetryImport;
+  onImport: (telemetry: TelemetryImport | undefined) => void;
+  onApplySuggestion: (suggestion: CalibrationSuggestion) => void;
+}
+
+const FORMAT_LABELS: Record<TelemetryImport['format'], string> = {
+  vrm: 'Victron VRM',
+  smartshunt: 'SmartShunt history',
+  generic: 'Timestamped CSV'
+};
+
+const CHART_DAYS = 14;
+
+const formatWh = (wh: number | null | undefined) => wh === null || wh === undefined ? '—' : `${wh.toFixed(0)}`;
+
+/**
+ * SoC across the day: the model's simulated day against each logged day.
+ */
+const SocChart: React.FC<{ telemetry: TelemetryImport; simulation: DaySimulation }> = ({ telemetry, simulation }) => {
+  const x = (hour: number) => (hour / 24) * 240;
+  const y = (soc: number) => 60 - (Math.min(100, Math.max(0, soc)) / 100) * 60;
+  const days = telemetry.days.filter(d => d.hours?.some(h => h.soc !== undefined)).slice(-CHART_DAYS);
+  const model = [`${x(0)},${y(simulation.startSoC)}`, ...simulation.points.map(p => `${x(p.hour)},${y(p.soc)}`)].join(' ');
+  return (
+    <svg viewBox="0 0 240 60" preserveAspectRatio="none" className="w-full h-20 bg-slate-950/60 rounded border border-slate-800">
+      {[25, 50, 75].map(v => <line key={v} x1={0} x2={240} y1={y(v)} y2={y(v)} stroke="#1e293b" strokeWidth={0.5} />)}
+      {days.map(day => (
+        <polyline key={day.date} fill="none" stroke="#34d399" strokeOpacity={0.35} strokeWidth={0.8} vectorEffect="non-scaling-stroke"
+          points={day.hours!.map((h, i) => h.soc !== undefined ? `${x(i + 0.5)},${y(h.soc)}` : null).filter(Boolean).join(' ')} />
+      ))}
+      <polyline fill="none" stroke="#60a5fa" strokeWidth={1.5} vectorEffect="non-scaling-stroke" points={model} />
+    </svg>
+  );
+};
+
+/**
+ * Measured shunt/BMS data next to the model, and per-category corrections fitted from it.
+ */
+const TelemetryView: React.FC<TelemetryViewProps> = ({ items, battery, totals, simulation, telemetry, onImport, onApplySuggestion }) => {
+  const fileRef = useRef<HTMLInputElement>(null);
+  const [invertCurrent, setInvertCurrent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const report = useMemo(() => telemetry ? calibrate(telemetry, items, battery) : null, [telemetry, items, battery]);
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      try {
+        onImport(importTelemetry(event.target?.result as string, file.name, { nominalVoltage: Number(battery.voltage) || 24, invertCurrent }));
+        setError(null);
+      } catch (err: any) {
+        setError(err.message || 'Import failed.');
+      }
+    };
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const allSuggestions = report?.categories.flatMap(c => c.suggestions) || [];
+  const first = telemetry?.days[0]?.date;
+  const last = telemetry?.days[telemetry.days.length - 1]?.date;
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5 p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[10px]">
+        <button onClick={() => fileRef.current?.click()} className="px-2 py-1 rounded bg-slate-800 hover:bg-slate-700 text-slate-300 hover:text-white text-[8px] font-black uppercase tracking-widest transition-colors border border-slate-700">
+          Load CSV
+        </button>
+        <input type="file" ref={fileRef} accept=".csv,.txt" onChange={handleFile} className="hidden" />
+        <label className="flex items-center gap-1.5 cursor-pointer" title="Tick if the log shows discharge as positive current (many Daly/JK exports)">
+          <input type="checkbox" checked={invertCurrent} onChange={(e) => setInvertCurrent(e.target.checked)} className="w-3 h-3 rounded bg-slate-800 border-slate-700 text-blue-600 focus:ring-blue-500/20" />
+          <span className="text-[7px] text-slate-400 uppercase font-black tracking-widest">Discharge +</span>
+        </label>
+        {telemetry && (
+          <>
+            <span className="text-slate-300 font-mono truncate max-w-[200px]" title={telemetry.fileName}>{telemetry.fileName}</span>
+            <span className="text-slate-500">{FORMAT_LABELS[telemetry.format]} · {telemetry.days.length} days · {first} → {last}</span>
+            <button onClick={() => onImport(undefined)} className="ml-auto text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-red-400 transition-colors">Clear</button>
+          </>
+        )}
+        {!telemetry && <span className="text-slate-500 italic">Victron VRM / SmartShunt history, or any CSV with a timestamp plus voltage, current and SoC (JK, Daly). The file never leaves this device.</span>}
+      </div>
+      {error && <div className="text-[10px] text-red-400">{error}</div>}
+
+      {telemetry && report && (
+        <>
+          <table className="w-full text-left text-[10px] text-slate-300 border-collapse">
+            <thead className="text-[7px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+              <tr>
+                <th className="px-1 py-1">Wh / day</th>
+                <th className="px-1 py-1 text-right">Consumed</th>
+                <th className="px-1 py-1 text-right">Generated</th>
+                <th className="px-1 py-1 text-right" title="Into / out of the battery">Batt In / Out</th>
+                <th className="px-1 py-1 text-right">Net</th>
+              </tr>
+            </thead>
+            <tbody className="font-mono divide-y divide-slate-800/50">
+              <tr>
+                <td className="px-1 py-0.5 font-sans text-slate-400">Model</td>
+                <td className="px-1 py-0.5 text-right text-rose-400">{formatWh(totals.dailyWhConsumed)}</td>
+                <td className="px-1 py-0.5 text-right text-emerald-400">{formatWh(totals.dailyWhGenerated)}</td>
+                <td className="px-1 py-0.5 text-right text-slate-500">—</td>
+                <td className={`px-1 py-0.5 text-right font-bold ${totals.netWh >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatWh(totals.netWh)}</td>
+              </tr>
+              <tr>
+                <td className="px-1 py-0.5 font-sans text-slate-400">Measured</td>
+                <td className="px-1 py-0.5 text-right text-rose-400" title={report.measuredConsumedWh === null ? 'Nothing in the log isolates the loads' : `Fitted from ${report.observedHours} observable clock hours`}>{formatWh(report.measuredConsumedWh)}</td>
+                <td className="px-1 py-0.5 text-right text-emerald-400">{formatWh(report.measuredPvWh)}</td>
+                <td className="px-1 py-0.5 text-right text-cyan-400">{formatWh(report.measuredInWh)} / {formatWh(report.measuredOutWh)}</td>
+                <td className={`px-1 py-0.5 text-right font-bold ${report.measuredInWh - report.measuredOutWh >= 0 ? 'text-emerald-400' : 'text-rose-400'}`}>{formatWh(report.measuredInWh - report.measuredOutWh)}</td>
+              </tr>
+            </tbody>
+          </table>
+
+          {report.days > 0 && (
+            <div className="space-y-1">
+              <div className="flex items-center gap-3 text-[7px] uppercase font-black tracking-widest">
+                <span className="text-slate-500">SoC</span>
+                <span className="text-blue-400">Model</span>
+                <span className="text-emerald-400">Logged (last {Math.min(CHART_DAYS, report.days)} days)</span>
+              </div>
+              <SocChart telemetry={telemetry} simulation={simulation} />
+            </div>
+          )}
+
+          {report.unavailable ? (
+            <div className="text-[9px] text-slate-500 italic">{report.unavailable}</div>
+          ) : (
+            <table className="w-full text-left text-[10px] text-slate-300 border-collapse">
+              <thead className="text-[7px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+                <tr>
+                  <th className="px-1 py-1">Category</th>
+                  <th className="px-1 py-1 text-right">Model Wh</th>
+                  <th className="px-1 py-1 text-right">Fitted Wh</th>
+                  <th className="px-1 py-1 text-right">Factor</th>
+                  <th className="px-1 py-1 text-right" title="Share of the category's modelled energy in hours the log can see">Evidence</th>
+                  <th className="px-1 py-1">Suggested</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800/50">
+                {report.categories.map(c => (
+                  <tr key={c.category} className="align-top">
+                    <td className="px-1 py-0.5 text-slate-200 whitespace-nowrap">{c.category.split(' ')[0]}</td>
+                    <td className="px-1 py-0.5 text-right font-mono">{c.modelledWh.toFixed(0)}</td>
+                    <td className="px-1 py-0.5 text-right font-mono text-cyan-400">{c.measuredWh.toFixed(0)}</td>
+                    <td className={`px-1 py-0.5 text-right font-mono font-bold ${Math.abs(c.factor - 1) >= 0.1 ? 'text-amber-400' : 'text-slate-400'}`}>×{c.factor.toFixed(2)}</td>
+                    <td className={`px-1 py-0.5 text-right font-mono ${c.evidencePct < 10 ? 'text-rose-400' : 'text-slate-400'}`}>{c.evidencePct.toFixed(0)}%</td>
+                    <td className="px-1 py-0.5">
+                      <div className="flex flex-wrap gap-x-3 gap-y-0.5">
+                        {c.suggestions.map(s => (
+                          <button key={s.itemId} onClick={() => onApplySuggestion(s)} title="Apply to the row"
+                            className="font-mono text-[9px] text-slate-400 hover:text-white transition-colors">
+                            {s.name}: {s.field === 'hours' ? `${s.current}h → ${s.suggested}h` : `${s.current}% → ${s.suggested}%`}
+                          </button>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {allSuggestions.length > 1 && (
+            <div className="flex justify-end">
+              <button onClick={() => allSuggestions.forEach(onApplySuggestion)} className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white text-[8px] font-black uppercase tracking-widest transition-colors">
+                Apply all
+              </button>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TelemetryView;
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { PowerItem, ChargingSource, BatteryConfig, UpgradeCandidate, UpgradeOption, UpgradePick, AutonomyTarget, UpgradeKind } from '../types';
+import { MONTH_LABELS } from '../constants';
+import { fetchMonthAvgSolarPSH } from '../services/weatherService';
+import { findUpgrades, describeUpgrade, getInvalidCandidates } from '../services/optimiser';
+import { getSimulationDate } from '../services/powerLogic';
+import NumberInput from './NumberInput';
+
+interface UpgradeOptimiserProps {
+  items: PowerItem[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+  catalogue: UpgradeCandidate[];
+  onCatalogueChange: (catalogue: UpgradeCandidate[]) => void;
+  onApply: (picks: UpgradePick[]) => void;
+  onApplyAsScenario: (picks: UpgradePick[], name: string) => void;
+}
+
+const KIND_LABELS: Record<UpgradeKind, string> = { solar: 'Solar', battery: 'Battery', dcdc: 'DC-DC' };
+
+const formatDays = (days: number) => (!isFinite(days) || days > 30) ? '∞' : `${days.toFixed(1)} d`;
+
+const UpgradeOptimiser: React.FC<UpgradeOptimiserProps> = ({ items, charging, battery, catalogue, onCatalogueChange, onApply, onApplyAsScenario }) => {
+  const [target, setTarget] = useState<AutonomyTarget>(() => ({ kind: 'cloudDays', value: 3, month: getSimulationDate(battery).getMonth() }));
+  const [results, setResults] = useState<{ options: UpgradeOption[], evaluated: number, exhausted: boolean } | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const invalidIds = new Set(getInvalidCandidates(catalogue).map(c => c.id));
+
+  const lat = battery.geo?.lat ?? battery.forecast?.lat;
+  const lon = battery.geo?.lon ?? battery.forecast?.lon;
+
+  const updateCandidate = (id: string, field: keyof UpgradeCandidate, value: any) =>
+    onCatalogueChange(catalogue.map(c => c.id === id ? { ...c, [field]: value } : c));
+
+  const addCandidate = (kind: UpgradeKind) => onCatalogueChange([...catalogue, {
+    id: Math.random().toString(36).substr(2, 9), name: `New ${KIND_LABELS[kind]}`, kind, cost: 0,
+    ...(kind === 'battery' ? {} : { watts: kind === 'solar' ? 300 : 500 }), maxQty: 2
+  }]);
+
+  const runSearch = async () => {
+    if (lat === undefined || lon === undefined) return;
+    setRunning(true);
+    setError(null);
+    try {
+      const monthIso = `${new Date().getFullYear()}-${(target.month + 1).toString().padStart(2, '0')}`;
+      const climate = await fetchMonthAvgSolarPSH(lat, lon, monthIso, battery.climatologyYears || 1);
+      setResults(findUpgrades(items, charging, battery, catalogue, target, climate));
+    } catch (e: any) {
+      setError(e.message || 'Search failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const targetLabel = target.kind === 'cloudDays' ? `${target.value}d cloud, ${MONTH_LABELS[target.month]}` : `≥${target.value}% SoC, ${MONTH_LABELS[target.month]}`;
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5 p-3 space-y-3">
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-[10px]">
+        <select value={target.kind} onChange={(e) => setTarget({ ...target, kind: e.target.value as AutonomyTarget['kind'], value: e.target.value === 'cloudDays' ? 3 : 20 })}
+          className="bg-transparent border-none text-slate-200 font-mono text-[10px] focus:ring-0 font-bold outline-none p-0 cursor-pointer">
+          <option value="cloudDays" className="bg-slate-900 text-slate-200">Cloud autonomy at least</option>
+          <option value="minSoC" className="bg-slate-900 text-slate-200">SoC never below</option>
+        </select>
+        <div className="inline-flex items-center justify-end w-[46px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+          <NumberInput value={target.value} onChange={(val) => setTarget({ ...target, value: Math.max(0, target.kind === 'minSoC' ? Math.min(100, val) : val) })} step={target.kind === 'cloudDays' ? '0.5' : '5'} />
+          <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">{target.kind === 'cloudDays' ? 'D' : '%'}</span>
+        </div>
+        <label className="flex items-center gap-1.5">
+          <span className="text-[7px] text-slate-500 uppercase font-black tracking-widest">In</span>
+          <select value={target.month} onChange={(e) => setTarget({ ...target, month: Number(e.target.value) })}
+            className="bg-transparent border-none text-slate-200 font-mono text-[10px] focus:ring-0 font-bold outline-none p-0 cursor-pointer">
+            {MONTH_LABELS.map((m, i) => <option key={m} value={i} className="bg-slate-900 text-slate-200">{m}</option>)}
+          </select>
+        </label>
+        <button onClick={runSearch} disabled={running || lat === undefined || invalidIds.size > 0}
+          className="ml-auto px-3 py-1 rounded bg-blue-600/80 hover:bg-blue-500 disabled:opacity-30 text-white text-[8px] font-black uppercase tracking-widest transition-colors">
+          {running ? 'Searching…' : 'Find Upgrades'}
+        </button>
+      </div>
+
+      <table className="w-full text-left text-[10px] text-slate-300 border-collapse">
+        <thead className="text-[7px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+          <tr>
+            <th className="px-1 py-1">Candidate</th>
+            <th className="px-1 py-1 w-[50px]">Kind</th>
+            <th className="px-1 py-1 text-right w-[60px]">Cost</th>
+            <th className="px-1 py-1 text-right w-[56px]">Output</th>
+            <th className="px-1 py-1 text-right w-[40px]">Max</th>
+            <th className="w-6"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800/50">
+          {catalogue.map(c => (
+            <tr key={c.id} className="group">
+              <td className="px-1 py-0.5">
+                <input type="text" value={c.name} onChange={(e) => updateCandidate(c.id, 'name', e.target.value)} onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+                  className="bg-transparent border-b border-transparent hover:border-slate-600 focus:border-blue-500 w-full text-slate-200 text-[11px] outline-none" />
+              </td>
+              <td className="px-1 py-0.5 text-[8px] uppercase font-black tracking-widest text-slate-500">{KIND_LABELS[c.kind]}</td>
+              <td className="px-1 py-0.5 text-right">
+                <div className={`inline-flex items-center justify-end w-[54px] bg-slate-850 border ${invalidIds.has(c.id) ? 'border-rose-500' : 'border-slate-700'} rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors`}
+                  title={invalidIds.has(c.id) ? 'Cost must be zero or more' : undefined}>
+                  <span className="text-[7px] text-slate-500 font-black shrink-0">$</span>
+                  <NumberInput value={c.cost} onChange={(val) => updateCandidate(c.id, 'cost', Math.max(0, val))} />
+                </div>
+              </td>
+              <td className="px-1 py-0.5 text-right">
+                {c.kind === 'battery' ? (
+                  <span className="text-[8px] text-slate-500" title="One more parallel string of the house bank modules">+1 string</span>
+                ) : (
+                  <div className="inline-flex items-center justify-end w-[50px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                    <NumberInput value={c.watts || 0} onChange={(val) => updateCandidate(c.id, 'watts', Math.max(0, val))} />
+                    <span className="text-[7px] text-slate-500 font-black uppercase shrink-0">W</span>
+                  </div>
+                )}
+              </td>
+              <td className="px-1 py-0.5 text-right">
+                <div className="inline-flex items-center justify-end w-[32px] bg-slate-850 border border-slate-700 rounded px-1 py-0.5 focus-within:border-blue-500 transition-colors">
+                  <NumberInput value={c.maxQty} onChange={(val) => updateCandidate(c.id, 'maxQty', Math.min(8, Math.max(0, Math.round(val))))} />
+                </div>
+              </td>
+              <td className="px-1 py-0.5 text-center">
+                <button onClick={() => onCatalogueChange(catalogue.filter(x => x.id !== c.id))} className="text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-60 hover:!opacity-100 transition-all">
+                  <svg xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24" strokeWidth={2.5} stroke="currentColor" className="w-2.5 h-2.5"><path strokeLinecap="round" strokeLinejoin="round" d="M6 18 18 6M6 6l12 12" /></svg>
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+        <tfoot>
+          <tr>
+            <td colSpan={6} className="px-1 pt-1.5">
+              <div className="flex gap-1.5">
+                {(Object.keys(KIND_LABELS) as UpgradeKind[]).map(kind => (
+                  <button key={kind} onClick={() => addCandidate(kind)} className="px-2 py-0.5 border border-dashed border-slate-700 rounded hover:bg-slate-800 text-slate-500 text-[8px] font-black uppercase tracking-widest transition-all">+ {KIND_LABELS[kind]}</button>
+                ))}
+              </div>
+            </td>
+          </tr>
+        </tfoot>
+      </table>
+
+      {error && <div className="text-[10px] text-rose-400">{error}</div>}
+
+      {results && !running && (
+        <div className="space-y-1 border-t border-slate-800 pt-2">
+          {results.options.length === 0 && (
+            <div className="text-[10px] text-rose-400">
+              No combination within the catalogue limits reaches {targetLabel}{results.exhausted ? ` (stopped after ${results.evaluated} checks)` : ''}. Raise the max quantities or add bigger items.
+            </div>
+          )}
+          {results.options.map((option, rank) => (
+            <div key={rank} className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] px-1 py-1 rounded hover:bg-slate-800/40">
+              <span className="text-slate-600 font-mono font-bold w-3">{rank + 1}</span>
+              <span className="text-slate-200 font-medium flex-1 min-w-[160px]">{describeUpgrade(option.picks, catalogue)}</span>
+              <span className="font-mono font-bold text-amber-400 w-[60px] text-right">${option.cost.toFixed(0)}</span>
+              <span className="font-mono text-cyan-400 w-[50px] text-right" title="Cloud autonomy">{formatDays(option.cloudDays)}</span>
+              <span className="font-mono text-emerald-400 w-[40px] text-right" title="Lowest SoC over the archive month">{option.minSoC.toFixed(0)}%</span>
+              {option.picks.length > 0 && (
+                <div className="flex gap-1">
+                  <button onClick={() => onApply(option.picks)} className="px-2 py-0.5 rounded bg-slate-800 hover:bg-blue-600 text-slate-300 hover:text-white text-[8px] font-black uppercase tracking-widest transition-colors">Apply</button>
+                  <button onClick={() => onApplyAsScenario(option.picks, `Upgrade: ${describeUpgrade(option.picks, catalogue)}`)} className="px-2 py-0.5 rounded bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white text-[8px] font-black uppercase tracking-widest transition-colors" title="Apply to a copy of the active scenario">As Scenario</button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UpgradeOptimiser;
@@ -0,0 +1,129 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { PowerItem, ChargingSource, BatteryConfig } from '../types';
+import { MONTH_LABELS } from '../constants';
+import { fetchYearSolarPSH, MonthClimatology } from '../services/weatherService';
+import { planYear, getMonthSeason } from '../services/yearPlanner';
+import { getSiteLatitude } from '../services/powerLogic';
+
+interface YearPlannerProps {
+  items: PowerItem[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+}
+
+const formatKWh = (wh: number) => `${(wh / 1000).toFixed(2)}`;
+
+/**
+ * Month-by-month generation vs consumption from the archive climatology.
+ */
+const YearPlanner: React.FC<YearPlannerProps> = ({ items, charging, battery }) => {
+  const [open, setOpen] = useState(false);
+  const [climate, setClimate] = useState<MonthClimatology[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const lat = battery.geo?.lat ?? battery.forecast?.lat;
+  const lon = battery.geo?.lon ?? battery.forecast?.lon;
+  const years = battery.climatologyYears || 1;
+
+  useEffect(() => {
+    if (!open || lat === undefined || lon === undefined) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchYearSolarPSH(lat, lon, years)
+      .then(result => { if (!cancelled) setClimate(result); })
+      .catch((e: any) => { if (!cancelled) setError(e.message || 'Archive fetch failed'); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [open, lat, lon, years]);
+
+  const plan = useMemo(() => climate ? planYear(items, charging, battery, climate) : null, [items, charging, battery, climate]);
+  const maxWh = plan ? Math.max(1, ...plan.months.flatMap(m => [m.generatedWh, m.consumedWh])) : 1;
+  const latitude = getSiteLatitude(battery);
+
+  return (
+    <div className="bg-slate-900 rounded-lg shadow-2xl border border-slate-800 ring-1 ring-white/5 overflow-hidden">
+      <button onClick={() => setOpen(o => !o)} className="w-full flex items-center justify-between px-3 py-2 bg-slate-950 border-b border-slate-800 text-[8px] uppercase font-black tracking-widest text-slate-500 hover:text-slate-300 transition-colors">
+        <span>12-Month Balance {battery.forecast?.name ? `· ${battery.forecast.name}` : ''} · {years}Y archive</span>
+        <span>{open ? '▾' : '▸'}</span>
+      </button>
+
+      {open && (
+        <div className="p-3 space-y-3">
+          {lat === undefined && <div className="text-[10px] text-slate-500 italic">Set a location to load the archive.</div>}
+          {loading && <div className="text-[10px] text-blue-400 animate-pulse">Fetching {years} year{years > 1 ? 's' : ''} of archive data…</div>}
+          {error && <div className="text-[10px] text-rose-400">{error}</div>}
+
+          {plan && !loading && (
+            <>
+              <div className="flex items-end gap-1 h-24 px-1">
+                {plan.months.map(m => (
+                  <div key={m.month} className="flex-1 h-full flex flex-col justify-end items-center gap-0.5"
+                    title={`${MONTH_LABELS[m.month]}: in ${formatKWh(m.generatedWh)} kWh, out ${formatKWh(m.consumedWh)} kWh per day`}>
+                    <div className="w-full flex-1 flex items-end justify-center gap-[1px]">
+                      <div className="w-1/2 bg-emerald-500/80 rounded-t-sm" style={{ height: `${Math.max(2, (m.generatedWh / maxWh) * 100)}%` }} />
+                      <div className={`w-1/2 rounded-t-sm ${m.netWh < 0 ? 'bg-rose-500' : 'bg-slate-600'}`} style={{ height: `${Math.max(2, (m.consumedWh / maxWh) * 100)}%` }} />
+                    </div>
+                    <span className={`text-[7px] font-black uppercase ${m.month === plan.worstMonth && m.netWh < 0 ? 'text-rose-400' : 'text-slate-500'}`}>{MONTH_LABELS[m.month]}</span>
+                  </div>
+                ))}
+              </div>
+
+              <table className="w-full text-left text-[10px] text-slate-300 border-collapse">
+                <thead className="text-[7px] uppercase text-slate-500 font-black tracking-widest border-b border-slate-800">
+                  <tr>
+                    <th className="px-1 py-1">Month</th>
+                    <th className="px-1 py-1 text-right">PSH</th>
+                    <th className="px-1 py-1 text-right">P10</th>
+                    <th className="px-1 py-1 text-right">Max °C</th>
+                    <th className="px-1 py-1 text-right">In kWh</th>
+                    <th className="px-1 py-1 text-right">Out kWh</th>
+                    <th className="px-1 py-1 text-right">Net kWh</th>
+                    <th className="px-1 py-1 text-right">Cloud</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-800/50 font-mono">
+                  {plan.months.map(m => {
+                    const season = getMonthSeason(m.month, latitude);
+                    return (
+                      <tr key={m.month} className={m.netWh < 0 ? 'bg-rose-500/5' : ''}>
+                        <td className="px-1 py-0.5 font-sans font-medium">
+                          {MONTH_LABELS[m.month]}
+                          {season !== 'all' && <span className="ml-1 text-[8px]" title={`${season} loads active`}>{season === 'summer' ? '☀' : '❄'}</span>}
+                        </td>
+                        <td className="px-1 py-0.5 text-right text-amber-400">{m.psh.toFixed(1)}</td>
+                        <td className="px-1 py-0.5 text-right text-slate-500">{m.p10Psh.toFixed(1)}</td>
+                        <td className="px-1 py-0.5 text-right text-slate-500">{m.tempMaxC !== undefined ? m.tempMaxC.toFixed(0) : '-'}</td>
+                        <td className="px-1 py-0.5 text-right text-emerald-400">{formatKWh(m.generatedWh)}</td>
+                        <td className="px-1 py-0.5 text-right">{formatKWh(m.consumedWh)}</td>
+                        <td className={`px-1 py-0.5 text-right font-bold ${m.netWh < 0 ? 'text-rose-400' : 'text-emerald-400'}`}>{m.netWh >= 0 ? '+' : ''}{formatKWh(m.netWh)}</td>
+                        <td className="px-1 py-0.5 text-right text-slate-400">{isFinite(m.cloudAutonomyDays) && m.cloudAutonomyDays <= 30 ? `${m.cloudAutonomyDays.toFixed(1)}d` : '∞'}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              <div className="flex flex-wrap gap-x-5 gap-y-1 text-[10px] font-mono font-bold pt-1 border-t border-slate-800">
+                {plan.deficitMonths.length === 0 ? (
+                  <span className="text-emerald-400">Every month is net-positive.</span>
+                ) : (
+                  <>
+                    <span className="text-rose-400">{plan.deficitMonths.length} deficit month{plan.deficitMonths.length > 1 ? 's' : ''} · worst {MONTH_LABELS[plan.worstMonth]}</span>
+                    <span className="text-amber-400" title="Added rated solar (same orientation and losses as the current array) that balances the worst month">+{plan.extraSolarW} W solar to balance every month</span>
+                  </>
+                )}
+                {plan.extraBatteryWh > 0 && (
+                  <span className="text-cyan-400" title="Added usable storage to ride the longest low-yield run at P10 PSH, starting full">+{formatKWh(plan.extraBatteryWh)} kWh usable battery for low runs</span>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default YearPlanner;
@@ -1,19 +1,22 @@
 
-import { LoadCategory, PowerItem, ChargingSource, BatteryConfig } from './types';
+import { LoadCategory, PowerItem, ChargingSource, BatteryConfig, BatteryChemistry, ChemistryPreset, Inverter, InverterPreset, InverterCurvePoint, CableRun, SolarArray, ControllerType, LoadSeason, UpgradeCandidate, PartEntry, FinanceSettings, AutoStartRule, DrivingProfile, ChargeController, PanelStringing, LiveSettings, SheddingTarget, LoadPriority } from './types';
 
 export const SYSTEM_VOLTAGE = 24;
 
+// Used to shape the solar curve until a location resolves (default location is 2048, Sydney).
+export const DEFAULT_LATITUDE = -33.9;
+
 export const INITIAL_DATA: PowerItem[] = [
   // CLIMATE
-  { id: 'c1', category: LoadCategory.DC_LOADS, name: 'DC Air Con', quantity: 1, watts: 960, hours: 4.0, dutyCycle: 50, notes: 'High drain. Cycles on thermostat.' },
+  { id: 'c1', category: LoadCategory.DC_LOADS, name: 'DC Air Con', quantity: 1, watts: 960, hours: 4.0, dutyCycle: 50, notes: 'High drain. Cycles on thermostat.', season: 'summer' },
   { id: 'c2', category: LoadCategory.DC_LOADS, name: 'Sirocco Fan', quantity: 1, watts: 4, hours: 8.0, dutyCycle: 100, notes: 'Sleeping/Desk (via 12V Conv)' },
   { id: 'c3', category: LoadCategory.DC_LOADS, name: 'Kitchen Exhaust', quantity: 1, watts: 80, hours: 1.0, dutyCycle: 100, notes: 'High power mode (via 12V Conv)' },
   { id: 'c4', category: LoadCategory.DC_LOADS, name: 'Toilet/Cab Fans', quantity: 1, watts: 15, hours: 1.0, dutyCycle: 100, notes: 'Intermittent (via 12V Conv)' },
   
   // COOKING (AC)
-  { id: 'k1', category: LoadCategory.AC_LOADS, name: 'Induction Cooktop', quantity: 1, watts: 1500, hours: 0.5, dutyCycle: 100, notes: 'Avg dinner session (via Inv1)' },
-  { id: 'k2', category: LoadCategory.AC_LOADS, name: 'Ninja Oven', quantity: 1, watts: 1700, hours: 0.3, dutyCycle: 100, notes: 'Baking/Reheat (via Inv1)' },
-  { id: 'k3', category: LoadCategory.AC_LOADS, name: 'Kettle/Toaster', quantity: 1, watts: 1500, hours: 0.1, dutyCycle: 100, notes: 'Short bursts (via Inv1)' },
+  { id: 'k1', category: LoadCategory.AC_LOADS, inverterId: 'inv1', name: 'Induction Cooktop', quantity: 1, watts: 1500, hours: 0.5, dutyCycle: 100, notes: 'Avg dinner session (via Inv1)' },
+  { id: 'k2', category: LoadCategory.AC_LOADS, inverterId: 'inv1', name: 'Ninja Oven', quantity: 1, watts: 1700, hours: 0.3, dutyCycle: 100, notes: 'Baking/Reheat (via Inv1)' },
+  { id: 'k3', category: LoadCategory.AC_LOADS, inverterId: 'inv1', name: 'Kettle/Toaster', quantity: 1, watts: 1500, hours: 0.1, dutyCycle: 100, notes: 'Short bursts (via Inv1)' },
 
   // OFFICE
   { id: 'o1', category: LoadCategory.DC_LOADS, name: 'Mac Mini (M4)', quantity: 1, watts: 40, hours: 8.0, dutyCycle: 100, notes: 'Workstation (via UDF)' },
@@ -28,20 +31,190 @@ export const INITIAL_DATA: PowerItem[] = [
   { id: 'h4', category: LoadCategory.DC_LOADS, name: 'Phone/Misc USB', quantity: 1, watts: 10, hours: 4.0, dutyCycle: 100, notes: 'Charging small devices' },
 
   // SYSTEM MGMT
-  { id: 's1', category: LoadCategory.SYSTEM_MGMT, name: 'Inv1 Standby', quantity: 1, watts: 25, hours: 2.0, dutyCycle: 100, notes: 'ON only during cooking' },
-  { id: 's2', category: LoadCategory.SYSTEM_MGMT, name: 'Inv2 Standby', quantity: 1, watts: 5, hours: 10.0, dutyCycle: 100, notes: 'ON during work hours' },
   { id: 's3', category: LoadCategory.SYSTEM_MGMT, name: '24-12V Converter', quantity: 1, watts: 10, hours: 24.0, dutyCycle: 100, notes: 'Idle + Efficiency loss (Always ON)' },
   { id: 's4', category: LoadCategory.SYSTEM_MGMT, name: 'IoT/HA/Shunt', quantity: 1, watts: 5, hours: 24.0, dutyCycle: 100, notes: '24/7 Monitoring' },
 ];
 
+export const INVERTER_CURVE_PRESETS: Record<InverterPreset, { label: string, curve: InverterCurvePoint[] }> = {
+  hf: {
+    label: 'High Freq',
+    curve: [
+      { loadPct: 2, efficiency: 0.6 }, { loadPct: 5, efficiency: 0.78 }, { loadPct: 10, efficiency: 0.86 },
+      { loadPct: 20, efficiency: 0.9 }, { loadPct: 40, efficiency: 0.93 }, { loadPct: 60, efficiency: 0.935 },
+      { loadPct: 80, efficiency: 0.93 }, { loadPct: 100, efficiency: 0.91 }
+    ]
+  },
+  lf: {
+    label: 'Low Freq',
+    curve: [
+      { loadPct: 2, efficiency: 0.45 }, { loadPct: 5, efficiency: 0.68 }, { loadPct: 10, efficiency: 0.8 },
+      { loadPct: 20, efficiency: 0.87 }, { loadPct: 40, efficiency: 0.9 }, { loadPct: 60, efficiency: 0.91 },
+      { loadPct: 80, efficiency: 0.905 }, { loadPct: 100, efficiency: 0.89 }
+    ]
+  },
+};
+
+// Idle draw replaces the old "Inv1/Inv2 Standby" System Mgmt rows
+export const INITIAL_INVERTERS: Inverter[] = [
+  { id: 'inv1', name: 'Inv1 (Cooking)', ratedW: 3000, surgeW: 6000, idleW: 25, hoursOn: 2, preset: 'hf', schedule: { windows: [{ start: 17, end: 19 }] } },
+  { id: 'inv2', name: 'Inv2 (Office)', ratedW: 500, surgeW: 1000, idleW: 5, hoursOn: 10, preset: 'hf', schedule: { windows: [{ start: 8, end: 18 }] } },
+];
+
 export const INITIAL_CHARGING: ChargingSource[] = [
   { id: 'solar1', name: 'Solar Array (Truck)', quantity: 1, input: 1180, unit: 'W', hours: 5.0, efficiency: 0.85, type: 'solar' }
 ];
 
+export const CHEMISTRY_PRESETS: Record<BatteryChemistry, ChemistryPreset> = {
+  lifepo4: { label: 'LiFePO4', usableDoD: 0.9, chargeEfficiency: 0.98, dischargeEfficiency: 0.98, peukertExponent: 1.05, reserveSoC: 10, cycleLife: 4000, cycleLifeDoD: 80, calendarFadePctPerYear: 1.5 },
+  agm: { label: 'AGM', usableDoD: 0.5, chargeEfficiency: 0.85, dischargeEfficiency: 0.95, peukertExponent: 1.15, reserveSoC: 50, cycleLife: 600, cycleLifeDoD: 50, calendarFadePctPerYear: 4 },
+  flooded: { label: 'Flooded', usableDoD: 0.5, chargeEfficiency: 0.8, dischargeEfficiency: 0.95, peukertExponent: 1.25, reserveSoC: 50, cycleLife: 1200, cycleLifeDoD: 50, calendarFadePctPerYear: 3 },
+  nmc: { label: 'NMC', usableDoD: 0.8, chargeEfficiency: 0.95, dischargeEfficiency: 0.97, peukertExponent: 1.05, reserveSoC: 20, cycleLife: 1500, cycleLifeDoD: 80, calendarFadePctPerYear: 2.5 },
+};
+
+export const END_OF_LIFE_SOH_PCT = 80;
+export const DOD_STRESS_EXPONENT = 1.3;   // Cycle life scales with (rated DoD / actual DoD)^k
+export const CALENDAR_FADE_DOUBLING_C = 10; // Ageing rate doubles every 10°C above 25°C
+export const DEGRADATION_HORIZON_YEARS = 15;
+
 export const INITIAL_BATTERY: BatteryConfig = {
   capacityAh: 400,
   voltage: 24,
   initialSoC: 100,
+  chemistry: 'lifepo4',
+  inverters: INITIAL_INVERTERS,
   location: '2048',
   forecastMode: 'now',
+  climatologyYears: 5,
+};
+
+// Stranded conductor sizes with copper free-air ampacity at 30°C (90°C insulation).
+export const CABLE_SIZES: { awg: string; mm2: number; ampacity: number }[] = [
+  { awg: '18', mm2: 0.82, ampacity: 16 },
+  { awg: '16', mm2: 1.31, ampacity: 22 },
+  { awg: '14', mm2: 2.08, ampacity: 32 },
+  { awg: '12', mm2: 3.31, ampacity: 41 },
+  { awg: '10', mm2: 5.26, ampacity: 55 },
+  { awg: '8', mm2: 8.37, ampacity: 73 },
+  { awg: '6', mm2: 13.3, ampacity: 101 },
+  { awg: '4', mm2: 21.2, ampacity: 135 },
+  { awg: '2', mm2: 33.6, ampacity: 181 },
+  { awg: '1', mm2: 42.4, ampacity: 211 },
+  { awg: '1/0', mm2: 53.5, ampacity: 245 },
+  { awg: '2/0', mm2: 67.4, ampacity: 283 },
+  { awg: '3/0', mm2: 85.0, ampacity: 328 },
+  { awg: '4/0', mm2: 107.2, ampacity: 380 }
+];
+
+export const CONDUCTOR_PROPERTIES = {
+  copper: { resistivity: 0.0172, tempCoeff: 0.00393, ampacityFactor: 1 },
+  aluminium: { resistivity: 0.0282, tempCoeff: 0.00403, ampacityFactor: 0.78 }
+};
+
+export const STANDARD_FUSE_RATINGS = [1, 2, 3, 5, 7.5, 10, 15, 20, 25, 30, 35, 40, 50, 60, 70, 80, 100, 125, 150, 175, 200, 225, 250, 300, 350, 400, 500];
+
+export const DEFAULT_CABLE_RUN: CableRun = { lengthM: 2, maxDropPct: 3, material: 'copper', ambientC: 30 };
+
+export const DEFAULT_SOLAR_ARRAY: SolarArray = {
+  flat: false,
+  tiltDeg: 30,
+  azimuthDeg: 0, // North-facing (southern hemisphere default)
+  tempCoeffPct: -0.35,
+  noctC: 45,
+  shadingPct: 3,
+  controller: 'mppt'
+};
+
+export const CONTROLLER_EFFICIENCY: Record<ControllerType, { label: string; efficiency: number }> = {
+  mppt: { label: 'MPPT', efficiency: 0.97 },
+  pwm: { label: 'PWM', efficiency: 0.78 } // Panel is held at battery voltage, well below Vmp
 };
+
+export const ARRAY_WIRING_FACTOR = 0.97; // DC wiring and module mismatch
+
+export const DEFAULT_CONTROLLER: Omit<ChargeController, 'id'> = { name: 'New MPPT', maxPvVoltage: 100, maxChargeA: 30 };
+export const DEFAULT_STRINGING: PanelStringing = { series: 1, parallel: 1 };
+export const STC_CELL_TEMP_C = 25;
+export const DEFAULT_RECORD_LOW_C = -10; // Until the archive answers
+export const RECORD_LOW_YEARS = 10;
+export const DEFAULT_AMBIENT_C = 25;
+
+export const MONTH_LABELS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// Southern hemisphere months (0 = Jan). Shifted by six months north of the equator.
+export const SEASON_MONTHS: Record<Exclude<LoadSeason, 'all'>, number[]> = {
+  summer: [11, 0, 1, 2],
+  winter: [5, 6, 7, 8]
+};
+
+// Battery entries add one parallel string of the house bank's own modules
+export const DEFAULT_UPGRADE_CATALOGUE: UpgradeCandidate[] = [
+  { id: 'pv-200', name: '200W Panel', kind: 'solar', cost: 220, watts: 200, maxQty: 4 },
+  { id: 'pv-400', name: '400W Panel', kind: 'solar', cost: 380, watts: 400, maxQty: 3 },
+  { id: 'bat-string', name: 'House Battery String', kind: 'battery', cost: 1600, maxQty: 2 },
+  { id: 'dcdc-50', name: 'DC-DC 50A', kind: 'dcdc', cost: 450, watts: 700, maxQty: 1 }
+];
+
+export const DEFAULT_SHEDDING_TARGET: SheddingTarget = { minSoC: 30, days: 3, weather: 'cloud' };
+export const SHED_STEP = 0.25; // Loads are cut a quarter of their use at a time
+// Comfort lost per unit of use given up. Critical loads are never shed.
+export const SHED_PRIORITY_WEIGHTS: Record<Exclude<LoadPriority, 'critical'>, number> = { optional: 1, comfort: 4 };
+
+export const DEFAULT_AUTO_START: AutoStartRule = { startSoC: 30, stopSoC: 90 };
+
+export const DEFAULT_DRIVING: DrivingProfile = { daysPerWeek: 2, hoursPerDrive: 2, startHour: 9 };
+
+// Smart alternators drop their voltage once the start battery is charged
+export const SMART_ALTERNATOR_CHARGE_MIN = 20;
+export const ALTERNATOR_HOT_ABOVE_C = 35;
+
+export const DEFAULT_FINANCE: FinanceSettings = { proposedSolarW: 400, proposedSolarCost: 380 };
+
+export const JOURNAL_MIN_DAYS = 3;          // Before a learned factor is offered
+export const JOURNAL_PRIOR_WEIGHT = 0.5;    // Days' worth of evidence that the model is right
+export const JOURNAL_FACTOR_RANGE = [0.3, 1.5]; // Beyond this, a row is mis-entered rather than mis-modelled
+
+// Entity ids follow common HA integrations (Victron, JK BMS); MQTT users swap in their topics
+export const DEFAULT_LIVE_SETTINGS: LiveSettings = {
+  enabled: false,
+  protocol: 'homeassistant',
+  url: 'http://homeassistant.local:8123',
+  entities: { soc: 'sensor.battery_soc', pv: 'sensor.pv_power', load: 'sensor.dc_load_power', temp: 'sensor.outside_temperature' },
+  syncSoC: false
+};
+export const LIVE_RECONNECT_MS = 10000;
+export const LIVE_AVERAGE_WINDOW_MS = 15 * 60 * 1000; // Cycling loads read on a mean, not a snapshot
+export const MQTT_KEEPALIVE_S = 30;
+export const MOCK_INTERVAL_MS = 2000;
+
+// Undo history, kept per scenario
+export const DEFAULT_HISTORY_DEPTH = 50;
+export const HISTORY_DEPTH_OPTIONS = [20, 50, 100, 200];
+export const HISTORY_MERGE_MS = 1500; // Keystrokes in the same field within this gap are one step
+
+// Seed parts library. Figures are typical published specs; check the datasheet for your unit.
+export const SEED_PARTS: PartEntry[] = [
+  { id: 'p-dometic-cfx3-55', kind: 'load', manufacturer: 'Dometic', model: 'CFX3 55IM', category: LoadCategory.DC_LOADS, watts: 45, dutyCycle: 33, builtIn: true },
+  { id: 'p-engel-mt60', kind: 'load', manufacturer: 'Engel', model: 'MT60 Combi', category: LoadCategory.DC_LOADS, watts: 52, dutyCycle: 30, builtIn: true },
+  { id: 'p-sirocco-ii', kind: 'load', manufacturer: 'Caframo', model: 'Sirocco II Fan', category: LoadCategory.DC_LOADS, watts: 4, dutyCycle: 100, builtIn: true },
+  { id: 'p-maxxfan-deluxe', kind: 'load', manufacturer: 'Maxxair', model: 'MaxxFan Deluxe', category: LoadCategory.DC_LOADS, watts: 36, dutyCycle: 100, builtIn: true },
+  { id: 'p-starlink-std', kind: 'load', manufacturer: 'Starlink', model: 'Standard Kit', category: LoadCategory.DC_LOADS, watts: 60, standbyWatts: 0, dutyCycle: 100, builtIn: true },
+  { id: 'p-mac-mini-m4', kind: 'load', manufacturer: 'Apple', model: 'Mac Mini (M4)', category: LoadCategory.DC_LOADS, watts: 40, standbyWatts: 1, dutyCycle: 100, builtIn: true },
+  { id: 'p-induction-2000', kind: 'load', manufacturer: 'Generic', model: 'Induction Cooktop 2000W', category: LoadCategory.AC_LOADS, watts: 1500, dutyCycle: 100, builtIn: true },
+  { id: 'p-kettle-1500', kind: 'load', manufacturer: 'Generic', model: 'Low-Watt Kettle', category: LoadCategory.AC_LOADS, watts: 1500, dutyCycle: 100, builtIn: true },
+  { id: 'p-victron-cerbo', kind: 'load', manufacturer: 'Victron', model: 'Cerbo GX', category: LoadCategory.SYSTEM_MGMT, watts: 3, dutyCycle: 100, builtIn: true },
+  {
+    id: 'p-panel-200-mono', kind: 'panel', manufacturer: 'Generic', model: '200W Mono Rigid', watts: 200, builtIn: true,
+    panel: { vocV: 24.3, iscA: 10.4, vmpV: 20.3, impA: 9.85, tempCoeffPmaxPct: -0.38, tempCoeffVocPct: -0.29, noctC: 45 }
+  },
+  {
+    id: 'p-panel-410-mono', kind: 'panel', manufacturer: 'Generic', model: '410W Mono Half-Cut', watts: 410, builtIn: true,
+    panel: { vocV: 37.4, iscA: 13.9, vmpV: 31.2, impA: 13.15, tempCoeffPmaxPct: -0.34, tempCoeffVocPct: -0.26, noctC: 43 }
+  },
+  {
+    id: 'p-panel-175-flex', kind: 'panel', manufacturer: 'Generic', model: '175W Flexible', watts: 175, builtIn: true,
+    panel: { vocV: 23.1, iscA: 9.6, vmpV: 19.2, impA: 9.1, tempCoeffPmaxPct: -0.40, tempCoeffVocPct: -0.30, noctC: 50 }
+  },
+  { id: 'p-orion-12-24-15', kind: 'source', manufacturer: 'Victron', model: 'Orion-Tr Smart 12/24-15 DC-DC', sourceType: 'alternator', watts: 360, builtIn: true },
+  { id: 'p-redarc-bcdc-50', kind: 'source', manufacturer: 'REDARC', model: 'BCDC1250D', sourceType: 'alternator', watts: 650, builtIn: true },
+  { id: 'p-gen-2kva', kind: 'source', manufacturer: 'Generic', model: '2kVA Inverter Generator + 40A Charger', sourceType: 'generator', watts: 1100, builtIn: true }
+];
@@ -0,0 +1,163 @@
+import { SolarArray, HourlySeries } from '../types';
+import { getDayOfYear, getSolarDeclination } from './solarGeometry';
+import { CONTROLLER_EFFICIENCY, ARRAY_WIRING_FACTOR } from '../constants';
+
+/**
+ * Solar Array Physics
+ * Turns horizontal PSH (GHI) into plane-of-array yield for a given tilt/azimuth,
+ * then derates for cell temperature, shading/soiling and the charge controller.
+ */
+
+const DEG = Math.PI / 180;
+const SOLAR_CONSTANT = 1367; // W/m²
+const GROUND_ALBEDO = 0.2;
+const MIN_COS_ZENITH = 0.087; // ~85°. Stops beam ratios blowing up at sunrise/sunset.
+
+interface Vec3 { east: number; north: number; up: number; }
+
+const getSunVector = (latDeg: number, dayOfYear: number, hour: number): Vec3 => {
+  const phi = latDeg * DEG;
+  const delta = getSolarDeclination(dayOfYear);
+  const omega = (hour - 12) * 15 * DEG;
+  return {
+    east: -Math.cos(delta) * Math.sin(omega),
+    north: Math.cos(phi) * Math.sin(delta) - Math.sin(phi) * Math.cos(delta) * Math.cos(omega),
+    up: Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(omega)
+  };
+};
+
+const getSurfaceNormal = (array: SolarArray): Vec3 => {
+  if (array.flat) return { east: 0, north: 0, up: 1 };
+  const beta = Math.min(90, Math.max(0, Number(array.tiltDeg) || 0)) * DEG;
+  const gamma = (Number(array.azimuthDeg) || 0) * DEG;
+  return { east: Math.sin(beta) * Math.sin(gamma), north: Math.sin(beta) * Math.cos(gamma), up: Math.cos(beta) };
+};
+
+/**
+ * Erbs correlation: diffuse share of global irradiance from the clearness index.
+ */
+export const getDiffuseFraction = (kt: number): number => {
+  if (kt <= 0.22) return 1 - 0.09 * kt;
+  if (kt <= 0.8) return 0.9511 - 0.1604 * kt + 4.388 * kt ** 2 - 16.638 * kt ** 3 + 12.336 * kt ** 4;
+  return 0.165;
+};
+
+/**
+ * Horizontal and plane-of-array irradiance (W/m²) per interval.
+ * Horizontal values are scaled so the day integrates to ghiPsh.
+ */
+export const getPlaneOfArraySeries = (array: SolarArray, latDeg: number, date: Date, ghiPsh: number, intervals = 96) => {
+  const doy = getDayOfYear(date);
+  const step = 24 / intervals;
+  const eccentricity = 1 + 0.033 * Math.cos(2 * Math.PI * doy / 365);
+  const suns = Array.from({ length: intervals }, (_, i) => getSunVector(latDeg, doy, (i + 0.5) * step));
+  const extra = suns.map(sun => SOLAR_CONSTANT * eccentricity * Math.max(0, sun.up));
+  const h0 = extra.reduce((a, b) => a + b, 0) * step / 1000;
+
+  const ghi = Array(intervals).fill(0);
+  const poa = Array(intervals).fill(0);
+  if (h0 <= 0) return { ghi, poa, stepHours: step };
+
+  // Clear-day shape when there is no PSH yet, so the profile still has a sensible shape
+  const kt = ghiPsh > 0 ? Math.min(1, ghiPsh / h0) : 0.5;
+  const diffuseFraction = getDiffuseFraction(kt);
+  const normal = getSurfaceNormal(array);
+  const skyView = (1 + normal.up) / 2;
+  const groundView = (1 - normal.up) / 2;
+
+  suns.forEach((sun, i) => {
+    if (sun.up <= 0) return;
+    const g = extra[i] * kt;
+    const cosIncidence = Math.max(0, sun.east * normal.east + sun.north * normal.north + sun.up * normal.up);
+    const beamRatio = cosIncidence / Math.max(sun.up, MIN_COS_ZENITH);
+    ghi[i] = g;
+    poa[i] = g * (1 - diffuseFraction) * beamRatio + g * diffuseFraction * skyView + g * GROUND_ALBEDO * groundView;
+  });
+
+  return { ghi, poa, stepHours: step };
+};
+
+const getClockHour = (time: string) => Number(time.slice(11, 13)) || 0;
+
+/**
+ * Plane-of-array irradiance from forecast beam (DNI) and diffuse (DHI) components.
+ */
+export const getPlaneOfArrayFromHourly = (array: SolarArray, latDeg: number, date: Date, series: HourlySeries) => {
+  const doy = getDayOfYear(date);
+  const normal = getSurfaceNormal(array);
+  const skyView = (1 + normal.up) / 2;
+  const groundView = (1 - normal.up) / 2;
+  const offset = series.solarTimeOffsetH || 0;
+
+  const ghi = series.hours.map(h => Math.max(0, h.ghi));
+  const poa = series.hours.map(h => {
+    const sun = getSunVector(latDeg, doy, getClockHour(h.time) - 0.5 + offset);
+    const cosIncidence = sun.up > 0 ? Math.max(0, sun.east * normal.east + sun.north * normal.north + sun.up * normal.up) : 0;
+    return Math.max(0, h.dni) * cosIncidence + Math.max(0, h.dhi) * skyView + Math.max(0, h.ghi) * GROUND_ALBEDO * groundView;
+  });
+  return { ghi, poa };
+};
+
+/**
+ * Spreads per-clock-hour values over the simulation intervals. Sums to 1.
+ */
+export const buildHourlyProfile = (series: HourlySeries, values: number[], intervals: number): number[] => {
+  const byHour = Array(24).fill(0);
+  series.hours.forEach((h, i) => {
+    // A value stamped 13:00 covers 12:00-13:00
+    byHour[(getClockHour(h.time) + 23) % 24] += Math.max(0, values[i] || 0);
+  });
+  const weights = Array.from({ length: intervals }, (_, i) => byHour[Math.floor((i + 0.5) * 24 / intervals) % 24]);
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return weights.map(() => 0);
+  return weights.map(w => w / total);
+};
+
+export interface ArrayFactors {
+  transposition: number; // Plane-of-array / horizontal energy
+  cellTempC: number;
+  temperature: number;
+  shading: number;
+  controller: number;
+  performance: number;   // Everything after transposition
+}
+
+export const getArrayFactors = (array: SolarArray, latDeg: number, date: Date, ghiPsh: number, ambientC: number, hourly?: HourlySeries): ArrayFactors => {
+  // Forecast beam/diffuse split beats the Erbs estimate when we have it
+  const useHourly = !!hourly && hourly.hours.some(h => h.ghi > 0);
+  const { ghi, poa } = useHourly
+    ? getPlaneOfArrayFromHourly(array, latDeg, date, hourly!)
+    : getPlaneOfArraySeries(array, latDeg, date, ghiPsh);
+  const ghiSum = ghi.reduce((a, b) => a + b, 0);
+  const poaSum = poa.reduce((a, b) => a + b, 0);
+  const transposition = ghiSum > 0 ? poaSum / ghiSum : 1;
+
+  // Energy-weighted irradiance sets the cell temperature during production (NOCT model)
+  const weightedG = poaSum > 0 ? poa.reduce((a, g) => a + g * g, 0) / poaSum : 0;
+  const cellTempC = ambientC + ((Number(array.noctC) || 45) - 20) / 800 * weightedG;
+  const temperature = Math.max(0, 1 + ((Number(array.tempCoeffPct) || 0) / 100) * (cellTempC - 25));
+  const shading = 1 - Math.min(100, Math.max(0, Number(array.shadingPct) || 0)) / 100;
+  const controller = (CONTROLLER_EFFICIENCY[array.controller] || CONTROLLER_EFFICIENCY.mppt).efficiency;
+
+  return {
+    transposition,
+    cellTempC,
+    temperature,
+    shading,
+    controller,
+    performance: temperature * shading * controller * ARRAY_WIRING_FACTOR
+  };
+};
+
+/**
+ * Generation timing for an oriented array (east-facing peaks earlier, etc.). Sums to 1.
+ */
+export const buildArrayProfile = (array: SolarArray, latDeg: number, date: Date, intervals: number, ghiPsh = 0, hourly?: HourlySeries): number[] => {
+  if (hourly && hourly.hours.some(h => h.ghi > 0)) {
+    return buildHourlyProfile(hourly, getPlaneOfArrayFromHourly(array, latDeg, date, hourly).poa, intervals);
+  }
+  const { poa } = getPlaneOfArraySeries(array, latDeg, date, ghiPsh, intervals);
+  const total = poa.reduce((a, b) => a + b, 0);
+  if (total <= 0) return poa.map(() => 0);
+  return poa.map(w => w / total);
+};
@@ -0,0 +1,139 @@
+import { PowerItem, BatteryConfig, LoadCategory, TelemetryImport, TelemetryHour, CalibrationReport, CalibrationSuggestion } from '../types';
+import { calculateItemEnergy, calculateInverterIdleWh, getHouseBankView, getLoadConditions, getSiteLatitude, LoadContext } from './powerLogic';
+import { buildScheduleProfile } from './schedule';
+import { buildSolarProfile } from './solarGeometry';
+
+/**
+ * Calibration
+ * Fits one factor per load category so the modelled hourly draw matches what the shunt logged.
+ * A shunt sees the battery's net flow, so the draw is only readable when nothing else feeds
+ * the loads (dark hours) or when the log also records PV yield.
+ */
+
+const MIN_COVERAGE = 0.8;      // An hour must be this well sampled to count
+const PRIOR_WEIGHT = 0.2;      // Pull towards the model where the log says little
+const MIN_FACTOR_CHANGE = 0.1; // Smaller divergences aren't worth a suggestion
+const FIT_ITERATIONS = 50;
+const MIN_DAY_COVERAGE_H = 20; // Partial first/last days stay out of the daily means
+
+// Modelled draw per clock hour and category for the house bank. Inverter idle counts as System Mgmt.
+export const getModelledHourlyLoad = (items: PowerItem[], battery: BatteryConfig): Record<LoadCategory, number[]> => {
+  const view = getHouseBankView(items, [], battery);
+  const voltage = Number(view.battery.voltage) || 24;
+  const context: LoadContext = { items: view.items, inverters: view.battery.inverters, ...getLoadConditions(view.battery) };
+  const load = Object.fromEntries(Object.values(LoadCategory).map(c => [c, Array(24).fill(0)])) as Record<LoadCategory, number[]>;
+  view.items.forEach(item => {
+    if (item.enabled === false) return;
+    const { wh } = calculateItemEnergy(item, voltage, context);
+    buildScheduleProfile(item.schedule, 24).forEach((w, h) => { load[item.category][h] += wh * w; });
+  });
+  (view.battery.inverters || []).forEach(inv => {
+    const idleWh = calculateInverterIdleWh(inv);
+    buildScheduleProfile(inv.schedule, 24).forEach((w, h) => { load[LoadCategory.SYSTEM_MGMT][h] += idleWh * w; });
+  });
+  return load;
+};
+
+// Load draw readable from one logged hour, or null when something else may be feeding the loads
+const getObservedDraw = (hour: TelemetryHour, dark: boolean): number | null => {
+  if (hour.coverage < MIN_COVERAGE) return null;
+  const netWh = hour.inWh - hour.outWh;
+  if (hour.pvWh !== undefined) return Math.max(0, hour.pvWh - netWh) / hour.coverage;
+  return dark && netWh <= 0 ? -netWh / hour.coverage : null;
+};
+
+// Clock hours with no sun either side (a margin for solar vs. clock time)
+const getDarkHours = (latitude: number, date: string): boolean[] => {
+  const sun = buildSolarProfile(latitude, new Date(`${date}T12:00`), 24);
+  return sun.map((_, h) => [h - 1, h, h + 1].every(k => sun[(k + 24) % 24] <= 0));
+};
+
+const getSuggestion = (item: PowerItem, factor: number): CalibrationSuggestion | null => {
+  const duty = Number(item.dutyCycle) || 100;
+  const suggestion: CalibrationSuggestion = duty < 100
+    ? { itemId: item.id, name: item.name, field: 'dutyCycle', current: duty, suggested: Math.round(Math.min(100, duty * factor)) }
+    : { itemId: item.id, name: item.name, field: 'hours', current: Number(item.hours) || 0, suggested: Math.round(Math.min(24, (Number(item.hours) || 0) * factor) * 10) / 10 };
+  return suggestion.suggested !== suggestion.current ? suggestion : null;
+};
+
+export const calibrate = (telemetry: TelemetryImport, items: PowerItem[], battery: BatteryConfig): CalibrationReport => {
+  const mean = (values: number[]) => values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0;
+  const fullDays = telemetry.days.filter(d => !d.hours || d.hours.reduce((s, h) => s + h.coverage, 0) >= MIN_DAY_COVERAGE_H);
+  const totalsDays = fullDays.length ? fullDays : telemetry.days;
+  const pvDays = totalsDays.filter(d => d.pvWh !== undefined);
+
+  // Mean observable draw per clock hour across the logged days
+  const latitude = getSiteLatitude(battery);
+  const sums = Array(24).fill(0);
+  const counts = Array(24).fill(0);
+  const hourlyDays = telemetry.days.filter(d => d.hours);
+  hourlyDays.forEach(day => {
+    const dark = getDarkHours(latitude, day.date);
+    day.hours!.forEach((hour, h) => {
+      const draw = getObservedDraw(hour, dark[h]);
+      if (draw === null) return;
+      sums[h] += draw;
+      counts[h]++;
+    });
+  });
+  const observed = counts.map((n, h) => n > 0 ? h : -1).filter(h => h >= 0);
+  const measured = sums.map((sum, h) => counts[h] ? sum / counts[h] : 0);
+
+  // Coordinate descent on the per-category factors, each held near 1 by a prior. The prior scales
+  // with category energy, so draw the hourly shapes can't tell apart is shared in proportion.
+  const categories = Object.values(LoadCategory);
+  const modelled = getModelledHourlyLoad(items, battery);
+  const curves = categories.map(c => modelled[c]);
+  const energies = curves.map(curve => curve.reduce((a, b) => a + b, 0));
+  const totalWh = energies.reduce((a, b) => a + b, 0);
+  const prior = energies.map(wh => PRIOR_WEIGHT * wh * totalWh / 24);
+  const factors = categories.map(() => 1);
+  for (let iter = 0; iter < FIT_ITERATIONS && observed.length > 0; iter++) {
+    curves.forEach((curve, c) => {
+      let num = prior[c];
+      let den = prior[c];
+      observed.forEach(h => {
+        const others = curves.reduce((s, other, k) => k === c ? s : s + factors[k] * other[h], 0);
+        num += curve[h] * (measured[h] - others);
+        den += curve[h] * curve[h];
+      });
+      factors[c] = den > 0 ? Math.max(0, num / den) : 1;
+    });
+  }
+
+  const houseItems = getHouseBankView(items, [], battery).items;
+  const report = categories.map((category, c) => {
+    const modelledWh = energies[c];
+    const observedWh = observed.reduce((s, h) => s + curves[c][h], 0);
+    const factor = factors[c];
+    const suggestions = Math.abs(factor - 1) >= MIN_FACTOR_CHANGE
+      ? houseItems
+          .filter(i => i.enabled !== false && i.category === category)
+          .map(i => getSuggestion(i, factor))
+          .filter((s): s is CalibrationSuggestion => s !== null)
+      : [];
+    return {
+      category,
+      modelledWh,
+      measuredWh: modelledWh * factor,
+      factor,
+      evidencePct: modelledWh > 0 ? (observedWh / modelledWh) * 100 : 0,
+      suggestions
+    };
+  }).filter(c => c.modelledWh > 0);
+
+  return {
+    days: hourlyDays.length,
+    measuredInWh: mean(totalsDays.map(d => d.inWh)),
+    measuredOutWh: mean(totalsDays.map(d => d.outWh)),
+    ...(pvDays.length ? { measuredPvWh: mean(pvDays.map(d => d.pvWh!)) } : {}),
+    measuredConsumedWh: observed.length ? report.reduce((s, c) => s + c.measuredWh, 0) : null,
+    observedHours: observed.length,
+    categories: report,
+    ...(hourlyDays.length === 0
+      ? { unavailable: 'Daily totals only. Calibration needs a timestamped sample log.' }
+      : observed.length === 0
+        ? { unavailable: 'No hour in the log isolates the loads (no dark hours with the battery discharging, and no PV column).' }
+        : {})
+  };
+};
@@ -0,0 +1,75 @@
+import { ChargingSource, BatteryConfig, ControllerCheck, PanelStringing } from '../types';
+import { STC_CELL_TEMP_C, DEFAULT_RECORD_LOW_C } from '../constants';
+import { findController, getControllerClipping, getControllerLimitW, getRowVoltage } from './powerLogic';
+
+/**
+ * Controller Validation
+ * String voltage on the site's coldest recorded morning against each controller's PV input limit,
+ * the array's current against its PV input current limit, plus the output its current limit clips off the array.
+ */
+
+export const getRecordLowC = (battery: BatteryConfig): number => battery.forecast?.recordLowC ?? DEFAULT_RECORD_LOW_C;
+
+/**
+ * Open-circuit voltage of one string at a cell temperature. Voc rises as the panels cool,
+ * and at first light the cells sit at air temperature. Null without a panel Voc.
+ */
+export const getStringVocV = (stringing: PanelStringing, cellTempC: number): number | null => {
+  const vocV = Number(stringing.vocV) || 0;
+  if (vocV <= 0) return null;
+  const coeff = (Number(stringing.tempCoeffVocPct) || 0) / 100;
+  return getSeries(stringing) * vocV * (1 + coeff * (cellTempC - STC_CELL_TEMP_C));
+};
+
+export const getSourceColdVocV = (source: ChargingSource, battery: BatteryConfig): number | null =>
+  source.stringing ? getStringVocV(source.stringing, getRecordLowC(battery)) : null;
+
+const getSeries = (stringing: PanelStringing) => Math.max(1, Math.round(Number(stringing.series)) || 1);
+const getParallel = (stringing: PanelStringing) => Math.max(1, Math.round(Number(stringing.parallel)) || 1);
+
+// Panels on a row: series × parallel once it is strung, otherwise its quantity
+export const getPanelCount = (source: ChargingSource): number =>
+  source.stringing ? getSeries(source.stringing) * getParallel(source.stringing) : Number(source.quantity) || 1;
+
+export const getArrayW = (source: ChargingSource): number => (Number(source.input) || 0) * getPanelCount(source);
+
+export const hasCountMismatch = (source: ChargingSource): boolean =>
+  !!source.stringing && getPanelCount(source) !== (Number(source.quantity) || 1);
+
+/**
+ * Current out of a row's strings: parallel strings × the panel figure. Null without the datasheet value.
+ */
+export const getStringCurrentA = (stringing: PanelStringing, field: 'iscA' | 'impA'): number | null => {
+  const perPanel = Number(stringing[field]) || 0;
+  return perPanel > 0 ? getParallel(stringing) * perPanel : null;
+};
+
+const sumKnown = (values: (number | null)[]): number | null =>
+  values.some(v => v !== null) ? values.reduce<number>((sum, v) => sum + (v ?? 0), 0) : null;
+
+/**
+ * Disabled rows still count towards over-voltage and over-current: they are wired in, just not in this scenario's yield.
+ */
+export const checkControllers = (charging: ChargingSource[], battery: BatteryConfig): ControllerCheck[] => {
+  const controllers = battery.controllers || [];
+  const clipping = getControllerClipping(charging, battery);
+  return controllers.map(controller => {
+    const rows = charging.filter(c => findController(c, controllers) === controller);
+    const vocs = rows.map(source => ({ id: source.id, vocV: getSourceColdVocV(source, battery) }));
+    const known = vocs.filter(v => v.vocV !== null).map(v => v.vocV!);
+    const iscA = sumKnown(rows.map(s => s.stringing ? getStringCurrentA(s.stringing, 'iscA') : null));
+    const maxPvA = Number(controller.maxPvA) || 0;
+    return {
+      controllerId: controller.id,
+      arrayW: rows.filter(s => s.enabled !== false).reduce((sum, s) => sum + getArrayW(s), 0),
+      limitW: getControllerLimitW(controller, rows.length ? getRowVoltage(rows[0], battery) : Number(battery.voltage) || 24),
+      coldVocV: known.length ? Math.max(...known) : null,
+      overVoltage: vocs.filter(v => v.vocV !== null && v.vocV > (Number(controller.maxPvVoltage) || 0)).map(v => v.id),
+      iscA,
+      impA: sumKnown(rows.map(s => s.stringing ? getStringCurrentA(s.stringing, 'impA') : null)),
+      overCurrent: maxPvA > 0 && iscA !== null && iscA > maxPvA,
+      countMismatch: rows.filter(hasCountMismatch).map(s => s.id),
+      clippedWh: clipping[controller.id] || 0
+    };
+  });
+};
@@ -0,0 +1,83 @@
+import { PowerItem, ChargingSource, BatteryConfig, ChemistryPreset, DegradationProjection, DegradationYear } from '../types';
+import { END_OF_LIFE_SOH_PCT, DOD_STRESS_EXPONENT, CALENDAR_FADE_DOUBLING_C, DEGRADATION_HORIZON_YEARS } from '../constants';
+import { getBatteryBanks, getBankBattery, getChemistryPreset, getStateOfHealth, getAmbientTempC, getAutonomyForecast, calculateAutonomy, syncHouseBank } from './powerLogic';
+import { simulateDay } from './simulation';
+
+/**
+ * Battery Degradation
+ * Capacity fade of the house bank from cycling (rated cycle life, scaled for depth) plus calendar
+ * ageing (faster when hot). Today's simulated day stands in for every day of every year.
+ */
+
+const DAYS_PER_YEAR = 365;
+
+// Wh discharged from the house bank over one simulated day
+export const getDailyThroughputWh = (items: PowerItem[], charging: ChargingSource[], battery: BatteryConfig): number =>
+  simulateDay(items, charging, battery).points.reduce((sum, p) => sum + Math.max(0, p.loadWh - p.genWh), 0);
+
+// The same config with the house bank at the given state of health
+export const withStateOfHealth = (battery: BatteryConfig, sohPct: number): BatteryConfig => {
+  if (!battery.banks || battery.banks.length === 0) return { ...battery, stateOfHealthPct: sohPct };
+  return syncHouseBank({ ...battery, banks: battery.banks.map((b, i) => i === 0 ? { ...b, stateOfHealthPct: sohPct } : b) });
+};
+
+/**
+ * % of nameplate lost over a year of one cycle a day at this depth (0-1) and temperature.
+ * Shallow cycles last disproportionately longer; heat speeds up both kinds of wear.
+ */
+export const getAnnualFadePct = (preset: ChemistryPreset, dailyDoD: number, tempC: number): number => {
+  const heat = Math.pow(2, (tempC - 25) / CALENDAR_FADE_DOUBLING_C);
+  let cycleFade = 0;
+  if (dailyDoD > 0) {
+    const cyclesToEnd = preset.cycleLife * Math.pow((preset.cycleLifeDoD / 100) / Math.min(1, dailyDoD), DOD_STRESS_EXPONENT);
+    cycleFade = ((100 - END_OF_LIFE_SOH_PCT) / cyclesToEnd) * DAYS_PER_YEAR * Math.max(1, heat);
+  }
+  return cycleFade + preset.calendarFadePctPerYear * heat;
+};
+
+/**
+ * Year-by-year state of health from today's. The same daily throughput is a deeper cycle
+ * on a smaller bank, so fade speeds up as the bank ages.
+ */
+export const projectDegradation = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig,
+  tempC = getAmbientTempC(battery)
+): DegradationProjection => {
+  const view = getBankBattery(battery, getBatteryBanks(battery)[0]);
+  const preset = getChemistryPreset(view);
+  const ratedWh = view.capacityAh * view.voltage;
+  const throughputWh = getDailyThroughputWh(items, charging, battery);
+  const forecast = getAutonomyForecast(battery);
+  const getDoD = (sohPct: number) => ratedWh > 0 ? throughputWh / (ratedWh * (sohPct / 100)) : 0;
+
+  const startSoh = getStateOfHealth(view) * 100;
+  let soh = startSoh;
+  let endOfLifeYear: number | null = startSoh < END_OF_LIFE_SOH_PCT ? 0 : null;
+  const years: DegradationYear[] = [];
+  for (let year = 0; year <= DEGRADATION_HORIZON_YEARS; year++) {
+    const aged = withStateOfHealth(battery, soh);
+    years.push({
+      year,
+      sohPct: soh,
+      capacityAh: view.capacityAh * (soh / 100),
+      autonomyDays: calculateAutonomy(items, charging, aged, 'zero').days,
+      cloudAutonomyDays: calculateAutonomy(items, charging, aged, 'cloud', forecast).days
+    });
+    const fade = getAnnualFadePct(preset, getDoD(soh), tempC);
+    const next = Math.max(1, soh - fade);
+    // Interpolated within the year
+    if (endOfLifeYear === null && next < END_OF_LIFE_SOH_PCT) endOfLifeYear = year + (soh - END_OF_LIFE_SOH_PCT) / fade;
+    soh = next;
+  }
+
+  const dailyDoD = getDoD(startSoh);
+  return {
+    dailyDoDPct: dailyDoD * 100,
+    cyclesPerYear: dailyDoD * DAYS_PER_YEAR,
+    fadePctPerYear: getAnnualFadePct(preset, dailyDoD, tempC),
+    endOfLifeYear,
+    years
+  };
+};
@@ -0,0 +1,55 @@
+import { ChargingSource, DrivingProfile, TimeWindow } from '../types';
+import { SMART_ALTERNATOR_CHARGE_MIN, ALTERNATOR_HOT_ABOVE_C } from '../constants';
+
+/**
+ * Driving Schedule
+ * Alternator / DC-DC output only happens on the days and hours the vehicle is driven.
+ */
+
+export const isDriven = (source: ChargingSource): boolean => source.type === 'alternator' && !!source.driving;
+
+export const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+
+/**
+ * Weekdays driven (0 = Sunday). Without explicit days, N drives are spread evenly from Monday.
+ */
+export const getDriveDays = (driving: DrivingProfile): number[] => {
+  if (driving.driveDays) return driving.driveDays;
+  const n = Math.min(7, Math.max(0, Math.round(Number(driving.daysPerWeek) || 0)));
+  return Array.from({ length: n }, (_, k) => (1 + Math.floor((k * 7) / n)) % 7);
+};
+
+export const getDaysPerWeek = (driving: DrivingProfile): number =>
+  driving.driveDays ? driving.driveDays.length : Math.min(7, Math.max(0, Number(driving.daysPerWeek) || 0));
+
+export const isDriveDay = (driving: DrivingProfile, date: Date): boolean => getDriveDays(driving).includes(date.getDay());
+
+/**
+ * Hours of each drive the DC-DC actually charges. A voltage-sensing charger on a smart
+ * alternator drops out once the alternator lowers its voltage.
+ */
+export const getChargeHoursPerDrive = (driving: DrivingProfile): number => {
+  const hours = Math.max(0, Number(driving.hoursPerDrive) || 0);
+  if (!driving.smartAlternator || driving.ignitionTrigger) return hours;
+  return Math.min(hours, (driving.smartChargeMin ?? SMART_ALTERNATOR_CHARGE_MIN) / 60);
+};
+
+/**
+ * Charging hours for a day: the weekly average, or 0 / a full drive when the date is a real day.
+ */
+export const getDrivingHours = (driving: DrivingProfile, date?: Date): number => {
+  const perDrive = getChargeHoursPerDrive(driving);
+  return date ? (isDriveDay(driving, date) ? perDrive : 0) : perDrive * (getDaysPerWeek(driving) / 7);
+};
+
+export const getDrivingDerate = (driving: DrivingProfile, ambientC: number): number =>
+  ambientC > (driving.hotAboveC ?? ALTERNATOR_HOT_ABOVE_C) ? 1 - Math.min(100, Math.max(0, Number(driving.hotDeratePct) || 0)) / 100 : 1;
+
+// Charging window within the drive, for the SoC engine's generation curve.
+// At least an hour wide so an hourly run still places a short smart-alternator burst.
+export const getDrivingWindow = (driving: DrivingProfile): TimeWindow => {
+  const start = Math.floor(driving.startHour ?? 9);
+  return { start, end: (start + Math.max(1, Math.ceil(getChargeHoursPerDrive(driving)))) % 24 };
+};
+
+export const formatDriving = (driving: DrivingProfile) => `${getDaysPerWeek(driving)}d/wk × ${driving.hoursPerDrive}h`;
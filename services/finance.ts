@@ -0,0 +1,152 @@
+import { PowerItem, ChargingSource, BatteryConfig, FinanceSettings, FinanceSummary, GeneratorEconomics, GeneratorRun, BatteryWear, SourceEconomics } from '../types';
+import { calculateSystemTotals, calculateSourceEnergy, getBatteryBanks, getBankBattery, getChemistryPreset, getHouseBankView, getSourceCurrent, isAutoStart, getAutoStartWhPerHour } from './powerLogic';
+import { getDailyThroughputWh } from './degradation';
+import { applyUpgrade } from './optimiser';
+
+/**
+ * Finance
+ * Money and fuel on top of the daily energy model. A day at the current forecast stands in for
+ * every day of the year, so month-average mode gives the best annual figures.
+ */
+
+const DAYS_PER_YEAR = 365;
+
+const getAnnualisedCapex = (source: ChargingSource) =>
+  (Number(source.capex) || 0) / Math.max(1, Number(source.lifetimeYears) || 1);
+
+export const isFuelledGenerator = (source: ChargingSource) =>
+  source.type === 'generator' && !!source.fuel && (Number(source.fuel.litresPerHour) || 0) > 0;
+
+const getGeneratorWhPerHour = (source: ChargingSource, battery: BatteryConfig) =>
+  isAutoStart(source) ? getAutoStartWhPerHour(source, battery) : calculateSourceEnergy(source, battery, 1).wh;
+
+/**
+ * Generator rows run only to cover what everything else leaves the house bank short, regardless
+ * of their scheduled hours or enabled state (a disabled generator is still the backup). Several
+ * generators share the deficit by rated output, each running long enough to deliver its part.
+ */
+export const getGeneratorEconomics = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig
+): GeneratorEconomics | null => {
+  const house = getHouseBankView(items, charging, battery);
+  const generators = house.charging.filter(isFuelledGenerator);
+  if (generators.length === 0) return null;
+
+  const withoutGenerators = calculateSystemTotals(house.items, house.charging.filter(c => c.type !== 'generator'), house.battery);
+  const deficitWh = Math.max(0, -withoutGenerators.netWh);
+  const voltage = Number(house.battery.voltage) || 24;
+  const ratedW = generators.map(g => getSourceCurrent(g, voltage) * voltage);
+  const totalRatedW = ratedW.reduce((sum, w) => sum + w, 0);
+
+  const runs: GeneratorRun[] = generators.map((g, i) => {
+    const shareWh = totalRatedW > 0 ? deficitWh * ratedW[i] / totalRatedW : 0;
+    const whPerHour = getGeneratorWhPerHour(g, house.battery);
+    return { sourceId: g.id, shareWh, hoursPerDay: whPerHour > 0 ? shareWh / whPerHour : 0 };
+  });
+  const annualLitres = runs.reduce((sum, run, i) => sum + run.hoursPerDay * generators[i].fuel!.litresPerHour, 0) * DAYS_PER_YEAR;
+  const annualFuelCost = runs.reduce((sum, run, i) =>
+    sum + run.hoursPerDay * generators[i].fuel!.litresPerHour * (Number(generators[i].fuel!.pricePerLitre) || 0), 0) * DAYS_PER_YEAR;
+  const hoursPerDay = Math.max(...runs.map(r => r.hoursPerDay));
+
+  return {
+    deficitWh,
+    hoursPerDay,
+    runs,
+    annualHours: hoursPerDay * DAYS_PER_YEAR,
+    annualLitres,
+    annualFuelCost
+  };
+};
+
+/**
+ * Wear cost of the house bank from one simulated day's discharge throughput.
+ */
+export const getBatteryWear = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig
+): BatteryWear | null => {
+  const bank = getBatteryBanks(battery)[0];
+  const view = getBankBattery(battery, bank);
+  const price = Number(bank.price) || 0;
+  const preset = getChemistryPreset(view);
+  const cycleLife = Number(bank.cycleLife) || preset.cycleLife;
+  const dod = (Number(bank.cycleLifeDoD) || preset.cycleLifeDoD) / 100;
+  if (price <= 0 || cycleLife <= 0 || dod <= 0) return null;
+
+  const capacityWh = view.capacityAh * view.voltage;
+  const lifetimeKWh = (cycleLife * dod * capacityWh) / 1000;
+
+  const dailyThroughputWh = getDailyThroughputWh(items, charging, battery);
+  const costPerKWh = lifetimeKWh > 0 ? price / lifetimeKWh : 0;
+
+  return {
+    bankId: bank.id,
+    costPerCycle: price / cycleLife,
+    costPerKWh,
+    dailyThroughputWh,
+    annualCost: (dailyThroughputWh / 1000) * DAYS_PER_YEAR * costPerKWh
+  };
+};
+
+export const calculateFinance = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig,
+  settings: FinanceSettings
+): FinanceSummary => {
+  const generator = getGeneratorEconomics(items, charging, battery);
+  const totals = calculateSystemTotals(items, charging, battery);
+  const batteryWear = getBatteryWear(items, charging, battery);
+
+  const sources: SourceEconomics[] = charging.map(source => {
+    const isGenerator = source.type === 'generator';
+    // Generators are costed on their share of the house bank's deficit
+    let annualKWh = 0;
+    let fuelCost = 0;
+    if (isGenerator) {
+      const run = generator?.runs.find(r => r.sourceId === source.id);
+      if (run) {
+        annualKWh = (run.shareWh * DAYS_PER_YEAR) / 1000;
+        fuelCost = run.hoursPerDay * DAYS_PER_YEAR * source.fuel!.litresPerHour * (Number(source.fuel!.pricePerLitre) || 0);
+      }
+    } else if (source.enabled !== false && isAutoStart(source)) {
+      annualKWh = ((totals.autoStartHours?.[source.id] || 0) * getAutoStartWhPerHour(source, battery) * DAYS_PER_YEAR) / 1000;
+    } else if (source.enabled !== false) {
+      annualKWh = (calculateSourceEnergy(source, battery).wh * DAYS_PER_YEAR) / 1000;
+    }
+    const annualCost = getAnnualisedCapex(source) + fuelCost;
+    return { sourceId: source.id, name: source.name, annualKWh, annualCost, costPerKWh: annualKWh > 0 ? annualCost / annualKWh : NaN };
+  });
+
+  const annualCost = sources.reduce((sum, s) => sum + s.annualCost, 0) + (batteryWear?.annualCost || 0);
+  const annualKWhConsumed = (totals.dailyWhConsumed * DAYS_PER_YEAR) / 1000;
+
+  // Payback: the proposed solar against the fuel it saves
+  let payback: FinanceSummary['payback'] = null;
+  if (generator && settings.proposedSolarW > 0) {
+    const upgraded = applyUpgrade(charging, battery, [{ candidateId: 'proposed', qty: 1 }], [
+      { id: 'proposed', name: 'Proposed Solar', kind: 'solar', cost: settings.proposedSolarCost, watts: settings.proposedSolarW, maxQty: 1 }
+    ]);
+    const after = getGeneratorEconomics(items, upgraded.charging, upgraded.battery);
+    const annualSaving = generator.annualFuelCost - (after?.annualFuelCost || 0);
+    payback = {
+      cost: settings.proposedSolarCost,
+      annualLitresSaved: generator.annualLitres - (after?.annualLitres || 0),
+      annualSaving,
+      years: annualSaving > 0 ? settings.proposedSolarCost / annualSaving : Infinity
+    };
+  }
+
+  return {
+    sources,
+    generator,
+    battery: batteryWear,
+    annualCost,
+    annualKWhConsumed,
+    costPerKWh: annualKWhConsumed > 0 ? annualCost / annualKWhConsumed : NaN,
+    payback
+  };
+};
@@ -1,7 +1,8 @@
 
 // Use FunctionCallingConfigMode enum to satisfy the type requirement for tool configuration.
 import { GoogleGenAI, Type, Chat, FunctionCallingConfigMode } from "@google/genai";
-import { ChatMode } from "../types";
+import { ChatMode, PowerItem, ChargingSource, BatteryConfig, SystemTotals } from "../types";
+import { buildCableSchedule } from "./powerLogic";
 
 const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
@@ -37,7 +38,9 @@ const SOURCE_TOOLS = [{
         input: { type: Type.NUMBER, description: 'Input value in WATTS per unit.' },
         hours: { type: Type.NUMBER, description: 'Generation hours per day' },
         efficiency: { type: Type.NUMBER, description: 'Performance Ratio (PR). Default 0.85 for Monofacial. Use 0.95 for Bifacial (BF) to reflect 12% rear-side gain.' },
-        type: { type: Type.STRING, enum: ['solar', 'alternator', 'generator', 'mppt', 'charger', 'wind', 'other'] }
+        type: { type: Type.STRING, enum: ['solar', 'alternator', 'generator', 'mppt', 'charger', 'wind', 'other'] },
+        tempCoeffPct: { type: Type.NUMBER, description: 'Solar only. Pmax temperature coefficient in %/°C from the datasheet (e.g. -0.35).' },
+        noctC: { type: Type.NUMBER, description: 'Solar only. NOCT in °C from the datasheet (e.g. 45).' }
       },
       required: ['name', 'input', 'type']
     }
@@ -54,11 +57,12 @@ export const createChatSession = (mode: ChatMode): Chat => {
         1. Analyze user input for technical specifications.
         2. When estimating AC items, you MUST explicitly consider the total system overhead.
         3. For AC Loads (Inverter), focus on the item's plate wattage. The system automatically calculates conversion losses (efficiency curve).
-        4. If a user asks for an inverter itself, suggest placing it in "System Mgmt" as a standby load.
+        4. Inverters are configured in the Inverters table (rated W, surge, idle draw). Do NOT add an inverter or its standby draw as a load.
         5. **SOLAR EFFICIENCY (Performance Ratio):**
            - **Standard/Monofacial:** Use **0.85**.
            - **Bifacial (BF):** Use **0.95**.
            - **DETECTION:** Automatically apply 0.95 if the model contains: "Bifacial", "BF", "Bi-Glass", "Dual Glass", "N-Type", "Tiger Neo", "Deep Blue", "Hi-MO".
+           - If the datasheet gives a Pmax temperature coefficient or NOCT, pass them as 'tempCoeffPct' and 'noctC'. The planner then models the array physically (orientation, heat, shading, controller) instead of using the flat efficiency.
         6. Even if some data is missing, make a technical estimate and put assumptions in 'notes'.
         7. If the user mentions multiple items (e.g., "2 solar panels"), set 'quantity' accordingly.
         8. **POWER INPUT IS ALWAYS WATTS.** If the user provides Amps (e.g. "20A DC-DC Charger"), YOU MUST CALCULATE THE WATTS (Amps × System Voltage). Assume 24V if voltage is not specified in the prompt.
@@ -90,16 +94,11 @@ export const createChatSession = (mode: ChatMode): Chat => {
       3. Suggest improvements.
       
       When the user asks for CABLE SIZING or WIRE GAUGE:
-      1. Analyze [SYSTEM STATE CONTEXT] loads row by row.
-      2. For each load, calculate Amps (Watts / Bus Voltage).
-      3. Suggest AWG or mm² sizes based on typical 3% voltage drop standards for off-grid.
-      4. **HARDWARE-SPECIFIC RECOMMENDATIONS:**
-         - **Inverter Path (e.g., 3000-4000W):** 0000 AWG (95mm²) with 250A ANL Fuse.
-         - **DC Air Con (e.g., 40-50A):** 6 AWG (16mm²) with 50A Breaker.
-         - **Induction Cooker (e.g., 1800W+):** 2 AWG (35mm²) with 125A Fuse.
-         - **Solar:** Size for VOC/Imp + 1.25x safety factor.
-      5. Include Fuse/Breaker recommendations for each major circuit.
-      6. Mention that actual sizing depends on cable length (distance).`,
+      1. Use the [CABLE TABLE] in [SYSTEM STATE CONTEXT] as ground truth. It is computed from each circuit's current, one-way length, allowed drop, conductor and temperature.
+      2. Quote its AWG/mm², voltage drop and fuse rating per circuit. Do NOT substitute your own sizes or round to "typical" values.
+      3. Rows marked OVERSIZE exceed the largest listed cable: suggest parallel runs, a shorter run or a higher bus voltage.
+      4. Lengths are user estimates (default 2 m). Tell the user to set real lengths in the Cable drawer if they look like defaults.
+      5. You may explain the reasoning (ampacity vs. drop limited, fuse protects the cable) and add installation advice such as lugs, busbars and fuse placement.`,
       responseMimeType: "application/json",
       responseSchema: {
         type: Type.OBJECT,
@@ -136,3 +135,23 @@ export const getDynamicSuggestions = async (systemSummary: string) => {
     return JSON.parse(response.text || '[]');
   } catch { return ["System Health?", "Load Audit?", "Cable Check?"]; }
 };
+
+/**
+ * Plain-text snapshot of the system for the general chat, including the computed cable table.
+ */
+export const buildSystemContext = (items: PowerItem[], charging: ChargingSource[], battery: BatteryConfig, totals: SystemTotals): string => {
+  const cableLines = buildCableSchedule(items, charging, battery).map(row => {
+    const { sizing, run } = row;
+    const size = sizing.oversize ? 'OVERSIZE (> 4/0 AWG)' : `${sizing.awg} AWG / ${sizing.mm2}mm²`;
+    return `- [${row.kind}] ${row.name}: ${sizing.amps.toFixed(1)}A @ ${sizing.voltage.toFixed(1)}V, ${run.lengthM}m ${run.material} @ ${run.ambientC}°C, max ${run.maxDropPct}% -> ${size}, drop ${sizing.dropV.toFixed(2)}V (${sizing.dropPct.toFixed(1)}%), ${sizing.fuseA}A fuse (${sizing.limitedBy} limited)`;
+  });
+  return [
+    '[SYSTEM STATE CONTEXT]',
+    `Bus: ${battery.voltage}V, ${battery.capacityAh}Ah (${battery.chemistry || 'lifepo4'}), SoC start ${battery.initialSoC}%`,
+    `Daily: ${totals.dailyWhConsumed.toFixed(0)}Wh out, ${totals.dailyWhGenerated.toFixed(0)}Wh in, net ${totals.netWh.toFixed(0)}Wh`,
+    'Loads: ' + items.filter(i => i.enabled !== false).map(i => `${i.name} (${i.quantity || 1}x ${i.watts}W, ${i.hours}h, ${i.category})`).join('; '),
+    'Sources: ' + charging.filter(c => c.enabled !== false).map(c => `${c.name} (${c.quantity || 1}x ${c.input}W, ${c.type})`).join('; '),
+    '[CABLE TABLE]',
+    ...cableLines
+  ].join('\n');
+};
@@ -0,0 +1,133 @@
+import { PowerItem, ChargingSource, BatteryConfig, HistorySlice, HistorySnapshot, HistoryEntry, HistoryPatch, RowsPatch, BatteryPatch, EditHistory } from '../types';
+import { HISTORY_MERGE_MS } from '../constants';
+
+/**
+ * Edit History
+ * Each step stores what it changed as a patch back to the state before it: the rows that differ
+ * and the battery fields that differ, never whole slices. Undo applies the patch and keeps the
+ * reverse patch for redo. Fetched forecasts are not edits and stay put.
+ *
+ * A step is recorded before its edit lands, so the newest step holds the touched slices whole
+ * until the next edit, when the state it led to is known and it shrinks to a patch.
+ */
+
+export interface EditableState {
+  items: PowerItem[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+
+const stripForecast = (battery: BatteryConfig): BatteryConfig => {
+  const { forecast, ...rest } = battery;
+  return rest;
+};
+
+export const takeSnapshot = (state: EditableState, slices: HistorySlice[]): HistorySnapshot => {
+  const snapshot: HistorySnapshot = {};
+  if (slices.includes('items')) snapshot.items = state.items;
+  if (slices.includes('charging')) snapshot.charging = state.charging;
+  if (slices.includes('battery')) snapshot.battery = stripForecast(state.battery);
+  return snapshot;
+};
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+// Rows of `to` that `from` doesn't already hold, plus the id order of `to`
+const diffRows = <T extends { id: string }>(from: T[], to: T[]): RowsPatch<T> => ({
+  order: to.map(row => row.id),
+  changed: to.filter(row => !isSame(row, from.find(f => f.id === row.id)))
+});
+
+const applyRows = <T extends { id: string }>(base: T[], patch: RowsPatch<T>): T[] =>
+  patch.order.map(id => patch.changed.find(row => row.id === id) || base.find(row => row.id === id)).filter((row): row is T => !!row);
+
+const diffBattery = (from: BatteryConfig, to: BatteryConfig): BatteryPatch => {
+  const before: Record<string, unknown> = { ...stripForecast(from) };
+  const after: Record<string, unknown> = { ...stripForecast(to) };
+  return {
+    set: Object.fromEntries(Object.entries(after).filter(([k, v]) => !isSame(v, before[k]))),
+    unset: Object.keys(before).filter(k => !(k in after))
+  };
+};
+
+const applyBattery = (base: BatteryConfig, patch: BatteryPatch): BatteryConfig => {
+  const next = { ...stripForecast(base), ...patch.set } as Record<string, unknown>;
+  patch.unset.forEach(k => { delete next[k]; });
+  return next as unknown as BatteryConfig;
+};
+
+// The patch that turns `from` into `to`, for the slices `to` holds
+const makePatch = (from: EditableState, to: HistorySnapshot): HistoryPatch => {
+  const patch: HistoryPatch = {};
+  if (to.items) patch.items = diffRows(from.items, to.items);
+  if (to.charging) patch.charging = diffRows(from.charging, to.charging);
+  if (to.battery) patch.battery = diffBattery(from.battery, to.battery);
+  return patch;
+};
+
+const applyPatch = (state: EditableState, patch: HistoryPatch): HistorySnapshot => {
+  const snapshot: HistorySnapshot = {};
+  if (patch.items) snapshot.items = applyRows(state.items, patch.items);
+  if (patch.charging) snapshot.charging = applyRows(state.charging, patch.charging);
+  if (patch.battery) snapshot.battery = applyBattery(state.battery, patch.battery);
+  return snapshot;
+};
+
+// The slices as the entry leads back to them, from the current state
+const resolveEntry = (entry: HistoryEntry, current: EditableState): HistorySnapshot =>
+  entry.snapshot || applyPatch(current, entry.patch || {});
+
+const toPatchEntry = (entry: HistoryEntry, current: EditableState): HistoryEntry => {
+  if (!entry.snapshot) return entry;
+  const { snapshot, ...rest } = entry;
+  return { ...rest, patch: makePatch(current, snapshot) };
+};
+
+/**
+ * Adds a step and clears redo. `current` is the state the step is recorded against, which is
+ * where the previous step's edit led, so that step becomes a patch. A step with the same key as
+ * the last one, soon after it, extends that step instead, so typing a number is one undo.
+ */
+export const pushEdit = (history: EditHistory, entry: HistoryEntry, depth: number, current: EditableState): EditHistory => {
+  const last = history.past[history.past.length - 1];
+  if (entry.key && last?.key === entry.key && history.future.length === 0 && entry.at - last.at < HISTORY_MERGE_MS) {
+    return { past: [...history.past.slice(0, -1), { ...last, at: entry.at }], future: [] };
+  }
+  const past = last ? [...history.past.slice(0, -1), toPatchEntry(last, current)] : [];
+  return { past: [...past, entry].slice(-depth), future: [] };
+};
+
+// The slices a step leads to, and the step that leads back to `current`
+const step = (entry: HistoryEntry, current: EditableState) => {
+  const snapshot = resolveEntry(entry, current);
+  const back = takeSnapshot(current, Object.keys(snapshot) as HistorySlice[]);
+  const reverse: HistoryEntry = { label: entry.label, key: entry.key, at: entry.at, patch: makePatch({ ...current, ...snapshot }, back) };
+  return { snapshot, reverse };
+};
+
+export const undoEdit = (history: EditHistory, current: EditableState): { history: EditHistory, snapshot: HistorySnapshot } | null => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  const { snapshot, reverse } = step(entry, current);
+  return {
+    history: { past: history.past.slice(0, -1), future: [...history.future, { ...reverse, key: undefined }] },
+    snapshot
+  };
+};
+
+export const redoEdit = (history: EditHistory, current: EditableState): { history: EditHistory, snapshot: HistorySnapshot } | null => {
+  const entry = history.future[history.future.length - 1];
+  if (!entry) return null;
+  const { snapshot, reverse } = step(entry, current);
+  return {
+    history: { past: [...history.past, reverse], future: history.future.slice(0, -1) },
+    snapshot
+  };
+};
+
+export const trimHistory = (history: EditHistory, depth: number): EditHistory => ({
+  past: history.past.slice(-depth),
+  future: history.future.slice(-depth)
+});
@@ -0,0 +1,126 @@
+import { PowerItem, ChargingSource, BatteryConfig, JournalEntry, JournalPlan, JournalActual, LearnedFactor, TelemetryImport } from '../types';
+import { JOURNAL_MIN_DAYS, JOURNAL_PRIOR_WEIGHT, JOURNAL_FACTOR_RANGE } from '../constants';
+import { calculateSystemTotals, calculateSourceEnergy, getHouseBankView, normalizeAutoSolarHours } from './powerLogic';
+import { simulateDay } from './simulation';
+
+/**
+ * Energy Journal
+ * One entry per calendar day: the plan as it stood, and what the shunt or the user says happened.
+ * Solar rows learn a yield factor from the gap between the two.
+ */
+
+const FIT_ITERATIONS = 50;
+
+/**
+ * Today's plan for the journal. Per-row solar is modelled without learned factors, so the
+ * factors are always fitted against the raw model rather than against themselves.
+ */
+export const snapshotPlan = (items: PowerItem[], charging: ChargingSource[], battery: BatteryConfig, date: string): JournalPlan => {
+  const totals = calculateSystemTotals(items, charging, battery);
+  const simulation = simulateDay(items, charging, battery, { date: new Date(`${date}T12:00`) });
+  const house = getHouseBankView(items, charging, { ...battery, applyLearnedFactors: false });
+  const norm = normalizeAutoSolarHours(battery);
+  const sourceSolarWh: Record<string, number> = {};
+  house.charging.forEach(source => {
+    if (source.type === 'solar' && source.enabled !== false) sourceSolarWh[source.id] = calculateSourceEnergy(source, house.battery).wh;
+  });
+  return {
+    generatedWh: totals.dailyWhGenerated,
+    consumedWh: totals.dailyWhConsumed,
+    netWh: totals.netWh,
+    endSoC: simulation.finalSoC,
+    psh: norm.value ?? norm.fallbackValue,
+    solarWh: Object.values(sourceSolarWh).reduce((a, b) => a + b, 0),
+    sourceSolarWh,
+    recordedAt: Date.now()
+  };
+};
+
+// Planned figures without the timestamp, to tell a real change from a re-render
+const isSamePlan = (a: JournalPlan | undefined, b: JournalPlan): boolean =>
+  !!a && JSON.stringify({ ...a, recordedAt: 0 }) === JSON.stringify({ ...b, recordedAt: 0 });
+
+/**
+ * The scenario that stands for the real installation. The journal compares plans with what the
+ * installed kit did, so only this one records plans. Falls back to the first scenario.
+ */
+export const getRigScenarioId = (scenarios: { id: string }[], rigScenarioId?: string): string =>
+  scenarios.some(s => s.id === rigScenarioId) ? rigScenarioId! : scenarios[0].id;
+
+export const upsertJournalPlan = (journal: JournalEntry[], date: string, plan: JournalPlan): JournalEntry[] => {
+  const existing = journal.find(e => e.date === date);
+  if (isSamePlan(existing?.planned, plan)) return journal;
+  return existing
+    ? journal.map(e => e.date === date ? { ...e, planned: plan } : e)
+    : [...journal, { date, planned: plan }].sort((a, b) => a.date.localeCompare(b.date));
+};
+
+export const upsertJournalActual = (journal: JournalEntry[], date: string, actual: JournalActual | undefined): JournalEntry[] => {
+  const existing = journal.find(e => e.date === date);
+  if (!existing) return actual ? [...journal, { date, actual }].sort((a, b) => a.date.localeCompare(b.date)) : journal;
+  return journal.map(e => e.date === date ? { ...e, actual } : e).filter(e => e.planned || e.actual);
+};
+
+/**
+ * Actuals from an imported log: daily PV yield and the last logged SoC of each day.
+ * Values typed in by hand are left alone.
+ */
+export const fillFromTelemetry = (journal: JournalEntry[], telemetry: TelemetryImport): JournalEntry[] =>
+  telemetry.days.reduce((next, day) => {
+    const existing = next.find(e => e.date === day.date);
+    if (existing?.actual?.origin === 'manual') return next;
+    const lastSoC = [...(day.hours || [])].reverse().find(h => h.soc !== undefined)?.soc;
+    if (day.pvWh === undefined && lastSoC === undefined) return next;
+    return upsertJournalActual(next, day.date, { solarWh: day.pvWh, endSoC: lastSoC, origin: 'telemetry' });
+  }, journal);
+
+/**
+ * One factor per solar row, so Σ factor × planned row yield matches each day's actual solar.
+ * Rows that always appear together can't be told apart and share the gap in proportion;
+ * each factor is held towards 1 by a prior worth a fraction of a day.
+ */
+export const learnFactors = (journal: JournalEntry[], charging: ChargingSource[]): LearnedFactor[] => {
+  const days = journal.filter(e => e.planned && e.planned.solarWh > 0 && e.actual?.solarWh !== undefined);
+  const sourceIds = charging.filter(c => c.type === 'solar').map(c => c.id)
+    .filter(id => days.some(d => (d.planned!.sourceSolarWh[id] || 0) > 0));
+  if (sourceIds.length === 0) return [];
+
+  const planned = days.map(d => sourceIds.map(id => d.planned!.sourceSolarWh[id] || 0));
+  const actual = days.map(d => d.actual!.solarWh!);
+  const meanWh = sourceIds.map((_, s) => planned.reduce((sum, row) => sum + row[s], 0) / days.length);
+  const meanTotalWh = meanWh.reduce((a, b) => a + b, 0);
+  const prior = meanWh.map(wh => JOURNAL_PRIOR_WEIGHT * wh * meanTotalWh);
+  const factors = sourceIds.map(() => 1);
+  for (let iter = 0; iter < FIT_ITERATIONS; iter++) {
+    sourceIds.forEach((_, s) => {
+      let num = prior[s];
+      let den = prior[s];
+      planned.forEach((row, d) => {
+        const others = row.reduce((sum, wh, k) => k === s ? sum : sum + factors[k] * wh, 0);
+        num += row[s] * (actual[d] - others);
+        den += row[s] * row[s];
+      });
+      factors[s] = den > 0 ? Math.min(JOURNAL_FACTOR_RANGE[1], Math.max(JOURNAL_FACTOR_RANGE[0], num / den)) : 1;
+    });
+  }
+
+  return sourceIds
+    .map((sourceId, s) => ({ sourceId, factor: factors[s], days: planned.filter(row => row[s] > 0).length }))
+    .filter(f => f.days >= JOURNAL_MIN_DAYS);
+};
+
+/**
+ * Writes learned factors onto the solar rows. Returns the same array when nothing moved.
+ */
+export const applyLearnedFactors = (charging: ChargingSource[], factors: LearnedFactor[]): ChargingSource[] => {
+  let changed = false;
+  const next = charging.map(source => {
+    if (source.type !== 'solar') return source;
+    const learned = factors.find(f => f.sourceId === source.id);
+    const factor = learned ? Math.round(learned.factor * 100) / 100 : undefined;
+    if (factor === source.learnedFactor) return source;
+    changed = true;
+    return { ...source, learnedFactor: factor };
+  });
+  return changed ? next : charging;
+};
@@ -0,0 +1,345 @@
+import { LiveSettings, LiveEntities, LiveReading, LiveStatus, DaySimulation } from '../types';
+import { LIVE_RECONNECT_MS, LIVE_AVERAGE_WINDOW_MS, MQTT_KEEPALIVE_S, MOCK_INTERVAL_MS } from '../constants';
+
+/**
+ * Live Data
+ * Home Assistant's WebSocket API, or an MQTT broker's WebSocket listener, read straight from the browser.
+ * Four readings are mapped: SoC, PV power, load power and temperature. Nothing is written back.
+ */
+
+type LiveField = keyof LiveEntities;
+
+export interface LiveHandlers {
+  onReading: (reading: LiveReading) => void;
+  onStatus: (status: LiveStatus, message?: string) => void;
+}
+
+interface TransportContext {
+  settings: LiveSettings;
+  push: (field: LiveField, raw: unknown, unit?: string) => void;
+  report: (event: 'live' | 'closed' | 'fatal', message?: string) => void; // Closed retries, fatal doesn't
+  plan?: DaySimulation;
+}
+
+type Transport = (context: TransportContext) => () => void;
+
+const MOCK_LOAD_BIAS = 1.15; // The fixture draws over plan so the comparison has something to show
+
+/**
+ * Planned SoC and power at a clock hour, read off the simulated day.
+ */
+export const getPlannedAt = (simulation: DaySimulation, hour: number) => {
+  const position = Math.min(24, Math.max(0, hour)) / simulation.stepHours;
+  const index = Math.min(simulation.points.length - 1, Math.floor(position));
+  const point = simulation.points[index];
+  const prevSoC = index > 0 ? simulation.points[index - 1].soc : simulation.startSoC;
+  return {
+    socPct: prevSoC + (point.soc - prevSoC) * Math.min(1, position - index),
+    loadW: point.loadWh / simulation.stepHours,
+    genW: point.genWh / simulation.stepHours
+  };
+};
+
+// A raw state in the planner's units. Non-numeric states (unavailable, unknown) are dropped.
+const toValue = (field: LiveField, raw: unknown, unit?: string): number | undefined => {
+  let value = typeof raw === 'number' ? raw : typeof raw === 'string' ? parseFloat(raw) : NaN;
+  if (!isFinite(value)) return undefined;
+  const u = (unit || '').trim().toLowerCase();
+  if ((field === 'pv' || field === 'load') && u === 'kw') value *= 1000;
+  if (field === 'temp' && u.endsWith('f')) value = (value - 32) * 5 / 9;
+  return value;
+};
+
+// Mean over the window, each value held until the next one arrives
+const timeWeightedMean = (samples: { time: number; value: number }[], now: number): number | undefined => {
+  if (samples.length === 0) return undefined;
+  const start = Math.max(samples[0].time, now - LIVE_AVERAGE_WINDOW_MS);
+  if (now <= start) return samples[samples.length - 1].value;
+  const sum = samples.reduce((s, sample, i) => {
+    const from = Math.max(sample.time, start);
+    const to = i + 1 < samples.length ? samples[i + 1].time : now;
+    return to > from ? s + sample.value * (to - from) : s;
+  }, 0);
+  return sum / (now - start);
+};
+
+const createReadingStore = (onReading: LiveHandlers['onReading']) => {
+  const reading: LiveReading = { updatedAt: 0 };
+  const history: Record<'pv' | 'load', { time: number; value: number }[]> = { pv: [], load: [] };
+  return (field: LiveField, raw: unknown, unit?: string) => {
+    const value = toValue(field, raw, unit);
+    if (value === undefined) return;
+    const now = Date.now();
+    if (field === 'soc') reading.socPct = Math.min(100, Math.max(0, value));
+    else if (field === 'temp') reading.tempC = value;
+    else {
+      if (field === 'pv') reading.pvW = value;
+      else reading.loadW = value;
+      const samples = history[field];
+      samples.push({ time: now, value });
+      while (samples.length > 1 && samples[1].time <= now - LIVE_AVERAGE_WINDOW_MS) samples.shift();
+    }
+    onReading({ ...reading, pvAvgW: timeWeightedMean(history.pv, now), loadAvgW: timeWeightedMean(history.load, now), updatedAt: now });
+  };
+};
+
+/**
+ * http(s)://host:8123 → ws(s)://host:8123/api/websocket. A bare host is taken as plain ws.
+ */
+export const getHomeAssistantSocketUrl = (url: string): string => {
+  const base = url.trim().replace(/\/+$/, '').replace(/\/api\/websocket$/, '');
+  return /^[a-z]+:\/\//i.test(base) ? `${base.replace(/^http/i, 'ws')}/api/websocket` : `ws://${base}/api/websocket`;
+};
+
+const getMappedFields = (entities: LiveEntities) =>
+  (Object.keys(entities) as LiveField[]).map(field => ({ field, id: entities[field].trim() })).filter(e => e.id);
+
+const openHomeAssistant: Transport = ({ settings, push, report }) => {
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(getHomeAssistantSocketUrl(settings.url));
+  } catch (e: any) {
+    report('fatal', e.message || 'Invalid URL.');
+    return () => {};
+  }
+  const mapped = getMappedFields(settings.entities);
+  const units = new Map<string, string>();
+  let done = false;
+  const fail = (message: string) => {
+    done = true;
+    report('fatal', message);
+    socket.close();
+  };
+  const handleState = (entityId: string, state: unknown, attributes?: Record<string, any>) => {
+    if (attributes?.unit_of_measurement) units.set(entityId, attributes.unit_of_measurement);
+    mapped.filter(e => e.id === entityId).forEach(e => push(e.field, state, units.get(entityId)));
+  };
+
+  socket.onmessage = (event) => {
+    let msg: any;
+    try { msg = JSON.parse(event.data); } catch { return; }
+    if (msg.type === 'auth_required') socket.send(JSON.stringify({ type: 'auth', access_token: settings.token || '' }));
+    else if (msg.type === 'auth_invalid') fail(msg.message || 'Home Assistant rejected the token.');
+    else if (msg.type === 'auth_ok') {
+      // Sends every subscribed state up front ('a'), then compressed changes ('c')
+      socket.send(JSON.stringify({ id: 1, type: 'subscribe_entities', entity_ids: mapped.map(e => e.id) }));
+      report('live');
+    } else if (msg.type === 'result' && msg.success === false) fail(msg.error?.message || 'Subscription refused.');
+    else if (msg.type === 'event' && msg.event) {
+      Object.entries<any>(msg.event.a || {}).forEach(([id, state]) => handleState(id, state.s, state.a));
+      Object.entries<any>(msg.event.c || {}).forEach(([id, diff]) => diff['+'] && handleState(id, diff['+'].s, diff['+'].a));
+    }
+  };
+  socket.onclose = () => { if (!done) report('closed', `Can't reach ${settings.url}. Retrying.`); };
+  return () => {
+    done = true;
+    socket.onclose = null;
+    socket.close();
+  };
+};
+
+// Minimal MQTT 3.1.1: connect, subscribe at QoS 0, read publishes, keep alive
+const encodeString = (value: string): number[] => {
+  const bytes = Array.from(new TextEncoder().encode(value));
+  return [bytes.length >> 8, bytes.length & 0xff, ...bytes];
+};
+
+const encodeLength = (length: number): number[] => {
+  const out: number[] = [];
+  do {
+    let byte = length % 128;
+    length = Math.floor(length / 128);
+    if (length > 0) byte |= 0x80;
+    out.push(byte);
+  } while (length > 0);
+  return out;
+};
+
+const mqttPacket = (header: number, body: number[]) => new Uint8Array([header, ...encodeLength(body.length), ...body]);
+
+const encodeMqttConnect = (clientId: string, username?: string, password?: string) => {
+  const flags = 0x02 | (username ? 0x80 : 0) | (username && password ? 0x40 : 0); // Clean session
+  return mqttPacket(0x10, [
+    ...encodeString('MQTT'), 4, flags, MQTT_KEEPALIVE_S >> 8, MQTT_KEEPALIVE_S & 0xff,
+    ...encodeString(clientId),
+    ...(username ? encodeString(username) : []),
+    ...(username && password ? encodeString(password) : [])
+  ]);
+};
+
+const encodeMqttSubscribe = (packetId: number, filters: string[]) =>
+  mqttPacket(0x82, [packetId >> 8, packetId & 0xff, ...filters.flatMap(f => [...encodeString(f), 0])]);
+
+const MQTT_PINGREQ = new Uint8Array([0xc0, 0]);
+
+const CONNACK_ERRORS: Record<number, string> = {
+  1: 'Broker does not speak MQTT 3.1.1.',
+  2: 'Broker rejected the client id.',
+  3: 'Broker unavailable.',
+  4: 'Bad username or password.',
+  5: 'Not authorised.'
+};
+
+// Complete packets in the buffer, and the bytes of a packet still arriving
+const decodeMqttPackets = (buffer: Uint8Array) => {
+  const packets: { type: number; flags: number; body: Uint8Array }[] = [];
+  let offset = 0;
+  while (offset < buffer.length) {
+    let length = 0;
+    let multiplier = 1;
+    let pos = offset + 1;
+    let byte: number;
+    do {
+      if (pos >= buffer.length) return { packets, rest: buffer.slice(offset) };
+      byte = buffer[pos++];
+      length += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    if (pos + length > buffer.length) break;
+    packets.push({ type: buffer[offset] >> 4, flags: buffer[offset] & 0x0f, body: buffer.slice(pos, pos + length) });
+    offset = pos + length;
+  }
+  return { packets, rest: buffer.slice(offset) };
+};
+
+const topicMatches = (filter: string, topic: string): boolean => {
+  const f = filter.split('/');
+  const t = topic.split('/');
+  for (let i = 0; i < f.length; i++) {
+    if (f[i] === '#') return true;
+    if (i >= t.length || (f[i] !== '+' && f[i] !== t[i])) return false;
+  }
+  return f.length === t.length;
+};
+
+// Plain numbers, or JSON such as Venus OS's {"value": 87.5}
+const parseMqttPayload = (payload: string): unknown => {
+  try {
+    const json = JSON.parse(payload);
+    return json !== null && typeof json === 'object' ? json.value ?? json.state : json;
+  } catch {
+    return payload;
+  }
+};
+
+const openMqtt: Transport = ({ settings, push, report }) => {
+  let socket: WebSocket;
+  try {
+    socket = new WebSocket(settings.url.trim(), 'mqtt');
+  } catch (e: any) {
+    report('fatal', e.message || 'Invalid broker URL.');
+    return () => {};
+  }
+  socket.binaryType = 'arraybuffer';
+  const mapped = getMappedFields(settings.entities);
+  const decoder = new TextDecoder();
+  let buffer = new Uint8Array(0);
+  let ping: ReturnType<typeof setInterval> | null = null;
+  let done = false;
+
+  socket.onopen = () => socket.send(encodeMqttConnect(`solsum-${Math.random().toString(36).substr(2, 8)}`, settings.username?.trim(), settings.password));
+  socket.onmessage = (event) => {
+    const incoming = new Uint8Array(event.data as ArrayBuffer);
+    const joined = new Uint8Array(buffer.length + incoming.length);
+    joined.set(buffer);
+    joined.set(incoming, buffer.length);
+    const { packets, rest } = decodeMqttPackets(joined);
+    buffer = rest;
+    packets.forEach(({ type, flags, body }) => {
+      if (type === 2) { // CONNACK
+        if (body[1] !== 0) {
+          done = true;
+          report('fatal', CONNACK_ERRORS[body[1]] || `Broker refused the connection (${body[1]}).`);
+          socket.close();
+          return;
+        }
+        socket.send(encodeMqttSubscribe(1, mapped.map(e => e.id)));
+        ping = setInterval(() => socket.readyState === WebSocket.OPEN && socket.send(MQTT_PINGREQ), (MQTT_KEEPALIVE_S * 1000) / 2);
+        report('live');
+      } else if (type === 3) { // PUBLISH
+        const topicLength = (body[0] << 8) | body[1];
+        const topic = decoder.decode(body.slice(2, 2 + topicLength));
+        const payloadStart = 2 + topicLength + (((flags >> 1) & 3) > 0 ? 2 : 0);
+        const payload = parseMqttPayload(decoder.decode(body.slice(payloadStart)));
+        mapped.filter(e => topicMatches(e.id, topic)).forEach(e => push(e.field, payload));
+      }
+    });
+  };
+  socket.onclose = () => {
+    if (ping) clearInterval(ping);
+    if (!done) report('closed', `Can't reach ${settings.url}. Retrying.`);
+  };
+  return () => {
+    done = true;
+    if (ping) clearInterval(ping);
+    socket.onclose = null;
+    socket.close();
+  };
+};
+
+/**
+ * Fixture feed for trying the live view without a broker. Follows the plan as it stood at
+ * connect time, sent as HA-style states in kW and °F so the unit handling is exercised.
+ */
+const openMock: Transport = ({ push, report, plan }) => {
+  if (!plan) {
+    report('fatal', 'Nothing to mock yet.');
+    return () => {};
+  }
+  const noise = () => 0.9 + Math.random() * 0.2;
+  const tick = () => {
+    const now = new Date();
+    const planned = getPlannedAt(plan, now.getHours() + now.getMinutes() / 60);
+    push('soc', planned.socPct.toFixed(1), '%');
+    push('load', (planned.loadW * MOCK_LOAD_BIAS * noise()).toFixed(0), 'W');
+    push('pv', ((planned.genW * noise()) / 1000).toFixed(3), 'kW');
+    push('temp', (72 + Math.random()).toFixed(1), '°F');
+  };
+  report('live');
+  tick();
+  const timer = setInterval(tick, MOCK_INTERVAL_MS);
+  return () => clearInterval(timer);
+};
+
+const TRANSPORTS: Record<LiveSettings['protocol'], Transport> = {
+  homeassistant: openHomeAssistant,
+  mqtt: openMqtt,
+  mock: openMock
+};
+
+/**
+ * Opens the configured connection and keeps it open until the returned function is called.
+ * Dropped connections retry; rejected credentials stop with an error.
+ */
+export const connectLive = (settings: LiveSettings, handlers: LiveHandlers, plan?: DaySimulation): (() => void) => {
+  const push = createReadingStore(handlers.onReading);
+  let stopped = false;
+  let retry: ReturnType<typeof setTimeout> | null = null;
+  let close = () => {};
+
+  const open = () => {
+    if (stopped) return;
+    handlers.onStatus('connecting');
+    close = TRANSPORTS[settings.protocol]({
+      settings,
+      push,
+      plan,
+      report: (event, message) => {
+        if (stopped) return;
+        if (event === 'live') handlers.onStatus('live');
+        else if (event === 'fatal') handlers.onStatus('error', message);
+        else {
+          handlers.onStatus('connecting', message);
+          retry = setTimeout(open, LIVE_RECONNECT_MS);
+        }
+      }
+    });
+  };
+  open();
+
+  return () => {
+    stopped = true;
+    if (retry) clearTimeout(retry);
+    close();
+  };
+};
@@ -0,0 +1,175 @@
+import { PowerItem, ChargingSource, BatteryConfig, UpgradeCandidate, UpgradeOption, UpgradePick, AutonomyTarget, DrivingProfile } from '../types';
+import { DEFAULT_DRIVING } from '../constants';
+import { calculateAutonomy, getAutonomyForecast, getBatteryBanks, syncHouseBank } from './powerLogic';
+import { simulateMultiDay } from './simulation';
+import { isDriven, getDrivingHours } from './driving';
+import { getMonthBattery } from './yearPlanner';
+import { MonthClimatology } from './weatherService';
+
+/**
+ * Upgrade Optimiser
+ * Cheapest-first search over catalogue quantities. Assumes adding kit never makes
+ * autonomy worse, so any superset of a passing combination is skipped.
+ */
+
+const MAX_OPTIONS = 5;
+const MAX_EVALUATIONS = 800;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Catalogue rows whose unit cost is negative or not a number. The search relies on every pick adding cost.
+export const getInvalidCandidates = (catalogue: UpgradeCandidate[]): UpgradeCandidate[] =>
+  catalogue.filter(c => !isFinite(Number(c.cost)) || Number(c.cost) < 0);
+
+export const getPickCost = (picks: UpgradePick[], catalogue: UpgradeCandidate[]): number =>
+  picks.reduce((sum, p) => sum + (Number(catalogue.find(c => c.id === p.candidateId)?.cost) || 0) * p.qty, 0);
+
+/**
+ * Config with the picks installed. Solar copies the first existing array's orientation and losses;
+ * DC-DC follows the first driven alternator's drive pattern, or the default one.
+ */
+export const applyUpgrade = (
+  charging: ChargingSource[],
+  battery: BatteryConfig,
+  picks: UpgradePick[],
+  catalogue: UpgradeCandidate[]
+): { charging: ChargingSource[], battery: BatteryConfig } => {
+  const existingArray = charging.find(c => c.type === 'solar' && c.array)?.array;
+  // The candidate's own watts stand in for the existing charger's rating
+  const { ratedA, ...drivePattern }: DrivingProfile = charging.find(isDriven)?.driving || DEFAULT_DRIVING;
+  let nextCharging = [...charging];
+  let nextBattery = battery;
+
+  picks.forEach(({ candidateId, qty }) => {
+    const candidate = catalogue.find(c => c.id === candidateId);
+    if (!candidate || qty <= 0) return;
+    if (candidate.kind === 'solar') {
+      nextCharging.push({
+        id: newId(), name: candidate.name, quantity: qty, input: Number(candidate.watts) || 0, unit: 'W',
+        hours: 5, efficiency: 0.85, type: 'solar', autoSolar: true, enabled: true,
+        ...(existingArray ? { array: { ...existingArray } } : {})
+      });
+    } else if (candidate.kind === 'dcdc') {
+      nextCharging.push({
+        id: newId(), name: candidate.name, quantity: qty, input: Number(candidate.watts) || 0, unit: 'W',
+        hours: getDrivingHours(drivePattern), efficiency: 0.9, type: 'alternator', enabled: true, driving: { ...drivePattern }
+      });
+    } else {
+      const banks = getBatteryBanks(nextBattery);
+      nextBattery = syncHouseBank({
+        ...nextBattery,
+        banks: banks.map((b, i) => i === 0 ? { ...b, parallelCount: (Number(b.parallelCount) || 1) + qty } : b)
+      });
+    }
+  });
+
+  return { charging: nextCharging, battery: nextBattery };
+};
+
+export const describeUpgrade = (picks: UpgradePick[], catalogue: UpgradeCandidate[]): string =>
+  picks.length === 0
+    ? 'No change needed'
+    : picks.map(p => `${p.qty}× ${catalogue.find(c => c.id === p.candidateId)?.name || p.candidateId}`).join(' + ');
+
+const evaluate = (items: PowerItem[], charging: ChargingSource[], monthBattery: BatteryConfig, climate: MonthClimatology) => {
+  const cloudDays = calculateAutonomy(items, charging, monthBattery, 'cloud', getAutonomyForecast(monthBattery)).days;
+  const daily = climate.daily.length ? climate.daily : [climate.sunny];
+  const run = simulateMultiDay(items, charging, monthBattery, daily, { dailyAmbientC: climate.dailyTempMax });
+  return { cloudDays, minSoC: run.minSoC };
+};
+
+const meetsTarget = (result: { cloudDays: number, minSoC: number }, target: AutonomyTarget) =>
+  target.kind === 'cloudDays' ? result.cloudDays >= target.value : result.minSoC >= target.value;
+
+interface Combo {
+  qtys: number[];
+  picks: UpgradePick[];
+  cost: number;
+  last: number; // Candidate whose quantity was raised to reach this combo
+}
+
+const makeCombo = (qtys: number[], last: number, catalogue: UpgradeCandidate[]): Combo => {
+  const picks = qtys.map((qty, i) => ({ candidateId: catalogue[i].id, qty })).filter(p => p.qty > 0);
+  return { qtys, picks, cost: getPickCost(picks, catalogue), last };
+};
+
+const isCheaper = (a: Combo, b: Combo) => a.cost < b.cost || (a.cost === b.cost && a.picks.length < b.picks.length);
+
+// Binary min-heap, cheapest combo on top
+const heapPush = (heap: Combo[], combo: Combo) => {
+  heap.push(combo);
+  for (let i = heap.length - 1; i > 0;) {
+    const parent = (i - 1) >> 1;
+    if (!isCheaper(heap[i], heap[parent])) break;
+    [heap[i], heap[parent]] = [heap[parent], heap[i]];
+    i = parent;
+  }
+};
+
+const heapPop = (heap: Combo[]): Combo | undefined => {
+  const top = heap[0];
+  const end = heap.pop();
+  if (end && heap.length > 0) {
+    heap[0] = end;
+    for (let i = 0; ;) {
+      const left = 2 * i + 1;
+      let min = i;
+      if (left < heap.length && isCheaper(heap[left], heap[min])) min = left;
+      if (left + 1 < heap.length && isCheaper(heap[left + 1], heap[min])) min = left + 1;
+      if (min === i) break;
+      [heap[i], heap[min]] = [heap[min], heap[i]];
+      i = min;
+    }
+  }
+  return top;
+};
+
+/**
+ * One more of a candidate, at or after the one this combo last raised. Every quantity vector
+ * then has exactly one parent, and since costs aren't negative a child never beats its parent,
+ * so popping the heap walks the combos cheapest first without ever listing them all.
+ */
+export const expandCombo = (qtys: number[], last: number, maxQtys: number[]): { qtys: number[], last: number }[] =>
+  maxQtys.flatMap((max, i) => i < last || qtys[i] >= max ? [] : [{ qtys: qtys.map((q, k) => k === i ? q + 1 : q), last: i }]);
+
+export const findUpgrades = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig,
+  catalogue: UpgradeCandidate[],
+  target: AutonomyTarget,
+  climate: MonthClimatology
+): { options: UpgradeOption[], evaluated: number, exhausted: boolean } => {
+  const invalid = getInvalidCandidates(catalogue);
+  if (invalid.length) throw new Error(`Invalid cost for ${invalid.map(c => c.name || c.id).join(', ')}: costs must be zero or more.`);
+
+  const maxQtys = catalogue.map(c => Math.max(0, Math.round(Number(c.maxQty) || 0)));
+  // Only evaluated, failing combos are expanded, so the heap stays within catalogue size × evaluations
+  const heap: Combo[] = [makeCombo(maxQtys.map(() => 0), 0, catalogue)];
+
+  const options: UpgradeOption[] = [];
+  const passing: number[][] = [];
+  let evaluated = 0;
+
+  for (let combo = heapPop(heap); combo; combo = heapPop(heap)) {
+    if (options.length >= MAX_OPTIONS || evaluated >= MAX_EVALUATIONS) break;
+    // Supersets of a passing combo are skipped, and so are their children (supersets too)
+    const { qtys } = combo;
+    if (passing.some(p => p.every((q, i) => qtys[i] >= q))) continue;
+
+    const upgraded = applyUpgrade(charging, battery, combo.picks, catalogue);
+    const result = evaluate(items, upgraded.charging, getMonthBattery(upgraded.battery, target.month, climate), climate);
+    evaluated++;
+    if (!meetsTarget(result, target)) {
+      expandCombo(combo.qtys, combo.last, maxQtys).forEach(next => heapPush(heap, makeCombo(next.qtys, next.last, catalogue)));
+      continue;
+    }
+
+    passing.push(combo.qtys);
+    options.push({ picks: combo.picks, cost: combo.cost, ...result });
+    // Nothing beats "already there"
+    if (combo.picks.length === 0) break;
+  }
+
+  return { options, evaluated, exhausted: evaluated >= MAX_EVALUATIONS };
+};
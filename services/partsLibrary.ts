@@ -0,0 +1,107 @@
+import { PartEntry, PartKind, PowerItem, ChargingSource, LoadCategory, Scenario } from '../types';
+import { DEFAULT_SOLAR_ARRAY, DEFAULT_STRINGING } from '../constants';
+
+/**
+ * Parts Library
+ * Typed specs for loads, panels and chargers. Rows created from an entry keep its id,
+ * so a corrected spec can be pushed to every row (and scenario) that uses it.
+ */
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const getPartLabel = (part: PartEntry) => `${part.manufacturer} ${part.model}`.trim();
+
+export const searchParts = (parts: PartEntry[], query: string, kinds?: PartKind[]): PartEntry[] => {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return parts
+    .filter(p => !kinds || kinds.includes(p.kind))
+    .filter(p => {
+      const haystack = `${p.manufacturer} ${p.model} ${p.kind} ${p.sourceType || ''}`.toLowerCase();
+      return terms.every(t => haystack.includes(t));
+    })
+    .sort((a, b) => getPartLabel(a).localeCompare(getPartLabel(b)));
+};
+
+export const createPart = (kind: PartKind): PartEntry => ({
+  id: newId(),
+  kind,
+  manufacturer: '',
+  model: 'New Part',
+  watts: 0,
+  ...(kind === 'load' ? { dutyCycle: 100, category: LoadCategory.DC_LOADS } : {}),
+  ...(kind === 'source' ? { sourceType: 'alternator' as const } : {}),
+  ...(kind === 'panel' ? { panel: { vocV: 0, iscA: 0, vmpV: 0, impA: 0, tempCoeffPmaxPct: -0.35, tempCoeffVocPct: -0.28, noctC: 45 } } : {}),
+  updatedAt: Date.now()
+});
+
+/**
+ * Spec fields a library entry owns on a load row. Usage (hours, schedule, notes) stays with the row.
+ */
+export const applyPartToItem = (item: PowerItem, part: PartEntry): PowerItem => ({
+  ...item,
+  watts: Number(part.watts) || 0,
+  standbyWatts: part.standbyWatts || undefined,
+  dutyCycle: part.dutyCycle ?? item.dutyCycle
+});
+
+export const applyPartToSource = (source: ChargingSource, part: PartEntry): ChargingSource => ({
+  ...source,
+  input: Number(part.watts) || 0,
+  ...(source.array && part.panel ? {
+    array: { ...source.array, tempCoeffPct: part.panel.tempCoeffPmaxPct, noctC: part.panel.noctC ?? source.array.noctC }
+  } : {}),
+  // Wiring stays with the row; the panel's Voc and currents come from the datasheet
+  ...(part.panel ? {
+    stringing: { ...DEFAULT_STRINGING, ...source.stringing, vocV: part.panel.vocV, tempCoeffVocPct: part.panel.tempCoeffVocPct, iscA: part.panel.iscA, impA: part.panel.impA }
+  } : {})
+});
+
+export const itemFromPart = (part: PartEntry, category?: LoadCategory): PowerItem => applyPartToItem({
+  id: newId(),
+  category: category || part.category || LoadCategory.DC_LOADS,
+  name: getPartLabel(part),
+  quantity: 1,
+  watts: 0,
+  hours: 1,
+  dutyCycle: 100,
+  notes: '',
+  enabled: true,
+  partId: part.id
+}, part);
+
+/**
+ * Panels come in as modelled arrays (thermal specs from the datasheet), facing the equator.
+ */
+export const sourceFromPart = (part: PartEntry, latitude: number): ChargingSource => {
+  const isPanel = part.kind === 'panel';
+  return applyPartToSource({
+    id: newId(),
+    name: getPartLabel(part),
+    quantity: 1,
+    input: 0,
+    unit: 'W',
+    hours: isPanel ? 5 : 1,
+    efficiency: isPanel ? 0.85 : 0.9,
+    type: isPanel ? 'solar' : (part.sourceType || 'other'),
+    autoSolar: isPanel,
+    enabled: true,
+    partId: part.id,
+    ...(isPanel ? { array: { ...DEFAULT_SOLAR_ARRAY, azimuthDeg: latitude < 0 ? 0 : 180 } } : {})
+  }, part);
+};
+
+export const pushPartToRows = (part: PartEntry, items: PowerItem[], charging: ChargingSource[]) => ({
+  items: items.map(i => i.partId === part.id ? applyPartToItem(i, part) : i),
+  charging: charging.map(c => c.partId === part.id ? applyPartToSource(c, part) : c)
+});
+
+export const countPartUsage = (partId: string, scenarios: Scenario[]): { rows: number, scenarios: number } => {
+  let rows = 0;
+  let inScenarios = 0;
+  scenarios.forEach(s => {
+    const n = s.items.filter(i => i.partId === partId).length + s.charging.filter(c => c.partId === partId).length;
+    rows += n;
+    if (n > 0) inScenarios++;
+  });
+  return { rows, scenarios: inScenarios };
+};
@@ -0,0 +1,182 @@
+import { PowerItem, BatteryConfig, LoadCategory, Inverter, PeakLoad, PeakReport, PeakViolation, TimeWindow } from '../types';
+import { getBatteryBanks, getPackVoltage, isOnBank, findInverter, getInverterCurveEfficiency } from './powerLogic';
+import { buildScheduleProfile, hasSchedule } from './schedule';
+
+/**
+ * Peak Demand Analyser
+ * Finds the worst continuous and the worst surge draw among the sets of loads that can run
+ * at once, and checks each against inverter ratings, BMS max discharge current and the main fuse.
+ */
+
+const SLOTS = 96;
+
+export interface SimultaneousSet {
+  items: PowerItem[];
+  window?: TimeWindow; // Unset = any time
+}
+
+// Per-set figures before the continuous and surge peaks are picked apart
+type SetPeak = Pick<PeakLoad, 'continuousW' | 'surgeW' | 'continuousA' | 'surgeA' | 'itemIds'> & { window?: TimeWindow };
+
+const itemWatts = (item: PowerItem) => (Number(item.watts) || 0) * (Number(item.quantity) || 1);
+
+const itemSurgeExtraW = (item: PowerItem) => itemWatts(item) * Math.max(0, (Number(item.surgeMultiplier) || 1) - 1);
+
+/**
+ * Sets of loads that can be on together. Scheduled loads coincide when their windows overlap,
+ * grouped loads coincide with their group, and loads with neither are assumed to coincide with everything.
+ * Consecutive slots with the same scheduled loads share one set and window.
+ */
+export const getSimultaneousSets = (items: PowerItem[]): SimultaneousSet[] => {
+  const enabled = items.filter(i => i.enabled !== false && itemWatts(i) > 0);
+  const free = enabled.filter(i => !hasSchedule(i.schedule) && !i.simultaneousGroup);
+  const sets: SimultaneousSet[] = [];
+
+  const scheduled = enabled.filter(i => hasSchedule(i.schedule));
+  if (scheduled.length > 0) {
+    const profiles = scheduled.map(i => buildScheduleProfile(i.schedule, SLOTS));
+    const slotHours = 24 / SLOTS;
+    for (let slot = 0; slot < SLOTS; slot++) {
+      const active = scheduled.filter((_, idx) => profiles[idx][slot] > 0);
+      if (active.length === 0) continue;
+      const last = sets[sets.length - 1];
+      if (last?.window?.end === slot * slotHours && last.items.length === active.length && active.every(i => last.items.includes(i))) {
+        last.window.end = (slot + 1) * slotHours;
+      } else {
+        sets.push({ items: active, window: { start: slot * slotHours, end: (slot + 1) * slotHours } });
+      }
+    }
+  }
+
+  const groups = new Map<string, PowerItem[]>();
+  enabled.forEach(i => {
+    const key = i.simultaneousGroup?.trim();
+    if (!key) return;
+    groups.set(key, [...(groups.get(key) || []), i]);
+  });
+  groups.forEach(members => sets.push({ items: members }));
+
+  if (sets.length === 0) return [{ items: free }];
+  return sets.map(set => ({ ...set, items: [...free, ...set.items.filter(i => !free.includes(i))] }));
+};
+
+/**
+ * Worst continuous and worst surge, each taken from whichever set produces it.
+ */
+const worstOf = (peaks: SetPeak[]): PeakLoad => {
+  const none: SetPeak = { continuousW: 0, surgeW: 0, continuousA: 0, surgeA: 0, itemIds: [] };
+  const continuous = peaks.reduce((worst, p) => (p.continuousW > worst.continuousW || (p.continuousW === worst.continuousW && p.surgeW > worst.surgeW)) ? p : worst, none);
+  const surge = peaks.reduce((worst, p) => (p.surgeW > worst.surgeW || (p.surgeW === worst.surgeW && p.continuousW > worst.continuousW)) ? p : worst, none);
+  return {
+    continuousW: continuous.continuousW,
+    continuousA: continuous.continuousA,
+    itemIds: continuous.itemIds,
+    continuousWindow: continuous.window,
+    surgeW: surge.surgeW,
+    surgeA: surge.surgeA,
+    surgeItemIds: surge.itemIds,
+    surgeWindow: surge.window
+  };
+};
+
+const formatClock = (hour: number) => `${Math.floor(hour).toString().padStart(2, '0')}:${Math.round((hour % 1) * 60).toString().padStart(2, '0')}`;
+
+export const formatPeakWindow = (window?: TimeWindow): string => window ? `${formatClock(window.start)}–${formatClock(window.end)}` : 'any time';
+
+/**
+ * AC side of one inverter for a set of loads. Amps are DC input at the bus voltage.
+ */
+const evaluateInverter = ({ items: set, window }: SimultaneousSet, inverter: Inverter, inverters: Inverter[], voltage: number): SetPeak => {
+  const onInverter = set.filter(i => i.category === LoadCategory.AC_LOADS && findInverter(i, inverters) === inverter);
+  const continuousW = onInverter.reduce((sum, i) => sum + itemWatts(i), 0);
+  const surgeW = continuousW + onInverter.reduce((max, i) => Math.max(max, itemSurgeExtraW(i)), 0);
+  const eff = getInverterCurveEfficiency(inverter, continuousW) || 0.85;
+  return {
+    continuousW,
+    surgeW,
+    continuousA: continuousW / eff / voltage,
+    surgeA: surgeW / eff / voltage,
+    itemIds: onInverter.map(i => i.id),
+    window
+  };
+};
+
+/**
+ * DC draw on the bank: DC loads plus inverter input (AC load / efficiency + idle).
+ */
+const evaluateBank = ({ items: set, window }: SimultaneousSet, inverters: Inverter[], voltage: number): SetPeak => {
+  let continuousW = 0;
+  let maxSurgeExtra = 0;
+  set.forEach(i => {
+    let w = itemWatts(i);
+    let extra = itemSurgeExtraW(i);
+    if (i.category === LoadCategory.AC_LOADS) {
+      const inverter = findInverter(i, inverters);
+      const acLoad = set.filter(o => o.category === LoadCategory.AC_LOADS && findInverter(o, inverters) === inverter)
+        .reduce((sum, o) => sum + itemWatts(o), 0);
+      const eff = inverter ? getInverterCurveEfficiency(inverter, acLoad) : 0.85;
+      w /= (eff || 0.85);
+      extra /= (eff || 0.85);
+    }
+    continuousW += w;
+    maxSurgeExtra = Math.max(maxSurgeExtra, extra);
+  });
+  continuousW += inverters.reduce((sum, inv) => sum + (Number(inv.idleW) || 0), 0);
+  const surgeW = continuousW + maxSurgeExtra;
+  return { continuousW, surgeW, continuousA: continuousW / voltage, surgeA: surgeW / voltage, itemIds: set.map(i => i.id), window };
+};
+
+export const analysePeakDemand = (items: PowerItem[], battery: BatteryConfig): PeakReport => {
+  const banks = getBatteryBanks(battery);
+  const inverters = battery.inverters || [];
+  const violations: PeakViolation[] = [];
+
+  const bankReports = banks.map(bank => {
+    const voltage = getPackVoltage(bank) || Number(battery.voltage) || 24;
+    const bankInverters = inverters.filter(inv => isOnBank(inv, bank, banks));
+    const sets = getSimultaneousSets(items.filter(i => isOnBank(i, bank, banks)));
+    const worst = worstOf(sets.map(set => evaluateBank(set, bankInverters, voltage)));
+
+    const bms = Number(bank.bmsMaxDischargeA) || 0;
+    if (bms > 0 && worst.continuousA > bms) {
+      violations.push({ kind: 'bms', severity: 'error', targetId: bank.id, value: worst.continuousA, limit: bms, itemIds: worst.itemIds,
+        message: `${bank.name}: ${worst.continuousA.toFixed(0)}A continuous (${formatPeakWindow(worst.continuousWindow)}) exceeds BMS ${bms}A` });
+    } else if (bms > 0 && worst.surgeA > bms) {
+      violations.push({ kind: 'bms', severity: 'warning', targetId: bank.id, value: worst.surgeA, limit: bms, itemIds: worst.surgeItemIds,
+        message: `${bank.name}: ${worst.surgeA.toFixed(0)}A surge (${formatPeakWindow(worst.surgeWindow)}) exceeds BMS ${bms}A` });
+    }
+
+    const fuse = Number(bank.mainFuseA) || 0;
+    if (fuse > 0 && worst.continuousA > fuse) {
+      violations.push({ kind: 'fuse', severity: 'error', targetId: bank.id, value: worst.continuousA, limit: fuse, itemIds: worst.itemIds,
+        message: `${bank.name}: ${worst.continuousA.toFixed(0)}A continuous (${formatPeakWindow(worst.continuousWindow)}) exceeds ${fuse}A main fuse` });
+    } else if (fuse > 0 && worst.surgeA > fuse) {
+      violations.push({ kind: 'fuse', severity: 'warning', targetId: bank.id, value: worst.surgeA, limit: fuse, itemIds: worst.surgeItemIds,
+        message: `${bank.name}: ${worst.surgeA.toFixed(0)}A surge (${formatPeakWindow(worst.surgeWindow)}) may blow the ${fuse}A main fuse` });
+    }
+
+    return { ...worst, bankId: bank.id, name: bank.name };
+  });
+
+  const inverterReports = inverters.map(inv => {
+    const bank = banks.find(b => isOnBank(inv, b, banks)) || banks[0];
+    const voltage = getPackVoltage(bank) || Number(battery.voltage) || 24;
+    const sets = getSimultaneousSets(items);
+    const worst = worstOf(sets.map(set => evaluateInverter(set, inv, inverters, voltage)));
+
+    const rated = Number(inv.ratedW) || 0;
+    if (rated > 0 && worst.continuousW > rated) {
+      violations.push({ kind: 'inverter-continuous', severity: 'error', targetId: inv.id, value: worst.continuousW, limit: rated, itemIds: worst.itemIds,
+        message: `${inv.name}: ${worst.continuousW.toFixed(0)}W continuous (${formatPeakWindow(worst.continuousWindow)}) exceeds ${rated}W rating` });
+    }
+    const surge = Number(inv.surgeW) || rated;
+    if (surge > 0 && worst.surgeW > surge) {
+      violations.push({ kind: 'inverter-surge', severity: 'error', targetId: inv.id, value: worst.surgeW, limit: surge, itemIds: worst.surgeItemIds,
+        message: `${inv.name}: ${worst.surgeW.toFixed(0)}W surge (${formatPeakWindow(worst.surgeWindow)}) exceeds ${surge}W surge rating` });
+    }
+
+    return { ...worst, inverterId: inv.id, name: inv.name };
+  });
+
+  return { banks: bankReports, inverters: inverterReports, violations };
+};
@@ -1,5 +1,10 @@
 
-import { PowerItem, LoadCategory, ChargingSource, BatteryConfig, SystemTotals } from '../types';
+import { PowerItem, LoadCategory, ChargingSource, BatteryConfig, SystemTotals, ChemistryPreset, BatteryBank, BankTotals, Inverter, InverterCurvePoint, CableRun, CableSizing, HourlySeries, ChargeController } from '../types';
+import { CHEMISTRY_PRESETS, INVERTER_CURVE_PRESETS, CABLE_SIZES, CONDUCTOR_PROPERTIES, STANDARD_FUSE_RATINGS, DEFAULT_CABLE_RUN, DEFAULT_LATITUDE, DEFAULT_AMBIENT_C } from '../constants';
+import { schedulesOverlap, isInWindow, buildScheduleProfile } from './schedule';
+import { getArrayFactors, buildArrayProfile } from './arrayPhysics';
+import { buildSolarProfile } from './solarGeometry';
+import { isDriven, getDrivingHours, getDrivingDerate } from './driving';
 
 export const getInverterEfficiency = (watts: number): number => {
   const w = Number(watts) || 0;
@@ -12,6 +17,193 @@ export const getInverterEfficiency = (watts: number): number => {
   return 0.91;
 };
 
+export interface LoadConditions {
+  date?: Date;         // Day being evaluated (month overrides, weekday/weekend)
+  ambientC?: number;   // Daily max air temperature (temperature duty rule)
+  weekBlend?: boolean; // Month-average mode: weight weekday/weekend hours 5:2 instead of using the date's weekday
+}
+
+export interface LoadContext extends LoadConditions {
+  items?: PowerItem[];
+  inverters?: Inverter[];
+}
+
+export const getInverterCurve = (inverter: Inverter): InverterCurvePoint[] => {
+  const curve = inverter.curve && inverter.curve.length > 0
+    ? inverter.curve
+    : (INVERTER_CURVE_PRESETS[inverter.preset] || INVERTER_CURVE_PRESETS.hf).curve;
+  return [...curve].sort((a, b) => a.loadPct - b.loadPct);
+};
+
+/**
+ * Linear interpolation over the inverter's load-point/efficiency table (clamped at both ends).
+ */
+export const getInverterCurveEfficiency = (inverter: Inverter, loadW: number): number => {
+  const curve = getInverterCurve(inverter);
+  const rated = Number(inverter.ratedW) || 2000;
+  const pct = (Math.max(0, Number(loadW) || 0) / rated) * 100;
+  if (curve.length === 0) return getInverterEfficiency(loadW);
+  if (pct <= curve[0].loadPct) return curve[0].efficiency;
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if (pct <= b.loadPct) {
+      const t = (pct - a.loadPct) / ((b.loadPct - a.loadPct) || 1);
+      return a.efficiency + t * (b.efficiency - a.efficiency);
+    }
+  }
+  return curve[curve.length - 1].efficiency;
+};
+
+export const findInverter = (item: PowerItem, inverters: Inverter[] = []): Inverter | undefined => {
+  return inverters.find(inv => inv.id === item.inverterId) || inverters[0];
+};
+
+/**
+ * AC load the inverter carries while this item runs: the item plus every other enabled AC item
+ * on the same inverter whose schedule overlaps it. Unscheduled items are evaluated on their own.
+ */
+export const getInverterLoadW = (item: PowerItem, inverter: Inverter, context: LoadContext): number => {
+  const own = (Number(item.watts) || 0) * (Number(item.quantity) || 1);
+  const others = (context.items || []).filter(other =>
+    other.id !== item.id &&
+    other.enabled !== false &&
+    other.category === LoadCategory.AC_LOADS &&
+    findInverter(other, context.inverters) === inverter &&
+    schedulesOverlap(item.schedule, other.schedule)
+  );
+  return own + others.reduce((sum, o) => sum + (Number(o.watts) || 0) * (Number(o.quantity) || 1), 0);
+};
+
+export const calculateInverterIdleWh = (inverter: Inverter): number => {
+  return (Number(inverter.idleW) || 0) * Math.min(24, Math.max(0, Number(inverter.hoursOn) || 0));
+};
+
+/**
+ * Daily Wh drawn by the loads plus the idle draw of inverters that are switched on.
+ */
+export const calculateDailyConsumption = (items: PowerItem[], battery: BatteryConfig): number => {
+  const systemVoltage = Number(battery.voltage) || 24;
+  const context: LoadContext = { items, inverters: battery.inverters, ...getLoadConditions(battery) };
+  let wh = 0;
+  items.forEach(item => {
+    if (item.enabled === false) return;
+    wh += (Number(calculateItemEnergy(item, systemVoltage, context).wh) || 0);
+  });
+  (battery.inverters || []).forEach(inv => { wh += calculateInverterIdleWh(inv); });
+  return wh;
+};
+
+export const getChemistryPreset = (battery: BatteryConfig): ChemistryPreset => {
+  return CHEMISTRY_PRESETS[battery.chemistry || 'lifepo4'] || CHEMISTRY_PRESETS.lifepo4;
+};
+
+/**
+ * SoC (%) at which the bank counts as flat: the deeper of the DoD limit and the low-voltage reserve.
+ */
+export const getSoCFloor = (battery: BatteryConfig): number => {
+  const preset = getChemistryPreset(battery);
+  return Math.max(preset.reserveSoC, 100 - preset.usableDoD * 100);
+};
+
+// Fraction of nameplate an aged bank still holds
+export const getStateOfHealth = (battery: { stateOfHealthPct?: number }): number =>
+  Math.min(100, Math.max(1, Number(battery.stateOfHealthPct) || 100)) / 100;
+
+/**
+ * Peukert-adjusted capacity at the given average discharge current (rated at C/20).
+ * Starts from the aged capacity and never exceeds it: light loads don't create capacity.
+ */
+export const getEffectiveCapacityAh = (battery: BatteryConfig, dischargeAmps: number): number => {
+  const capacityAh = (Number(battery.capacityAh) || 400) * getStateOfHealth(battery);
+  const k = getChemistryPreset(battery).peukertExponent;
+  const ratedAmps = capacityAh / 20;
+  if (!(dischargeAmps > ratedAmps)) return capacityAh;
+  return capacityAh * Math.pow(ratedAmps / dischargeAmps, k - 1);
+};
+
+/**
+ * Wh change in stored energy for a net flow at the terminals.
+ * Surplus is reduced by charge losses; deficits draw extra to cover discharge losses.
+ */
+export const applyBatteryEfficiency = (netWh: number, battery: BatteryConfig): number => {
+  const preset = getChemistryPreset(battery);
+  return netWh >= 0 ? netWh * preset.chargeEfficiency : netWh / preset.dischargeEfficiency;
+};
+
+export const getPackVoltage = (bank: BatteryBank): number => {
+  return (Number(bank.moduleVoltage) || 0) * Math.max(1, Number(bank.seriesCount) || 1);
+};
+
+export const getPackCapacityAh = (bank: BatteryBank): number => {
+  return (Number(bank.moduleAh) || 0) * Math.max(1, Number(bank.parallelCount) || 1);
+};
+
+/**
+ * Bank list for the config. Legacy single-battery configs become one "House" bank.
+ */
+export const getBatteryBanks = (battery: BatteryConfig): BatteryBank[] => {
+  if (battery.banks && battery.banks.length > 0) return battery.banks;
+  return [{
+    id: 'house',
+    name: 'House',
+    chemistry: battery.chemistry || 'lifepo4',
+    moduleVoltage: Number(battery.voltage) || 24,
+    moduleAh: Number(battery.capacityAh) || 400,
+    seriesCount: 1,
+    parallelCount: 1,
+    initialSoC: Number(battery.initialSoC) || 100,
+    stateOfHealthPct: battery.stateOfHealthPct
+  }];
+};
+
+/**
+ * Single-bank view of the config, so per-bank maths can reuse the BatteryConfig functions.
+ */
+export const getBankBattery = (battery: BatteryConfig, bank: BatteryBank): BatteryConfig => {
+  const banks = getBatteryBanks(battery);
+  return {
+    ...battery,
+    banks: undefined,
+    inverters: battery.inverters?.filter(inv => isOnBank(inv, bank, banks)),
+    chemistry: bank.chemistry,
+    voltage: getPackVoltage(bank),
+    capacityAh: getPackCapacityAh(bank),
+    initialSoC: bank.initialSoC,
+    stateOfHealthPct: bank.stateOfHealthPct
+  };
+};
+
+/**
+ * Mirrors the house bank into the legacy battery fields used across the UI.
+ */
+export const syncHouseBank = (battery: BatteryConfig): BatteryConfig => {
+  if (!battery.banks || battery.banks.length === 0) return battery;
+  const house = battery.banks[0];
+  return {
+    ...battery,
+    chemistry: house.chemistry,
+    voltage: getPackVoltage(house),
+    capacityAh: getPackCapacityAh(house),
+    initialSoC: house.initialSoC,
+    stateOfHealthPct: house.stateOfHealthPct
+  };
+};
+
+/**
+ * Rows without a (valid) bank assignment attach to the house bank.
+ */
+export const isOnBank = (row: { bankId?: string }, bank: BatteryBank, banks: BatteryBank[]): boolean => {
+  if (row.bankId && banks.some(b => b.id === row.bankId)) return row.bankId === bank.id;
+  return bank.id === banks[0].id;
+};
+
+export const getRowVoltage = (row: { bankId?: string }, battery: BatteryConfig): number => {
+  const banks = getBatteryBanks(battery);
+  const bank = banks.find(b => isOnBank(row, b, banks)) || banks[0];
+  return getPackVoltage(bank) || Number(battery.voltage) || 24;
+};
+
 /**
  * Normalizes solar forecast data.
  * Returns status and value. value is null if status is not 'ok'.
@@ -35,19 +227,37 @@ export const normalizeAutoSolarHours = (battery: BatteryConfig): {
     ? battery.forecast?.nowHours 
     : battery.forecast?.sunnyHours;
 
-  if (raw === undefined || raw === null || (raw as any) === '') {
-    return { status: 'nodata', value: null, fallbackValue: DEFAULT_FALLBACK };
+  return validateSolarHours(raw, DEFAULT_FALLBACK);
+};
+
+const validateSolarHours = (raw: unknown, fallback: number): {
+  status: 'ok' | 'nodata' | 'invalid',
+  value: number | null,
+  fallbackValue: number
+} => {
+  if (raw === undefined || raw === null || raw === '') {
+    return { status: 'nodata', value: null, fallbackValue: fallback };
   }
   
   const val = Number(raw);
   if (!isFinite(val) || val < 0 || val > 15) {
-    return { status: 'invalid', value: null, fallbackValue: DEFAULT_FALLBACK };
+    return { status: 'invalid', value: null, fallbackValue: fallback };
   }
   
   return { status: 'ok', value: val, fallbackValue: val };
 };
 
-export const getEffectiveSolarHours = (source: ChargingSource, battery: BatteryConfig): number => {
+/**
+ * Same validation as normalizeAutoSolarHours, applied to each day of the sequence.
+ * Bad days fall back to the period's normalized value.
+ */
+export const normalizeDailySolarHours = (battery: BatteryConfig) => {
+  const fallback = normalizeAutoSolarHours(battery).fallbackValue;
+  const daily = battery.forecast?.fetched ? (battery.forecast.dailyHours || []) : [];
+  return daily.map(raw => validateSolarHours(raw, fallback));
+};
+
+const getModelledSolarHours = (source: ChargingSource, battery: BatteryConfig): number => {
   const manualHours = Number(source.hours) || 0;
   const norm = normalizeAutoSolarHours(battery);
 
@@ -63,63 +273,285 @@ export const getEffectiveSolarHours = (source: ChargingSource, battery: BatteryC
   return manualHours;
 };
 
-export const calculateItemEnergy = (item: PowerItem, systemVoltage: number) => {
+// Journal-learned yield correction, once the user opts in
+export const getLearnedSolarFactor = (source: ChargingSource, battery: BatteryConfig): number =>
+  battery.applyLearnedFactors && source.type === 'solar' && source.learnedFactor ? source.learnedFactor : 1;
+
+export const getEffectiveSolarHours = (source: ChargingSource, battery: BatteryConfig): number =>
+  getModelledSolarHours(source, battery) * getLearnedSolarFactor(source, battery);
+
+// Load shedding scales whatever the profile resolved to
+const applyShedCuts = (item: PowerItem, hours: number, dutyCycle: number) => ({
+  hours: hours * (item.shed?.hoursFactor ?? 1),
+  dutyCycle: dutyCycle * (item.shed?.dutyFactor ?? 1)
+});
+
+/**
+ * Hours and duty for the day in context: month override, then temperature rule, then weekday/weekend,
+ * then any load shedding cut. Without a date or temperature the item's own values pass straight through.
+ */
+export const resolveLoadProfile = (item: PowerItem, conditions: LoadConditions = {}): { hours: number, dutyCycle: number } => {
+  let hours = Number(item.hours) || 0;
+  let dutyCycle = Number(item.dutyCycle) || 100;
+  const profile = item.profile;
+  if (!profile) return applyShedCuts(item, hours, dutyCycle);
+
+  const override = conditions.date ? profile.months?.[conditions.date.getMonth()] : undefined;
+  if (override?.hours !== undefined && isFinite(Number(override.hours))) hours = Number(override.hours);
+  if (override?.dutyCycle !== undefined && isFinite(Number(override.dutyCycle))) dutyCycle = Number(override.dutyCycle);
+
+  const rule = profile.tempRule;
+  const ambient = Number(conditions.ambientC);
+  if (rule && conditions.ambientC !== undefined && isFinite(ambient)) {
+    const raw = (Number(rule.baseDuty) || 0) + (ambient - (Number(rule.baseTempC) || 0)) * (Number(rule.dutyPerDegC) || 0);
+    dutyCycle = Math.min(Number(rule.maxDuty) || 100, Math.max(Number(rule.minDuty) || 0, raw));
+  }
+
+  const weekend = Number(profile.weekendHours);
+  if (profile.weekendHours !== undefined && isFinite(weekend)) {
+    if (conditions.weekBlend) {
+      hours = (hours * 5 + weekend * 2) / 7;
+    } else if (conditions.date) {
+      const day = conditions.date.getDay();
+      if (day === 0 || day === 6) hours = weekend;
+    }
+  }
+
+  return applyShedCuts(item, Math.min(24, Math.max(0, hours)), Math.min(100, Math.max(0, dutyCycle)));
+};
+
+export const calculateItemEnergy = (item: PowerItem, systemVoltage: number, context: LoadContext = {}) => {
   const watts = Number(item.watts) || 0;
-  const hours = Number(item.hours) || 0;
+  const resolved = resolveLoadProfile(item, context);
+  const hours = resolved.hours;
   const v = Number(systemVoltage) || 24;
-  const dutyMultiplier = (Number(item.dutyCycle) || 100) / 100;
+  const dutyMultiplier = resolved.dutyCycle / 100;
   const qty = Number(item.quantity) || 1;
+  // Standby draw fills the rest of the day
+  const standbyWh = Math.max(0, Number(item.standbyWatts) || 0) * (24 - hours) * qty;
 
   if (item.category === LoadCategory.AC_LOADS) {
-    const efficiency = getInverterEfficiency(watts);
+    // Without configured inverters, fall back to the legacy 2000W curve on the item alone.
+    const inverter = findInverter(item, context.inverters);
+    const efficiency = inverter
+      ? getInverterCurveEfficiency(inverter, getInverterLoadW(item, inverter, context))
+      : getInverterEfficiency(watts);
     const totalWatts = watts / (efficiency || 0.85);
-    const wh = totalWatts * hours * dutyMultiplier * qty;
+    const wh = totalWatts * hours * dutyMultiplier * qty + standbyWh / (efficiency || 0.85);
     return { wh: wh || 0, ah: (wh / v) || 0, efficiency };
   }
 
-  const wh = watts * hours * dutyMultiplier * qty;
+  const wh = watts * hours * dutyMultiplier * qty + standbyWh;
   return { wh: wh || 0, ah: (wh / v) || 0, efficiency: 1 };
 };
 
-export const calculateSystemTotals = (
+export const getSimulationDate = (battery: BatteryConfig): Date => {
+  if (battery.forecastMode === 'monthAvg' && battery.forecastMonth) {
+    const parsed = new Date(battery.forecastMonth);
+    if (!isNaN(parsed.getTime())) return parsed;
+  }
+  return new Date();
+};
+
+export const getSiteLatitude = (battery: BatteryConfig): number => {
+  return battery.geo?.lat ?? battery.forecast?.lat ?? DEFAULT_LATITUDE;
+};
+
+export const getAmbientTempC = (battery: BatteryConfig): number => {
+  const t = battery.forecast?.tempMaxC;
+  return (t !== undefined && isFinite(Number(t))) ? Number(t) : DEFAULT_AMBIENT_C;
+};
+
+/**
+ * Date and temperature the load profiles resolve against for the current forecast mode.
+ */
+export const getLoadConditions = (battery: BatteryConfig): LoadConditions => ({
+  date: getSimulationDate(battery),
+  ambientC: battery.forecast?.tempMaxC !== undefined ? getAmbientTempC(battery) : undefined,
+  weekBlend: battery.forecastMode === 'monthAvg'
+});
+
+export interface SourceConditions {
+  date?: Date;
+  actualDay?: boolean; // The date is a real calendar day (multi-day runs), not a representative one
+  ambientC?: number;
+  hourly?: HourlySeries;
+}
+
+/**
+ * Wh delivered per rated watt per horizontal PSH.
+ * Modelled solar arrays use transposition and derating; every other row uses its efficiency.
+ */
+export const getSourceYieldFactor = (source: ChargingSource, battery: BatteryConfig, psh: number, conditions: SourceConditions = {}): number => {
+  if (source.type !== 'solar' || !source.array) return Number(source.efficiency) || 0.85;
+  const factors = getArrayFactors(
+    source.array,
+    getSiteLatitude(battery),
+    conditions.date || getSimulationDate(battery),
+    psh,
+    conditions.ambientC ?? getAmbientTempC(battery),
+    conditions.hourly
+  );
+  return factors.transposition * factors.performance;
+};
+
+export const calculateSourceEnergy = (source: ChargingSource, battery: BatteryConfig, hoursOverride?: number, conditions: SourceConditions = {}) => {
+  const driving = isDriven(source) ? source.driving! : undefined;
+  const hours = hoursOverride !== undefined
+    ? hoursOverride
+    : source.type === 'solar' 
+      ? getEffectiveSolarHours(source, battery)
+      : driving
+        ? getDrivingHours(driving, conditions.actualDay ? conditions.date : undefined)
+        : (Number(source.hours) || 0);
+
+  const input = getSourceInputW(source, battery);
+  const efficiency = getSourceYieldFactor(source, battery, hours, conditions)
+    * (driving ? getDrivingDerate(driving, conditions.ambientC ?? getAmbientTempC(battery)) : 1);
+  const qty = Number(source.quantity) || 1;
+
+  // STRICT: Input is Watts. NO VOLTAGE MULTIPLIER.
+  const wh = input * hours * efficiency * qty;
+  return { wh: wh || 0, hours, efficiency };
+};
+
+// A driven DC-DC's rated amps are watts at the bank voltage
+export const getSourceInputW = (source: ChargingSource, battery: BatteryConfig): number =>
+  isDriven(source) && source.driving!.ratedA
+    ? source.driving!.ratedA * (Number(battery.voltage) || 24)
+    : Number(source.input) || 0;
+
+/**
+ * Auto-start sources (generator / shore charger on SoC rules) have no fixed daily output.
+ * The SoC engine runs them from their rule; daily totals assume they cover the deficit.
+ */
+export const isAutoStart = (source: ChargingSource): boolean => !!source.autoStart && source.type !== 'solar' && source.type !== 'alternator';
+
+// Wh delivered per running hour, held to the rule's charge current limit
+export const getAutoStartWhPerHour = (source: ChargingSource, battery: BatteryConfig): number => {
+  const wh = calculateSourceEnergy(source, battery, 1).wh;
+  const limitA = Number(source.autoStart?.maxChargeA) || 0;
+  return limitA > 0 ? Math.min(wh, limitA * (Number(battery.voltage) || 24)) : wh;
+};
+
+// Most hours a day the rule lets the source run: outside quiet windows, up to the max runtime
+export const getAutoStartMaxHours = (source: ChargingSource): number => {
+  const rule = source.autoStart;
+  const quietQuarters = Array.from({ length: 96 }, (_, i) => (i + 0.5) / 4)
+    .filter(hour => rule?.quietWindows?.some(w => isInWindow(hour, w))).length;
+  const allowed = 24 - quietQuarters / 4;
+  return rule?.maxRunHours !== undefined ? Math.min(allowed, Math.max(0, rule.maxRunHours)) : allowed;
+};
+
+/**
+ * Steady-state share of a daily shortfall each auto-start source covers, in row order.
+ */
+export const getAutoStartCover = (charging: ChargingSource[], battery: BatteryConfig, shortWh: number) => {
+  let remaining = Math.max(0, shortWh);
+  return charging.filter(s => s.enabled !== false && isAutoStart(s)).map(source => {
+    const perHour = getAutoStartWhPerHour(source, battery);
+    const wh = Math.min(remaining, perHour * getAutoStartMaxHours(source));
+    remaining -= wh;
+    return { id: source.id, wh, hours: perHour > 0 ? wh / perHour : 0 };
+  });
+};
+
+/**
+ * Charge Controllers
+ * Solar rows wired to a controller share its output limit; whatever exceeds it in an interval is clipped.
+ */
+export const getControllerLimitW = (controller: ChargeController, voltage: number): number => {
+  const currentW = (Number(controller.maxChargeA) || 0) * voltage;
+  const ratedW = Number(controller.maxPvW) || 0;
+  return ratedW > 0 ? Math.min(currentW, ratedW) : currentW;
+};
+
+export const findController = (source: ChargingSource, controllers: ChargeController[] = []): ChargeController | undefined =>
+  source.type === 'solar' && source.controllerId ? controllers.find(c => c.id === source.controllerId) : undefined;
+
+// Curve a solar row's daily Wh follows (the SoC engine uses the same one)
+export const getSolarRowProfile = (
+  source: ChargingSource,
+  latitude: number,
+  date: Date,
+  intervals: number,
+  hours: number,
+  solarProfile: number[],
+  hourly?: HourlySeries
+): number[] => {
+  if (source.schedule?.hourly) return buildScheduleProfile(source.schedule, intervals);
+  return source.array ? buildArrayProfile(source.array, latitude, date, intervals, hours, hourly) : solarProfile;
+};
+
+export const clipToControllerLimit = (gen: number[], limitW: number, stepHours: number) => {
+  const capWh = limitW * stepHours;
+  let clippedWh = 0;
+  const kept = gen.map(wh => {
+    const over = Math.max(0, wh - capWh);
+    clippedWh += over;
+    return wh - over;
+  });
+  return { kept, clippedWh };
+};
+
+/**
+ * Daily Wh each controller clips on the representative day, keyed by controller id.
+ * Controllers with nothing wired to them are left out.
+ */
+export const getControllerClipping = (charging: ChargingSource[], battery: BatteryConfig): Record<string, number> => {
+  const controllers = battery.controllers || [];
+  if (controllers.length === 0) return {};
+  const latitude = getSiteLatitude(battery);
+  const date = getSimulationDate(battery);
+  const solarProfile = buildSolarProfile(latitude, date, 24);
+
+  const clipping: Record<string, number> = {};
+  controllers.forEach(controller => {
+    const rows = charging.filter(c => c.enabled !== false && findController(c, controllers) === controller);
+    if (rows.length === 0) return;
+    const gen = Array(24).fill(0);
+    rows.forEach(source => {
+      const { wh, hours } = calculateSourceEnergy(source, battery);
+      getSolarRowProfile(source, latitude, date, 24, hours, solarProfile).forEach((w, i) => { gen[i] += wh * w; });
+    });
+    clipping[controller.id] = clipToControllerLimit(gen, getControllerLimitW(controller, getRowVoltage(rows[0], battery)), 1).clippedWh;
+  });
+  return clipping;
+};
+
+const calculateBankTotals = (
   items: PowerItem[],
   charging: ChargingSource[],
   battery: BatteryConfig
-): SystemTotals => {
+): Omit<SystemTotals, 'banks'> => {
   const systemVoltage = Number(battery.voltage) || 24;
-  let dailyWhConsumed = 0;
-
-  items.forEach(item => {
-    if (item.enabled === false) return;
-    const { wh } = calculateItemEnergy(item, systemVoltage);
-    dailyWhConsumed += (Number(wh) || 0);
-  });
+  const dailyWhConsumed = calculateDailyConsumption(items, battery);
 
   let dailyWhGenerated = 0;
   charging.forEach(source => {
-    if (source.enabled === false) return;
-    const hours = source.type === 'solar' 
-      ? getEffectiveSolarHours(source, battery)
-      : (Number(source.hours) || 0);
-
-    const input = Number(source.input) || 0;
-    const efficiency = Number(source.efficiency) || 0.85;
-    const qty = Number(source.quantity) || 1;
-
-    // STRICT: Input is Watts. NO VOLTAGE MULTIPLIER.
-    dailyWhGenerated += (input * hours * efficiency * qty);
+    if (source.enabled === false || isAutoStart(source)) return;
+    dailyWhGenerated += calculateSourceEnergy(source, battery).wh;
   });
+  const controllerClipping = getControllerClipping(charging, battery);
+  Object.values(controllerClipping).forEach(wh => { dailyWhGenerated -= wh; });
+  // Auto-start sources top up whatever the fixed sources leave short
+  const autoCover = getAutoStartCover(charging, battery, dailyWhConsumed - dailyWhGenerated);
+  autoCover.forEach(c => { dailyWhGenerated += c.wh; });
 
   const dailyAhConsumed = (dailyWhConsumed / systemVoltage) || 0;
   const dailyAhGenerated = (dailyWhGenerated / systemVoltage) || 0;
   const netWh = dailyWhGenerated - dailyWhConsumed;
-  const capacityAh = Number(battery.capacityAh) || 400;
+  const capacityAh = getEffectiveCapacityAh(battery, dailyAhConsumed / 24);
   const capacityWh = capacityAh * systemVoltage;
   const initialSoC = Number(battery.initialSoC) || 100;
+  const socFloor = getSoCFloor(battery);
 
+  // Only energy above the floor is usable; SoC never falls below it (or below where it started).
   const startWh = (initialSoC / 100) * capacityWh;
-  const endWh = Math.min(capacityWh, Math.max(0, startWh + netWh));
+  const floorWh = Math.min(startWh, (socFloor / 100) * capacityWh);
+  const endWh = Math.min(capacityWh, Math.max(floorWh, startWh + applyBatteryEfficiency(netWh, battery)));
   const finalSoC = (endWh / (capacityWh || 1)) * 100;
+  const usableWh = capacityWh * (1 - socFloor / 100);
 
   return {
     dailyWhConsumed: isNaN(dailyWhConsumed) ? 0 : dailyWhConsumed,
@@ -128,25 +560,102 @@ export const calculateSystemTotals = (
     dailyAhGenerated: isNaN(dailyAhGenerated) ? 0 : dailyAhGenerated,
     netWh: isNaN(netWh) ? 0 : netWh,
     netAh: isNaN(dailyAhGenerated - dailyAhConsumed) ? 0 : dailyAhGenerated - dailyAhConsumed,
-    finalSoC: isNaN(finalSoC) ? 0 : finalSoC
+    finalSoC: isNaN(finalSoC) ? 0 : finalSoC,
+    usableWh: isNaN(usableWh) ? 0 : usableWh,
+    socFloor,
+    ...(autoCover.length ? { autoStartHours: Object.fromEntries(autoCover.map(c => [c.id, c.hours])) } : {}),
+    ...(Object.keys(controllerClipping).length ? { controllerClippedWh: controllerClipping } : {})
+  };
+};
+
+export const calculateSystemTotals = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig
+): SystemTotals => {
+  const banks = getBatteryBanks(battery);
+  const bankTotals: BankTotals[] = banks.map(bank => {
+    const view = getBankBattery(battery, bank);
+    const totals = calculateBankTotals(
+      items.filter(i => isOnBank(i, bank, banks)),
+      charging.filter(c => isOnBank(c, bank, banks)),
+      view
+    );
+    return { ...totals, bankId: bank.id, name: bank.name, voltage: view.voltage, capacityAh: view.capacityAh * getStateOfHealth(view) };
+  });
+
+  const autoStartHours = bankTotals.some(b => b.autoStartHours)
+    ? Object.assign({}, ...bankTotals.map(b => b.autoStartHours || {}))
+    : undefined;
+  const controllerClippedWh = bankTotals.some(b => b.controllerClippedWh)
+    ? Object.assign({}, ...bankTotals.map(b => b.controllerClippedWh || {}))
+    : undefined;
+
+  if (bankTotals.length === 1) {
+    const { bankId, name, voltage, capacityAh, ...house } = bankTotals[0];
+    return { ...house, banks: bankTotals };
+  }
+
+  // Combined view: Wh add up across banks; Ah are expressed at the house bank voltage.
+  const houseVoltage = bankTotals[0].voltage || 24;
+  const sum = (key: 'dailyWhConsumed' | 'dailyWhGenerated' | 'netWh' | 'usableWh') =>
+    bankTotals.reduce((acc, b) => acc + b[key], 0);
+  const capacityWh = bankTotals.reduce((acc, b) => acc + b.capacityAh * b.voltage, 0) || 1;
+  const weighted = (key: 'finalSoC' | 'socFloor') =>
+    bankTotals.reduce((acc, b) => acc + b[key] * b.capacityAh * b.voltage, 0) / capacityWh;
+
+  const dailyWhConsumed = sum('dailyWhConsumed');
+  const dailyWhGenerated = sum('dailyWhGenerated');
+  return {
+    dailyWhConsumed,
+    dailyAhConsumed: dailyWhConsumed / houseVoltage,
+    dailyWhGenerated,
+    dailyAhGenerated: dailyWhGenerated / houseVoltage,
+    netWh: sum('netWh'),
+    netAh: sum('netWh') / houseVoltage,
+    finalSoC: weighted('finalSoC'),
+    usableWh: sum('usableWh'),
+    socFloor: weighted('socFloor'),
+    ...(autoStartHours ? { autoStartHours } : {}),
+    ...(controllerClippedWh ? { controllerClippedWh } : {}),
+    banks: bankTotals
+  };
+};
+
+/**
+ * House bank view: its loads, sources and inverters (everything for single-bank configs).
+ */
+export const getHouseBankView = (items: PowerItem[], charging: ChargingSource[], battery: BatteryConfig) => {
+  const banks = getBatteryBanks(battery);
+  return {
+    items: items.filter(i => isOnBank(i, banks[0], banks)),
+    charging: charging.filter(c => isOnBank(c, banks[0], banks)),
+    battery: getBankBattery(battery, banks[0])
   };
 };
 
+/**
+ * Forecast PSH mapped onto the autonomy scenarios for this config.
+ */
+export const getAutonomyForecast = (battery: BatteryConfig) => battery.forecast ? {
+  sunny: battery.forecast.sunnyHours,
+  cloudy: battery.forecast.cloudyHours,
+  now: battery.forecast.nowHours,
+  p10: battery.forecast.p10Hours
+} : undefined;
+
 export const calculateAutonomy = (
   items: PowerItem[],
   charging: ChargingSource[],
   battery: BatteryConfig,
   scenario: 'current' | 'peak' | 'cloud' | 'zero',
-  solarForecast?: { sunny?: number, cloudy?: number, now?: number },
+  solarForecast?: { sunny?: number, cloudy?: number, now?: number, p10?: number },
   currentSoC?: number
 ) => {
+  // Autonomy is reported for the house bank
+  ({ items, charging, battery } = getHouseBankView(items, charging, battery));
   const systemVoltage = Number(battery.voltage) || 24;
-  let dailyWhConsumed = 0;
-  items.forEach(item => {
-    if (item.enabled === false) return;
-    const { wh } = calculateItemEnergy(item, systemVoltage);
-    dailyWhConsumed += (Number(wh) || 0);
-  });
+  const dailyWhConsumed = calculateDailyConsumption(items, battery);
 
   let dailyWhGenerated = 0;
   
@@ -154,7 +663,12 @@ export const calculateAutonomy = (
     dailyWhGenerated = 0;
   } else {
     charging.forEach(source => {
-      if (source.enabled === false) return;
+      // Autonomy is time on the battery before any auto-start backup has to run
+      if (source.enabled === false || isAutoStart(source)) return;
+      if (isDriven(source)) {
+        dailyWhGenerated += calculateSourceEnergy(source, battery).wh;
+        return;
+      }
       
       let h = Number(source.hours) || 0;
       
@@ -176,6 +690,10 @@ export const calculateAutonomy = (
 
         if (scenario === 'peak') {
            h = baselineHours;
+        } else if (scenario === 'cloud' && battery.forecastMode !== 'now' && solarForecast?.p10 !== undefined) {
+           // Multi-year climatology: the month's 1-in-10 bad day, scaled for manual rows
+           const p10 = solarForecast.p10;
+           h = source.autoSolar ? p10 : baselineHours * (p10 / (solarForecast.sunny || p10 || 1));
         } else if (scenario === 'cloud') {
            /**
             * DHI / GHI Functional Model:
@@ -200,28 +718,34 @@ export const calculateAutonomy = (
       } 
       
       const input = Number(source.input) || 0;
-      const efficiency = Number(source.efficiency) || 0.85;
+      const efficiency = getSourceYieldFactor(source, battery, h);
       const qty = Number(source.quantity) || 1;
       dailyWhGenerated += (input * h * efficiency * qty);
     });
+    // Controller clipping is only modelled at the current forecast
+    if (scenario === 'current') {
+      Object.values(getControllerClipping(charging, battery)).forEach(wh => { dailyWhGenerated -= wh; });
+    }
   }
 
   const netWhPerDay = dailyWhGenerated - dailyWhConsumed;
   if (netWhPerDay >= 0) return { days: Infinity, hours: Infinity, netWh: netWhPerDay };
 
-  const dailyDeficitWh = Math.abs(netWhPerDay);
-  const totalCapacityWh = (Number(battery.capacityAh) || 400) * systemVoltage;
+  // Deficit is drawn through discharge losses; capacity is Peukert-adjusted at the average load.
+  const dailyDeficitWh = Math.abs(applyBatteryEfficiency(netWhPerDay, battery));
+  const totalCapacityWh = getEffectiveCapacityAh(battery, (dailyWhConsumed / systemVoltage) / 24) * systemVoltage;
   
   /**
    * Basis Logic:
    * 'Realistic' shows time remaining at CURRENT SoC (Final SoC).
    * 'Cloud' and '0%' show theoretical autonomy from FULL (100%) to represent System Buffer capacity.
+   * Only energy above the chemistry's SoC floor counts.
    */
   const basisSoC = (scenario === 'current') 
     ? (currentSoC !== undefined ? currentSoC : (battery.initialSoC || 100))
     : 100;
 
-  const remainingWh = totalCapacityWh * (basisSoC / 100);
+  const remainingWh = totalCapacityWh * (Math.max(0, basisSoC - getSoCFloor(battery)) / 100);
   const days = remainingWh / dailyDeficitWh;
 
   return {
@@ -230,3 +754,109 @@ export const calculateAutonomy = (
     netWh: netWhPerDay
   };
 };
+
+/**
+ * Cable & Fuse Sizing
+ * Deterministic: smallest listed conductor that keeps the round-trip drop within limit
+ * and whose derated ampacity covers the fuse protecting it.
+ */
+
+const INSULATION_RATING_C = 90;
+const FUSE_FACTOR = 1.25;
+
+export const getCableRun = (run?: Partial<CableRun>): CableRun => ({ ...DEFAULT_CABLE_RUN, ...run });
+
+// Installation temperature. Blank or invalid means the 30°C reference; 0°C is a real reading.
+const getRunAmbientC = (run: CableRun): number => {
+  const raw = run.ambientC as unknown;
+  const ambient = Number(raw);
+  return raw === undefined || raw === null || raw === '' || isNaN(ambient) ? 30 : ambient;
+};
+
+// Ohms per metre of conductor at the installation temperature
+export const getConductorResistance = (mm2: number, run: CableRun): number => {
+  const props = CONDUCTOR_PROPERTIES[run.material] || CONDUCTOR_PROPERTIES.copper;
+  const tempC = getRunAmbientC(run);
+  return (props.resistivity * (1 + props.tempCoeff * (tempC - 20))) / (mm2 || 1);
+};
+
+const getAmpacityDerating = (ambientC: number): number => {
+  const headroom = Math.max(0, INSULATION_RATING_C - ambientC);
+  return Math.sqrt(headroom / (INSULATION_RATING_C - 30));
+};
+
+export const getFuseRating = (amps: number): number => {
+  const required = amps * FUSE_FACTOR;
+  return STANDARD_FUSE_RATINGS.find(r => r >= required) ?? STANDARD_FUSE_RATINGS[STANDARD_FUSE_RATINGS.length - 1];
+};
+
+export const sizeCable = (amps: number, voltage: number, runInput?: Partial<CableRun>): CableSizing => {
+  const run = getCableRun(runInput);
+  const current = Math.max(0, Number(amps) || 0);
+  const v = Number(voltage) || 24;
+  const length = Math.max(0, Number(run.lengthM) || 0);
+  const maxDropV = v * (Math.max(0.1, Number(run.maxDropPct) || 3) / 100);
+  const fuseA = getFuseRating(current);
+  const derating = (CONDUCTOR_PROPERTIES[run.material] || CONDUCTOR_PROPERTIES.copper).ampacityFactor * getAmpacityDerating(getRunAmbientC(run));
+
+  const evaluate = (size: typeof CABLE_SIZES[number]) => ({
+    size,
+    dropV: current * 2 * length * getConductorResistance(size.mm2, run),
+    ampacityA: size.ampacity * derating
+  });
+  const options = CABLE_SIZES.map(evaluate);
+  const dropIdx = options.findIndex(o => o.dropV <= maxDropV);
+  const ampIdx = options.findIndex(o => o.ampacityA >= fuseA);
+  const oversize = dropIdx < 0 || ampIdx < 0;
+  const pick = oversize ? options[options.length - 1] : options[Math.max(dropIdx, ampIdx)];
+
+  return {
+    amps: current,
+    voltage: v,
+    awg: oversize ? '' : pick.size.awg,
+    mm2: pick.size.mm2,
+    ampacityA: pick.ampacityA,
+    dropV: pick.dropV,
+    dropPct: (pick.dropV / v) * 100,
+    fuseA,
+    limitedBy: (dropIdx < 0 || (ampIdx >= 0 && dropIdx > ampIdx)) ? 'drop' : 'ampacity',
+    oversize
+  };
+};
+
+/**
+ * Continuous battery-side current of a load row. AC rows include inverter losses.
+ */
+export const getItemCurrent = (item: PowerItem, voltage: number, context: LoadContext = {}): number => {
+  const watts = (Number(item.watts) || 0) * (Number(item.quantity) || 1);
+  const { efficiency } = calculateItemEnergy(item, voltage, context);
+  return watts / (efficiency || 1) / (Number(voltage) || 24);
+};
+
+export const getSourceCurrent = (source: ChargingSource, voltage: number): number => {
+  if (isDriven(source) && source.driving!.ratedA) return source.driving!.ratedA * (Number(source.quantity) || 1);
+  return ((Number(source.input) || 0) * (Number(source.quantity) || 1)) / (Number(voltage) || 24);
+};
+
+export interface CableScheduleRow {
+  id: string;
+  name: string;
+  kind: 'load' | 'source';
+  run: CableRun;
+  sizing: CableSizing;
+}
+
+export const buildCableSchedule = (items: PowerItem[], charging: ChargingSource[], battery: BatteryConfig): CableScheduleRow[] => {
+  const context: LoadContext = { items, inverters: battery.inverters };
+  const loads = items.filter(i => i.enabled !== false).map(item => {
+    const v = getRowVoltage(item, battery);
+    const run = getCableRun(item.cable);
+    return { id: item.id, name: item.name, kind: 'load' as const, run, sizing: sizeCable(getItemCurrent(item, v, context), v, run) };
+  });
+  const sources = charging.filter(c => c.enabled !== false).map(source => {
+    const v = getRowVoltage(source, battery);
+    const run = getCableRun(source.cable);
+    return { id: source.id, name: source.name, kind: 'source' as const, run, sizing: sizeCable(getSourceCurrent(source, v), v, run) };
+  });
+  return [...loads, ...sources];
+};
@@ -0,0 +1,51 @@
+import { PowerItem, ChargingSource, BatteryConfig, Scenario, SystemTotals } from '../types';
+import { calculateSystemTotals, calculateAutonomy, getAutonomyForecast } from './powerLogic';
+import { simulateDay } from './simulation';
+
+/**
+ * Named Scenarios
+ * Whole-config snapshots (loads, sources, battery) that can be cloned and compared.
+ */
+
+export const MAX_COMPARE = 4;
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const createScenario = (name: string, items: PowerItem[], charging: ChargingSource[], battery: BatteryConfig): Scenario => ({
+  id: newId(),
+  name,
+  // Deep copy so edits in one scenario never leak into another
+  items: JSON.parse(JSON.stringify(items)),
+  charging: JSON.parse(JSON.stringify(charging)),
+  battery: JSON.parse(JSON.stringify(battery)),
+  updatedAt: Date.now()
+});
+
+export const getUniqueName = (name: string, scenarios: Scenario[]): string => {
+  let candidate = name;
+  for (let n = 2; scenarios.some(s => s.name === candidate); n++) candidate = `${name} ${n}`;
+  return candidate;
+};
+
+export const getCloneName = (name: string, scenarios: Scenario[]): string => getUniqueName(`${name} (copy)`, scenarios);
+
+export interface ScenarioSummary {
+  totals: SystemTotals;
+  finalSoC: number;
+  minSoC: number;
+  autonomy: { current: number; cloud: number; zero: number }; // Days (Infinity = never flat)
+}
+
+export const summariseScenario = (scenario: Pick<Scenario, 'items' | 'charging' | 'battery'>): ScenarioSummary => {
+  const { items, charging, battery } = scenario;
+  const totals = calculateSystemTotals(items, charging, battery);
+  const simulation = simulateDay(items, charging, battery);
+  const forecast = getAutonomyForecast(battery);
+  const days = (kind: 'current' | 'cloud' | 'zero') => calculateAutonomy(items, charging, battery, kind, forecast, simulation.finalSoC).days;
+  return {
+    totals,
+    finalSoC: simulation.finalSoC,
+    minSoC: simulation.minSoC,
+    autonomy: { current: days('current'), cloud: days('cloud'), zero: days('zero') }
+  };
+};
@@ -0,0 +1,67 @@
+import { UsageSchedule, TimeWindow } from '../types';
+
+/**
+ * Usage Schedules
+ * Time windows / hourly weights describing when a row's daily energy happens.
+ */
+
+export const isInWindow = (hour: number, w: TimeWindow): boolean => {
+  const start = ((Number(w.start) % 24) + 24) % 24;
+  const end = ((Number(w.end) % 24) + 24) % 24;
+  if (start === end) return true;
+  return start < end ? (hour >= start && hour < end) : (hour >= start || hour < end);
+};
+
+/**
+ * Weights (sum = 1) for spreading a row's daily energy. Unscheduled rows are spread evenly.
+ */
+export const buildScheduleProfile = (schedule: UsageSchedule | undefined, intervals: number): number[] => {
+  const step = 24 / intervals;
+  let weights: number[];
+
+  if (schedule?.hourly && schedule.hourly.length === 24) {
+    weights = Array.from({ length: intervals }, (_, i) => Math.max(0, Number(schedule.hourly![Math.floor(i * step)]) || 0));
+  } else if (schedule?.windows && schedule.windows.length > 0) {
+    weights = Array.from({ length: intervals }, (_, i) => {
+      const mid = (i + 0.5) * step;
+      return schedule.windows!.some(w => isInWindow(mid, w)) ? 1 : 0;
+    });
+  } else {
+    weights = Array(intervals).fill(1);
+  }
+
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return Array(intervals).fill(1 / intervals);
+  return weights.map(w => w / total);
+};
+
+/**
+ * Parses "18-22, 6-7.5" into windows. Returns undefined for blank input (= all day).
+ */
+export const parseScheduleWindows = (text: string): TimeWindow[] | undefined => {
+  const windows = text.split(',')
+    .map(part => part.trim().match(/^(\d{1,2}(?:\.\d+)?)\s*-\s*(\d{1,2}(?:\.\d+)?)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map(m => ({ start: Math.min(24, Number(m[1])), end: Math.min(24, Number(m[2])) }));
+  return windows.length > 0 ? windows : undefined;
+};
+
+export const formatScheduleWindows = (schedule?: UsageSchedule): string => {
+  if (!schedule?.windows || schedule.windows.length === 0) return '';
+  return schedule.windows.map(w => `${w.start}-${w.end}`).join(', ');
+};
+
+export const hasSchedule = (schedule?: UsageSchedule): boolean => {
+  return !!(schedule?.hourly?.length === 24 || (schedule?.windows && schedule.windows.length > 0));
+};
+
+/**
+ * True when two scheduled rows can be on at the same time. Unscheduled rows never overlap
+ * (we don't know when they run), which keeps them evaluated on their own.
+ */
+export const schedulesOverlap = (a?: UsageSchedule, b?: UsageSchedule, intervals = 96): boolean => {
+  if (!hasSchedule(a) || !hasSchedule(b)) return false;
+  const pa = buildScheduleProfile(a, intervals);
+  const pb = buildScheduleProfile(b, intervals);
+  return pa.some((w, i) => w > 0 && pb[i] > 0);
+};
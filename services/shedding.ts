@@ -0,0 +1,134 @@
+import { PowerItem, ChargingSource, BatteryConfig, LoadPriority, SheddingTarget, SheddingAction, SheddingPlan } from '../types';
+import { SHED_STEP, SHED_PRIORITY_WEIGHTS } from '../constants';
+import { calculateItemEnergy, getHouseBankView, getLoadConditions, isAutoStart, normalizeAutoSolarHours, resolveLoadProfile, LoadContext } from './powerLogic';
+import { simulateMultiDay } from './simulation';
+
+/**
+ * Load Shedding
+ * Greedy search for the least comfort given up that keeps the house bank above a SoC floor
+ * through a bad-weather event. Optional loads go before comfort loads, bigger ones first;
+ * critical loads are never touched.
+ */
+
+export const getPriority = (item: PowerItem): LoadPriority => item.priority || 'comfort';
+
+// Event PSH: the month's P10 day where climatology has one, else the cloud scenario's half of normal
+const getEventPsh = (battery: BatteryConfig): { psh: number, baseline: number } => {
+  const norm = normalizeAutoSolarHours(battery);
+  const baseline = norm.value ?? norm.fallbackValue;
+  const forecast = battery.forecast;
+  if (battery.forecastMode !== 'now' && forecast?.p10Hours !== undefined) return { psh: forecast.p10Hours, baseline };
+  const cloudy = battery.forecastMode !== 'now' && forecast?.cloudyHours ? forecast.cloudyHours : 0;
+  return { psh: Math.max(cloudy, baseline * 0.5), baseline };
+};
+
+/**
+ * Lowest SoC through the event, on the battery alone: auto-start backup doesn't run.
+ */
+export const getEventMinSoC = (items: PowerItem[], charging: ChargingSource[], battery: BatteryConfig, target: SheddingTarget): number => {
+  const days = Math.max(1, Math.round(target.days));
+  const { psh, baseline } = getEventPsh(battery);
+  const sources = target.weather === 'zero' ? [] : charging.filter(c => !isAutoStart(c));
+  return simulateMultiDay(items, sources, battery, Array(days).fill(target.weather === 'zero' ? 0 : psh), { solarBaselineHours: baseline }).minSoC;
+};
+
+type ShedField = 'hours' | 'dutyCycle';
+
+const FACTOR_KEYS = { hours: 'hoursFactor', dutyCycle: 'dutyFactor' } as const;
+
+// Cuts scale the row's resolved hours or duty on top of any earlier cut
+const withLevel = (item: PowerItem, level: number, field: ShedField): PowerItem => {
+  if (level >= 1) return item;
+  if (level <= 0) return { ...item, enabled: false };
+  const key = FACTOR_KEYS[field];
+  return { ...item, shed: { ...item.shed, [key]: (item.shed?.[key] ?? 1) * level } };
+};
+
+export const planShedding = (items: PowerItem[], charging: ChargingSource[], battery: BatteryConfig, target: SheddingTarget): SheddingPlan => {
+  const view = getHouseBankView(items, charging, battery);
+  const voltage = Number(view.battery.voltage) || 24;
+  const context: LoadContext = { items: view.items, inverters: view.battery.inverters, ...getLoadConditions(view.battery) };
+  const dailyWh = (item: PowerItem) => item.enabled === false ? 0 : calculateItemEnergy(item, voltage, context).wh;
+  // Duty-cycled loads (as resolved today, so temperature rules count) give up duty; everything else gives up hours
+  const getShedField = (item: PowerItem): ShedField => resolveLoadProfile(item, context).dutyCycle < 100 ? 'dutyCycle' : 'hours';
+
+  const candidates = view.items
+    .filter(i => i.enabled !== false && getPriority(i) !== 'critical' && dailyWh(i) > 0)
+    .map(item => ({ item, wh: dailyWh(item), field: getShedField(item), weight: SHED_PRIORITY_WEIGHTS[getPriority(item) as Exclude<LoadPriority, 'critical'>] }))
+    // Optional before comfort, then the biggest daily Wh first
+    .sort((a, b) => a.weight - b.weight || b.wh - a.wh);
+
+  const levels = new Map<string, number>(candidates.map(c => [c.item.id, 1]));
+  const fields = new Map<string, ShedField>(candidates.map(c => [c.item.id, c.field]));
+  const apply = () => items.map(item => levels.has(item.id) ? withLevel(item, levels.get(item.id)!, fields.get(item.id)!) : item);
+  const meets = () => getEventMinSoC(apply(), charging, battery, target) >= target.minSoC;
+
+  const baselineMinSoC = getEventMinSoC(items, charging, battery, target);
+  let met = baselineMinSoC >= target.minSoC;
+  for (const { item } of candidates) {
+    while (!met && levels.get(item.id)! > 0) {
+      levels.set(item.id, Math.max(0, levels.get(item.id)! - SHED_STEP));
+      met = meets();
+    }
+    if (met) break;
+  }
+
+  // Give back whatever the last, coarse cuts overshot, dearest comfort first
+  if (met) {
+    [...candidates].reverse().forEach(({ item }) => {
+      while (levels.get(item.id)! < 1) {
+        const level = levels.get(item.id)!;
+        levels.set(item.id, Math.min(1, level + SHED_STEP));
+        if (!meets()) {
+          levels.set(item.id, level);
+          break;
+        }
+      }
+    });
+  }
+
+  const actions: SheddingAction[] = candidates
+    .filter(c => levels.get(c.item.id)! < 1)
+    .map(({ item, wh, field }) => {
+      const level = levels.get(item.id)!;
+      const shed = withLevel(item, level, field);
+      const base = { itemId: item.id, name: item.name, priority: getPriority(item), savedWh: wh - dailyWh(shed) };
+      if (level <= 0) return { ...base, kind: 'disable' as const };
+      return {
+        ...base, kind: 'reduce' as const, field, factor: level,
+        from: resolveLoadProfile(item, context)[field], to: resolveLoadProfile(shed, context)[field]
+      };
+    });
+
+  return {
+    baselineMinSoC,
+    minSoC: actions.length ? getEventMinSoC(apply(), charging, battery, target) : baselineMinSoC,
+    met,
+    savedWh: actions.reduce((s, a) => s + a.savedWh, 0),
+    actions
+  };
+};
+
+/**
+ * Applies a plan to the rows. Hours, duty and profiles are left alone: cuts are factors on top,
+ * and the row remembers whether it was on before its first cut.
+ */
+export const applyShedding = (items: PowerItem[], actions: SheddingAction[]): PowerItem[] =>
+  items.map(item => {
+    const action = actions.find(a => a.itemId === item.id);
+    if (!action) return item;
+    const shed = { ...item.shed, enabled: item.shed ? item.shed.enabled : item.enabled };
+    if (action.kind === 'disable') return { ...item, shed, enabled: false };
+    const key = FACTOR_KEYS[action.field!];
+    return { ...item, shed: { ...shed, [key]: (shed[key] ?? 1) * (action.factor ?? 1) } };
+  });
+
+/**
+ * Puts shed rows back as they were. Without ids, every shed row is restored.
+ */
+export const restoreShedding = (items: PowerItem[], ids?: string[]): PowerItem[] =>
+  items.map(item => {
+    if (!item.shed || (ids && !ids.includes(item.id))) return item;
+    const { shed, ...rest } = item;
+    return { ...rest, enabled: shed.enabled };
+  });
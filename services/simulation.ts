@@ -0,0 +1,239 @@
+import { PowerItem, ChargingSource, BatteryConfig, DaySimulation, SocPoint, MultiDaySimulation, DayRunSummary, HourlySeries } from '../types';
+import { calculateItemEnergy, calculateSourceEnergy, getEffectiveSolarHours, getLearnedSolarFactor, getEffectiveCapacityAh, getSoCFloor, getChemistryPreset, applyBatteryEfficiency, getHouseBankView, calculateInverterIdleWh, getSimulationDate, getSiteLatitude, getLoadConditions, isAutoStart, getAutoStartWhPerHour, LoadContext, findController, getControllerLimitW, getSolarRowProfile, clipToControllerLimit } from './powerLogic';
+import { buildSolarProfile } from './solarGeometry';
+import { buildHourlyProfile } from './arrayPhysics';
+import { buildScheduleProfile, isInWindow } from './schedule';
+import { isDriven, getDrivingWindow } from './driving';
+
+/**
+ * Time-Stepped SoC Engine
+ * Spreads each row's daily energy over the day and walks the battery through 24 (or 96) intervals.
+ * Daily totals match calculateSystemTotals; only the timing changes.
+ */
+
+export interface DaySimulationOptions {
+  intervals?: number;
+  startSoC?: number;
+  date?: Date;
+  solarHours?: number;         // PSH for this day. Overrides the forecast for solar rows.
+  solarBaselineHours?: number; // Reference PSH that manual solar hours were set against.
+  ambientC?: number;           // Daily max air temperature for array derating and load duty rules
+  hourly?: HourlySeries;       // Forecast hours for this day. Shapes solar output instead of the clear-sky curve.
+  autoRunning?: string[];      // Auto-start sources already running at midnight (carried from the day before)
+}
+
+/**
+ * Solar hours for a row on a given PSH day.
+ * Auto rows take the PSH directly; manual rows keep their calibration and scale with the weather.
+ */
+const getDaySolarHours = (source: ChargingSource, battery: BatteryConfig, options: DaySimulationOptions): number | undefined => {
+  if (source.type !== 'solar' || options.solarHours === undefined) return undefined;
+  if (source.autoSolar) return options.solarHours * getLearnedSolarFactor(source, battery);
+  const baseline = options.solarBaselineHours || options.solarHours;
+  return getEffectiveSolarHours(source, battery) * (options.solarHours / (baseline || 1));
+};
+
+export const simulateDay = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig,
+  options: DaySimulationOptions = {}
+): DaySimulation => {
+  // The SoC run covers the house bank (all rows for single-bank configs)
+  ({ items, charging, battery } = getHouseBankView(items, charging, battery));
+  const intervals = options.intervals || 24;
+  const stepHours = 24 / intervals;
+  const systemVoltage = Number(battery.voltage) || 24;
+  const startSoC = options.startSoC ?? (Number(battery.initialSoC) || 100);
+  const date = options.date || getSimulationDate(battery);
+
+  const load = Array(intervals).fill(0);
+  const gen = Array(intervals).fill(0);
+
+  // A given date is a real calendar day; otherwise month-average mode blends the week
+  const defaults = getLoadConditions(battery);
+  const context: LoadContext = {
+    items,
+    inverters: battery.inverters,
+    date,
+    ambientC: options.ambientC ?? defaults.ambientC,
+    weekBlend: !options.date && defaults.weekBlend
+  };
+  items.forEach(item => {
+    if (item.enabled === false) return;
+    const { wh } = calculateItemEnergy(item, systemVoltage, context);
+    const profile = buildScheduleProfile(item.schedule, intervals);
+    profile.forEach((w, i) => { load[i] += wh * w; });
+  });
+  (battery.inverters || []).forEach(inv => {
+    const idleWh = calculateInverterIdleWh(inv);
+    buildScheduleProfile(inv.schedule, intervals).forEach((w, i) => { load[i] += idleWh * w; });
+  });
+
+  const latitude = getSiteLatitude(battery);
+  const hourly = options.hourly?.hours.some(h => h.ghi > 0) ? options.hourly : undefined;
+  const solarProfile = hourly
+    ? buildHourlyProfile(hourly, hourly.hours.map(h => h.ghi), intervals)
+    : buildSolarProfile(latitude, date, intervals);
+  // Solar wired to a controller is summed per controller, then held to its output limit
+  const controllerGen = new Map<string, number[]>();
+  charging.forEach(source => {
+    if (source.enabled === false || isAutoStart(source)) return;
+    // A given date is a real day, so driven alternators charge on drive days only
+    const { wh, hours } = calculateSourceEnergy(source, battery, getDaySolarHours(source, battery, options), { date, actualDay: !!options.date, ambientC: options.ambientC, hourly });
+    const profile = source.type === 'solar'
+      ? getSolarRowProfile(source, latitude, date, intervals, hours, solarProfile, hourly)
+      : isDriven(source)
+        ? buildScheduleProfile({ windows: [getDrivingWindow(source.driving!)] }, intervals)
+        : buildScheduleProfile(source.schedule, intervals);
+    const controller = findController(source, battery.controllers);
+    const target = controller ? (controllerGen.get(controller.id) || Array(intervals).fill(0)) : gen;
+    profile.forEach((w, i) => { target[i] += wh * w; });
+    if (controller) controllerGen.set(controller.id, target);
+  });
+  let controllerClippedWh = 0;
+  controllerGen.forEach((curve, id) => {
+    const controller = battery.controllers!.find(c => c.id === id)!;
+    const { kept, clippedWh } = clipToControllerLimit(curve, getControllerLimitW(controller, systemVoltage), stepHours);
+    kept.forEach((wh, i) => { gen[i] += wh; });
+    controllerClippedWh += clippedWh;
+  });
+
+  const preset = getChemistryPreset(battery);
+  const dailyLoadWh = load.reduce((a, b) => a + b, 0);
+  const capacityWh = getEffectiveCapacityAh(battery, (dailyLoadWh / systemVoltage) / 24) * systemVoltage;
+  const floorWh = Math.min(capacityWh * (startSoC / 100), capacityWh * (getSoCFloor(battery) / 100));
+
+  let storedWh = capacityWh * (startSoC / 100);
+  let clippedWh = 0;
+  let unmetWh = 0;
+  let minSoC = startSoC;
+  let minSoCHour = 0;
+  const points: SocPoint[] = [];
+
+  // Auto-start rules: `wanted` holds the start/stop hysteresis; quiet hours and the daily
+  // runtime cap only pause it, so a run resumes afterwards if the stop SoC wasn't reached.
+  const autoSources = charging.filter(s => s.enabled !== false && isAutoStart(s));
+  const autoStepWh = autoSources.map(s => getAutoStartWhPerHour(s, battery) * stepHours);
+  const autoRunHours: Record<string, number> = Object.fromEntries(autoSources.map(s => [s.id, 0]));
+  const wanted = new Set((options.autoRunning || []).filter(id => autoSources.some(s => s.id === id)));
+
+  for (let i = 0; i < intervals; i++) {
+    const socBefore = (storedWh / (capacityWh || 1)) * 100;
+    const mid = (i + 0.5) * stepHours;
+    let autoWh = 0;
+    autoSources.forEach((source, k) => {
+      const rule = source.autoStart!;
+      if (socBefore >= rule.stopSoC) wanted.delete(source.id);
+      else if (socBefore < rule.startSoC) wanted.add(source.id);
+      const quiet = rule.quietWindows?.some(w => isInWindow(mid, w));
+      const capped = rule.maxRunHours !== undefined && autoRunHours[source.id] + stepHours > rule.maxRunHours + 1e-9;
+      if (wanted.has(source.id) && !quiet && !capped) {
+        autoWh += autoStepWh[k];
+        autoRunHours[source.id] += stepHours;
+      }
+    });
+    gen[i] += autoWh;
+
+    const net = gen[i] - load[i];
+    storedWh += applyBatteryEfficiency(net, battery);
+    if (storedWh > capacityWh) {
+      // Report waste at the terminals (before charge losses)
+      clippedWh += Math.min(net, (storedWh - capacityWh) / preset.chargeEfficiency);
+      storedWh = capacityWh;
+    } else if (storedWh < floorWh) {
+      unmetWh += (floorWh - storedWh) * preset.dischargeEfficiency;
+      storedWh = floorWh;
+    }
+
+    const soc = (storedWh / (capacityWh || 1)) * 100;
+    const hour = (i + 1) * stepHours;
+    if (soc < minSoC) {
+      minSoC = soc;
+      minSoCHour = hour;
+    }
+    points.push({ hour, soc, loadWh: load[i], genWh: gen[i] });
+  }
+
+  return {
+    stepHours,
+    points,
+    startSoC,
+    finalSoC: points.length ? points[points.length - 1].soc : startSoC,
+    minSoC,
+    minSoCHour,
+    clippedWh,
+    unmetWh,
+    controllerClippedWh,
+    autoRunHours,
+    autoRunningAtEnd: Array.from(wanted)
+  };
+};
+
+// Days the archive has no temperature for fall back to the config's ambient
+const getDayAmbientC = (ambientC: number | null | undefined): number | undefined =>
+  typeof ambientC === 'number' && isFinite(ambientC) ? ambientC : undefined;
+
+/**
+ * Carries SoC through a sequence of daily PSH values (forecast days or an archive month).
+ * Each day uses the hourly engine, so overnight lows count towards "going flat".
+ */
+export const simulateMultiDay = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig,
+  dailyPsh: number[],
+  options: { intervals?: number; startSoC?: number; startDate?: Date; dailyAmbientC?: number[]; dailyHourly?: HourlySeries[]; solarBaselineHours?: number } = {}
+): MultiDaySimulation => {
+  const valid = dailyPsh.map(v => Math.max(0, Number(v) || 0));
+  // Manual solar rows scale against this. Defaults to the run's own mean PSH.
+  const baseline = options.solarBaselineHours ?? (valid.length ? valid.reduce((a, b) => a + b, 0) / valid.length : undefined);
+  const startDate = options.startDate || getSimulationDate(battery);
+  const floor = getSoCFloor(battery);
+
+  let soc = options.startSoC ?? (Number(battery.initialSoC) || 100);
+  let firstFlatDay: number | null = null;
+  let daysAtFull = 0;
+  let wastedWh = 0;
+  let minSoC = soc;
+  let autoRunning: string[] = [];
+  let autoRunHours = 0;
+  const days: DayRunSummary[] = [];
+
+  valid.forEach((psh, i) => {
+    const date = new Date(startDate.getTime() + i * 86400000);
+    const sim = simulateDay(items, charging, battery, {
+      intervals: options.intervals,
+      startSoC: soc,
+      date,
+      solarHours: psh,
+      solarBaselineHours: baseline,
+      ambientC: getDayAmbientC(options.dailyAmbientC?.[i]),
+      hourly: options.dailyHourly?.[i],
+      autoRunning
+    });
+    const dayAutoHours = Object.values(sim.autoRunHours).reduce((a, b) => a + b, 0);
+
+    const day = i + 1;
+    if (firstFlatDay === null && (sim.unmetWh > 0 || sim.minSoC <= floor)) firstFlatDay = day;
+    if (sim.clippedWh > 0) daysAtFull++;
+    wastedWh += sim.clippedWh;
+    minSoC = Math.min(minSoC, sim.minSoC);
+
+    days.push({
+      day,
+      psh,
+      startSoC: soc,
+      endSoC: sim.finalSoC,
+      minSoC: sim.minSoC,
+      clippedWh: sim.clippedWh,
+      unmetWh: sim.unmetWh,
+      autoRunHours: dayAutoHours
+    });
+    soc = sim.finalSoC;
+    autoRunning = sim.autoRunningAtEnd;
+    autoRunHours += dayAutoHours;
+  });
+
+  return { days, firstFlatDay, daysAtFull, wastedWh, minSoC, autoRunHours };
+};
@@ -0,0 +1,54 @@
+/**
+ * Solar Geometry
+ * Sun position helpers used to shape generation across the day.
+ * Times are local solar time (solar noon = 12:00).
+ */
+
+const DEG = Math.PI / 180;
+
+export const getDayOfYear = (date: Date): number => {
+  const start = Date.UTC(date.getFullYear(), 0, 0);
+  const now = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.floor((now - start) / 86400000);
+};
+
+/**
+ * Cooper's approximation. Returns declination in radians.
+ */
+export const getSolarDeclination = (dayOfYear: number): number => {
+  return 23.45 * DEG * Math.sin(2 * Math.PI * (284 + dayOfYear) / 365);
+};
+
+/**
+ * Cosine of the solar zenith angle at a given hour. Negative when the sun is below the horizon.
+ */
+export const getCosZenith = (latDeg: number, dayOfYear: number, hour: number): number => {
+  const phi = latDeg * DEG;
+  const delta = getSolarDeclination(dayOfYear);
+  const omega = (hour - 12) * 15 * DEG;
+  return Math.sin(phi) * Math.sin(delta) + Math.cos(phi) * Math.cos(delta) * Math.cos(omega);
+};
+
+export const getDaylightHours = (latDeg: number, dayOfYear: number): number => {
+  const phi = latDeg * DEG;
+  const delta = getSolarDeclination(dayOfYear);
+  const x = -Math.tan(phi) * Math.tan(delta);
+  if (x >= 1) return 0;   // Polar night
+  if (x <= -1) return 24; // Midnight sun
+  return (2 * Math.acos(x) / DEG) / 15;
+};
+
+/**
+ * Bell-shaped generation curve centred on solar noon.
+ * Weights follow cos(zenith) sampled at each interval midpoint and sum to 1.
+ */
+export const buildSolarProfile = (latDeg: number, date: Date, intervals: number): number[] => {
+  const doy = getDayOfYear(date);
+  const step = 24 / intervals;
+  const weights = Array.from({ length: intervals }, (_, i) =>
+    Math.max(0, getCosZenith(latDeg, doy, (i + 0.5) * step))
+  );
+  const total = weights.reduce((a, b) => a + b, 0);
+  if (total <= 0) return weights.map(() => 0);
+  return weights.map(w => w / total);
+};
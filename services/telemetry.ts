@@ -0,0 +1,235 @@
+import { TelemetryFormat, TelemetryDay, TelemetryHour, TelemetryImport } from '../types';
+
+/**
+ * Telemetry Import
+ * Shunt / BMS CSV exports turned into daily Wh in/out and hourly SoC. Runs entirely on the file's text.
+ * Sample logs (VRM, JK/Daly BMS, generic timestamp/voltage/current/SoC) are integrated per clock hour;
+ * SmartShunt daily history only yields daily totals.
+ */
+
+const MIN_SAMPLE_GAP_H = 0.25;   // Gaps up to this always integrate, however dense the log
+const SAMPLE_GAP_INTERVALS = 3;  // Longer than this many typical intervals is missing data, not a constant draw
+
+interface TelemetrySample {
+  time: number;
+  powerW: number; // + charging, - discharging
+  pvW?: number;
+  soc?: number;
+}
+
+export interface TelemetryOptions {
+  nominalVoltage: number; // Used when the log has current but no voltage
+  invertCurrent?: boolean; // Log reports discharge as positive (common on Daly/JK exports)
+}
+
+const detectDelimiter = (line: string): string => {
+  const counts = [',', ';', '\t'].map(d => ({ d, n: line.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+const splitCsvLine = (line: string, delimiter: string): string[] => {
+  const cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') {
+      if (quoted && line[i + 1] === '"') { cell += '"'; i++; }
+      else quoted = !quoted;
+    } else if (ch === delimiter && !quoted) {
+      cells.push(cell.trim());
+      cell = '';
+    } else {
+      cell += ch;
+    }
+  }
+  cells.push(cell.trim());
+  return cells;
+};
+
+/**
+ * Decimal commas are common in ;-separated European exports. With both marks the last one is the
+ * decimal point. A lone comma is a decimal comma, except in a comma-separated file (where the cell
+ * had to be quoted) when it groups thousands, as in "1,234".
+ */
+const parseNumber = (raw: string | undefined, decimalComma: boolean): number | undefined => {
+  if (raw === undefined || raw.trim() === '') return undefined;
+  let v = raw.replace(/\s/g, '');
+  const comma = v.lastIndexOf(',');
+  const dot = v.lastIndexOf('.');
+  if (comma >= 0 && dot >= 0) v = comma > dot ? v.replace(/\./g, '').replace(',', '.') : v.replace(/,/g, '');
+  else if (comma >= 0) {
+    const thousands = v.indexOf(',') !== comma || (!decimalComma && /^[-+]?\d{1,3}(,\d{3})+$/.test(v));
+    v = thousands ? v.replace(/,/g, '') : v.replace(',', '.');
+  }
+  const n = Number(v);
+  return isFinite(n) ? n : undefined;
+};
+
+/**
+ * Epoch seconds/ms, ISO, YYYY-MM-DD HH:MM[:SS] or DD/MM/YYYY HH:MM[:SS]. Times without a zone are
+ * local wall-clock, which is what the hourly buckets are in.
+ */
+export const parseTimestamp = (raw: string): number | null => {
+  const v = raw.trim();
+  if (!v) return null;
+  if (/^\d{9,13}(\.\d+)?$/.test(v)) {
+    const n = Number(v);
+    return n > 1e11 ? n : n * 1000;
+  }
+  if (/(z|[+-]\d{2}:?\d{2})$/i.test(v)) {
+    const t = Date.parse(v);
+    return isNaN(t) ? null : t;
+  }
+  const ymd = v.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (ymd) return new Date(+ymd[1], +ymd[2] - 1, +ymd[3], +(ymd[4] || 0), +(ymd[5] || 0), +(ymd[6] || 0)).getTime();
+  const dmy = v.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+  if (dmy) return new Date(+dmy[3], +dmy[2] - 1, +dmy[1], +(dmy[4] || 0), +(dmy[5] || 0), +(dmy[6] || 0)).getTime();
+  return null;
+};
+
+export const toDateKey = (time: number): string => {
+  const d = new Date(time);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+type ColumnRole = 'time' | 'voltage' | 'current' | 'power' | 'pv' | 'soc' | 'charged' | 'discharged';
+
+// First match wins, in this order, so "PV power" is claimed before "power"
+const COLUMN_PATTERNS: [ColumnRole, RegExp][] = [
+  ['time', /time ?stamp|date ?time|^\s*(time|date|zeit|datum)\b/],
+  ['discharged', /discharged energy|energy out|consumed energy/],
+  ['charged', /\bcharged energy|energy in\b/],
+  ['soc', /\bsoc\b|state of charge|remaining capacity.*%|capacity ?\(?%/],
+  ['pv', /\b(pv|solar)\b.*(power|\(w\)|\[w\]|yield|watts)/],
+  ['voltage', /volt|\(v\)|\[v\]|^\s*v\s*$/],
+  ['current', /current|\bamps?\b|\(a\)|\[a\]|^\s*[ai]\s*$/],
+  ['power', /power|watts|\(w\)|\[w\]|^\s*[pw]\s*$/]
+];
+
+const mapColumns = (headers: string[]): Partial<Record<ColumnRole, number>> => {
+  const columns: Partial<Record<ColumnRole, number>> = {};
+  headers.forEach((header, index) => {
+    const label = header.toLowerCase();
+    const match = COLUMN_PATTERNS.find(([role, pattern]) => columns[role] === undefined && pattern.test(label));
+    if (match) columns[match[0]] = index;
+  });
+  return columns;
+};
+
+const detectFormat = (headers: string[], columns: Partial<Record<ColumnRole, number>>): TelemetryFormat => {
+  if (columns.charged !== undefined && columns.discharged !== undefined) return 'smartshunt';
+  const joined = headers.join(' ').toLowerCase();
+  return /battery monitor|vrm|solar charger|smartshunt/.test(joined) ? 'vrm' : 'generic';
+};
+
+const emptyHours = (): TelemetryHour[] => Array.from({ length: 24 }, () => ({ inWh: 0, outWh: 0, coverage: 0 }));
+
+// Longest gap a sample's power may hold across: a few of the log's median intervals
+const getMaxSampleGapH = (samples: { time: number }[]): number => {
+  const intervals = samples.slice(1).map((s, i) => (s.time - samples[i].time) / 3600000).filter(dt => dt > 0).sort((a, b) => a - b);
+  const median = intervals.length ? intervals[Math.floor(intervals.length / 2)] : 0;
+  return Math.max(MIN_SAMPLE_GAP_H, SAMPLE_GAP_INTERVALS * median);
+};
+
+/**
+ * Sample log to days. Each sample's power holds until the next one (up to the gap limit),
+ * booked to the clock hour it was taken in.
+ */
+const integrateSamples = (samples: TelemetrySample[]): TelemetryDay[] => {
+  const maxGapH = getMaxSampleGapH(samples);
+  const hasPv = samples.some(s => s.pvW !== undefined);
+  const days = new Map<string, { hours: TelemetryHour[], socSum: number[], socCount: number[] }>();
+  const getDay = (key: string) => {
+    if (!days.has(key)) days.set(key, { hours: emptyHours(), socSum: Array(24).fill(0), socCount: Array(24).fill(0) });
+    return days.get(key)!;
+  };
+
+  samples.forEach((sample, i) => {
+    const day = getDay(toDateKey(sample.time));
+    const hour = new Date(sample.time).getHours();
+    if (sample.soc !== undefined) {
+      day.socSum[hour] += sample.soc;
+      day.socCount[hour]++;
+    }
+    const next = samples[i + 1];
+    if (!next) return;
+    const dtH = (next.time - sample.time) / 3600000;
+    if (dtH <= 0 || dtH > maxGapH) return;
+    const bucket = day.hours[hour];
+    const wh = sample.powerW * dtH;
+    if (wh >= 0) bucket.inWh += wh;
+    else bucket.outWh -= wh;
+    if (hasPv) bucket.pvWh = (bucket.pvWh || 0) + Math.max(0, sample.pvW || 0) * dtH;
+    bucket.coverage = Math.min(1, bucket.coverage + dtH);
+  });
+
+  return Array.from(days.entries()).sort(([a], [b]) => a.localeCompare(b)).map(([date, day]) => {
+    const hours = day.hours.map((h, i) => day.socCount[i] ? { ...h, soc: day.socSum[i] / day.socCount[i] } : h);
+    return {
+      date,
+      inWh: hours.reduce((sum, h) => sum + h.inWh, 0),
+      outWh: hours.reduce((sum, h) => sum + h.outWh, 0),
+      ...(hasPv ? { pvWh: hours.reduce((sum, h) => sum + (h.pvWh || 0), 0) } : {}),
+      hours
+    };
+  });
+};
+
+/**
+ * Parses a shunt/BMS export. Throws with a readable message when the file can't be used.
+ */
+export const importTelemetry = (text: string, fileName: string, options: TelemetryOptions): TelemetryImport => {
+  const lines = text.split(/\r?\n/).filter(l => l.trim() !== '' && !l.trim().startsWith('#'));
+  if (lines.length < 2) throw new Error('The file has no data rows.');
+  const delimiter = detectDelimiter(lines[0]);
+  const parseCell = (raw: string | undefined) => parseNumber(raw, delimiter !== ',');
+  const rows = lines.map(l => splitCsvLine(l, delimiter));
+
+  // Some exports (VRM) spread the header over several rows: device, field, unit
+  let headerRows = 1;
+  while (headerRows < Math.min(4, rows.length - 1) && !rows[headerRows].some(cell => parseTimestamp(cell) !== null)) headerRows++;
+  const headers = rows[0].map((_, col) => rows.slice(0, headerRows).map(r => r[col] || '').join(' ').trim());
+  const data = rows.slice(headerRows);
+
+  const columns = mapColumns(headers);
+  const format = detectFormat(headers, columns);
+  if (columns.time === undefined) throw new Error('No timestamp or date column found.');
+
+  if (format === 'smartshunt') {
+    const scale = (col: number) => /kwh/i.test(headers[col]) ? 1000 : 1;
+    const days = data.map(row => {
+      const time = parseTimestamp(row[columns.time!] || '');
+      if (time === null) return null;
+      return {
+        date: toDateKey(time),
+        inWh: (parseCell(row[columns.charged!]) || 0) * scale(columns.charged!),
+        outWh: Math.abs(parseCell(row[columns.discharged!]) || 0) * scale(columns.discharged!)
+      };
+    }).filter((d): d is TelemetryDay => d !== null).sort((a, b) => a.date.localeCompare(b.date));
+    if (days.length === 0) throw new Error('No dated rows found.');
+    return { fileName, format, importedAt: Date.now(), days };
+  }
+
+  if (columns.power === undefined && columns.current === undefined) throw new Error('Need a current or power column.');
+  const sign = options.invertCurrent ? -1 : 1;
+  const samples: TelemetrySample[] = [];
+  data.forEach(row => {
+    const time = parseTimestamp(row[columns.time!] || '');
+    if (time === null) return;
+    const power = columns.power !== undefined ? parseCell(row[columns.power]) : undefined;
+    const current = columns.current !== undefined ? parseCell(row[columns.current]) : undefined;
+    const voltage = (columns.voltage !== undefined ? parseCell(row[columns.voltage]) : undefined) || options.nominalVoltage;
+    const powerW = power !== undefined ? power : current !== undefined ? current * voltage : undefined;
+    if (powerW === undefined) return;
+    samples.push({
+      time,
+      powerW: powerW * sign,
+      pvW: columns.pv !== undefined ? parseCell(row[columns.pv]) : undefined,
+      soc: columns.soc !== undefined ? parseCell(row[columns.soc]) : undefined
+    });
+  });
+  if (samples.length < 2) throw new Error('Fewer than two usable samples.');
+  samples.sort((a, b) => a.time - b.time);
+  return { fileName, format, importedAt: Date.now(), days: integrateSamples(samples) };
+};
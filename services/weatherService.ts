@@ -4,6 +4,9 @@
  * Handles Geocoding and Peak Sun Hours (PSH) calculations.
  */
 
+import { HourlyIrradiance, ForecastDay, HourlySeries, SolarForecast } from '../types';
+import { RECORD_LOW_YEARS } from '../constants';
+
 export interface LatLon {
   lat: number;
   lon: number;
@@ -63,66 +66,252 @@ export const geocodeLocation = async (location: string): Promise<LatLon | null>
  */
 const MJ_TO_PSH_DIVISOR = 3.6;
 
-export const fetchNowSolarPSH = async (lat: number, lon: number): Promise<number> => {
+const averageOf = (values: number[]): number | undefined => {
+  const valid = values.filter(v => typeof v === 'number' && !isNaN(v));
+  return valid.length ? valid.reduce((a, b) => a + b, 0) / valid.length : undefined;
+};
+
+const HOURLY_FIELDS = 'shortwave_radiation,direct_normal_irradiance,diffuse_radiation,cloud_cover,temperature_2m';
+
+/**
+ * Groups hourly rows by local date. PSH = ΣGHI / 1000 (each value is a 1h mean).
+ */
+export const rollupForecastDays = (hourly: HourlyIrradiance[]): ForecastDay[] => {
+  const byDate = new Map<string, HourlyIrradiance[]>();
+  hourly.forEach(h => {
+    const date = h.time.slice(0, 10);
+    byDate.set(date, [...(byDate.get(date) || []), h]);
+  });
+
+  return Array.from(byDate.entries()).map(([date, hours]) => {
+    const ghiSum = hours.reduce((a, h) => a + h.ghi, 0);
+    const dhiSum = hours.reduce((a, h) => a + h.dhi, 0);
+    const daylight = hours.filter(h => h.ghi > 0);
+    return {
+      date,
+      psh: parseFloat((ghiSum / 1000).toFixed(2)),
+      diffuseShare: ghiSum > 0 ? Math.min(1, dhiSum / ghiSum) : 1,
+      cloudCover: daylight.length ? daylight.reduce((a, h) => a + h.cloudCover, 0) / daylight.length : 100,
+      tempMaxC: Math.max(...hours.map(h => h.tempC))
+    };
+  });
+};
+
+/**
+ * Hourly rows for each rolled-up day, aligned with forecast.days.
+ */
+export const getDailyHourlySeries = (forecast?: SolarForecast): HourlySeries[] => {
+  if (!forecast?.hourly || !forecast.days) return [];
+  return forecast.days.map(day => ({
+    hours: forecast.hourly!.filter(h => h.time.startsWith(day.date)),
+    solarTimeOffsetH: forecast.solarTimeOffsetH
+  }));
+};
+
+export const fetchHourlyForecast = async (lat: number, lon: number, days = 16): Promise<{ hourly: HourlyIrradiance[], days: ForecastDay[], solarTimeOffsetH: number }> => {
+  const res = await fetch(
+    `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&hourly=${HOURLY_FIELDS}&timezone=auto&forecast_days=${Math.min(16, Math.max(1, days))}`,
+    { cache: 'no-store' }
+  );
+  const data = await res.json();
+  const h = data.hourly || {};
+  const times = (h.time || []) as string[];
+  const num = (arr: any[] | undefined, i: number) => {
+    const v = Number(arr?.[i]);
+    return isFinite(v) ? v : 0;
+  };
+
+  const hourly: HourlyIrradiance[] = times.map((time, i) => ({
+    time,
+    ghi: num(h.shortwave_radiation, i),
+    dni: num(h.direct_normal_irradiance, i),
+    dhi: num(h.diffuse_radiation, i),
+    cloudCover: num(h.cloud_cover, i),
+    tempC: num(h.temperature_2m, i)
+  }));
+
+  // Solar noon sits at 12:00 + (UTC offset - longitude/15) local clock time
+  const utcOffsetH = (Number(data.utc_offset_seconds) || 0) / 3600;
+  return { hourly, days: rollupForecastDays(hourly), solarTimeOffsetH: lon / 15 - utcOffsetH };
+};
+
+export const fetchNowSolarPSH = async (lat: number, lon: number): Promise<{
+  now: number,
+  daily: number[],
+  tempMax?: number,
+  dailyTempMax: number[],
+  hourly: HourlyIrradiance[],
+  days: ForecastDay[],
+  solarTimeOffsetH?: number
+}> => {
   try {
-    // Force fresh fetch to avoid caching "yesterday's" Now data
-    // Uses shortwave_radiation_sum (MJ/m²) instead of sunshine_duration
-    // FETCH 3 DAYS to smooth out single-day volatility (rainy days)
-    const res = await fetch(
-      `https://api.open-meteo.com/v1/forecast?latitude=${lat}&longitude=${lon}&daily=shortwave_radiation_sum&timezone=auto&forecast_days=3`,
-      { cache: 'no-store' }
-    );
-    const data = await res.json();
-    const mjSums = data.daily?.shortwave_radiation_sum as number[];
-    
-    if (!mjSums || mjSums.length === 0) return 4.0;
+    // Force fresh fetch to avoid caching "yesterday's" Now data.
+    // 16 days of hourly irradiance; "now" stays the 3-day mean to smooth single-day volatility (rainy days)
+    const forecast = await fetchHourlyForecast(lat, lon, 16);
+    const days = forecast.days;
+    if (days.length === 0) return { now: 4.0, daily: [], dailyTempMax: [], hourly: [], days: [] };
 
-    // Calculate Average MJ over 3 days
-    const totalMj = mjSums.reduce((acc, val) => acc + (val || 0), 0);
-    const avgMj = totalMj / mjSums.length;
-    
-    // Convert MJ/m² to PSH (kWh/m²)
-    return avgMj / MJ_TO_PSH_DIVISOR;
+    const firstThree = days.slice(0, 3);
+    return {
+      now: firstThree.reduce((acc, d) => acc + d.psh, 0) / firstThree.length,
+      daily: days.map(d => d.psh),
+      // Air temperature drives array cell-temperature derating
+      tempMax: averageOf(firstThree.map(d => d.tempMaxC)),
+      dailyTempMax: days.map(d => d.tempMaxC),
+      hourly: forecast.hourly,
+      days,
+      solarTimeOffsetH: forecast.solarTimeOffsetH
+    };
   } catch (e) {
     console.error("Now forecast failed", e);
-    return 4.0;
+    return { now: 4.0, daily: [], dailyTempMax: [], hourly: [], days: [] };
   }
 };
 
-export const fetchMonthAvgSolarPSH = async (lat: number, lon: number, monthIso?: string): Promise<{ sunny: number, cloudy: number }> => {
+/**
+ * Linear-interpolated percentile (p in 0-100) of an unsorted list.
+ */
+const percentileOf = (values: number[], p: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const idx = (p / 100) * (sorted.length - 1);
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+};
+
+// A "low-yield" day produces less than this share of the month's mean PSH
+const LOW_YIELD_FRACTION = 0.5;
+
+export interface MonthClimatology {
+  sunny: number;   // Mean daily PSH
+  cloudy: number;  // Typical bad day (P10 when several years are pooled)
+  daily: number[]; // Most recent year's month, day by day
+  tempMax?: number;
+  dailyTempMax: number[]; // NaN where the archive has no reading
+  p10: number;
+  p50: number;
+  p90: number;
+  longestLowRun: number;
+  years: number;
+}
+
+const FALLBACK_CLIMATOLOGY: MonthClimatology = {
+  sunny: 4.5, cloudy: 1.5, daily: [], dailyTempMax: [], p10: 1.5, p50: 4.5, p90: 6, longestLowRun: 0, years: 0
+};
+
+type ArchiveDay = { psh: number, temp: number };
+
+/**
+ * Archive daily rows grouped by month ("01".."12"), then by year. Days without radiation are dropped;
+ * a missing temperature stays NaN, so it can't pass for 0°C.
+ */
+const fetchArchiveDays = async (lat: number, lon: number, startDate: string, endDate: string) => {
+  // Uses shortwave_radiation_sum (MJ/m²)
+  const res = await fetch(
+    `https://archive-api.open-meteo.com/v1/archive?latitude=${lat}&longitude=${lon}&start_date=${startDate}&end_date=${endDate}&daily=shortwave_radiation_sum,temperature_2m_max&timezone=auto`,
+    { cache: 'no-store' }
+  );
+  const data = await res.json();
+
+  const times = (data.daily?.time || []) as string[];
+  const radiationSums = (data.daily?.shortwave_radiation_sum || []) as number[];
+  const temps = (data.daily?.temperature_2m_max || []) as (number | null)[];
+
+  const byMonth = new Map<string, Map<string, ArchiveDay[]>>();
+  times.forEach((t, i) => {
+    const psh = Number(radiationSums[i]) / MJ_TO_PSH_DIVISOR;
+    if (radiationSums[i] === null || isNaN(psh)) return;
+    const month = t.slice(5, 7);
+    const year = t.slice(0, 4);
+    const byYear = byMonth.get(month) || new Map<string, ArchiveDay[]>();
+    byYear.set(year, [...(byYear.get(year) || []), { psh, temp: temps[i] === null ? NaN : Number(temps[i]) }]);
+    byMonth.set(month, byYear);
+  });
+  return byMonth;
+};
+
+const summariseMonth = (byYear: Map<string, ArchiveDay[]> | undefined, lastYear: number): MonthClimatology => {
+  const allDays = byYear ? Array.from(byYear.values()).flat() : [];
+  if (!byYear || allDays.length === 0) return FALLBACK_CLIMATOLOGY;
+  const allPsh = allDays.map(d => d.psh);
+
+  const avg = allPsh.reduce((a, b) => a + b, 0) / allPsh.length;
+  const p10 = percentileOf(allPsh, 10);
+
+  let longestLowRun = 0;
+  byYear.forEach(daysInYear => {
+    let run = 0;
+    daysInYear.forEach(d => {
+      run = d.psh < avg * LOW_YIELD_FRACTION ? run + 1 : 0;
+      longestLowRun = Math.max(longestLowRun, run);
+    });
+  });
+
+  const latest = byYear.get(String(lastYear)) || Array.from(byYear.values()).pop() || [];
+  const round = (v: number) => parseFloat(v.toFixed(2));
+
+  return { 
+    sunny: round(avg), 
+    cloudy: round(byYear.size > 1 ? p10 : Math.max(Math.min(...allPsh), avg * 0.3)),
+    daily: latest.map(d => round(d.psh)),
+    tempMax: averageOf(allDays.map(d => d.temp)),
+    dailyTempMax: latest.map(d => d.temp),
+    p10: round(p10),
+    p50: round(percentileOf(allPsh, 50)),
+    p90: round(percentileOf(allPsh, 90)),
+    longestLowRun,
+    years: byYear.size
+  };
+};
+
+const clampYears = (years: number) => Math.min(20, Math.max(1, Math.round(years) || 1));
+
+/**
+ * Pools the selected month across the last N years of the archive.
+ * years = 1 keeps the old single prior-year behaviour (cloudy = worst day, floored at 30% of mean).
+ */
+export const fetchMonthAvgSolarPSH = async (lat: number, lon: number, monthIso?: string, years = 1): Promise<MonthClimatology> => {
   try {
     const date = monthIso ? new Date(monthIso + "-15") : new Date();
-    const year = date.getFullYear() - 1;
+    const lastYear = date.getFullYear() - 1;
     const month = (date.getMonth() + 1).toString().padStart(2, '0');
-    
-    const startDate = `${year}-${month}-01`;
-    const endDate = `${year}-${month}-28`;
-
-    // Uses shortwave_radiation_sum (MJ/m²)
-    const res = await fetch(
-      `https://archive-api.open-meteo.com/v1/archive?latitude=${lat}&longitude=${lon}&start_date=${startDate}&end_date=${endDate}&daily=shortwave_radiation_sum&timezone=auto`,
-      { cache: 'no-store' }
-    );
-    const data = await res.json();
-    
-    const radiationSums = data.daily?.shortwave_radiation_sum as number[];
-    if (!radiationSums || radiationSums.length === 0) return { sunny: 4.5, cloudy: 1.5 };
-
-    const pshValues = radiationSums.map(mj => mj / MJ_TO_PSH_DIVISOR);
-    
-    // Filter out null/undefined/NaN just in case API returns gaps
-    const validPsh = pshValues.filter(v => typeof v === 'number' && !isNaN(v));
-    if (validPsh.length === 0) return { sunny: 4.5, cloudy: 1.5 };
 
-    const avg = validPsh.reduce((a, b) => a + b, 0) / validPsh.length;
-    const low = Math.min(...validPsh);
-
-    return { 
-      sunny: parseFloat(avg.toFixed(2)), 
-      cloudy: parseFloat(Math.max(low, avg * 0.3).toFixed(2)) 
-    };
+    // Just the month from each year, oldest first
+    const spanYears = Array.from({ length: clampYears(years) }, (_, k) => lastYear - clampYears(years) + 1 + k);
+    const perYear = await Promise.all(spanYears.map(year => {
+      const lastDay = new Date(year, date.getMonth() + 1, 0).getDate();
+      return fetchArchiveDays(lat, lon, `${year}-${month}-01`, `${year}-${month}-${lastDay}`);
+    }));
+    const byYear = new Map<string, ArchiveDay[]>();
+    perYear.forEach(byMonth => byMonth.get(month)?.forEach((days, year) => byYear.set(year, days)));
+    return summariseMonth(byYear, lastYear);
   } catch (e) {
     console.error("Archive forecast failed", e);
-    return { sunny: 4.5, cloudy: 1.5 };
+    return FALLBACK_CLIMATOLOGY;
   }
 };
+
+/**
+ * All twelve months (Jan..Dec) from the last N complete years, in one archive request.
+ */
+export const fetchYearSolarPSH = async (lat: number, lon: number, years = 1): Promise<MonthClimatology[]> => {
+  const lastYear = new Date().getFullYear() - 1;
+  const byMonth = await fetchArchiveDays(lat, lon, `${lastYear - clampYears(years) + 1}-01-01`, `${lastYear}-12-31`);
+  return Array.from({ length: 12 }, (_, m) => summariseMonth(byMonth.get((m + 1).toString().padStart(2, '0')), lastYear));
+};
+
+/**
+ * Coldest daily minimum over the last N complete years. Panel Voc peaks on a cold, clear dawn.
+ */
+export const fetchRecordLowC = async (lat: number, lon: number, years = RECORD_LOW_YEARS): Promise<number | null> => {
+  const lastYear = new Date().getFullYear() - 1;
+  const res = await fetch(
+    `https://archive-api.open-meteo.com/v1/archive?latitude=${lat}&longitude=${lon}&start_date=${lastYear - clampYears(years) + 1}-01-01&end_date=${lastYear}-12-31&daily=temperature_2m_min&timezone=auto`,
+    { cache: 'no-store' }
+  );
+  const data = await res.json();
+  const mins = ((data.daily?.temperature_2m_min || []) as (number | null)[])
+    .filter((t): t is number => t !== null && isFinite(t));
+  return mins.length ? mins.reduce((a, b) => Math.min(a, b)) : null;
+};
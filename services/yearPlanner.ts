@@ -0,0 +1,112 @@
+import { PowerItem, ChargingSource, BatteryConfig, LoadSeason, MonthBalance, YearPlan } from '../types';
+import { SEASON_MONTHS } from '../constants';
+import { calculateSystemTotals, calculateAutonomy, calculateSourceEnergy, getHouseBankView, getSiteLatitude } from './powerLogic';
+import { MonthClimatology } from './weatherService';
+
+/**
+ * Year Planner
+ * Runs the month-average model once per calendar month against the archive climatology,
+ * with seasonal loads switched in and out.
+ */
+
+export const getMonthSeason = (month: number, latitude: number): LoadSeason => {
+  const m = latitude < 0 ? month : (month + 6) % 12;
+  if (SEASON_MONTHS.summer.includes(m)) return 'summer';
+  if (SEASON_MONTHS.winter.includes(m)) return 'winter';
+  return 'all';
+};
+
+export const isItemInSeason = (item: PowerItem, season: LoadSeason): boolean =>
+  !item.season || item.season === 'all' || item.season === season;
+
+/**
+ * A month-average copy of the config with the month's climatology as its forecast.
+ */
+export const getMonthBattery = (battery: BatteryConfig, month: number, climate: MonthClimatology): BatteryConfig => {
+  const year = new Date().getFullYear();
+  return {
+    ...battery,
+    forecastMode: 'monthAvg',
+    forecastMonth: `${year}-${(month + 1).toString().padStart(2, '0')}-15`,
+    forecast: {
+      ...battery.forecast,
+      sunnyHours: climate.sunny,
+      cloudyHours: climate.cloudy,
+      p10Hours: climate.p10,
+      p50Hours: climate.p50,
+      p90Hours: climate.p90,
+      longestLowRun: climate.longestLowRun,
+      tempMaxC: climate.tempMax,
+      nowHours: undefined,
+      dailyHours: undefined,
+      hourly: undefined,
+      days: undefined,
+      loading: false,
+      fetched: true
+    }
+  };
+};
+
+export const planYear = (
+  items: PowerItem[],
+  charging: ChargingSource[],
+  battery: BatteryConfig,
+  climate: MonthClimatology[]
+): YearPlan => {
+  const latitude = getSiteLatitude(battery);
+  // Manual solar hours are a single-month guess; every month follows its own PSH here
+  const yearCharging = charging.map(c => c.type === 'solar' ? { ...c, autoSolar: true } : c);
+
+  const months: MonthBalance[] = climate.map((monthClimate, month) => {
+    const season = getMonthSeason(month, latitude);
+    const monthItems = items.filter(item => isItemInSeason(item, season));
+    const monthBattery = getMonthBattery(battery, month, monthClimate);
+    const totals = calculateSystemTotals(monthItems, yearCharging, monthBattery);
+    const house = totals.banks?.[0] || totals;
+    const forecast = { sunny: monthClimate.sunny, cloudy: monthClimate.cloudy, p10: monthClimate.p10 };
+    const cloud = calculateAutonomy(monthItems, yearCharging, monthBattery, 'cloud', forecast);
+
+    return {
+      month,
+      psh: monthClimate.sunny,
+      p10Psh: monthClimate.p10,
+      tempMaxC: monthClimate.tempMax,
+      generatedWh: house.dailyWhGenerated,
+      consumedWh: house.dailyWhConsumed,
+      netWh: house.netWh,
+      cloudAutonomyDays: cloud.days,
+      lowRunDays: monthClimate.longestLowRun
+    };
+  });
+
+  const deficitMonths = months.filter(m => m.netWh < 0).map(m => m.month);
+  const worstMonth = months.reduce((worst, m) => m.netWh < months[worst].netWh ? m.month : worst, 0);
+
+  // Solar sizing: the month needing the most added watts, at that month's yield per rated watt
+  const view = getHouseBankView(items, yearCharging, battery);
+  const solar = view.charging.filter(c => c.type === 'solar' && c.enabled !== false);
+  const ratedW = solar.reduce((sum, c) => sum + (Number(c.input) || 0) * (Number(c.quantity) || 1), 0);
+  const extraSolarW = deficitMonths.reduce((most, month) => {
+    const m = months[month];
+    const monthBattery = getMonthBattery(view.battery, month, climate[month]);
+    const solarWh = solar.reduce((sum, c) => sum + calculateSourceEnergy(c, monthBattery).wh, 0);
+    const whPerW = ratedW > 0 ? solarWh / ratedW : m.psh * 0.85;
+    return whPerW > 0 ? Math.max(most, -m.netWh / whPerW) : most;
+  }, 0);
+
+  // Storage sizing: usable Wh to ride the month's longest low-yield run at P10, starting full
+  const usableWh = calculateSystemTotals(items, yearCharging, battery).banks?.[0]?.usableWh ?? 0;
+  const extraBatteryWh = months.reduce((most, m) => {
+    const lowDayGeneratedWh = m.generatedWh * (m.p10Psh / (m.psh || 1));
+    const needWh = Math.max(1, m.lowRunDays) * Math.max(0, m.consumedWh - lowDayGeneratedWh);
+    return Math.max(most, needWh - usableWh);
+  }, 0);
+
+  return {
+    months,
+    deficitMonths,
+    worstMonth,
+    extraSolarW: Math.ceil(extraSolarW),
+    extraBatteryWh: Math.max(0, Math.ceil(extraBatteryWh))
+  };
+};
@@ -5,6 +5,38 @@ export enum LoadCategory {
   SYSTEM_MGMT = 'System Mgmt'
 }
 
+export interface TimeWindow {
+  start: number; // Hour of day (0-24)
+  end: number;   // Hour of day (0-24). end < start wraps past midnight.
+}
+
+export interface UsageSchedule {
+  windows?: TimeWindow[];
+  hourly?: number[]; // 24 relative weights (index = hour of day)
+}
+
+export type ConductorMaterial = 'copper' | 'aluminium';
+
+export interface CableRun {
+  lengthM: number;     // One-way length; the return conductor doubles it
+  maxDropPct: number;  // Allowed voltage drop (% of bus voltage)
+  material: ConductorMaterial;
+  ambientC: number;    // Installation temperature
+}
+
+export interface CableSizing {
+  amps: number;      // Continuous circuit current at the bus voltage
+  voltage: number;
+  awg: string;       // Smallest gauge meeting both drop and ampacity; '' if none does
+  mm2: number;
+  ampacityA: number; // Derated for material and temperature
+  dropV: number;
+  dropPct: number;
+  fuseA: number;     // Standard rating at 1.25x continuous current
+  limitedBy: 'drop' | 'ampacity';
+  oversize: boolean; // No listed cable is large enough
+}
+
 export interface PowerItem {
   id: string;
   category: LoadCategory;
@@ -16,6 +48,71 @@ export interface PowerItem {
   notes: string;
   technicalSpecs?: string;
   enabled?: boolean;
+  schedule?: UsageSchedule; // When the daily hours are spent. Unset = spread across 24h.
+  bankId?: string; // Battery bank this load draws from. Unset = house bank.
+  inverterId?: string; // AC loads only. Unset = first inverter.
+  surgeMultiplier?: number;   // Start-up peak as a multiple of running watts (motors, compressors)
+  simultaneousGroup?: string; // Loads sharing a group are assumed to run together
+  cable?: CableRun; // Circuit from the battery/bus to this load
+  season?: LoadSeason; // Year planner: only counted in this season. Unset = all year.
+  profile?: LoadProfile; // Date/temperature-dependent hours and duty. Unset = hours/dutyCycle every day.
+  standbyWatts?: number; // Draw outside the active hours (24 - hours)
+  partId?: string;       // Parts library entry this row was created from
+  priority?: LoadPriority; // Load shedding order. Unset = comfort.
+  shed?: ShedState;        // Load shedding cuts, and whether the row was on before them
+}
+
+export type LoadPriority = 'critical' | 'comfort' | 'optional';
+
+// Cuts scale the hours and duty the load profile resolves to, so month overrides and
+// temperature rules keep working underneath them
+export interface ShedState {
+  enabled?: boolean;    // As it was before the first cut
+  hoursFactor?: number; // Unset = 1
+  dutyFactor?: number;
+}
+
+export interface LoadMonthOverride {
+  hours?: number;
+  dutyCycle?: number;
+}
+
+export interface TemperatureDutyRule {
+  baseTempC: number;   // Daily max temperature at which duty = baseDuty
+  baseDuty: number;    // %
+  dutyPerDegC: number; // % added per °C above base (negative for heaters)
+  minDuty: number;
+  maxDuty: number;
+}
+
+export interface LoadProfile {
+  months?: Record<number, LoadMonthOverride>; // 0 = January
+  tempRule?: TemperatureDutyRule;             // Applied after month overrides
+  weekendHours?: number;                      // Sat/Sun hours. Unset = same as weekdays.
+}
+
+export type LoadSeason = 'all' | 'summer' | 'winter';
+
+export type ControllerType = 'mppt' | 'pwm';
+
+export interface SolarArray {
+  flat: boolean;        // Lying flat (vehicle/caravan roof). Ignores tilt and azimuth.
+  tiltDeg: number;      // 0 = horizontal, 90 = vertical
+  azimuthDeg: number;   // Compass bearing the panels face (0 = N, 90 = E, 180 = S)
+  tempCoeffPct: number; // Pmax temperature coefficient, %/°C (negative)
+  noctC: number;        // Nominal operating cell temperature
+  shadingPct: number;   // Shading + soiling loss
+  controller: ControllerType;
+}
+
+// How a solar row's panels are wired into its charge controller
+export interface PanelStringing {
+  series: number;           // Panels per string
+  parallel: number;         // Strings in parallel
+  vocV?: number;            // Per panel open-circuit voltage at STC
+  tempCoeffVocPct?: number; // %/°C (negative)
+  iscA?: number;            // Per panel short-circuit current at STC
+  impA?: number;            // Per panel current at maximum power
 }
 
 export interface ChargingSource {
@@ -29,12 +126,89 @@ export interface ChargingSource {
   type: 'solar' | 'alternator' | 'generator' | 'mppt' | 'charger' | 'wind' | 'other';
   autoSolar?: boolean;
   enabled?: boolean;
+  schedule?: UsageSchedule; // Generation curve. Solar defaults to a bell curve around solar noon.
+  bankId?: string; // Battery bank this source charges. Unset = house bank.
+  cable?: CableRun; // Circuit from this source (or its controller output) to the battery
+  array?: SolarArray; // Solar only. When set, physics replaces the flat efficiency figure.
+  partId?: string;    // Parts library entry this row was created from
+  capex?: number;         // Purchase + install cost
+  lifetimeYears?: number; // Years the capex is spread over
+  fuel?: GeneratorFuel;   // Generator rows only
+  autoStart?: AutoStartRule; // Non-solar only: runs on battery SoC instead of fixed hours
+  driving?: DrivingProfile;  // Alternator only: output follows the drive pattern instead of fixed hours
+  controllerId?: string;     // Solar only: charge controller this row is wired to
+  stringing?: PanelStringing;
+  learnedFactor?: number;    // Solar only: actual ÷ modelled yield, learned from the journal
+}
+
+// Drive pattern and DC-DC behaviour for an alternator row
+export interface DrivingProfile {
+  daysPerWeek: number;
+  hoursPerDrive: number;
+  driveDays?: number[];      // Weekdays driven (0 = Sunday). Unset = spread evenly from Monday.
+  startHour?: number;        // When the drive starts (default 9)
+  ratedA?: number;           // DC-DC output at the bank voltage. Replaces the row's watts when set.
+  hotDeratePct?: number;     // Output lost on hot days (alternator / under-bonnet temperature)
+  hotAboveC?: number;        // Daily max air temperature the derate starts at (default 35)
+  smartAlternator?: boolean; // Variable-voltage alternator
+  ignitionTrigger?: boolean; // DC-DC enabled by ignition/D+ rather than by sensing input voltage
+  smartChargeMin?: number;   // Smart alternator, voltage sensing: minutes per drive before the voltage drops below cut-in
+}
+
+// Start/stop hysteresis for a generator or shore charger, evaluated by the SoC engine
+export interface AutoStartRule {
+  startSoC: number;            // Starts when SoC falls below this (%)
+  stopSoC: number;             // Runs until SoC reaches this (%)
+  maxRunHours?: number;        // Per day. Unset = no limit.
+  quietWindows?: TimeWindow[]; // Never runs inside these windows
+  maxChargeA?: number;         // Charge current limit at the bank voltage
+}
+
+// Burn while running at this row's charging output
+export interface GeneratorFuel {
+  litresPerHour: number;
+  pricePerLitre: number;
+}
+
+export interface HourlyIrradiance {
+  time: string;       // Local clock hour (ISO, e.g. "2026-10-19T13:00")
+  ghi: number;        // shortwave_radiation, W/m² (mean over the preceding hour)
+  dni: number;        // direct_normal_irradiance, W/m²
+  dhi: number;        // diffuse_radiation, W/m²
+  cloudCover: number; // %
+  tempC: number;
+}
+
+// One forecast day of hourly data
+export interface HourlySeries {
+  hours: HourlyIrradiance[];
+  solarTimeOffsetH?: number;
+}
+
+export interface ForecastDay {
+  date: string;       // YYYY-MM-DD
+  psh: number;        // Summed GHI, kWh/m²
+  diffuseShare: number; // Diffuse / global energy (0-1)
+  cloudCover: number; // Daylight mean %
+  tempMaxC: number;
 }
 
 export interface SolarForecast {
   sunnyHours?: number; // Month Avg PSH
   cloudyHours?: number; // Typical bad day PSH
   nowHours?: number;   // Real-time weather PSH (deterministic)
+  dailyHours?: number[]; // Day-by-day PSH sequence (forecast days or archive month)
+  tempMaxC?: number;        // Mean daily max air temperature over the same period
+  dailyTempMaxC?: number[]; // Aligned with dailyHours
+  p10Hours?: number;       // Climatology: daily PSH percentiles for the month across the years fetched
+  p50Hours?: number;
+  p90Hours?: number;
+  longestLowRun?: number;  // Most consecutive days below half the mean PSH
+  climatologyYears?: number; // Years actually covered by the archive data
+  hourly?: HourlyIrradiance[]; // 'now' mode: up to 16 days of hourly data
+  days?: ForecastDay[];        // Per-day rollups of hourly
+  solarTimeOffsetH?: number;   // Add to local clock time to get solar time (longitude vs. UTC offset)
+  recordLowC?: number;         // Coldest daily minimum in the archive, for worst-case panel Voc
   loading: boolean;
   fetched: boolean;
   updatedAt?: string;
@@ -44,10 +218,105 @@ export interface SolarForecast {
   name?: string;
 }
 
+export type BatteryChemistry = 'lifepo4' | 'agm' | 'flooded' | 'nmc';
+
+export interface ChemistryPreset {
+  label: string;
+  usableDoD: number;           // Fraction of nameplate that may be cycled (0-1)
+  chargeEfficiency: number;    // Wh stored per Wh delivered to the battery
+  dischargeEfficiency: number; // Wh delivered per Wh drawn from the battery
+  peukertExponent: number;
+  reserveSoC: number;          // Low-voltage cutoff reserve (%)
+  cycleLife: number;           // Typical rated cycles at cycleLifeDoD (%)
+  cycleLifeDoD: number;
+  calendarFadePctPerYear: number; // Capacity lost per year at 25°C regardless of use
+}
+
+export interface BatteryBank {
+  id: string;
+  name: string;
+  chemistry: BatteryChemistry;
+  moduleVoltage: number; // Nominal V per cell/module
+  moduleAh: number;
+  seriesCount: number;
+  parallelCount: number;
+  initialSoC: number;
+  bmsMaxDischargeA?: number;
+  mainFuseA?: number;
+  price?: number;
+  cycleLife?: number;    // Rated cycles to end of life...
+  cycleLifeDoD?: number; // ...at this depth of discharge (%)
+  stateOfHealthPct?: number; // Capacity left vs. nameplate. Unset = new.
+}
+
+export type InverterPreset = 'hf' | 'lf';
+
+export interface InverterCurvePoint {
+  loadPct: number;    // % of rated continuous power
+  efficiency: number; // 0-1
+}
+
+export interface Inverter {
+  id: string;
+  name: string;
+  ratedW: number;
+  surgeW: number;
+  idleW: number;    // Self-consumption while switched on
+  hoursOn: number;  // Hours per day the inverter is switched on
+  preset: InverterPreset;
+  curve?: InverterCurvePoint[]; // Custom load/efficiency table. Overrides the preset.
+  schedule?: UsageSchedule;     // When it is switched on
+  bankId?: string;
+}
+
+// Solar charge controller. Output is held to the charge current (and rated PV watts) at the bank voltage.
+export interface ChargeController {
+  id: string;
+  name: string;
+  maxPvVoltage: number; // Absolute PV input limit (V)
+  maxChargeA: number;   // Output current limit
+  maxPvW?: number;      // Rated PV power at the bank voltage
+  maxPvA?: number;      // PV input short-circuit current limit
+}
+
+export interface ControllerCheck {
+  controllerId: string;
+  arrayW: number;               // Rated panel watts wired in (series × parallel × panel W)
+  limitW: number;               // Output limit at the bank voltage
+  coldVocV: number | null;      // Highest string Voc at the record low (null = no panel Voc entered)
+  overVoltage: string[];        // Source ids whose cold Voc exceeds the PV input limit
+  iscA: number | null;          // Array short-circuit current: parallel strings × panel Isc (null = no panel Isc entered)
+  impA: number | null;          // Array current at maximum power
+  overCurrent: boolean;         // Array Isc above the controller's PV input current limit
+  countMismatch: string[];      // Source ids whose quantity isn't series × parallel
+  clippedWh: number;            // Per day at the current forecast
+}
+
+export interface DegradationYear {
+  year: number;        // 0 = today
+  sohPct: number;      // Capacity left vs. nameplate
+  capacityAh: number;
+  autonomyDays: number; // No charging at all, from full
+  cloudAutonomyDays: number;
+}
+
+export interface DegradationProjection {
+  dailyDoDPct: number;      // Today's average daily depth of discharge
+  cyclesPerYear: number;    // Equivalent full cycles
+  fadePctPerYear: number;   // Today's rate (cycling + calendar)
+  endOfLifeYear: number | null; // Years until the bank is below 80% of nameplate (null = beyond the horizon)
+  years: DegradationYear[];
+}
+
 export interface BatteryConfig {
   capacityAh: number;
   voltage: number;
   initialSoC: number;
+  chemistry?: BatteryChemistry;
+  banks?: BatteryBank[]; // First bank is the house bank; voltage/capacityAh/chemistry/initialSoC/stateOfHealthPct mirror it.
+  stateOfHealthPct?: number;
+  inverters?: Inverter[];
+  controllers?: ChargeController[];
   location: string;
   geo?: {
     lat: number;
@@ -56,7 +325,9 @@ export interface BatteryConfig {
   };
   forecastMode: 'now' | 'monthAvg';
   forecastMonth?: string; // YYYY-MM-DD
+  climatologyYears?: number; // monthAvg mode: years of archive to pool (1 = prior year only)
   forecast?: SolarForecast;
+  applyLearnedFactors?: boolean; // Scale solar rows by their journal-learned factor
 }
 
 export interface SystemTotals {
@@ -67,6 +338,107 @@ export interface SystemTotals {
   netWh: number;
   netAh: number;
   finalSoC: number;
+  usableWh: number; // Capacity between the SoC floor and 100%
+  socFloor: number; // % below which the bank is considered flat
+  autoStartHours?: Record<string, number>; // Hours a day each auto-start source runs to cover the deficit
+  controllerClippedWh?: Record<string, number>; // Solar lost to each controller's current limit
+  banks?: BankTotals[];
+}
+
+export interface BankTotals extends Omit<SystemTotals, 'banks'> {
+  bankId: string;
+  name: string;
+  voltage: number;
+  capacityAh: number;
+}
+
+export interface MonthBalance {
+  month: number;          // 0 = January
+  psh: number;            // Mean daily PSH for the month
+  p10Psh: number;
+  tempMaxC?: number;
+  generatedWh: number;    // Per day
+  consumedWh: number;     // Per day, seasonal loads applied
+  netWh: number;
+  cloudAutonomyDays: number;
+  lowRunDays: number;     // Longest run of low-yield days in the archive
+}
+
+export interface YearPlan {
+  months: MonthBalance[];
+  deficitMonths: number[];
+  worstMonth: number;
+  extraSolarW: number;    // Added rated solar that makes every month net-positive
+  extraBatteryWh: number; // Added usable storage to ride the worst low run at P10
+}
+
+export interface SocPoint {
+  hour: number;   // End of interval (hours since midnight)
+  soc: number;    // %
+  loadWh: number; // Consumed during the interval
+  genWh: number;  // Generated during the interval
+}
+
+export interface DaySimulation {
+  stepHours: number;
+  points: SocPoint[];
+  startSoC: number;
+  finalSoC: number;
+  minSoC: number;
+  minSoCHour: number;
+  clippedWh: number; // Surplus wasted with the battery full
+  unmetWh: number;   // Load the battery could not supply
+  controllerClippedWh: number; // Solar lost to controller current limits
+  autoRunHours: Record<string, number>; // Auto-start runtime per source id
+  autoRunningAtEnd: string[];           // Auto-start sources still running at midnight
+}
+
+export interface DayRunSummary {
+  day: number; // 1-based
+  psh: number;
+  startSoC: number;
+  endSoC: number;
+  minSoC: number;
+  clippedWh: number;
+  unmetWh: number;
+  autoRunHours: number; // All auto-start sources
+}
+
+export interface MultiDaySimulation {
+  days: DayRunSummary[];
+  autoRunHours: number;        // Whole run, all auto-start sources
+  firstFlatDay: number | null; // 1-based day the battery first runs flat
+  daysAtFull: number;          // Days that hit 100% and wasted surplus
+  wastedWh: number;
+  minSoC: number;
+}
+
+export interface PeakViolation {
+  kind: 'inverter-continuous' | 'inverter-surge' | 'bms' | 'fuse';
+  severity: 'error' | 'warning';
+  targetId: string; // Inverter or bank id
+  message: string;
+  value: number;
+  limit: number;
+  itemIds: string[]; // Loads in the worst-case set for this limit
+}
+
+// Continuous and surge peaks can come from different sets of loads at different times
+export interface PeakLoad {
+  continuousW: number;
+  surgeW: number;
+  continuousA: number; // At the bank's bus voltage (DC side)
+  surgeA: number;
+  itemIds: string[];      // Loads in the worst continuous set
+  surgeItemIds: string[]; // Loads in the worst surge set
+  continuousWindow?: TimeWindow; // When the peak can occur. Unset = any time (unscheduled or grouped loads).
+  surgeWindow?: TimeWindow;
+}
+
+export interface PeakReport {
+  banks: (PeakLoad & { bankId: string; name: string })[];
+  inverters: (PeakLoad & { inverterId: string; name: string })[];
+  violations: PeakViolation[];
 }
 
 export type ChatMode = 'general' | 'load' | 'source';
@@ -81,9 +453,317 @@ export interface ChatMessage {
   isError?: boolean;
 }
 
+export type PartKind = 'load' | 'panel' | 'source';
+
+export interface PanelSpec {
+  vocV: number;
+  iscA: number;
+  vmpV: number;
+  impA: number;
+  tempCoeffPmaxPct: number; // %/°C
+  tempCoeffVocPct: number;  // %/°C
+  noctC?: number;
+}
+
+export interface PartEntry {
+  id: string;
+  kind: PartKind;
+  manufacturer: string;
+  model: string;
+  watts: number;             // Rated running watts (loads) or output (panels/sources)
+  standbyWatts?: number;
+  dutyCycle?: number;        // Typical %, loads only
+  category?: LoadCategory;   // Loads: which table the row belongs to
+  sourceType?: ChargingSource['type']; // Sources other than panels
+  panel?: PanelSpec;
+  datasheetUrl?: string;
+  builtIn?: boolean;         // Shipped seed entry (still editable)
+  updatedAt?: number;
+}
+
+export type UpgradeKind = 'solar' | 'battery' | 'dcdc';
+
+export interface UpgradeCandidate {
+  id: string;
+  name: string;
+  kind: UpgradeKind;
+  cost: number;    // Per unit
+  watts?: number;  // Solar/DC-DC rated output. DC-DC charges on the existing alternator's drive pattern.
+  maxQty: number;  // Search limit per candidate
+}
+
+export interface AutonomyTarget {
+  kind: 'cloudDays' | 'minSoC';
+  value: number;   // Days of Cloud autonomy, or lowest SoC % allowed over the month run
+  month: number;   // 0 = January
+}
+
+export interface SheddingTarget {
+  minSoC: number;            // % the house bank must stay at or above
+  days: number;              // Length of the weather event, starting from the initial SoC
+  weather: 'cloud' | 'zero'; // Cloud-scenario PSH every day, or no charging at all
+}
+
+export interface SheddingAction {
+  itemId: string;
+  name: string;
+  priority: LoadPriority;
+  kind: 'disable' | 'reduce';
+  field?: 'hours' | 'dutyCycle'; // Reduce only
+  factor?: number;               // Reduce only: multiplies the row's current cut
+  from?: number;                 // Resolved for the plan's date and conditions
+  to?: number;
+  savedWh: number;               // Per day
+}
+
+export interface SheddingPlan {
+  baselineMinSoC: number; // Lowest SoC through the event as configured
+  minSoC: number;         // With the actions applied
+  met: boolean;
+  savedWh: number;
+  actions: SheddingAction[];
+}
+
+export interface UpgradePick {
+  candidateId: string;
+  qty: number;
+}
+
+export interface UpgradeOption {
+  picks: UpgradePick[];
+  cost: number;
+  cloudDays: number;
+  minSoC: number;
+}
+
+export interface FinanceSettings {
+  proposedSolarW: number;    // Solar upgrade to weigh against generator fuel
+  proposedSolarCost: number;
+}
+
+export interface SourceEconomics {
+  sourceId: string;
+  name: string;
+  annualKWh: number;
+  annualCost: number; // Capex spread over its lifetime, plus fuel
+  costPerKWh: number; // NaN when nothing is delivered
+}
+
+export interface GeneratorRun {
+  sourceId: string;
+  shareWh: number;    // Part of the daily deficit this generator covers, by rated output
+  hoursPerDay: number;
+}
+
+export interface GeneratorEconomics {
+  deficitWh: number;  // Daily shortfall of the house bank the generators have to cover
+  hoursPerDay: number; // Longest single run; the generators run side by side
+  runs: GeneratorRun[];
+  annualHours: number;
+  annualLitres: number;
+  annualFuelCost: number;
+}
+
+export interface BatteryWear {
+  bankId: string;
+  costPerCycle: number;      // One cycle at the rated DoD
+  costPerKWh: number;        // Per kWh discharged over the bank's rated life
+  dailyThroughputWh: number;
+  annualCost: number;
+}
+
+export interface FinanceSummary {
+  sources: SourceEconomics[];
+  generator: GeneratorEconomics | null; // Null without a fuelled generator row
+  battery: BatteryWear | null;          // Null until the house bank has a price and cycle life
+  annualCost: number;
+  annualKWhConsumed: number;
+  costPerKWh: number;                   // Everything above per kWh delivered to the loads
+  payback: {
+    cost: number;
+    annualLitresSaved: number;
+    annualSaving: number;
+    years: number; // Infinity when the upgrade saves no fuel
+  } | null;
+}
+
+export interface Scenario {
+  id: string;
+  name: string;
+  items: PowerItem[];
+  charging: ChargingSource[];
+  battery: BatteryConfig;
+  updatedAt?: number;
+}
+
+export type TelemetryFormat = 'vrm' | 'smartshunt' | 'generic';
+
+// One clock hour of a logged day, integrated from the samples
+export interface TelemetryHour {
+  inWh: number;     // Into the battery
+  outWh: number;    // Out of the battery
+  pvWh?: number;    // Solar yield, when the log has a PV column
+  soc?: number;     // Mean logged SoC
+  coverage: number; // Fraction of the hour with samples (0-1)
+}
+
+export interface TelemetryDay {
+  date: string;   // YYYY-MM-DD, local
+  inWh: number;
+  outWh: number;
+  pvWh?: number;
+  hours?: TelemetryHour[]; // 24 entries. Unset for daily-summary exports.
+}
+
+export interface TelemetryImport {
+  fileName: string;
+  format: TelemetryFormat;
+  importedAt: number;
+  days: TelemetryDay[];
+}
+
+export interface CalibrationSuggestion {
+  itemId: string;
+  name: string;
+  field: 'hours' | 'dutyCycle';
+  current: number;
+  suggested: number;
+}
+
+export interface CalibrationCategory {
+  category: LoadCategory;
+  modelledWh: number;
+  measuredWh: number;  // Modelled × factor
+  factor: number;      // Best fit of the measured hourly draw
+  evidencePct: number; // Share of the category's modelled Wh falling in hours the log can see
+  suggestions: CalibrationSuggestion[];
+}
+
+export interface CalibrationReport {
+  days: number;           // Days with hourly data
+  measuredInWh: number;   // Daily means over the whole log
+  measuredOutWh: number;
+  measuredPvWh?: number;
+  measuredConsumedWh: number | null; // Fitted daily consumption (null = nothing observable)
+  observedHours: number;  // Clock hours where consumption could be read off the log
+  categories: CalibrationCategory[];
+  unavailable?: string;   // Why nothing could be fitted (daily totals only, or no readable hour)
+}
+
+// The plan for one calendar day, as it stood when recorded
+export interface JournalPlan {
+  generatedWh: number;  // All sources (SystemTotals)
+  consumedWh: number;
+  netWh: number;
+  endSoC: number;       // SoC engine, run for this date
+  psh: number;          // Forecast PSH the plan used
+  solarWh: number;      // Solar rows before learned factors
+  sourceSolarWh: Record<string, number>; // Same, per solar row
+  recordedAt: number;
+}
+
+export interface JournalActual {
+  solarWh?: number;
+  endSoC?: number;
+  origin: 'manual' | 'telemetry';
+}
+
+export interface JournalEntry {
+  date: string; // YYYY-MM-DD, local
+  planned?: JournalPlan;
+  actual?: JournalActual;
+}
+
+export interface LearnedFactor {
+  sourceId: string;
+  factor: number; // Actual ÷ modelled yield
+  days: number;   // Journal days the row contributed to
+}
+
+export type LiveProtocol = 'homeassistant' | 'mqtt' | 'mock';
+
+// Home Assistant entity ids, or MQTT topics, per reading
+export interface LiveEntities {
+  soc: string;
+  pv: string;
+  load: string;
+  temp: string;
+}
+
+export interface LiveSettings {
+  enabled: boolean;
+  protocol: LiveProtocol;
+  url: string;        // HA base URL, or the broker's WebSocket URL
+  token?: string;     // HA long-lived access token. Kept out of exported files.
+  username?: string;  // MQTT
+  password?: string;  // MQTT. Kept out of exported files.
+  entities: LiveEntities;
+  syncSoC: boolean;   // Live SoC sets the house bank's initial SoC
+}
+
+export type LiveStatus = 'off' | 'connecting' | 'live' | 'error';
+
+export interface LiveReading {
+  socPct?: number;
+  pvW?: number;
+  loadW?: number;
+  tempC?: number;
+  pvAvgW?: number;    // Means over the recent window, for comparing with the plan
+  loadAvgW?: number;
+  updatedAt: number;
+}
+
+export type HistorySlice = 'items' | 'charging' | 'battery';
+
+// The slices an edit touched, as they stood before it. Battery snapshots carry no forecast.
+export interface HistorySnapshot {
+  items?: PowerItem[];
+  charging?: ChargingSource[];
+  battery?: BatteryConfig;
+}
+
+// Rows as a step leads back to them: the id order, and only the rows that differ
+export interface RowsPatch<T> {
+  order: string[];
+  changed: T[];
+}
+
+// Battery fields that differ, and fields the edit added
+export interface BatteryPatch {
+  set: Partial<BatteryConfig>;
+  unset: string[];
+}
+
+export interface HistoryPatch {
+  items?: RowsPatch<PowerItem>;
+  charging?: RowsPatch<ChargingSource>;
+  battery?: BatteryPatch;
+}
+
+export interface HistoryEntry {
+  label: string;
+  key?: string; // Consecutive edits with the same key merge into one step
+  at: number;
+  snapshot?: HistorySnapshot; // Newest step only, until the next edit shows where it led
+  patch?: HistoryPatch;       // Every other step
+}
+
+export interface EditHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
 export interface AppStateExport {
   version: string;
   items: PowerItem[];
   charging: ChargingSource[];
   battery: BatteryConfig;
+  scenarios?: Scenario[];     // Every named config; the active one mirrors items/charging/battery
+  activeScenarioId?: string;
+  parts?: PartEntry[];
+  finance?: FinanceSettings;
+  telemetry?: TelemetryImport;
+  live?: LiveSettings;
+  journal?: JournalEntry[];
+  rigScenarioId?: string;     // The real installation; only its plans go into the journal
 }